@@ -1,8 +1,46 @@
 import dotenv from 'dotenv';
-import type { Config } from '../types/index.js';
+import type { Config, AIModelPrice } from '../types/index.js';
 
 dotenv.config();
 
+// OpenRouter list prices (USD per million tokens). Override or extend with
+// AI_MODEL_PRICES='{"model/id":{"inputPerMillion":0.1,"outputPerMillion":0.4}}'
+const DEFAULT_AI_MODEL_PRICES: Record<string, AIModelPrice> = {
+  'google/gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'google/gemini-2.5-flash-lite': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'google/gemini-2.0-flash-001': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'openai/gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+};
+
+function parseAIModelPrices(json: string | undefined): Record<string, AIModelPrice> {
+  if (!json) return {};
+  try {
+    return JSON.parse(json) as Record<string, AIModelPrice>;
+  } catch {
+    console.error('AI_MODEL_PRICES is not valid JSON, using default prices');
+    return {};
+  }
+}
+
+// PROMPT_VERSIONS="lead_scoring=v2,job_evaluation=v1" -> { lead_scoring: 'v2', job_evaluation: 'v1' }
+function parsePromptVersions(value: string | undefined): Record<string, string> {
+  return Object.fromEntries(
+    (value || '')
+      .split(',')
+      .map((entry) => entry.split('=').map((part) => part.trim()))
+      .filter(([id, version]) => id && version)
+  );
+}
+
+// "a, b,,c" -> ['a', 'b', 'c']
+function parseList(value: string | undefined, separator = ','): string[] {
+  return (value || '')
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
 export const config: Config = {
   port: process.env.PORT || 8000,
   nodeEnv: process.env.NODE_ENV || 'development',
@@ -25,6 +63,8 @@ export const config: Config = {
   supabase: {
     url: process.env.SUPABASE_URL!,
     key: process.env.SUPABASE_KEY,
+    // Storage bucket the website uploads candidate CVs to; the only place fileUrl may point
+    cvBucket: process.env.SUPABASE_CV_BUCKET || 'resumes',
   },
 
   // Resend (for email)
@@ -41,6 +81,10 @@ export const config: Config = {
   // Webhook security
   webhook: {
     secret: process.env.WEBHOOK_SECRET,
+    // Signed requests older (or newer) than this are rejected as replays
+    timestampToleranceSeconds: parseInt(process.env.WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS || '300', 10),
+    // How long a submission's result is returned for repeats of its idempotency key
+    idempotencyTtlHours: parseInt(process.env.WEBHOOK_IDEMPOTENCY_TTL_HOURS || '24', 10),
   },
 
   // Apify (for scrapers)
@@ -69,14 +113,57 @@ export const config: Config = {
     googleMapsEnabled: process.env.GOOGLEMAPS_ENABLED !== 'false',
     keywords: process.env.SCRAPER_KEYWORDS || '',
     exclusionKeywords: process.env.SCRAPER_EXCLUSION_KEYWORDS?.split(',').map((k) => k.trim()) || [],
+    titleExclusionKeywords: parseList(process.env.SCRAPER_TITLE_EXCLUSION_KEYWORDS),
+    // Semicolon-separated, since patterns may contain commas
+    exclusionPatterns: parseList(process.env.SCRAPER_EXCLUSION_PATTERNS, ';'),
+    excludeSenior: process.env.SCRAPER_EXCLUDE_SENIOR === 'true',
+    blockedCompanies: parseList(process.env.SCRAPER_BLOCKED_COMPANIES),
+    minDescriptionLength: parseInt(process.env.SCRAPER_MIN_DESCRIPTION_LENGTH || '0', 10),
     country: process.env.SCRAPER_COUNTRY || 'SE',
     maxItems: parseInt(process.env.SCRAPER_MAX_ITEMS || '50', 10),
     retentionDays: parseInt(process.env.JOB_RETENTION_DAYS || '20', 10),
   },
+
+  // AI result cache (memory | table | off)
+  // Entries are keyed by model + prompt version + input hash, so prompt or
+  // model changes never serve stale results; the TTL bounds everything else.
+  aiCache: {
+    backend: (['memory', 'table', 'off'] as const).find((b) => b === process.env.AI_CACHE_BACKEND) ?? 'memory',
+    ttlHours: parseInt(process.env.AI_CACHE_TTL_HOURS || '168', 10),
+    maxEntries: parseInt(process.env.AI_CACHE_MAX_ENTRIES || '5000', 10),
+  },
+
+  // Price table for AI usage cost estimates
+  aiPricing: { ...DEFAULT_AI_MODEL_PRICES, ...parseAIModelPrices(process.env.AI_MODEL_PRICES) },
+
+  // LLM provider: openai (OpenRouter / OpenAI) or mock (replays fixtures, no network)
+  llm: {
+    provider: process.env.LLM_PROVIDER === 'mock' ? 'mock' : 'openai',
+    fixturesDir: process.env.LLM_FIXTURES_DIR,
+    // When set, real responses are saved here as fixtures for the mock provider
+    recordFixturesDir: process.env.LLM_RECORD_FIXTURES_DIR,
+  },
+
+  // Storage backend: supabase or memory (in-process tables, nothing persisted)
+  storage: {
+    backend: process.env.STORAGE_BACKEND === 'memory' ? 'memory' : 'supabase',
+  },
+
+  // Lead quality rules: JSON file merged over the defaults in config/leadRules.config.ts
+  leadRules: {
+    file: process.env.LEAD_RULES_FILE,
+  },
+
+  // Active prompt version per prompt id (prompts/registry.ts); unset prompts use their default
+  prompts: {
+    versions: parsePromptVersions(process.env.PROMPT_VERSIONS),
+  },
 };
 
 // Validation
-const requiredEnvVars = ['OPENROUTER_API_KEY', 'SUPABASE_URL', 'SUPABASE_KEY', 'RESEND_API_KEY'];
+const requiredEnvVars = ['RESEND_API_KEY'];
+if (config.storage.backend !== 'memory') requiredEnvVars.push('SUPABASE_URL', 'SUPABASE_KEY');
+if (config.llm.provider !== 'mock') requiredEnvVars.push('OPENROUTER_API_KEY');
 const missing = requiredEnvVars.filter((key) => !process.env[key]);
 
 if (missing.length > 0 && process.env.NODE_ENV !== 'test') {
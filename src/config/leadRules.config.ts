@@ -0,0 +1,99 @@
+import type { LeadRulesConfig } from '../schemas/leadRules.js';
+
+/**
+ * Default lead quality rules for website form submissions.
+ *
+ * Weights add up per lead; at the default threshold of 50 a single spam indicator
+ * (30) passes and two of them reject, as the old "two of four indicators" check did.
+ * An incomplete form (validation score 30 or below) rejects on its own.
+ *
+ * Override or extend with LEAD_RULES_FILE (see README).
+ */
+export const defaultLeadRulesConfig: LeadRulesConfig = {
+  threshold: 50,
+  rules: [
+    {
+      id: 'spam_keywords',
+      type: 'keywords',
+      weight: 30,
+      description: 'Pharma, gambling and crypto vocabulary',
+      params: { fields: ['needs_description'], patterns: ['viagra|cialis|casino|crypto|bitcoin'] },
+    },
+    {
+      id: 'marketing_phrases',
+      type: 'keywords',
+      weight: 30,
+      description: 'Sales-pitch phrases',
+      params: { fields: ['needs_description'], patterns: ['click here|buy now|limited offer'] },
+    },
+    {
+      id: 'links',
+      type: 'keywords',
+      weight: 30,
+      description: 'Links in the message',
+      params: { fields: ['needs_description'], patterns: ['http'] },
+    },
+    {
+      id: 'fake_email_domain',
+      type: 'email_domain',
+      weight: 30,
+      description: 'Placeholder email domains',
+      params: { patterns: ['^(test|example|temp|fake)'] },
+    },
+    {
+      id: 'disposable_email',
+      type: 'disposable_email',
+      weight: 40,
+      description: 'Throwaway inbox providers',
+      params: {
+        domains: [
+          'mailinator.com',
+          'guerrillamail.com',
+          'guerrillamail.net',
+          'sharklasers.com',
+          '10minutemail.com',
+          'temp-mail.org',
+          'tempmail.com',
+          'tempmail.net',
+          'yopmail.com',
+          'trashmail.com',
+          'getnada.com',
+          'dispostable.com',
+          'maildrop.cc',
+          'throwawaymail.com',
+          'fakeinbox.com',
+          'mintemail.com',
+          'mohmal.com',
+          'emailondeck.com',
+        ],
+      },
+    },
+    {
+      id: 'gibberish',
+      type: 'gibberish',
+      weight: 40,
+      description: 'Keyboard mashing in name, company or message',
+      params: {
+        fields: ['full_name', 'company_name', 'needs_description'],
+        minLetters: 8,
+        maxConsonantRun: 6,
+        minVowelRatio: 0.15,
+        minEntropy: 2.5,
+      },
+    },
+    {
+      id: 'repeat_submitter',
+      type: 'repeat_submitter',
+      weight: 30,
+      description: 'Many submissions from the same email',
+      params: { windowHours: 24, maxSubmissions: 3 },
+    },
+    {
+      id: 'incomplete_form',
+      type: 'incomplete',
+      weight: 100,
+      description: 'Too few form fields filled in properly',
+      params: { minValidationScore: 31 },
+    },
+  ],
+};
@@ -196,9 +196,11 @@ The endpoint paths (\`/api/admin/jobs\`, \`/api/docs\`, etc.) stay the same —
             id: { type: 'string', format: 'uuid' },
             name: { type: 'string', example: 'Volvo AB' },
             domain: { type: 'string', nullable: true },
+            org_number: { type: 'string', nullable: true, example: '556737-0431' },
             industry: { type: 'string', nullable: true },
             region: { type: 'string', nullable: true },
-            current_score: { type: 'integer', example: 75 },
+            current_score: { type: 'integer', example: 75, description: 'Lead score 0-100 from all signals, decayed over time' },
+            scored_at: { type: 'string', format: 'date-time', nullable: true },
             status: { type: 'string', example: 'pending' },
             source: { type: 'array', items: { type: 'string' } },
             website: { type: 'string', nullable: true },
@@ -272,7 +274,25 @@ The endpoint paths (\`/api/admin/jobs\`, \`/api/docs\`, etc.) stay the same —
           type: 'object',
           properties: {
             keywords: { type: 'string', description: 'Comma-separated search keywords', example: 'ekonom,ingenjör' },
-            exclusionKeywords: { type: 'array', items: { type: 'string' }, example: ['senior', 'chef'] },
+            exclusionKeywords: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Whole words matched in title, company and description; * matches the rest of a word',
+              example: ['kock', 'sjukskötersk*'],
+            },
+            titleExclusionKeywords: { type: 'array', items: { type: 'string' }, example: ['*chef', 'trainee'] },
+            exclusionPatterns: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Case-insensitive regular expressions matched in title and description',
+              example: ['körkort\\s+c[e]?\\b'],
+            },
+            excludeSenior: {
+              type: 'boolean',
+              description: 'Drop senior titles and ads requiring more than 8 years of experience',
+            },
+            blockedCompanies: { type: 'array', items: { type: 'string' }, example: ['Academic Work'] },
+            minDescriptionLength: { type: 'integer', example: 200 },
             country: { type: 'string', default: 'SE' },
             maxItems: { type: 'integer', default: 50 },
           },
@@ -288,22 +308,154 @@ The endpoint paths (\`/api/admin/jobs\`, \`/api/docs\`, etc.) stay the same —
               properties: {
                 fetched: { type: 'integer' },
                 afterDedup: { type: 'integer' },
+                crossSourceDuplicates: {
+                  type: 'integer',
+                  description: 'Postings already stored from another source, linked to the canonical job',
+                },
                 afterFilter: { type: 'integer' },
+                filterDrops: {
+                  type: 'object',
+                  additionalProperties: { type: 'integer' },
+                  description: 'Jobs dropped by each filter stage',
+                  example: { min_description_length: 1, seniority: 2, keywords: 0 },
+                },
                 processed: { type: 'integer' },
                 valid: { type: 'integer' },
                 discarded: { type: 'integer' },
                 errors: { type: 'integer' },
+                hiringSpikes: {
+                  type: 'integer',
+                  description: 'hiring_spike signals recorded for companies with new valid jobs',
+                },
               },
             },
             summary: {
               type: 'object',
               properties: {
                 newJobsFound: { type: 'integer' },
+                crossSourceDuplicates: { type: 'integer' },
                 validJobs: { type: 'integer' },
                 discardedJobs: { type: 'integer' },
                 errors: { type: 'integer' },
+                aiCache: { $ref: '#/components/schemas/AICacheStats' },
+              },
+            },
+          },
+        },
+        AICacheStats: {
+          type: 'object',
+          description: 'AI result cache lookups made while handling the request (both 0 when the cache is off)',
+          properties: {
+            hits: { type: 'integer', example: 9 },
+            misses: { type: 'integer', example: 6 },
+          },
+        },
+        AIUsageTotals: {
+          type: 'object',
+          properties: {
+            calls: { type: 'integer', example: 420 },
+            failedCalls: { type: 'integer', example: 3, description: 'Completions that failed JSON parsing or validation' },
+            promptTokens: { type: 'integer', example: 812000 },
+            completionTokens: { type: 'integer', example: 96000 },
+            costUsd: { type: 'number', example: 0.4836 },
+          },
+        },
+        AIUsageSummary: {
+          type: 'object',
+          properties: {
+            from: { type: 'string', format: 'date' },
+            to: { type: 'string', format: 'date' },
+            totals: { $ref: '#/components/schemas/AIUsageTotals' },
+            byFeature: {
+              type: 'array',
+              description: 'Sorted by cost, highest first',
+              items: {
+                allOf: [
+                  { $ref: '#/components/schemas/AIUsageTotals' },
+                  {
+                    type: 'object',
+                    properties: {
+                      feature: { type: 'string', example: 'job_evaluation' },
+                      models: { type: 'array', items: { type: 'string' } },
+                      avgLatencyMs: { type: 'integer', example: 2300 },
+                    },
+                  },
+                ],
+              },
+            },
+            byDay: {
+              type: 'array',
+              items: {
+                allOf: [
+                  { $ref: '#/components/schemas/AIUsageTotals' },
+                  { type: 'object', properties: { day: { type: 'string', format: 'date' } } },
+                ],
+              },
+            },
+          },
+        },
+        ScraperRunAccepted: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: true },
+            async: { type: 'boolean', example: true },
+            runId: { type: 'string', format: 'uuid' },
+            status: { type: 'string', enum: ['queued', 'running'] },
+            queuePosition: { type: 'integer', example: 0, description: '0 when the run has already started' },
+            statusUrl: { type: 'string', example: '/api/scraping/runs/3f2b…' },
+          },
+        },
+        ScraperRunStatus: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: true },
+            runId: { type: 'string', format: 'uuid' },
+            source: { type: 'string', example: 'linkedin' },
+            scraperType: { type: 'string', enum: ['job', 'lead'] },
+            status: { type: 'string', enum: ['queued', 'running', 'completed', 'failed'] },
+            stage: { type: 'string', enum: ['queued', 'fetching', 'processing', 'finished'] },
+            progress: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                completed: { type: 'integer', example: 12 },
+                total: { type: 'integer', example: 40 },
+                succeeded: { type: 'integer', example: 12 },
+              },
+            },
+            queuePosition: { type: 'integer', example: 0 },
+            queuedAt: { type: 'string', format: 'date-time' },
+            startedAt: { type: 'string', format: 'date-time', nullable: true },
+            finishedAt: { type: 'string', format: 'date-time', nullable: true },
+            result: { type: 'object', nullable: true, description: 'Stats and summary once completed' },
+            error: { type: 'string', nullable: true },
+          },
+        },
+        ScraperRun: {
+          type: 'object',
+          properties: {
+            run_id: { type: 'string', format: 'uuid' },
+            source: { type: 'string', example: 'linkedin' },
+            scraper_type: { type: 'string', enum: ['job', 'lead'] },
+            status: { type: 'string', enum: ['completed', 'partial', 'failed'] },
+            config: { type: 'object', example: { country: 'SE', maxItems: 10 } },
+            stats: { type: 'object', example: { fetched: 0, afterDedup: 0, processed: 0, valid: 0, errors: 0 } },
+            errors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  error: { type: 'string' },
+                  externalId: { type: 'string' },
+                  title: { type: 'string' },
+                  company: { type: 'string' },
+                },
               },
             },
+            error_count: { type: 'integer' },
+            started_at: { type: 'string', format: 'date-time' },
+            finished_at: { type: 'string', format: 'date-time' },
+            duration_ms: { type: 'integer', example: 45000 },
           },
         },
       },
@@ -316,7 +468,7 @@ The endpoint paths (\`/api/admin/jobs\`, \`/api/docs\`, etc.) stay the same —
       { name: 'Contacts', description: 'Browse extracted contacts from scrapers and form submissions' },
       { name: 'Signals', description: 'Browse recruitment signals (job postings, form submissions, map listings)' },
       { name: 'Stats', description: 'Aggregated statistics and health check data' },
-      { name: 'Scrapers', description: 'Trigger scraper runs (typically called by cron jobs)' },
+      { name: 'Scrapers', description: 'Trigger scraper runs (typically called by cron jobs) and browse run history' },
       { name: 'Webhook', description: 'Form submission webhook (called by the Rookie website)' },
       { name: 'CV Parsing', description: 'AI-powered CV/resume parsing — extracts structured candidate data from PDF uploads' },
     ],
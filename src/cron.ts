@@ -1,6 +1,7 @@
 import cron from 'node-cron';
 import { config } from './config/env.js';
 import { logger } from './utils/logger.js';
+import { getJobSources } from './services/jobs/jobSourceRegistry.js';
 
 const BASE_URL = `http://localhost:${config.port}`;
 const PLATFORM_URL = process.env.PLATFORM_URL || 'http://localhost:3000';
@@ -45,14 +46,16 @@ async function callEndpoint(name: string, method: string, path: string, baseUrl
  * Register all cron jobs. Call this after the server has started listening.
  *
  * Schedule overview (all times UTC):
- *   06:00 daily  — Indeed job scraper
- *   07:00 daily  — LinkedIn job scraper
- *   08:00 daily  — Arbetsförmedlingen job scraper
+ *   Job scrapers — one per registered job source, schedule defined on the adapter
+ *                  (Indeed 06:00, LinkedIn 07:00, Arbetsförmedlingen 08:00 daily)
  *   10:00 Sunday — Google Maps lead scraper (weekly during dev, later every few months)
  *   00:00 Sunday — Expired job cleanup
  *   08:00 Monday — Health check digest email
+ *   03:00 daily  — Company rescore (scores decay without new signals)
+ *   Every 5 min  — Webhook outbox retries
  *
- * To add a new scraper: add one schedule() call below.
+ * To add a new job board: register its adapter in services/jobs/jobSourceRegistry.ts.
+ * To add a new lead scraper: add one schedule() call below.
  */
 export function startCronJobs(): void {
   const scraperEnabled = config.scraper?.enabled ?? true;
@@ -61,31 +64,17 @@ export function startCronJobs(): void {
   if (scraperEnabled) {
     // Job scrapers — staggered daily. Each is gated by its own flag so
     // a single scraper can be paused without touching the others.
-    if (config.scraper.indeedEnabled) {
-      cron.schedule('0 6 * * *', () => callEndpoint('Indeed scraper', 'POST', '/api/scraping/jobs/indeed'), {
-        timezone: 'UTC',
-      });
-      scheduledJobs.push('Indeed (daily 06:00 UTC)');
-    } else {
-      logger.warn('[cron] INDEED_ENABLED=false — Indeed scraper cron skipped');
-    }
-
-    if (config.scraper.linkedinEnabled) {
-      cron.schedule('0 7 * * *', () => callEndpoint('LinkedIn scraper', 'POST', '/api/scraping/jobs/linkedin'), {
-        timezone: 'UTC',
-      });
-      scheduledJobs.push('LinkedIn (daily 07:00 UTC)');
-    } else {
-      logger.warn('[cron] LINKEDIN_ENABLED=false — LinkedIn scraper cron skipped');
-    }
-
-    if (config.scraper.afEnabled) {
-      cron.schedule('0 8 * * *', () => callEndpoint('AF scraper', 'POST', '/api/scraping/jobs/af'), {
-        timezone: 'UTC',
-      });
-      scheduledJobs.push('AF (daily 08:00 UTC)');
-    } else {
-      logger.warn('[cron] AF_ENABLED=false — Arbetsförmedlingen scraper cron skipped');
+    for (const adapter of getJobSources()) {
+      if (adapter.isEnabled()) {
+        cron.schedule(
+          adapter.schedule.cron,
+          () => callEndpoint(`${adapter.displayName} scraper`, 'POST', `/api/scraping/jobs/${adapter.slug}`),
+          { timezone: 'UTC' }
+        );
+        scheduledJobs.push(`${adapter.displayName} (${adapter.schedule.label})`);
+      } else {
+        logger.warn(`[cron] ${adapter.enabledFlag}=false — ${adapter.displayName} scraper cron skipped`);
+      }
     }
 
     // Lead scrapers — weekly during development, reduce frequency once good coverage achieved
@@ -113,6 +102,18 @@ export function startCronJobs(): void {
   });
   scheduledJobs.push('Health digest (Monday 08:00 UTC)');
 
+  // Company rescore — daily (always runs; scores decay even when no scraper adds signals)
+  cron.schedule('0 3 * * *', () => callEndpoint('Company rescore', 'POST', '/api/admin/companies/rescore'), {
+    timezone: 'UTC',
+  });
+  scheduledJobs.push('Company rescore (daily 03:00 UTC)');
+
+  // Webhook outbox — retry failed valid-lead side effects (always runs; no-op when nothing is due)
+  cron.schedule('*/5 * * * *', () => callEndpoint('Webhook outbox', 'POST', '/api/admin/outbox/process'), {
+    timezone: 'UTC',
+  });
+  scheduledJobs.push('Webhook outbox (every 5 min)');
+
   // Match notifications — every 30 min, calls platform (Next.js) endpoint
   // Jobs must be 20+ min old to avoid immediate sends after scraping
   cron.schedule('*/30 * * * *', () => callEndpoint('Match notifications', 'GET', '/api/cron/match-notifications', PLATFORM_URL), {
@@ -0,0 +1,195 @@
+import fs from 'fs';
+import { z } from 'zod';
+import { getErrorMessage } from '../../utils/logger.js';
+import { getPrompt, setPromptVersion } from '../../prompts/registry.js';
+import { getLLMProvider, setLLMProvider, type LLMProvider } from '../../services/llmProvider.js';
+import { setAICacheBackend } from '../../services/aiCache.js';
+import {
+  classificationReport,
+  fieldReport,
+  ERROR_LABEL,
+  type ClassificationReport,
+  type FieldReport,
+} from './metrics.js';
+import type { EvalExample, EvalTask } from './tasks.js';
+
+export interface EvalOptions {
+  // Prompt version to evaluate (default: the active version)
+  promptVersion?: string;
+  // Call only this model instead of the prompt's model chain
+  model?: string;
+  // Provider to call (default: the configured one)
+  provider?: LLMProvider;
+}
+
+export interface EvalExampleResult {
+  id: string;
+  labels: Record<string, { expected: string; predicted: string }>;
+  fields: Record<string, boolean>;
+  error?: string;
+}
+
+export interface EvalRun {
+  promptId: string;
+  promptVersion: string;
+  model: string | null;
+  examples: EvalExampleResult[];
+  errors: number;
+  labels: Record<string, ClassificationReport>;
+  fields: Record<string, FieldReport>;
+}
+
+export interface EvalLabelChange {
+  id: string;
+  dimension: string;
+  expected: string;
+  before: string;
+  after: string;
+}
+
+export interface EvalComparison {
+  accuracy: Record<string, { before: number | null; after: number | null }>;
+  fields: Record<string, { before: number | null; after: number | null }>;
+  // Examples whose predicted label differs between the runs
+  changes: EvalLabelChange[];
+}
+
+const exampleSchema = z.object({
+  id: z.union([z.string(), z.number()]).transform(String),
+  input: z.record(z.unknown()),
+  expected: z.record(z.unknown()),
+});
+
+/**
+ * Read a JSONL dataset: one `{ "id", "input", "expected" }` object per line.
+ * Blank lines and lines starting with // are skipped.
+ */
+export function loadEvalDataset(file: string, task: EvalTask): EvalExample[] {
+  return fs
+    .readFileSync(file, 'utf8')
+    .split('\n')
+    .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+    .filter(({ line }) => line && !line.startsWith('//'))
+    .map(({ line, lineNumber }) => {
+      try {
+        const example = exampleSchema.parse(JSON.parse(line));
+        task.inputSchema.parse(example.input);
+        return example;
+      } catch (error) {
+        throw new Error(`${file}:${lineNumber}: invalid example: ${getErrorMessage(error)}`);
+      }
+    });
+}
+
+// Pin every call to one model
+function withModel(provider: LLMProvider, model: string): LLMProvider {
+  return { ...provider, resolveModelChain: () => [model] };
+}
+
+/**
+ * Run every example of a dataset through a task's prompt, one at a time.
+ * Failed examples are kept with their error and count as ERROR_LABEL predictions.
+ * The AI cache is disabled so every example is really evaluated.
+ */
+export async function runEval(task: EvalTask, examples: EvalExample[], options: EvalOptions = {}): Promise<EvalRun> {
+  const previousProvider = getLLMProvider();
+  const provider = options.provider ?? previousProvider;
+  setLLMProvider(options.model ? withModel(provider, options.model) : provider);
+  setPromptVersion(task.promptId, options.promptVersion);
+  setAICacheBackend(null);
+
+  const results: EvalExampleResult[] = [];
+
+  try {
+    for (const example of examples) {
+      const result: EvalExampleResult = { id: example.id, labels: {}, fields: {} };
+      let output: unknown;
+
+      try {
+        output = await task.run(example.input);
+      } catch (error) {
+        result.error = getErrorMessage(error);
+      }
+
+      const predicted = output === undefined ? {} : (task.labels?.(output) ?? {});
+      for (const dimension of task.dimensions ?? []) {
+        if (example.expected[dimension] === undefined) continue;
+        result.labels[dimension] = {
+          expected: String(example.expected[dimension]),
+          predicted: predicted[dimension] ?? ERROR_LABEL,
+        };
+      }
+
+      if (task.fields) {
+        result.fields = task.fields(output === undefined ? null : output, example.expected);
+      }
+
+      results.push(result);
+    }
+  } finally {
+    setPromptVersion(task.promptId, undefined);
+    setLLMProvider(previousProvider);
+  }
+
+  const dimensions = [...new Set(results.flatMap((result) => Object.keys(result.labels)))];
+  const fieldNames = [...new Set(results.flatMap((result) => Object.keys(result.fields)))];
+
+  return {
+    promptId: task.promptId,
+    promptVersion: options.promptVersion ?? getPrompt(task.promptId).version,
+    model: options.model ?? null,
+    examples: results,
+    errors: results.filter((result) => result.error).length,
+    labels: Object.fromEntries(
+      dimensions.map((dimension) => [
+        dimension,
+        classificationReport(results.flatMap((result) => (result.labels[dimension] ? [result.labels[dimension]] : []))),
+      ])
+    ),
+    fields: Object.fromEntries(
+      fieldNames.map((field) => [
+        field,
+        fieldReport(results.flatMap((result) => (field in result.fields ? [result.fields[field]] : []))),
+      ])
+    ),
+  };
+}
+
+/**
+ * Compare two runs over the same dataset: accuracy per dimension, field match
+ * rates, and the examples whose prediction changed.
+ */
+export function compareEvalRuns(before: EvalRun, after: EvalRun): EvalComparison {
+  const afterById = new Map(after.examples.map((example) => [example.id, example]));
+  const changes: EvalLabelChange[] = [];
+
+  for (const example of before.examples) {
+    const other = afterById.get(example.id);
+    if (!other) continue;
+
+    for (const [dimension, label] of Object.entries(example.labels)) {
+      const otherLabel = other.labels[dimension];
+      if (otherLabel && otherLabel.predicted !== label.predicted) {
+        changes.push({ id: example.id, dimension, expected: label.expected, before: label.predicted, after: otherLabel.predicted });
+      }
+    }
+  }
+
+  const keys = (a: Record<string, unknown>, b: Record<string, unknown>) => [...new Set([...Object.keys(a), ...Object.keys(b)])];
+
+  return {
+    accuracy: Object.fromEntries(
+      keys(before.labels, after.labels).map((dimension) => [
+        dimension,
+        { before: before.labels[dimension]?.accuracy ?? null, after: after.labels[dimension]?.accuracy ?? null },
+      ])
+    ),
+    fields: Object.fromEntries(
+      keys(before.fields, after.fields).map((field) => [
+        field,
+        { before: before.fields[field]?.rate ?? null, after: after.fields[field]?.rate ?? null },
+      ])
+    ),
+    changes,
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Classification metrics for prompt evals: accuracy, per-label precision /
+ * recall / F1 and a confusion matrix (expected label -> predicted label).
+ */
+
+// Predicted label of an example the prompt failed on (LLM or schema error)
+export const ERROR_LABEL = '(error)';
+
+export interface LabelMetrics {
+  label: string;
+  // Examples with this expected label
+  support: number;
+  // null when the label was never predicted / never expected
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface ClassificationReport {
+  total: number;
+  correct: number;
+  accuracy: number | null;
+  labels: LabelMetrics[];
+  confusion: Record<string, Record<string, number>>;
+}
+
+export interface FieldReport {
+  total: number;
+  matched: number;
+  rate: number | null;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+const ratio = (numerator: number, denominator: number) => (denominator ? round(numerator / denominator) : null);
+
+export function classificationReport(pairs: Array<{ expected: string; predicted: string }>): ClassificationReport {
+  const confusion: Record<string, Record<string, number>> = {};
+  for (const { expected, predicted } of pairs) {
+    confusion[expected] ??= {};
+    confusion[expected][predicted] = (confusion[expected][predicted] ?? 0) + 1;
+  }
+
+  const labels = [...new Set(pairs.flatMap((pair) => [pair.expected, pair.predicted]))]
+    .filter((label) => label !== ERROR_LABEL)
+    .sort();
+
+  const correct = pairs.filter((pair) => pair.expected === pair.predicted).length;
+
+  return {
+    total: pairs.length,
+    correct,
+    accuracy: ratio(correct, pairs.length),
+    labels: labels.map((label) => {
+      const truePositives = pairs.filter((pair) => pair.expected === label && pair.predicted === label).length;
+      const predicted = pairs.filter((pair) => pair.predicted === label).length;
+      const support = pairs.filter((pair) => pair.expected === label).length;
+      const precision = ratio(truePositives, predicted);
+      const recall = ratio(truePositives, support);
+      const f1 = precision !== null && recall !== null && precision + recall > 0
+        ? round((2 * precision * recall) / (precision + recall))
+        : null;
+
+      return { label, support, precision, recall, f1 };
+    }),
+    confusion,
+  };
+}
+
+export function fieldReport(matches: boolean[]): FieldReport {
+  const matched = matches.filter(Boolean).length;
+  return { total: matches.length, matched, rate: ratio(matched, matches.length) };
+}
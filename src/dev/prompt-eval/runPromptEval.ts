@@ -0,0 +1,150 @@
+/**
+ * Offline prompt evaluation against a labelled dataset
+ *
+ * Runs one prompt (and optionally a second version of it) over a JSONL golden
+ * dataset and prints accuracy, per-label precision / recall, confusion matrices
+ * and field match rates. With --compare, the two versions are diffed side by side
+ * and every example whose prediction changed is listed.
+ *
+ * Tasks: job_evaluation, lead_scoring, cv_parsing (see tasks.ts and datasets/).
+ *
+ * Record real responses once, then replay them without network:
+ *   pnpm eval:prompts --task job_evaluation --dataset src/dev/prompt-eval/datasets/jobs.jsonl --record ./fixtures/eval
+ *   LLM_PROVIDER=mock pnpm eval:prompts --task job_evaluation \
+ *     --dataset src/dev/prompt-eval/datasets/jobs.jsonl --replay ./fixtures/eval --version v1 --compare v2
+ *
+ * Options:
+ *   --task <id>          Eval task (required)
+ *   --dataset <file>     JSONL dataset (required)
+ *   --version <v>        Prompt version to evaluate (default: active version)
+ *   --compare <v>        Second prompt version to diff against --version
+ *   --model <id>         Call only this model instead of the prompt's model chain
+ *   --replay <dir>       Replay recorded responses (fixtures for the exact prompt only)
+ *   --record <dir>       Record responses as fixtures while calling the configured provider
+ *   --json <file>        Also write the full report as JSON
+ *
+ * Requires: .env as for the server. Replay needs no OPENROUTER_API_KEY with LLM_PROVIDER=mock.
+ *
+ * NOTE: For local use only. Do NOT deploy to production.
+ */
+
+import fs from 'fs';
+import { parseArgs } from 'util';
+import { getLLMProvider } from '../../services/llmProvider.js';
+import { createMockLLMProvider, createRecordingLLMProvider } from '../../services/mockLLMProvider.js';
+import { EVAL_TASKS } from './tasks.js';
+import { loadEvalDataset, runEval, compareEvalRuns, type EvalRun, type EvalComparison } from './evalRunner.js';
+
+const percent = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(1)}%`);
+
+function printRun(run: EvalRun): void {
+  console.log(`\n=== ${run.promptId} ${run.promptVersion}${run.model ? ` (${run.model})` : ''} ===`);
+  console.log(`Examples: ${run.examples.length}, errors: ${run.errors}`);
+
+  for (const [dimension, report] of Object.entries(run.labels)) {
+    console.log(`\n${dimension}: accuracy ${percent(report.accuracy)} (${report.correct}/${report.total})`);
+    console.table(
+      Object.fromEntries(
+        report.labels.map((label) => [
+          label.label,
+          { support: label.support, precision: percent(label.precision), recall: percent(label.recall), f1: percent(label.f1) },
+        ])
+      )
+    );
+    console.log('Confusion (rows: expected, columns: predicted)');
+    console.table(report.confusion);
+  }
+
+  if (Object.keys(run.fields).length > 0) {
+    console.log('\nFields');
+    console.table(
+      Object.fromEntries(
+        Object.entries(run.fields).map(([field, report]) => [field, { matched: `${report.matched}/${report.total}`, rate: percent(report.rate) }])
+      )
+    );
+  }
+
+  for (const example of run.examples.filter((result) => result.error)) {
+    console.log(`  ✗ ${example.id}: ${example.error}`);
+  }
+}
+
+function printComparison(before: EvalRun, after: EvalRun, comparison: EvalComparison): void {
+  console.log(`\n=== ${before.promptVersion} vs ${after.promptVersion} ===`);
+  console.table(
+    Object.fromEntries(
+      [...Object.entries(comparison.accuracy), ...Object.entries(comparison.fields)].map(([key, value]) => [
+        key,
+        { [before.promptVersion]: percent(value.before), [after.promptVersion]: percent(value.after) },
+      ])
+    )
+  );
+
+  if (comparison.changes.length === 0) {
+    console.log('No predictions changed');
+    return;
+  }
+
+  console.log(`${comparison.changes.length} predictions changed`);
+  for (const change of comparison.changes) {
+    const mark = change.after === change.expected ? '+' : change.before === change.expected ? '-' : ' ';
+    console.log(`  ${mark} ${change.id} ${change.dimension}: ${change.before} -> ${change.after} (expected ${change.expected})`);
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      task: { type: 'string' },
+      dataset: { type: 'string' },
+      version: { type: 'string' },
+      compare: { type: 'string' },
+      model: { type: 'string' },
+      replay: { type: 'string' },
+      record: { type: 'string' },
+      json: { type: 'string' },
+    },
+  });
+
+  const task = values.task ? EVAL_TASKS[values.task] : undefined;
+  if (!task || !values.dataset) {
+    console.error(`Usage: pnpm eval:prompts --task <${Object.keys(EVAL_TASKS).join('|')}> --dataset <file.jsonl> [options]`);
+    process.exit(1);
+  }
+  if (values.replay && values.record) {
+    console.error('--replay and --record cannot be combined');
+    process.exit(1);
+  }
+
+  const examples = loadEvalDataset(values.dataset, task);
+  const provider = values.replay
+    ? createMockLLMProvider({ fixturesDir: values.replay, matchPrompt: true })
+    : values.record
+      ? createRecordingLLMProvider(getLLMProvider(), values.record)
+      : getLLMProvider();
+
+  console.log(`Evaluating ${task.promptId} on ${examples.length} examples from ${values.dataset} (${provider.name})`);
+
+  const runOptions = { model: values.model, provider };
+  const before = await runEval(task, examples, { ...runOptions, promptVersion: values.version });
+  printRun(before);
+
+  let after: EvalRun | undefined;
+  let comparison: EvalComparison | undefined;
+  if (values.compare) {
+    after = await runEval(task, examples, { ...runOptions, promptVersion: values.compare });
+    comparison = compareEvalRuns(before, after);
+    printRun(after);
+    printComparison(before, after, comparison);
+  }
+
+  if (values.json) {
+    fs.writeFileSync(values.json, JSON.stringify({ runs: after ? [before, after] : [before], comparison }, null, 2));
+    console.log(`\nReport written to ${values.json}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,99 @@
+import { z } from 'zod';
+import { evaluateJob, scoreLead, parseCv } from '../../services/aiService.js';
+import type { PromptId } from '../../prompts/registry.js';
+import type { CvParsedData } from '../../prompts/cvParsing.prompt.js';
+import type { JobEvaluationResult } from '../../types/scraper.types.js';
+import type { AIScoreResult } from '../../types/index.js';
+
+/**
+ * Eval tasks: how to run one labelled example through a prompt and compare the
+ * output with the expected answer.
+ *
+ * `labels` are classification dimensions (e.g. isValid, category), scored with
+ * precision / recall and a confusion matrix. `fields` are extracted values
+ * (CV parsing), scored as the share of examples where the field matched.
+ * Dimensions and fields missing from an example's `expected` are not scored.
+ */
+
+export interface EvalExample {
+  id: string;
+  input: Record<string, unknown>;
+  expected: Record<string, unknown>;
+}
+
+export interface EvalTask<T = unknown> {
+  promptId: PromptId;
+  description: string;
+  inputSchema: z.ZodTypeAny;
+  run(input: Record<string, unknown>): Promise<T>;
+  // Classification dimensions and the predicted label of each
+  dimensions?: string[];
+  labels?: (output: T) => Record<string, string>;
+  // Whether each expected field matched (output is null when the example failed)
+  fields?: (output: T | null, expected: Record<string, unknown>) => Record<string, boolean>;
+}
+
+const normalize = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+// Every expected item is among the extracted ones (case-insensitive)
+const containsAll = (extracted: Array<string | null>, expected: unknown) =>
+  Array.isArray(expected) && expected.every((item) => extracted.some((value) => normalize(value) === normalize(item)));
+
+const jobEvaluation: EvalTask<JobEvaluationResult> = {
+  promptId: 'job_evaluation',
+  description: 'Scraped jobs with a known isValid and category',
+  inputSchema: z.object({ title: z.string(), company: z.string(), description: z.string() }).passthrough(),
+  run: (input) =>
+    evaluateJob({
+      externalId: String(input.externalId ?? 'eval'),
+      location: '',
+      url: '',
+      source: 'indeed',
+      rawData: {},
+      ...input,
+    } as Parameters<typeof evaluateJob>[0]),
+  dimensions: ['isValid', 'category'],
+  labels: (output) => ({ isValid: String(output.isValid), category: output.category }),
+};
+
+const leadScoring: EvalTask<AIScoreResult> = {
+  promptId: 'lead_scoring',
+  description: 'Website form leads with a known classification',
+  inputSchema: z.object({ company_name: z.string(), needs_description: z.string() }).passthrough(),
+  run: (input) => scoreLead({ id: 'eval', ...input } as Parameters<typeof scoreLead>[0]),
+  dimensions: ['classification'],
+  labels: (output) => ({ classification: output.classification }),
+};
+
+const cvParsing: EvalTask<CvParsedData> = {
+  promptId: 'cv_parsing',
+  description: 'CV texts with expected profile fields, skills, languages and job titles',
+  inputSchema: z.object({ text: z.string().min(1) }),
+  run: (input) => parseCv(String(input.text)),
+  fields: (output, expected) => {
+    const matches: Record<string, boolean> = {};
+    const profile = (expected.profile ?? {}) as Record<string, unknown>;
+
+    for (const [field, value] of Object.entries(profile)) {
+      matches[`profile.${field}`] =
+        output !== null && normalize(output.profile[field as keyof CvParsedData['profile']]) === normalize(value);
+    }
+    if ('skills' in expected) {
+      matches.skills = containsAll(output?.skills.map((skill) => skill.skill_name) ?? [], expected.skills);
+    }
+    if ('languages' in expected) {
+      matches.languages = containsAll(output?.languages.map((language) => language.language) ?? [], expected.languages);
+    }
+    if ('experience_titles' in expected) {
+      matches.experience_titles = containsAll(output?.experience.map((item) => item.title) ?? [], expected.experience_titles);
+    }
+
+    return matches;
+  },
+};
+
+export const EVAL_TASKS = {
+  job_evaluation: jobEvaluation,
+  lead_scoring: leadScoring,
+  cv_parsing: cvParsing,
+} as Record<string, EvalTask>;
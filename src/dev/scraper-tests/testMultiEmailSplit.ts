@@ -39,7 +39,11 @@ async function run() {
   console.log('=== Contact Quality Integration Tests ===\n');
 
   console.log('Setup: Creating test company...');
-  const companyId = await findOrCreateCompany(TEST_COMPANY_NAME, TEST_DOMAIN, 'test');
+  const companyId = await findOrCreateCompany(
+    TEST_COMPANY_NAME,
+    { domain: TEST_DOMAIN, source: 'manual', confidence: 1 },
+    'test'
+  );
   console.log(`   Company: ${companyId}\n`);
 
   try {
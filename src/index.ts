@@ -9,11 +9,13 @@ import { swaggerSpec } from './config/swagger.js';
 import webhookRouter from './routes/webhook.js';
 import jobScrapingRouter from './routes/jobScraping.js';
 import leadScrapingRouter from './routes/leadScraping.js';
+import scraperRunsRouter from './routes/scraperRuns.js';
 import adminRouter from './routes/admin.js';
 import cvParsingRouter from './routes/cvParsing.js';
 import matchingRouter from './routes/matching.js';
 import interviewRouter from './routes/interview.js';
 import { startCronJobs } from './cron.js';
+import { getJobSources } from './services/jobs/jobSourceRegistry.js';
 // Import for Express Request type augmentation (adds rawBody property)
 import './middleware/webhookAuth.js';
 
@@ -84,6 +86,7 @@ app.use((req: Request, res: Response, next: NextFunction) => {
 app.use('/api', webhookRouter);
 app.use('/api/scraping/jobs', jobScrapingRouter);
 app.use('/api/scraping/leads', leadScrapingRouter);
+app.use('/api/scraping/runs', scraperRunsRouter);
 app.use('/api/admin', adminRouter);
 app.use('/api/cv', cvParsingRouter);
 app.use('/api/matching', matchingRouter);
@@ -119,9 +122,8 @@ app.get('/', (_req: Request, res: Response) => {
       health: 'GET /api/health',
       scraping: {
         jobs: {
-          indeed: 'POST /api/scraping/jobs/indeed',
-          linkedin: 'POST /api/scraping/jobs/linkedin',
-          af: 'POST /api/scraping/jobs/af',
+          run: 'POST /api/scraping/jobs/:source',
+          sources: getJobSources().map((adapter) => adapter.slug),
           cleanup: 'POST /api/scraping/jobs/cleanup',
           health: 'GET /api/scraping/jobs/health',
         },
@@ -129,6 +131,7 @@ app.get('/', (_req: Request, res: Response) => {
           googleMaps: 'POST /api/scraping/leads/google-maps',
           health: 'GET /api/scraping/leads/health',
         },
+        runStatus: 'GET /api/scraping/runs/:runId',
       },
       admin: {
         health: 'GET /api/admin/health',
@@ -136,15 +139,33 @@ app.get('/', (_req: Request, res: Response) => {
         signalsBySource: 'GET /api/admin/stats/signals-by-source',
         topCompanies: 'GET /api/admin/stats/top-companies',
         jobsBySource: 'GET /api/admin/stats/jobs-by-source',
+        aiUsage: 'GET /api/admin/stats/ai-usage',
+        leadAccuracy: 'GET /api/admin/stats/lead-accuracy',
+        hiringTrends: 'GET /api/admin/stats/hiring-trends',
         sendDigest: 'POST /api/admin/health-check/send-digest',
         dashboard: 'GET /api/admin/dashboard',
         jobs: 'GET /api/admin/jobs',
         jobDetail: 'GET /api/admin/jobs/:id',
+        reevaluateJobs: 'POST /api/admin/jobs/re-evaluate',
         companies: 'GET /api/admin/companies',
         companyDetail: 'GET /api/admin/companies/:id',
+        companyMergeCandidates: 'GET /api/admin/companies/:id/merge-candidates',
+        mergeCompanies: 'POST /api/admin/companies/:id/merge',
+        companyScore: 'GET /api/admin/companies/:id/score',
+        rescoreCompanies: 'POST /api/admin/companies/rescore',
         contacts: 'GET /api/admin/contacts',
         signals: 'GET /api/admin/signals',
         alerts: 'GET /api/admin/alerts',
+        scraperRuns: 'GET /api/admin/scraper-runs',
+        scraperRunDetail: 'GET /api/admin/scraper-runs/:runId',
+        outbox: 'GET /api/admin/outbox',
+        processOutbox: 'POST /api/admin/outbox/process',
+        retryOutbox: 'POST /api/admin/outbox/:submissionId/retry',
+        reprocessRejectedLead: 'POST /api/admin/rejected-leads/:id/reprocess',
+        reprocessRejectedLeads: 'POST /api/admin/rejected-leads/reprocess',
+        overrideLeadClassification: 'POST /api/admin/lead-feedback',
+        leadFeedback: 'GET /api/admin/lead-feedback',
+        exportLeadDisagreements: 'GET /api/admin/lead-feedback/export',
       },
       cv: {
         parse: 'POST /api/cv/parse',
@@ -15,10 +15,13 @@ declare global {
 /**
  * Verifies HMAC-SHA256 signature of incoming webhook requests.
  *
- * The sender must create a signature by hashing the request body with the shared secret:
- *   signature = HMAC-SHA256(body, secret)
+ * The sender must send the current Unix time (seconds) in the 'x-webhook-timestamp'
+ * header and sign the timestamp together with the request body:
+ *   signature = HMAC-SHA256(`${timestamp}.${body}`, secret)
  *
  * The signature should be sent in the 'x-webhook-signature' header as a hex string.
+ * Requests whose timestamp is further than WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS from
+ * now are rejected, so a captured request can't be replayed later.
  *
  * If WEBHOOK_SECRET is not configured, verification is skipped (for development).
  */
@@ -54,6 +57,37 @@ export function verifyWebhookSignature(req: Request, res: Response, next: NextFu
     return;
   }
 
+  const timestamp = req.headers['x-webhook-timestamp'];
+
+  if (!timestamp || typeof timestamp !== 'string' || !/^\d+$/.test(timestamp)) {
+    logger.warn('Webhook request rejected - missing or invalid x-webhook-timestamp header', {
+      ip: req.ip,
+      path: req.path,
+    });
+    res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'Missing webhook timestamp',
+    });
+    return;
+  }
+
+  // Reject stale (replayed) and future-dated requests
+  const skewSeconds = Math.abs(Math.floor(Date.now() / 1000) - Number(timestamp));
+  if (skewSeconds > config.webhook.timestampToleranceSeconds) {
+    logger.warn('Webhook request rejected - timestamp outside tolerance', {
+      ip: req.ip,
+      path: req.path,
+      skewSeconds,
+    });
+    res.status(401).json({
+      success: false,
+      error: 'Unauthorized',
+      message: 'Webhook timestamp outside the allowed window',
+    });
+    return;
+  }
+
   // Get raw body for signature verification
   const rawBody = req.rawBody;
 
@@ -70,6 +104,7 @@ export function verifyWebhookSignature(req: Request, res: Response, next: NextFu
   // Calculate expected signature
   const expectedSignature = crypto
     .createHmac('sha256', secret)
+    .update(`${timestamp}.`)
     .update(rawBody)
     .digest('hex');
 
@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger.js';
+import { claimSubmission, completeSubmission, releaseSubmission } from '../services/webhookSubmissionService.js';
+
+// Extend Express Request with the stable id of the submission
+declare global {
+  namespace Express {
+    interface Request {
+      submissionId?: string;
+    }
+  }
+}
+
+const MAX_KEY_LENGTH = 255;
+
+const sha256 = (value: string | Buffer) => crypto.createHash('sha256').update(value).digest('hex');
+
+/**
+ * Makes POST /api/webhook idempotent.
+ *
+ * The key is the 'Idempotency-Key' header, or a hash of the raw body when the
+ * sender doesn't set one (so form double-submits and retries still collapse).
+ * The first request is processed and its successful response stored; repeats
+ * within the TTL get that response back with 'Idempotent-Replayed: true'.
+ * Non-2xx responses are not stored, so a corrected retry is processed again.
+ *
+ * Sets req.submissionId, a stable id derived from the key.
+ * If the submission store is unavailable, requests are processed without the guard.
+ */
+export async function webhookIdempotency(req: Request, res: Response, next: NextFunction): Promise<void> {
+  // Dry runs don't process anything
+  if (req.query.dryRun === 'true') {
+    next();
+    return;
+  }
+
+  const header = req.headers['idempotency-key'];
+  const headerKey = typeof header === 'string' ? header.trim() : '';
+
+  if (headerKey.length > MAX_KEY_LENGTH) {
+    res.status(400).json({
+      success: false,
+      error: 'Bad Request',
+      message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+    });
+    return;
+  }
+
+  const requestHash = sha256(req.rawBody ?? JSON.stringify(req.body ?? {}));
+  const key = headerKey ? `key:${headerKey}` : `body:${requestHash}`;
+  req.submissionId = sha256(key).slice(0, 32);
+
+  let claim;
+  try {
+    claim = await claimSubmission(key, requestHash);
+  } catch (error) {
+    // Don't lose leads because the guard is down
+    logger.error('Idempotency check failed, processing without it', error);
+    next();
+    return;
+  }
+
+  switch (claim.status) {
+    case 'replay':
+      logger.info('Webhook submission replayed', { submissionId: req.submissionId });
+      res.set('Idempotent-Replayed', 'true');
+      res.status(claim.statusCode).json(claim.response);
+      return;
+
+    case 'in_progress':
+      logger.warn('Webhook submission already in progress', { submissionId: req.submissionId });
+      res.status(409).json({
+        success: false,
+        error: 'Conflict',
+        message: 'A request with this idempotency key is still being processed',
+      });
+      return;
+
+    case 'key_mismatch':
+      logger.warn('Idempotency key reused with a different body', { submissionId: req.submissionId });
+      res.status(422).json({
+        success: false,
+        error: 'Unprocessable Entity',
+        message: 'Idempotency-Key was already used for a different request',
+      });
+      return;
+  }
+
+  // Store the result before it is sent, so a retry arriving right after gets the replay
+  const sendJson = res.json.bind(res);
+  res.json = (body: unknown) => {
+    const settle =
+      res.statusCode >= 200 && res.statusCode < 300
+        ? completeSubmission(key, res.statusCode, body)
+        : releaseSubmission(key);
+
+    settle
+      .catch((error) => logger.error('Failed to store webhook submission result', error))
+      .finally(() => sendJson(body));
+    return res;
+  };
+
+  next();
+}
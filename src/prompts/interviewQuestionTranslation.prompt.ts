@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+/**
+ * System prompt for translating interview questions.
+ * Used when manual fallback questions need to match the candidate's preferred language.
+ */
+export const INTERVIEW_QUESTION_TRANSLATION_SYSTEM_PROMPT = `You are a professional translator specializing in recruitment/HR content. Translate accurately while keeping the conversational interview tone. Return ONLY valid JSON, no markdown.`;
+
+/**
+ * Generate user prompt for interview question translation
+ */
+export function generateInterviewQuestionTranslationUserPrompt(
+  questions: Array<{ id: string; question: string }>,
+  targetLanguage: string
+): string {
+  const langLabel = targetLanguage === 'en' ? 'English' : 'Swedish';
+
+  return `Translate the following interview questions to ${langLabel}. Keep the tone conversational and professional. Return ONLY valid JSON.
+
+Input questions:
+${JSON.stringify(questions, null, 2)}
+
+Return format:
+{ "questions": [{ "id": "original-id", "question": "translated text" }] }`;
+}
+
+/**
+ * Zod schema for validating the translated questions
+ */
+export const InterviewQuestionTranslationResponseSchema = z.object({
+  questions: z.array(z.object({ id: z.string(), question: z.string() })),
+});
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import type { FormData, NormalizedCompanyData } from '../types/index.js';
+
+/**
+ * System prompt for Job Ad Generation
+ * Originally from the n8n flow, registered as job_ad_generation v1 (see prompts/registry.ts)
+ */
+export const JOB_AD_SYSTEM_PROMPT = `You are a professional recruitment copywriter for Rookie AB, a Swedish recruitment agency. Generate compelling, professional job ads in Swedish that attract qualified candidates. Focus on clarity, professionalism, and highlighting opportunities.
+
+Example job ad - adhere to tone of voice, structure, etc. as closely as possible when generating the ad:
+Business Analyst
+About the role
+
+As a Business Analyst at Autoliv, you will collaborate closely with the CEO and the Executive Management Team on both operational initiatives and strategically significant projects. This role presents an exciting opportunity for recent graduates to kick-start their careers, grow professionally within Autoliv, and build a strong foundation for long-term success.
+
+About the company
+
+Autoliv is the worldwide leader in automotive safety systems. Through our group companies, we develop, manufacture and market protective systems, such as airbags, seatbelts, and steering wheels for all major automotive manufacturers in the world as well as mobility safety solutions.
+
+At Autoliv, we challenge and redefine the standards of mobility safety to sustainably deliver leading solutions. In 2024, our products saved 37,000 lives and reduced 600,000 injuries.
+
+Our ~65,000 colleagues in 25 countries are passionate about our vision of Saving More Lives and quality is at the heart of everything we do. We drive innovation, research, and development at our 13 technical centers, with their 20 test tracks.
+
+Key responsibilities
+
+The job involves operational as well as strategic elements that can be summarized, but not limited, to the following areas:
+Provide Executive Management Team (EMT) with business analysis support
+Prepare agenda and other material to EMT meetings
+Produce analytical, professional and insightful presentations
+Be a participant in EMT meetings
+
+
+Participate in, or lead global projects driven by priorities set by the EMT and/or the CEO office team.
+
+Your background
+
+Degree in M.S. in Business Administration or Engineering with a distinguished academic record is a must
+0-3 years of experience
+A structured way of working
+High business acumen
+Experience of project management
+Excellent communication skills
+High analytical and problem-solving skills
+Excellent reading and writing English and Swedish skills
+
+Questions and application
+
+In this recruitment, Autoliv is collaborating with Rookie. Apply for the job by submitting your CV and cover letter. If you have any questions, please contact the responsible recruiter, Håkan Olsson at hakan.olsson@rookiework.se or 072 55 55 712.
+
+Please submit your application as soon as possible.`;
+
+/**
+ * Generates the user prompt for a job ad draft from a valid lead
+ */
+export function generateJobAdUserPrompt(leadData: FormData, normalizedData: NormalizedCompanyData): string {
+  const today = new Date().toISOString().split('T')[0];
+
+  return `Generate a professional Swedish job ad based on this form submission:
+
+Company: ${leadData.company_name}
+Industry: ${leadData.industry}
+Role Category: ${normalizedData.role_category}
+Service Type: ${leadData.service_type}
+Key Requirements: ${normalizedData.key_requirements}
+Client's Description: ${leadData.needs_description}
+
+Return ONLY valid JSON in this format:
+{
+  "title": "compelling job title in Swedish (30-60 chars)",
+  "description": "professional description in Swedish (200-400 words)",
+  "location": "Stockholm",
+  "category": "${normalizedData.role_category}",
+  "external_url": "https://rookiework.se/jobs/[generate-slug-from-title]",
+  "posted_date": "${today}"
+}`;
+}
+
+/**
+ * Zod schema for validating the job ad response
+ */
+export const JobAdResponseSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().min(1),
+  location: z.string().min(1),
+  category: z.string().min(1),
+  external_url: z.string().url(),
+  posted_date: z.string(),
+});
+
+export type JobAdResponse = z.infer<typeof JobAdResponseSchema>;
@@ -238,6 +238,15 @@ CRITICAL REMINDERS
 
 Return JSON now.`;
 
+/**
+ * v2: also asks for the employer's organisation number (validated before use)
+ */
+export const JOB_EVALUATION_SYSTEM_PROMPT_V2 = JOB_EVALUATION_SYSTEM_PROMPT.replace(
+  '- Extract email addresses from description if present, otherwise "Email Not found"',
+  `- Extract email addresses from description if present, otherwise "Email Not found"
+- Add an "orgNumber" field to the JSON: the employer's Swedish organisationsnummer (NNNNNN-NNNN, often after "Org.nr") if the description states it, otherwise ""`
+);
+
 /**
  * Generate user prompt for job evaluation
  */
@@ -274,6 +283,8 @@ export const JobEvaluationResponseSchema = z.object({
   reasoning: z.string(),
   applicationEmail: z.string(),
   duration: z.string(),
+  // v2 and later
+  orgNumber: z.string().optional(),
 });
 
 export type JobEvaluationResponse = z.infer<typeof JobEvaluationResponseSchema>;
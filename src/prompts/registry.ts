@@ -0,0 +1,215 @@
+import type { z } from 'zod';
+import { config } from '../config/env.js';
+import { logger } from '../utils/logger.js';
+import { SCORING_SYSTEM_PROMPT, LeadScoringResponseSchema } from './leadScoring.prompt.js';
+import { JOB_AD_SYSTEM_PROMPT, JobAdResponseSchema } from './jobAd.prompt.js';
+import {
+  JOB_EVALUATION_SYSTEM_PROMPT,
+  JOB_EVALUATION_SYSTEM_PROMPT_V2,
+  JobEvaluationResponseSchema,
+} from './jobEvaluation.prompt.js';
+import { COMPANY_SCORING_SYSTEM_PROMPT, CompanyScoringResponseSchema } from './companyScoring.prompt.js';
+import { CV_PARSING_SYSTEM_PROMPT, CvParsedDataSchema } from './cvParsing.prompt.js';
+import { MATCH_SCORING_SYSTEM_PROMPT, MatchScoringResponseSchema } from './matchScoring.prompt.js';
+import {
+  INTERVIEW_QUESTION_GENERATION_SYSTEM_PROMPT,
+  InterviewQuestionGenerationResponseSchema,
+} from './interviewQuestionGeneration.prompt.js';
+import {
+  INTERVIEW_QUESTION_TRANSLATION_SYSTEM_PROMPT,
+  InterviewQuestionTranslationResponseSchema,
+} from './interviewQuestionTranslation.prompt.js';
+import { INTERVIEW_EVALUATION_SYSTEM_PROMPT, InterviewEvaluationResponseSchema } from './interviewEvaluation.prompt.js';
+
+/**
+ * Registry of every AI prompt: named, versioned system prompts with the schema
+ * their responses are validated against.
+ *
+ * A new version of a prompt is added next to the old one (e.g. `v2` importing
+ * SCORING_SYSTEM_PROMPT_V2) and activated per environment with
+ * PROMPT_VERSIONS="lead_scoring=v2"; `defaultVersion` moves once it's proven.
+ * The active version is stored with the results it produced (`ai_prompts`).
+ */
+
+export interface PromptVersion<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  systemPrompt: string;
+  responseSchema: S;
+}
+
+interface PromptDefinition<S extends z.ZodTypeAny> {
+  description: string;
+  defaultVersion: string;
+  versions: Record<string, PromptVersion<S>>;
+}
+
+function definePrompt<S extends z.ZodTypeAny>(definition: PromptDefinition<S>): PromptDefinition<S> {
+  return definition;
+}
+
+const PROMPTS = {
+  lead_scoring: definePrompt({
+    description: 'Classifies and scores website form leads',
+    defaultVersion: 'v1',
+    versions: { v1: { systemPrompt: SCORING_SYSTEM_PROMPT, responseSchema: LeadScoringResponseSchema } },
+  }),
+  job_ad_generation: definePrompt({
+    description: 'Drafts a Swedish job ad for a valid lead',
+    defaultVersion: 'v1',
+    versions: { v1: { systemPrompt: JOB_AD_SYSTEM_PROMPT, responseSchema: JobAdResponseSchema } },
+  }),
+  job_evaluation: definePrompt({
+    description: 'Evaluates scraped job ads for the 0-8 years experience segment',
+    defaultVersion: 'v1',
+    versions: {
+      v1: { systemPrompt: JOB_EVALUATION_SYSTEM_PROMPT, responseSchema: JobEvaluationResponseSchema },
+      // Also extracts the employer's organisation number
+      v2: { systemPrompt: JOB_EVALUATION_SYSTEM_PROMPT_V2, responseSchema: JobEvaluationResponseSchema },
+    },
+  }),
+  company_scoring: definePrompt({
+    description: 'Scores Google Maps companies for Rookie fit',
+    defaultVersion: 'v1',
+    versions: { v1: { systemPrompt: COMPANY_SCORING_SYSTEM_PROMPT, responseSchema: CompanyScoringResponseSchema } },
+  }),
+  cv_parsing: definePrompt({
+    description: 'Extracts structured candidate data from CV text',
+    defaultVersion: 'v1',
+    versions: { v1: { systemPrompt: CV_PARSING_SYSTEM_PROMPT, responseSchema: CvParsedDataSchema } },
+  }),
+  match_scoring: definePrompt({
+    description: 'Scores candidate-job relevance in batches',
+    defaultVersion: 'v1',
+    versions: { v1: { systemPrompt: MATCH_SCORING_SYSTEM_PROMPT, responseSchema: MatchScoringResponseSchema } },
+  }),
+  interview_question_generation: definePrompt({
+    description: 'Generates interview questions from a candidate profile',
+    defaultVersion: 'v1',
+    versions: {
+      v1: {
+        systemPrompt: INTERVIEW_QUESTION_GENERATION_SYSTEM_PROMPT,
+        responseSchema: InterviewQuestionGenerationResponseSchema,
+      },
+    },
+  }),
+  interview_question_translation: definePrompt({
+    description: 'Translates interview questions between Swedish and English',
+    defaultVersion: 'v1',
+    versions: {
+      v1: {
+        systemPrompt: INTERVIEW_QUESTION_TRANSLATION_SYSTEM_PROMPT,
+        responseSchema: InterviewQuestionTranslationResponseSchema,
+      },
+    },
+  }),
+  interview_evaluation: definePrompt({
+    description: 'Transcribes and evaluates interview recordings',
+    defaultVersion: 'v1',
+    versions: {
+      v1: { systemPrompt: INTERVIEW_EVALUATION_SYSTEM_PROMPT, responseSchema: InterviewEvaluationResponseSchema },
+    },
+  }),
+};
+
+export type PromptId = keyof typeof PROMPTS;
+
+type ResponseSchemaOf<K extends PromptId> = (typeof PROMPTS)[K] extends PromptDefinition<infer S> ? S : never;
+
+export interface ActivePrompt<S extends z.ZodTypeAny = z.ZodTypeAny> extends PromptVersion<S> {
+  id: PromptId;
+  version: string;
+}
+
+export interface PromptSummary {
+  id: PromptId;
+  description: string;
+  defaultVersion: string;
+  activeVersion: string;
+  versions: string[];
+}
+
+// Prompt id -> version of the prompts that produced a result, stored as ai_prompts
+export type PromptVersions = Partial<Record<PromptId, string>>;
+
+const PROMPT_IDS = Object.keys(PROMPTS) as PromptId[];
+
+function isPromptId(id: string): id is PromptId {
+  return id in PROMPTS;
+}
+
+/**
+ * Resolve the active version of every prompt from PROMPT_VERSIONS. Unknown
+ * prompts or versions are logged and the default version is used.
+ */
+export function loadPromptVersions(configured: Record<string, string>): Record<PromptId, string> {
+  for (const id of Object.keys(configured)) {
+    if (!isPromptId(id)) logger.warn('Unknown prompt in PROMPT_VERSIONS, ignoring', { prompt: id });
+  }
+
+  return Object.fromEntries(
+    PROMPT_IDS.map((id) => {
+      const { defaultVersion, versions } = PROMPTS[id];
+      const version = configured[id];
+
+      if (version && !(version in versions)) {
+        logger.warn('Unknown prompt version in PROMPT_VERSIONS, using default', { prompt: id, version, defaultVersion });
+        return [id, defaultVersion];
+      }
+
+      return [id, version || defaultVersion];
+    })
+  ) as Record<PromptId, string>;
+}
+
+let activeVersions: Record<PromptId, string> | undefined;
+const overrides: PromptVersions = {};
+
+function activeVersionOf(id: PromptId): string {
+  activeVersions ??= loadPromptVersions(config.prompts.versions);
+  return overrides[id] ?? activeVersions[id];
+}
+
+/**
+ * The active version of a prompt: system prompt, response schema and version
+ */
+export function getPrompt<K extends PromptId>(id: K): ActivePrompt<ResponseSchemaOf<K>> {
+  const version = activeVersionOf(id);
+  // PROMPTS[id] is a union over all prompts for a generic K; narrow it to this prompt's schema
+  const definition = PROMPTS[id] as unknown as PromptDefinition<ResponseSchemaOf<K>>;
+  const prompt = definition.versions[version];
+
+  return { id, version, ...prompt };
+}
+
+/**
+ * Switch the active version of a prompt, e.g. in tests or an eval run. Pass
+ * undefined to go back to the configured version.
+ */
+export function setPromptVersion(id: PromptId, version: string | undefined): void {
+  if (version !== undefined && !(version in PROMPTS[id].versions)) {
+    throw new Error(`Unknown version ${version} of prompt ${id}`);
+  }
+
+  if (version === undefined) {
+    delete overrides[id];
+  } else {
+    overrides[id] = version;
+  }
+}
+
+export function listPrompts(): PromptSummary[] {
+  return PROMPT_IDS.map((id) => ({
+    id,
+    description: PROMPTS[id].description,
+    defaultVersion: PROMPTS[id].defaultVersion,
+    activeVersion: activeVersionOf(id),
+    versions: Object.keys(PROMPTS[id].versions),
+  }));
+}
+
+/**
+ * Prompt versions to store with a result, leaving out the ones that are unknown
+ * (e.g. results produced before versions were recorded)
+ */
+export function promptVersions(versions: Partial<Record<PromptId, string | undefined>>): PromptVersions {
+  return Object.fromEntries(Object.entries(versions).filter(([, version]) => version !== undefined)) as PromptVersions;
+}
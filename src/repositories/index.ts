@@ -0,0 +1,42 @@
+import { config } from '../config/env.js';
+import { logger } from '../utils/logger.js';
+import { createSupabaseRepositories } from './supabaseRepositories.js';
+import { createMemoryRepositories } from './memoryRepositories.js';
+import type { Repositories } from './types.js';
+
+/**
+ * Repository layer between the services and storage.
+ *
+ * - supabase: the production database
+ * - memory:   in-process tables for tests and local development (nothing persisted)
+ *
+ * Selected with STORAGE_BACKEND.
+ */
+
+export type * from './types.js';
+export { createSupabaseRepositories } from './supabaseRepositories.js';
+export { createMemoryRepositories, type MemoryRepositories, type MemoryTables } from './memoryRepositories.js';
+
+function createConfiguredRepositories(): Repositories {
+  if (config.storage.backend === 'memory') {
+    logger.info('Using in-memory storage');
+    return createMemoryRepositories();
+  }
+
+  return createSupabaseRepositories();
+}
+
+let repositories: Repositories | undefined;
+
+export function getRepositories(): Repositories {
+  repositories ??= createConfiguredRepositories();
+  return repositories;
+}
+
+/**
+ * Replace the repositories, e.g. with in-memory ones in tests.
+ * Pass undefined to go back to the configured backend.
+ */
+export function setRepositories(next: Repositories | undefined): void {
+  repositories = next;
+}
@@ -0,0 +1,772 @@
+import { randomUUID } from 'crypto';
+import type { Repositories, Row, Page, PageOptions, JobFingerprintMatch } from './types.js';
+
+/**
+ * In-memory adapter for the repository interfaces, for tests and local development.
+ *
+ * Tables are plain row arrays (exposed as `tables` so tests can seed and inspect
+ * them). Joins, filters and ordering mirror the Supabase selects closely enough
+ * for the routes and pipelines; nothing is persisted.
+ */
+
+export interface MemoryTables {
+  companies: Row[];
+  jobs: Row[];
+  job_source_links: Row[];
+  scraping_signals: Row[];
+  contacts: Row[];
+  scraping_rejected_leads: Row[];
+  system_alerts: Row[];
+  system_error_logs: Row[];
+  client_access_requests: Row[];
+  user_profiles: Row[];
+  notifications: Row[];
+  scraper_runs: Row[];
+  webhook_submissions: Row[];
+  webhook_outbox: Row[];
+  candidate_applications: Row[];
+  form_submissions: Row[];
+  lead_feedback: Row[];
+  company_merges: Row[];
+  ai_usage: Row[];
+  ai_cache: Row[];
+}
+
+export type MemoryRepositories = Repositories & { tables: MemoryTables };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STALE_SCRAPER_DAYS = 3;
+const TOP_COMPANIES_LIMIT = 10;
+
+function emptyTables(): MemoryTables {
+  return {
+    companies: [],
+    jobs: [],
+    job_source_links: [],
+    scraping_signals: [],
+    contacts: [],
+    scraping_rejected_leads: [],
+    system_alerts: [],
+    system_error_logs: [],
+    client_access_requests: [],
+    user_profiles: [],
+    notifications: [],
+    scraper_runs: [],
+    webhook_submissions: [],
+    webhook_outbox: [],
+    candidate_applications: [],
+    form_submissions: [],
+    lead_feedback: [],
+    company_merges: [],
+    ai_usage: [],
+    ai_cache: [],
+  };
+}
+
+function insertRow(table: Row[], row: Row, defaults: Row = {}): Row {
+  const stored = { id: randomUUID(), created_at: new Date().toISOString(), ...defaults, ...row };
+  table.push(stored);
+  return { ...stored };
+}
+
+const str = (value: unknown) => (typeof value === 'string' ? value : '');
+
+// Newest first by a timestamp column, then the requested page
+function page(rows: Row[], orderBy: string, { limit, offset }: PageOptions): Page {
+  const sorted = [...rows].sort((a, b) => str(b[orderBy]).localeCompare(str(a[orderBy])));
+  return { data: sorted.slice(offset, offset + limit), count: rows.length };
+}
+
+function pick(row: Row, columns: string[]): Row {
+  return Object.fromEntries(columns.map((column) => [column, row[column] ?? null]));
+}
+
+function countSince(rows: Row[], column: string, since?: string): number {
+  return since ? rows.filter((row) => str(row[column]) >= since).length : rows.length;
+}
+
+// Point a company's rows at another company, returns how many moved
+function reassignCompany(rows: Row[], fromCompanyId: string, toCompanyId: string, exceptIds: string[] = []): number {
+  const moved = rows.filter((row) => row.company_id === fromCompanyId && !exceptIds.includes(str(row.id)));
+  moved.forEach((row) => (row.company_id = toCompanyId));
+  return moved.length;
+}
+
+function latest(rows: Row[], column: string): string | null {
+  return rows.reduce<string | null>((max, row) => {
+    const value = str(row[column]);
+    return value && (!max || value > max) ? value : max;
+  }, null);
+}
+
+export function createMemoryRepositories(seed: Partial<MemoryTables> = {}): MemoryRepositories {
+  const tables: MemoryTables = { ...emptyTables(), ...seed };
+
+  const companyById = (id: unknown) => tables.companies.find((c) => c.id === id);
+  const companySummary = (id: unknown) => {
+    const company = companyById(id);
+    return company ? pick(company, ['id', 'name', 'domain']) : null;
+  };
+  const withCompany = (row: Row) => ({ ...row, companies: companySummary(row.company_id) });
+
+  return {
+    tables,
+
+    companies: {
+      async findOrCreate(name, domain, source, orgNumber = null) {
+        const candidates = tables.companies.filter((c) => !orgNumber || !c.org_number || c.org_number === orgNumber);
+        const existing =
+          (orgNumber ? candidates.find((c) => c.org_number === orgNumber) : undefined) ??
+          (domain ? candidates.find((c) => c.domain === domain) : undefined) ??
+          candidates.find((c) => str(c.name).toLowerCase() === name.toLowerCase());
+
+        if (existing) return (existing.merged_into ?? existing.id) as string;
+        return insertRow(tables.companies, { name, domain, source, org_number: orgNumber }).id as string;
+      },
+
+      async getById(id) {
+        const company = companyById(id);
+        return company ? { ...company } : null;
+      },
+
+      async getDetail(id) {
+        const company = companyById(id);
+        if (!company) return null;
+
+        return {
+          ...company,
+          jobs: tables.jobs.filter((j) => j.company_id === id),
+          scraping_signals: tables.scraping_signals.filter((s) => s.company_id === id),
+          contacts: tables.contacts.filter((c) => c.company_id === id),
+        };
+      },
+
+      async update(id, updates) {
+        const company = companyById(id);
+        if (company) Object.assign(company, updates);
+      },
+
+      async list({ org_number, ...options }) {
+        const rows = tables.companies.filter((c) => !c.merged_into && (!org_number || c.org_number === org_number));
+        const result = page(rows, 'created_at', options);
+        return {
+          ...result,
+          data: result.data.map((company) => ({
+            ...company,
+            job_count: tables.jobs.filter((j) => j.company_id === company.id).length,
+            signal_count: tables.scraping_signals.filter((s) => s.company_id === company.id).length,
+            contact_count: tables.contacts.filter((c) => c.company_id === company.id).length,
+          })),
+        };
+      },
+
+      async findMatchCandidates({ name_terms, domain, org_number, limit }) {
+        const terms = name_terms.map((term) => term.toLowerCase());
+        return tables.companies
+          .filter(
+            (c) =>
+              !c.merged_into &&
+              (terms.some((term) => str(c.name).toLowerCase().includes(term)) ||
+                (domain && c.domain === domain) ||
+                (org_number && c.org_number === org_number))
+          )
+          .sort((a, b) => str(a.created_at).localeCompare(str(b.created_at)))
+          .slice(0, limit)
+          .map((c) => pick(c, ['id', 'name', 'domain', 'org_number', 'source', 'created_at']));
+      },
+
+      async markMerged(id, intoId) {
+        tables.companies.filter((c) => c.merged_into === id).forEach((c) => (c.merged_into = intoId));
+        const company = companyById(id);
+        if (company) Object.assign(company, { merged_into: intoId, merged_at: new Date().toISOString() });
+      },
+
+      listIds: async ({ limit, offset }) =>
+        tables.companies
+          .filter((c) => !c.merged_into)
+          .sort((a, b) => str(a.created_at).localeCompare(str(b.created_at)))
+          .slice(offset, offset + limit)
+          .map((c) => c.id as string),
+
+      count: async (createdSince) => countSince(tables.companies, 'created_at', createdSince),
+    },
+
+    jobs: {
+      async findExternalKeys(table, source, column, values) {
+        const wanted = new Set(values);
+        return tables[table]
+          .filter((row) => row.source === source && wanted.has(str(row[column])))
+          .map((row) => ({ external_id: row.external_id as string | null, external_url: row.external_url as string | null }));
+      },
+
+      async findByFingerprints(keys) {
+        const wanted = new Set(keys);
+        return tables.jobs
+          .filter((job) => wanted.has(str(job.fingerprint)))
+          .map((job) => pick(job, ['id', 'source', 'fingerprint', 'description_sketch', 'created_at']) as unknown as JobFingerprintMatch);
+      },
+
+      async upsertSourceLink(link) {
+        const existing = tables.job_source_links.find(
+          (l) => l.source === link.source && l.external_id === link.external_id
+        );
+        if (existing) {
+          Object.assign(existing, link);
+        } else {
+          insertRow(tables.job_source_links, link);
+        }
+      },
+
+      insert: async (row) => insertRow(tables.jobs, row),
+
+      async deleteOlderThan(source, cutoffDate) {
+        const before = tables.jobs.length;
+        tables.jobs = tables.jobs.filter(
+          (job) => !(job.source === source && job.posted_date && str(job.posted_date) < cutoffDate)
+        );
+        return before - tables.jobs.length;
+      },
+
+      async list({ source, ai_valid, from_date, to_date, ...options }) {
+        const rows = tables.jobs.filter(
+          (job) =>
+            (!source || job.source === source) &&
+            (ai_valid === undefined || job.ai_valid === ai_valid) &&
+            (!from_date || str(job.posted_date) >= from_date) &&
+            (!to_date || str(job.posted_date) <= to_date)
+        );
+        const result = page(rows, 'created_at', options);
+        return { ...result, data: result.data.map(withCompany) };
+      },
+
+      async findForReevaluation({
+        ids, source, ai_category, created_from, created_to, prompt_version, not_prompt_version, limit,
+      }) {
+        const promptOf = (job: Row) => (job.ai_prompts as Row | null | undefined)?.job_evaluation;
+        const rows = ids
+          ? tables.jobs.filter((job) => ids.includes(job.id as string))
+          : tables.jobs.filter(
+              (job) =>
+                (!source || job.source === source) &&
+                (!ai_category || job.ai_category === ai_category) &&
+                (!created_from || str(job.created_at) >= created_from) &&
+                (!created_to || str(job.created_at) <= created_to) &&
+                (!prompt_version || promptOf(job) === prompt_version) &&
+                (!not_prompt_version || promptOf(job) !== not_prompt_version)
+            );
+        return page(rows, 'created_at', { limit, offset: 0 }).data.map(withCompany);
+      },
+
+      async update(id, updates) {
+        const job = tables.jobs.find((j) => j.id === id);
+        if (job) Object.assign(job, updates);
+      },
+
+      listPostings: async ({ since, company_ids }) =>
+        tables.jobs
+          .filter(
+            (job) =>
+              job.ai_valid === true &&
+              (job.posted_date ? str(job.posted_date) >= since.slice(0, 10) : str(job.created_at) >= since) &&
+              (!company_ids || company_ids.includes(job.company_id as string))
+          )
+          .map((job) =>
+            withCompany(pick(job, ['id', 'company_id', 'ai_category', 'posted_date', 'created_at']))
+          ),
+
+      reassignCompany: async (fromCompanyId, toCompanyId) => reassignCompany(tables.jobs, fromCompanyId, toCompanyId),
+
+      async getDetail(id) {
+        const job = tables.jobs.find((j) => j.id === id);
+        if (!job) return null;
+
+        return {
+          ...withCompany(job),
+          job_source_links: tables.job_source_links
+            .filter((l) => l.canonical_job_id === id)
+            .map((l) => pick(l, ['source', 'external_url', 'description_similarity', 'created_at'])),
+        };
+      },
+
+      count: async (createdSince) => countSince(tables.jobs, 'created_at', createdSince),
+    },
+
+    contacts: {
+      async findByEmail(companyId, email) {
+        const contact = tables.contacts.find((c) => c.company_id === companyId && c.email === email);
+        return contact ? { ...contact } : null;
+      },
+
+      async upsert(row, conflictColumn) {
+        const existing = tables.contacts.find(
+          (c) => c.company_id === row.company_id && c[conflictColumn] === row[conflictColumn]
+        );
+        if (existing) {
+          Object.assign(existing, row);
+          return { ...existing };
+        }
+
+        // The other unique key, as enforced by the database
+        const otherColumn = conflictColumn === 'email' ? 'linkedin_url' : 'email';
+        if (row[otherColumn] && tables.contacts.some((c) => c.company_id === row.company_id && c[otherColumn] === row[otherColumn])) {
+          return null;
+        }
+
+        return insertRow(tables.contacts, row);
+      },
+
+      async list({ source, source_method, ...options }) {
+        const rows = tables.contacts.filter(
+          (c) => (!source || c.source === source) && (!source_method || c.source_method === source_method)
+        );
+        const result = page(rows, 'created_at', options);
+        return { ...result, data: result.data.map(withCompany) };
+      },
+
+      listByCompany: async (companyId) => tables.contacts.filter((c) => c.company_id === companyId).map((c) => ({ ...c })),
+
+      reassignCompany: async (fromCompanyId, toCompanyId, exceptIds) =>
+        reassignCompany(tables.contacts, fromCompanyId, toCompanyId, exceptIds),
+
+      count: async () => tables.contacts.length,
+    },
+
+    signals: {
+      insert: async (row) => insertRow(tables.scraping_signals, row, { captured_at: new Date().toISOString() }),
+
+      countFormSubmissions: async (email, since) =>
+        tables.scraping_signals.filter(
+          (s) =>
+            s.signal_type === 'website_form_submission' &&
+            (s.payload as Row | undefined)?.email === email &&
+            str(s.captured_at) >= since
+        ).length,
+
+      async getById(id) {
+        const signal = tables.scraping_signals.find((s) => s.id === id);
+        return signal ? { ...signal } : null;
+      },
+
+      async update(id, updates) {
+        const signal = tables.scraping_signals.find((s) => s.id === id);
+        if (signal) Object.assign(signal, updates);
+      },
+
+      async findByJobAdId(jobAdId) {
+        const signal = page(
+          tables.scraping_signals.filter((s) => (s.payload as Row | undefined)?.job_ad_id === jobAdId),
+          'captured_at',
+          { limit: 1, offset: 0 }
+        ).data[0];
+        return signal ? { ...signal } : null;
+      },
+
+      reassignCompany: async (fromCompanyId, toCompanyId) =>
+        reassignCompany(tables.scraping_signals, fromCompanyId, toCompanyId),
+
+      listByCompany: async (companyId) =>
+        page(
+          tables.scraping_signals.filter((s) => s.company_id === companyId),
+          'captured_at',
+          { limit: tables.scraping_signals.length, offset: 0 }
+        ).data.map((s) => ({ ...s })),
+
+      async list({ source, signal_type, ...options }) {
+        const rows = tables.scraping_signals.filter(
+          (s) => (!source || s.source === source) && (!signal_type || s.signal_type === signal_type)
+        );
+        const result = page(rows, 'captured_at', options);
+        return { ...result, data: result.data.map(withCompany) };
+      },
+
+      count: async (capturedSince) => countSince(tables.scraping_signals, 'captured_at', capturedSince),
+    },
+
+    rejectedLeads: {
+      insert: async (row) => insertRow(tables.scraping_rejected_leads, row),
+
+      countByEmail: async (email, since) =>
+        tables.scraping_rejected_leads.filter((l) => l.email === email && str(l.created_at) >= since).length,
+
+      async getById(id) {
+        const lead = tables.scraping_rejected_leads.find((l) => l.id === id);
+        return lead ? { ...lead } : null;
+      },
+
+      async update(id, updates) {
+        const lead = tables.scraping_rejected_leads.find((l) => l.id === id);
+        if (lead) Object.assign(lead, updates);
+      },
+
+      async list({ classification, ...options }) {
+        const rows = tables.scraping_rejected_leads.filter((l) => !classification || l.classification === classification);
+        return page(rows, 'created_at', options);
+      },
+    },
+
+    alerts: {
+      async insert(row) {
+        insertRow(tables.system_alerts, row, { resolved_at: null });
+      },
+
+      async insertErrorLog(row) {
+        insertRow(tables.system_error_logs, row);
+      },
+
+      async list({ source, severity, from_date, to_date, ...options }) {
+        const rows = tables.system_alerts.filter(
+          (a) =>
+            (!source || a.source === source) &&
+            (!severity || a.severity === severity) &&
+            str(a.created_at) >= from_date &&
+            (!to_date || str(a.created_at) <= to_date)
+        );
+        return page(rows, 'created_at', options);
+      },
+    },
+
+    accessRequests: {
+      insert: async (row) => insertRow(tables.client_access_requests, row).id as string,
+    },
+
+    notifications: {
+      findAdminUserIds: async () =>
+        tables.user_profiles.filter((p) => p.role === 'admin').map((p) => p.user_id as string),
+
+      async insertMany(rows) {
+        for (const row of rows) insertRow(tables.notifications, row);
+      },
+    },
+
+    scraperRuns: {
+      async insert(row) {
+        insertRow(tables.scraper_runs, row);
+      },
+
+      async list({ source, status, from_date, to_date, ...options }) {
+        const rows = tables.scraper_runs.filter(
+          (r) =>
+            (!source || r.source === source) &&
+            (!status || r.status === status) &&
+            (!from_date || str(r.started_at) >= from_date) &&
+            (!to_date || str(r.started_at) <= to_date)
+        );
+        const result = page(rows, 'started_at', options);
+        return {
+          ...result,
+          data: result.data.map(({ errors: _errors, ...run }) => run),
+        };
+      },
+
+      async getByRunId(runId) {
+        const run = tables.scraper_runs.find((r) => r.run_id === runId);
+        return run ? { ...run } : null;
+      },
+    },
+
+    webhookSubmissions: {
+      async claim(row) {
+        if (tables.webhook_submissions.some((s) => s.idempotency_key === row.idempotency_key)) return false;
+        insertRow(tables.webhook_submissions, row);
+        return true;
+      },
+
+      async findByKey(key) {
+        const submission = tables.webhook_submissions.find((s) => s.idempotency_key === key);
+        return submission ? { ...submission } : null;
+      },
+
+      async update(key, updates) {
+        const submission = tables.webhook_submissions.find((s) => s.idempotency_key === key);
+        if (submission) Object.assign(submission, updates);
+      },
+
+      async delete(key) {
+        tables.webhook_submissions = tables.webhook_submissions.filter((s) => s.idempotency_key !== key);
+      },
+    },
+
+    outbox: {
+      async insertMany(rows) {
+        for (const row of rows) insertRow(tables.webhook_outbox, row);
+      },
+
+      async listBySubmission(submissionId) {
+        return tables.webhook_outbox.filter((o) => o.submission_id === submissionId).map((o) => ({ ...o }));
+      },
+
+      async findDueSubmissionIds(now, staleBefore, limit) {
+        const due = tables.webhook_outbox
+          .filter(
+            (o) =>
+              (o.status === 'pending' && str(o.next_attempt_at) <= now) ||
+              (o.status === 'processing' && str(o.locked_at) < staleBefore)
+          )
+          .sort((a, b) => str(a.next_attempt_at).localeCompare(str(b.next_attempt_at)))
+          .slice(0, limit);
+        return [...new Set(due.map((o) => o.submission_id as string))];
+      },
+
+      async claim(id, lockedAt, staleBefore) {
+        const row = tables.webhook_outbox.find((o) => o.id === id);
+        const claimable =
+          row && (row.status === 'pending' || (row.status === 'processing' && str(row.locked_at) < staleBefore));
+        if (!claimable) return false;
+        Object.assign(row, { status: 'processing', locked_at: lockedAt });
+        return true;
+      },
+
+      async update(id, updates) {
+        const row = tables.webhook_outbox.find((o) => o.id === id);
+        if (row) Object.assign(row, updates);
+      },
+
+      async list({ status, step, submission_id, ...options }) {
+        const rows = tables.webhook_outbox.filter(
+          (o) =>
+            (!status || o.status === status) &&
+            (!step || o.step === step) &&
+            (!submission_id || o.submission_id === submission_id)
+        );
+        const result = page(rows, 'created_at', options);
+        return {
+          ...result,
+          data: result.data.map(({ payload: _payload, result: _result, locked_at: _lockedAt, ...row }) => row),
+        };
+      },
+    },
+
+    leadFeedback: {
+      async insert(row) {
+        return insertRow(tables.lead_feedback, row);
+      },
+
+      async findLatestByLead(leadType, leadId) {
+        const reviews = tables.lead_feedback.filter((f) => f.lead_type === leadType && f.lead_id === leadId);
+        return reviews.length ? { ...page(reviews, 'created_at', { limit: 1, offset: 0 }).data[0] } : null;
+      },
+
+      async list({ lead_type, disagreement, from_date, to_date, limit, offset }) {
+        const rows = tables.lead_feedback
+          .filter(
+            (f) =>
+              (!lead_type || f.lead_type === lead_type) &&
+              (disagreement === undefined || f.disagreement === disagreement) &&
+              (!from_date || str(f.created_at) >= from_date) &&
+              (!to_date || str(f.created_at) <= to_date)
+          )
+          .sort((a, b) => str(a.created_at).localeCompare(str(b.created_at)));
+        return { data: rows.slice(offset, offset + limit).map((f) => ({ ...f })), count: rows.length };
+      },
+    },
+
+    companyMerges: {
+      async insert(row) {
+        return insertRow(tables.company_merges, row);
+      },
+    },
+
+    candidates: {
+      async insert(row) {
+        return insertRow(tables.candidate_applications, row);
+      },
+
+      async update(id, updates) {
+        const candidate = tables.candidate_applications.find((c) => c.id === id);
+        if (candidate) Object.assign(candidate, updates);
+      },
+    },
+
+    formSubmissions: {
+      async insert(row) {
+        return insertRow(tables.form_submissions, row);
+      },
+
+      async findByEmail(formType, email) {
+        const submission = tables.form_submissions.find((s) => s.form_type === formType && s.email === email);
+        return submission ? { ...submission } : null;
+      },
+    },
+
+    aiUsage: {
+      async insert(row) {
+        insertRow(tables.ai_usage, row);
+      },
+
+      async daily(fromDate, toDate) {
+        const groups = new Map<string, Row[]>();
+        for (const row of tables.ai_usage) {
+          const day = str(row.created_at).slice(0, 10);
+          if (day < fromDate || day > toDate) continue;
+
+          const key = [day, row.feature, row.model].join('|');
+          groups.set(key, [...(groups.get(key) ?? []), row]);
+        }
+
+        const sum = (rows: Row[], column: string) => rows.reduce((total, row) => total + Number(row[column] ?? 0), 0);
+
+        return [...groups.keys()].sort().map((key) => {
+          const rows = groups.get(key) as Row[];
+          const [day, feature, model] = key.split('|');
+          return {
+            day,
+            feature,
+            model,
+            calls: rows.length,
+            failed_calls: rows.filter((row) => row.status !== 'ok').length,
+            prompt_tokens: sum(rows, 'prompt_tokens'),
+            completion_tokens: sum(rows, 'completion_tokens'),
+            cost_usd: sum(rows, 'cost_usd'),
+            avg_latency_ms: Math.round(sum(rows, 'latency_ms') / rows.length),
+          };
+        });
+      },
+    },
+
+    aiCache: {
+      async get(cacheKey) {
+        const now = new Date().toISOString();
+        const entry = tables.ai_cache.find((e) => e.cache_key === cacheKey && str(e.expires_at) > now);
+        return entry ? { ...entry } : null;
+      },
+
+      async upsert(row) {
+        const existing = tables.ai_cache.find((e) => e.cache_key === row.cache_key);
+        if (existing) Object.assign(existing, row);
+        else insertRow(tables.ai_cache, row);
+      },
+    },
+
+    healthChecks: {
+      async referentialIntegrity() {
+        const jobIds = new Set(tables.jobs.map((j) => j.id));
+        const orphaned = (rows: Row[]) => rows.filter((row) => !companyById(row.company_id)).length;
+
+        return {
+          orphaned_jobs: orphaned(tables.jobs),
+          orphaned_signals: orphaned(tables.scraping_signals),
+          orphaned_contacts: orphaned(tables.contacts),
+          broken_signal_job_refs: tables.scraping_signals.filter((s) => {
+            const jobAdId = (s.payload as Row | undefined)?.job_ad_id;
+            return jobAdId && !jobIds.has(jobAdId);
+          }).length,
+        };
+      },
+
+      async dataQuality() {
+        const duplicates = (values: string[]) => values.length - new Set(values).size;
+        const companiesWithSignals = new Set(tables.scraping_signals.map((s) => s.company_id));
+        const emails = tables.contacts.filter((c) => c.email).map((c) => `${c.company_id}:${str(c.email).toLowerCase()}`);
+
+        // Generic-name and slug-domain heuristics only exist in the SQL function
+        return {
+          duplicate_companies: duplicates(tables.companies.map((c) => str(c.name).toLowerCase())),
+          duplicate_contacts: duplicates(emails),
+          generic_name_contacts: 0,
+          comma_email_contacts: tables.contacts.filter((c) => str(c.email).includes(',')).length,
+          zombie_companies: tables.companies.filter((c) => !companiesWithSignals.has(c.id)).length,
+          fake_slug_domains: 0,
+        };
+      },
+
+      async freshness() {
+        const staleBefore = new Date(Date.now() - STALE_SCRAPER_DAYS * DAY_MS).toISOString();
+        const lastRunBySource = new Map<string, string>();
+        for (const run of tables.scraper_runs) {
+          const startedAt = str(run.started_at);
+          if (startedAt > (lastRunBySource.get(str(run.source)) ?? '')) {
+            lastRunBySource.set(str(run.source), startedAt);
+          }
+        }
+
+        const now = new Date().toISOString();
+        const expired = tables.scraping_signals.filter((s) => s.expired_at && str(s.expired_at) <= now).length;
+
+        return {
+          stale_scrapers: [...lastRunBySource.entries()]
+            .filter(([, lastRun]) => lastRun < staleBefore)
+            .map(([source, lastRun]) => ({ source, last_run: lastRun })),
+          signal_expiry: {
+            total: tables.scraping_signals.length,
+            expired,
+            active: tables.scraping_signals.length - expired,
+          },
+          table_freshness: {
+            companies: latest(tables.companies, 'created_at'),
+            jobs: latest(tables.jobs, 'created_at'),
+            contacts: latest(tables.contacts, 'created_at'),
+            scraping_signals: latest(tables.scraping_signals, 'captured_at'),
+          },
+        };
+      },
+
+      async signalStats() {
+        const weekAgo = new Date(Date.now() - 7 * DAY_MS).toISOString();
+        const monthAgo = new Date(Date.now() - 30 * DAY_MS).toISOString();
+        const groupBy = (key: (s: Row) => string) => {
+          const groups = new Map<string, Row[]>();
+          for (const signal of tables.scraping_signals) {
+            groups.set(key(signal), [...(groups.get(key(signal)) ?? []), signal]);
+          }
+          return [...groups.entries()];
+        };
+
+        return {
+          by_source: groupBy((s) => str(s.source)).map(([source, signals]) => ({
+            source,
+            total: signals.length,
+            last_7_days: countSince(signals, 'captured_at', weekAgo),
+            last_30_days: countSince(signals, 'captured_at', monthAgo),
+            last_captured: latest(signals, 'captured_at'),
+          })),
+          by_type: groupBy((s) => `${str(s.signal_type)}|${str(s.source)}`).map(([, signals]) => ({
+            signal_type: signals[0].signal_type,
+            source: signals[0].source,
+            count: signals.length,
+          })),
+          top_companies: groupBy((s) => str(s.company_id))
+            .map(([companyId, signals]) => ({
+              company_id: companyId,
+              company_name: str(companyById(companyId)?.name),
+              domain: (companyById(companyId)?.domain as string | null) ?? null,
+              signal_count: signals.length,
+              last_signal: latest(signals, 'captured_at'),
+            }))
+            .sort((a, b) => b.signal_count - a.signal_count)
+            .slice(0, TOP_COMPANIES_LIMIT),
+        };
+      },
+
+      async volume() {
+        const weekAgo = new Date(Date.now() - 7 * DAY_MS).toISOString();
+        const monthAgo = new Date(Date.now() - 30 * DAY_MS).toISOString();
+        const sources = [...new Set(tables.jobs.map((j) => str(j.source)))];
+
+        return {
+          row_counts: {
+            companies: tables.companies.length,
+            jobs: tables.jobs.length,
+            contacts: tables.contacts.length,
+            scraping_signals: tables.scraping_signals.length,
+          },
+          null_rates: {
+            companies_without_domain: tables.companies.filter((c) => !c.domain).length,
+            contacts_without_email: tables.contacts.filter((c) => !c.email).length,
+            jobs_without_company: tables.jobs.filter((j) => !j.company_id).length,
+          },
+          jobs_by_source: sources.map((source) => {
+            const jobs = tables.jobs.filter((j) => j.source === source);
+            return {
+              source,
+              total: jobs.length,
+              last_7_days: countSince(jobs, 'created_at', weekAgo),
+              last_30_days: countSince(jobs, 'created_at', monthAgo),
+              valid: jobs.filter((j) => j.ai_valid === true).length,
+              discarded: jobs.filter((j) => j.ai_valid === false).length,
+            };
+          }),
+        };
+      },
+    },
+  };
+}
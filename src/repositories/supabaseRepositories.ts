@@ -0,0 +1,789 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { config } from '../config/env.js';
+import type { Repositories, Row, JobFingerprintMatch, HealthFreshnessData, HealthSignalStatsData, HealthVolumeData } from './types.js';
+
+/**
+ * Supabase adapter for the repository interfaces.
+ * Methods throw the Postgrest error as-is; services add context and logging.
+ */
+
+const UNIQUE_VIOLATION = '23505';
+// PostgREST returns at most this many rows per request
+const MAX_ROWS_PER_REQUEST = 1000;
+
+async function runRpc<T>(supabase: SupabaseClient, fn: string): Promise<T> {
+  const { data, error } = await supabase.rpc(fn);
+  if (error) throw error;
+  return data as T;
+}
+
+export function createSupabaseRepositories(): Repositories {
+  // Created on first use so the repository layer can be imported without credentials
+  let client: SupabaseClient | null = null;
+  const db = () => {
+    if (!config.supabase.key) {
+      throw new Error('SUPABASE_KEY is required');
+    }
+    client ??= createClient(config.supabase.url, config.supabase.key);
+    return client;
+  };
+
+  const countRows = async (table: string, sinceColumn: string, since?: string): Promise<number> => {
+    let query = db().from(table).select('id', { count: 'exact', head: true });
+    if (since) {
+      query = query.gte(sinceColumn, since);
+    }
+
+    const { count, error } = await query;
+    if (error) throw error;
+    return count ?? 0;
+  };
+
+  const reassignCompany = async (table: string, fromCompanyId: string, toCompanyId: string, exceptIds: string[] = []) => {
+    let query = db().from(table).update({ company_id: toCompanyId }).eq('company_id', fromCompanyId);
+    if (exceptIds.length > 0) {
+      query = query.not('id', 'in', `(${exceptIds.join(',')})`);
+    }
+
+    const { data, error } = await query.select('id');
+    if (error) throw error;
+    return data?.length || 0;
+  };
+
+  return {
+    companies: {
+      async findOrCreate(name, domain, source, orgNumber = null) {
+        const { data, error } = await db().rpc('find_or_create_company', {
+          p_name: name,
+          p_domain: domain,
+          p_source: source,
+          p_org_number: orgNumber,
+        });
+
+        if (error) throw error;
+        return data as string;
+      },
+
+      async getById(id) {
+        const { data, error } = await db().from('companies').select('*').eq('id', id).maybeSingle();
+        if (error) throw error;
+        return data as Row | null;
+      },
+
+      async getDetail(id) {
+        const { data, error } = await db()
+          .from('companies')
+          .select(
+            '*, jobs(id, title, source, location, ai_valid, ai_score, ai_category, posted_date, external_url, created_at), scraping_signals(id, signal_type, source, signal_date, captured_at, payload), contacts(id, full_name, email, phone, title, linkedin_url, source, source_method, created_at)'
+          )
+          .eq('id', id)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as Row | null;
+      },
+
+      async update(id, updates) {
+        const { error } = await db().from('companies').update(updates).eq('id', id);
+        if (error) throw error;
+      },
+
+      async list({ limit, offset, org_number }) {
+        // Supabase doesn't support COUNT on nested relations directly,
+        // so we fetch the IDs and count client-side for simplicity.
+        let query = db()
+          .from('companies')
+          .select(
+            'id, name, domain, org_number, industry, region, current_score, scored_at, status, source, website, linkedin_url, employee_count, company_size, enrichment_status, created_at, updated_at, jobs(id), scraping_signals(id), contacts(id)',
+            { count: 'exact' }
+          )
+          .is('merged_into', null)
+          .order('created_at', { ascending: false })
+          .range(offset, offset + limit - 1);
+
+        if (org_number) query = query.eq('org_number', org_number);
+
+        const { data, error, count } = await query;
+        if (error) throw error;
+
+        const transformed = (data || []).map((company: Row) => {
+          const { jobs, scraping_signals, contacts, ...rest } = company;
+          return {
+            ...rest,
+            job_count: Array.isArray(jobs) ? jobs.length : 0,
+            signal_count: Array.isArray(scraping_signals) ? scraping_signals.length : 0,
+            contact_count: Array.isArray(contacts) ? contacts.length : 0,
+          };
+        });
+
+        return { data: transformed, count: count ?? 0 };
+      },
+
+      async findMatchCandidates({ name_terms, domain, org_number, limit }) {
+        // Terms are plain words; values are quoted for the or() filter syntax
+        const conditions = name_terms.map((term) => `name.ilike.*${term}*`);
+        if (domain) conditions.push(`domain.eq."${domain}"`);
+        if (org_number) conditions.push(`org_number.eq."${org_number}"`);
+        if (conditions.length === 0) return [];
+
+        const { data, error } = await db()
+          .from('companies')
+          .select('id, name, domain, org_number, source, created_at')
+          .is('merged_into', null)
+          .or(conditions.join(','))
+          .order('created_at', { ascending: true })
+          .limit(limit);
+
+        if (error) throw error;
+        return (data || []) as Row[];
+      },
+
+      async markMerged(id, intoId) {
+        const mergedAt = new Date().toISOString();
+
+        const { error: redirectError } = await db()
+          .from('companies')
+          .update({ merged_into: intoId })
+          .eq('merged_into', id);
+        if (redirectError) throw redirectError;
+
+        const { error } = await db().from('companies').update({ merged_into: intoId, merged_at: mergedAt }).eq('id', id);
+        if (error) throw error;
+      },
+
+      async listIds({ limit, offset }) {
+        const { data, error } = await db()
+          .from('companies')
+          .select('id')
+          .is('merged_into', null)
+          .order('created_at', { ascending: true })
+          .range(offset, offset + limit - 1);
+
+        if (error) throw error;
+        return (data || []).map((row) => row.id as string);
+      },
+
+      count: (createdSince) => countRows('companies', 'created_at', createdSince),
+    },
+
+    jobs: {
+      async findExternalKeys(table, source, column, values) {
+        const { data, error } = await db()
+          .from(table)
+          .select('external_id, external_url')
+          .eq('source', source)
+          .in(column, values);
+
+        if (error) throw error;
+        return data || [];
+      },
+
+      async findByFingerprints(keys) {
+        const { data, error } = await db()
+          .from('jobs')
+          .select('id, source, fingerprint, description_sketch, created_at')
+          .in('fingerprint', keys);
+
+        if (error) throw error;
+        return (data || []) as JobFingerprintMatch[];
+      },
+
+      async upsertSourceLink(link) {
+        const { error } = await db().from('job_source_links').upsert(link, { onConflict: 'source,external_id' });
+        if (error) throw error;
+      },
+
+      async insert(row) {
+        const { data, error } = await db().from('jobs').insert(row).select().single();
+        if (error) throw error;
+        return data as Row;
+      },
+
+      async deleteOlderThan(source, cutoffDate) {
+        const { data, error } = await db()
+          .from('jobs')
+          .delete()
+          .eq('source', source)
+          .lt('posted_date', cutoffDate)
+          .select('id');
+
+        if (error) throw error;
+        return data?.length || 0;
+      },
+
+      async list({ limit, offset, source, ai_valid, from_date, to_date }) {
+        let query = db()
+          .from('jobs')
+          .select(
+            'id, title, source, location, ai_valid, ai_score, ai_category, ai_experience, posted_date, external_url, application_email, salary, duration, published_status, is_ai_generated, created_at, company_id, companies(id, name, domain)',
+            { count: 'exact' }
+          )
+          .order('created_at', { ascending: false })
+          .range(offset, offset + limit - 1);
+
+        if (source) query = query.eq('source', source);
+        if (ai_valid !== undefined) query = query.eq('ai_valid', ai_valid);
+        if (from_date) query = query.gte('posted_date', from_date);
+        if (to_date) query = query.lte('posted_date', to_date);
+
+        const { data, error, count } = await query;
+        if (error) throw error;
+        return { data: (data || []) as Row[], count: count ?? 0 };
+      },
+
+      async findForReevaluation({
+        ids, source, ai_category, created_from, created_to, prompt_version, not_prompt_version, limit,
+      }) {
+        let query = db()
+          .from('jobs')
+          .select('*, companies(id, name, domain)')
+          .order('created_at', { ascending: false })
+          .limit(limit);
+
+        if (ids) {
+          query = query.in('id', ids);
+        } else {
+          if (source) query = query.eq('source', source);
+          if (ai_category) query = query.eq('ai_category', ai_category);
+          if (created_from) query = query.gte('created_at', created_from);
+          if (created_to) query = query.lte('created_at', created_to);
+          if (prompt_version) query = query.eq('ai_prompts->>job_evaluation', prompt_version);
+          if (not_prompt_version) {
+            query = query.or(
+              `ai_prompts->>job_evaluation.is.null,ai_prompts->>job_evaluation.neq.${not_prompt_version}`
+            );
+          }
+        }
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return (data || []) as Row[];
+      },
+
+      async update(id, updates) {
+        const { error } = await db().from('jobs').update(updates).eq('id', id);
+        if (error) throw error;
+      },
+
+      async listPostings({ since, company_ids }) {
+        const rows: Row[] = [];
+
+        for (let offset = 0; ; offset += MAX_ROWS_PER_REQUEST) {
+          let query = db()
+            .from('jobs')
+            .select('id, company_id, ai_category, posted_date, created_at, companies(id, name, domain)')
+            .eq('ai_valid', true)
+            .or(`posted_date.gte.${since.slice(0, 10)},and(posted_date.is.null,created_at.gte.${since})`)
+            .order('created_at', { ascending: true })
+            .range(offset, offset + MAX_ROWS_PER_REQUEST - 1);
+
+          if (company_ids) query = query.in('company_id', company_ids);
+
+          const { data, error } = await query;
+          if (error) throw error;
+
+          rows.push(...((data || []) as Row[]));
+          if (!data || data.length < MAX_ROWS_PER_REQUEST) return rows;
+        }
+      },
+
+      reassignCompany: (fromCompanyId, toCompanyId) => reassignCompany('jobs', fromCompanyId, toCompanyId),
+
+      async getDetail(id) {
+        const { data, error } = await db()
+          .from('jobs')
+          .select(
+            '*, companies(id, name, domain, industry, current_score, website), job_source_links(source, external_url, description_similarity, created_at)'
+          )
+          .eq('id', id)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as Row | null;
+      },
+
+      count: (createdSince) => countRows('jobs', 'created_at', createdSince),
+    },
+
+    contacts: {
+      async findByEmail(companyId, email) {
+        const { data, error } = await db()
+          .from('contacts')
+          .select('*')
+          .eq('company_id', companyId)
+          .eq('email', email)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as Row | null;
+      },
+
+      async upsert(row, conflictColumn) {
+        const { data, error } = await db()
+          .from('contacts')
+          .upsert(row, { onConflict: `company_id,${conflictColumn}`, ignoreDuplicates: false })
+          .select()
+          .single();
+
+        if (error) {
+          if (error.code === UNIQUE_VIOLATION) return null;
+          throw error;
+        }
+        return data as Row;
+      },
+
+      async list({ limit, offset, source, source_method }) {
+        let query = db()
+          .from('contacts')
+          .select(
+            'id, full_name, first_name, last_name, email, phone, title, linkedin_url, source, source_method, department, seniority, created_at, company_id, companies(id, name, domain)',
+            { count: 'exact' }
+          )
+          .order('created_at', { ascending: false })
+          .range(offset, offset + limit - 1);
+
+        if (source) query = query.eq('source', source);
+        if (source_method) query = query.eq('source_method', source_method);
+
+        const { data, error, count } = await query;
+        if (error) throw error;
+        return { data: (data || []) as Row[], count: count ?? 0 };
+      },
+
+      async listByCompany(companyId) {
+        const { data, error } = await db().from('contacts').select('*').eq('company_id', companyId);
+        if (error) throw error;
+        return (data || []) as Row[];
+      },
+
+      reassignCompany: (fromCompanyId, toCompanyId, exceptIds) =>
+        reassignCompany('contacts', fromCompanyId, toCompanyId, exceptIds),
+
+      count: () => countRows('contacts', 'created_at'),
+    },
+
+    signals: {
+      async insert(row) {
+        const { data, error } = await db().from('scraping_signals').insert(row).select().single();
+        if (error) throw error;
+        return data as Row;
+      },
+
+      async countFormSubmissions(email, since) {
+        const { count, error } = await db()
+          .from('scraping_signals')
+          .select('id', { count: 'exact', head: true })
+          .eq('signal_type', 'website_form_submission')
+          .eq('payload->>email', email)
+          .gte('captured_at', since);
+
+        if (error) throw error;
+        return count ?? 0;
+      },
+
+      async getById(id) {
+        const { data, error } = await db().from('scraping_signals').select('*').eq('id', id).maybeSingle();
+        if (error) throw error;
+        return data as Row | null;
+      },
+
+      async update(id, updates) {
+        const { error } = await db().from('scraping_signals').update(updates).eq('id', id);
+        if (error) throw error;
+      },
+
+      async findByJobAdId(jobAdId) {
+        const { data, error } = await db()
+          .from('scraping_signals')
+          .select('*')
+          .eq('payload->>job_ad_id', jobAdId)
+          .order('captured_at', { ascending: false })
+          .limit(1);
+
+        if (error) throw error;
+        return (data?.[0] as Row | undefined) ?? null;
+      },
+
+      reassignCompany: (fromCompanyId, toCompanyId) => reassignCompany('scraping_signals', fromCompanyId, toCompanyId),
+
+      async listByCompany(companyId) {
+        const { data, error } = await db()
+          .from('scraping_signals')
+          .select('id, signal_type, source, signal_date, captured_at, expired_at, score_contribution, payload')
+          .eq('company_id', companyId)
+          .order('captured_at', { ascending: false });
+
+        if (error) throw error;
+        return (data || []) as Row[];
+      },
+
+      async list({ limit, offset, source, signal_type }) {
+        let query = db()
+          .from('scraping_signals')
+          .select(
+            'id, signal_type, source, signal_date, captured_at, expired_at, score_contribution, payload, company_id, companies(id, name, domain)',
+            { count: 'exact' }
+          )
+          .order('captured_at', { ascending: false })
+          .range(offset, offset + limit - 1);
+
+        if (source) query = query.eq('source', source);
+        if (signal_type) query = query.eq('signal_type', signal_type);
+
+        const { data, error, count } = await query;
+        if (error) throw error;
+        return { data: (data || []) as Row[], count: count ?? 0 };
+      },
+
+      count: (capturedSince) => countRows('scraping_signals', 'captured_at', capturedSince),
+    },
+
+    rejectedLeads: {
+      async insert(row) {
+        const { data, error } = await db().from('scraping_rejected_leads').insert(row).select().single();
+        if (error) throw error;
+        return data as Row;
+      },
+
+      async countByEmail(email, since) {
+        const { count, error } = await db()
+          .from('scraping_rejected_leads')
+          .select('id', { count: 'exact', head: true })
+          .eq('email', email)
+          .gte('created_at', since);
+
+        if (error) throw error;
+        return count ?? 0;
+      },
+
+      async getById(id) {
+        const { data, error } = await db().from('scraping_rejected_leads').select('*').eq('id', id).maybeSingle();
+        if (error) throw error;
+        return data as Row | null;
+      },
+
+      async update(id, updates) {
+        const { error } = await db().from('scraping_rejected_leads').update(updates).eq('id', id);
+        if (error) throw error;
+      },
+
+      async list({ limit, offset, classification }) {
+        let query = db()
+          .from('scraping_rejected_leads')
+          .select('*', { count: 'exact' })
+          .order('created_at', { ascending: false })
+          .range(offset, offset + limit - 1);
+
+        if (classification) query = query.eq('classification', classification);
+
+        const { data, error, count } = await query;
+        if (error) throw error;
+        return { data: (data || []) as Row[], count: count ?? 0 };
+      },
+    },
+
+    alerts: {
+      async insert(row) {
+        const { error } = await db().from('system_alerts').insert(row);
+        if (error) throw error;
+      },
+
+      async insertErrorLog(row) {
+        const { error } = await db().from('system_error_logs').insert(row);
+        if (error) throw error;
+      },
+
+      async list({ limit, offset, source, severity, from_date, to_date }) {
+        let query = db()
+          .from('system_alerts')
+          .select('*', { count: 'exact' })
+          .order('created_at', { ascending: false })
+          .range(offset, offset + limit - 1)
+          .gte('created_at', from_date);
+
+        if (source) query = query.eq('source', source);
+        if (severity) query = query.eq('severity', severity);
+        if (to_date) query = query.lte('created_at', to_date);
+
+        const { data, error, count } = await query;
+        if (error) throw error;
+        return { data: (data || []) as Row[], count: count ?? 0 };
+      },
+    },
+
+    accessRequests: {
+      async insert(row) {
+        const { data, error } = await db().from('client_access_requests').insert(row).select('id').single();
+        if (error) throw error;
+        return data.id as string;
+      },
+    },
+
+    notifications: {
+      async findAdminUserIds() {
+        // Select user_id (FK to auth.users), not id (user_profiles PK)
+        // notifications.user_id references auth.users.id
+        const { data, error } = await db().from('user_profiles').select('user_id').eq('role', 'admin');
+        if (error) throw error;
+        return (data || []).map((profile) => profile.user_id as string);
+      },
+
+      async insertMany(rows) {
+        const { error } = await db().from('notifications').insert(rows);
+        if (error) throw error;
+      },
+    },
+
+    scraperRuns: {
+      async insert(row) {
+        const { error } = await db().from('scraper_runs').insert(row);
+        if (error) throw error;
+      },
+
+      async list({ limit, offset, source, status, from_date, to_date }) {
+        // Error lists can be large — omit them from the listing, fetch via getByRunId
+        let query = db()
+          .from('scraper_runs')
+          .select(
+            'run_id, source, scraper_type, status, config, stats, error_count, started_at, finished_at, duration_ms',
+            { count: 'exact' }
+          )
+          .order('started_at', { ascending: false })
+          .range(offset, offset + limit - 1);
+
+        if (source) query = query.eq('source', source);
+        if (status) query = query.eq('status', status);
+        if (from_date) query = query.gte('started_at', from_date);
+        if (to_date) query = query.lte('started_at', to_date);
+
+        const { data, error, count } = await query;
+        if (error) throw error;
+        return { data: (data || []) as Row[], count: count ?? 0 };
+      },
+
+      async getByRunId(runId) {
+        const { data, error } = await db().from('scraper_runs').select('*').eq('run_id', runId).maybeSingle();
+        if (error) throw error;
+        return data as Row | null;
+      },
+    },
+
+    webhookSubmissions: {
+      async claim(row) {
+        const { error } = await db().from('webhook_submissions').insert(row);
+        if (error) {
+          if (error.code === UNIQUE_VIOLATION) return false;
+          throw error;
+        }
+        return true;
+      },
+
+      async findByKey(key) {
+        const { data, error } = await db()
+          .from('webhook_submissions')
+          .select('*')
+          .eq('idempotency_key', key)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as Row | null;
+      },
+
+      async update(key, updates) {
+        const { error } = await db().from('webhook_submissions').update(updates).eq('idempotency_key', key);
+        if (error) throw error;
+      },
+
+      async delete(key) {
+        const { error } = await db().from('webhook_submissions').delete().eq('idempotency_key', key);
+        if (error) throw error;
+      },
+    },
+
+    outbox: {
+      async insertMany(rows) {
+        const { error } = await db().from('webhook_outbox').insert(rows);
+        if (error) throw error;
+      },
+
+      async listBySubmission(submissionId) {
+        const { data, error } = await db()
+          .from('webhook_outbox')
+          .select('*')
+          .eq('submission_id', submissionId)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return (data || []) as Row[];
+      },
+
+      async findDueSubmissionIds(now, staleBefore, limit) {
+        const { data, error } = await db()
+          .from('webhook_outbox')
+          .select('submission_id')
+          .or(`and(status.eq.pending,next_attempt_at.lte.${now}),and(status.eq.processing,locked_at.lt.${staleBefore})`)
+          .order('next_attempt_at', { ascending: true })
+          .limit(limit);
+
+        if (error) throw error;
+        return [...new Set((data || []).map((row) => row.submission_id as string))];
+      },
+
+      async claim(id, lockedAt, staleBefore) {
+        const { data, error } = await db()
+          .from('webhook_outbox')
+          .update({ status: 'processing', locked_at: lockedAt })
+          .eq('id', id)
+          .or(`status.eq.pending,and(status.eq.processing,locked_at.lt.${staleBefore})`)
+          .select('id');
+
+        if (error) throw error;
+        return (data || []).length > 0;
+      },
+
+      async update(id, updates) {
+        const { error } = await db().from('webhook_outbox').update(updates).eq('id', id);
+        if (error) throw error;
+      },
+
+      async list({ limit, offset, status, step, submission_id }) {
+        let query = db()
+          .from('webhook_outbox')
+          .select(
+            'id, submission_id, step, status, attempts, last_error, next_attempt_at, created_at, completed_at',
+            { count: 'exact' }
+          )
+          .order('created_at', { ascending: false })
+          .range(offset, offset + limit - 1);
+
+        if (status) query = query.eq('status', status);
+        if (step) query = query.eq('step', step);
+        if (submission_id) query = query.eq('submission_id', submission_id);
+
+        const { data, error, count } = await query;
+        if (error) throw error;
+        return { data: (data || []) as Row[], count: count ?? 0 };
+      },
+    },
+
+    leadFeedback: {
+      async insert(row) {
+        const { data, error } = await db().from('lead_feedback').insert(row).select().single();
+        if (error) throw error;
+        return data as Row;
+      },
+
+      async findLatestByLead(leadType, leadId) {
+        const { data, error } = await db()
+          .from('lead_feedback')
+          .select('*')
+          .eq('lead_type', leadType)
+          .eq('lead_id', leadId)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as Row | null;
+      },
+
+      async list({ limit, offset, lead_type, disagreement, from_date, to_date }) {
+        let query = db()
+          .from('lead_feedback')
+          .select('*', { count: 'exact' })
+          .order('created_at', { ascending: true })
+          .range(offset, offset + limit - 1);
+
+        if (lead_type) query = query.eq('lead_type', lead_type);
+        if (disagreement !== undefined) query = query.eq('disagreement', disagreement);
+        if (from_date) query = query.gte('created_at', from_date);
+        if (to_date) query = query.lte('created_at', to_date);
+
+        const { data, error, count } = await query;
+        if (error) throw error;
+        return { data: (data || []) as Row[], count: count ?? 0 };
+      },
+    },
+
+    companyMerges: {
+      async insert(row) {
+        const { data, error } = await db().from('company_merges').insert(row).select().single();
+        if (error) throw error;
+        return data as Row;
+      },
+    },
+
+    candidates: {
+      async insert(row) {
+        const { data, error } = await db().from('candidate_applications').insert(row).select().single();
+        if (error) throw error;
+        return data as Row;
+      },
+
+      async update(id, updates) {
+        const { error } = await db().from('candidate_applications').update(updates).eq('id', id);
+        if (error) throw error;
+      },
+    },
+
+    formSubmissions: {
+      async insert(row) {
+        const { data, error } = await db().from('form_submissions').insert(row).select().single();
+        if (error) throw error;
+        return data as Row;
+      },
+
+      async findByEmail(formType, email) {
+        const { data, error } = await db()
+          .from('form_submissions')
+          .select('*')
+          .eq('form_type', formType)
+          .eq('email', email)
+          .limit(1)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data as Row | null;
+      },
+    },
+
+    aiUsage: {
+      async insert(row) {
+        const { error } = await db().from('ai_usage').insert(row);
+        if (error) throw error;
+      },
+
+      async daily(fromDate, toDate) {
+        const { data, error } = await db().rpc('ai_usage_daily', { p_from: fromDate, p_to: toDate });
+        if (error) throw error;
+        return (data ?? []) as Row[];
+      },
+    },
+
+    aiCache: {
+      async get(cacheKey) {
+        const { data, error } = await db()
+          .from('ai_cache')
+          .select('*')
+          .eq('cache_key', cacheKey)
+          .gt('expires_at', new Date().toISOString())
+          .maybeSingle();
+        if (error) throw error;
+        return (data as Row | null) ?? null;
+      },
+
+      async upsert(row) {
+        const { error } = await db().from('ai_cache').upsert(row, { onConflict: 'cache_key' });
+        if (error) throw error;
+      },
+    },
+
+    healthChecks: {
+      referentialIntegrity: () => runRpc<Record<string, number>>(db(), 'health_check_referential_integrity'),
+      dataQuality: () => runRpc<Record<string, number>>(db(), 'health_check_data_quality'),
+      freshness: () => runRpc<HealthFreshnessData>(db(), 'health_check_freshness'),
+      signalStats: () => runRpc<HealthSignalStatsData>(db(), 'health_check_signal_stats'),
+      volume: () => runRpc<HealthVolumeData>(db(), 'health_check_volume'),
+    },
+  };
+}
@@ -0,0 +1,260 @@
+import type { DedupTable, DedupColumn, DedupRow } from '../services/jobs/dedupLookup.js';
+import type { SignalsBySource, TopCompanyBySignals, JobsBySource } from '../types/healthCheck.types.js';
+
+/**
+ * Storage interfaces used by the service layer.
+ *
+ * Rows are plain objects in the shape of their table (snake_case columns), so
+ * services keep building the same records regardless of the backend. Listing
+ * methods return joined rows in the same shape as the Supabase selects
+ * (e.g. `companies: { id, name, domain }` on jobs).
+ */
+
+export type Row = Record<string, unknown>;
+
+export interface Page {
+  data: Row[];
+  count: number;
+}
+
+export interface PageOptions {
+  limit: number;
+  offset: number;
+}
+
+// Companies that might be the same company as another one (see utils/companyMatcher.ts)
+export interface CompanyMatchFilters {
+  // Name contains any of these words (case-insensitive)
+  name_terms: string[];
+  domain?: string | null;
+  org_number?: string | null;
+  limit: number;
+}
+
+export interface CompanyRepository {
+  // Match on org number, then domain, then case-insensitive name, else create (find_or_create_company).
+  // A company with a different org number never matches. A company merged into another
+  // resolves to the one it was merged into.
+  findOrCreate(name: string, domain: string | null, source: string, orgNumber?: string | null): Promise<string>;
+  getById(id: string): Promise<Row | null>;
+  // Company with its jobs, signals and contacts
+  getDetail(id: string): Promise<Row | null>;
+  update(id: string, updates: Row): Promise<void>;
+  // Companies not merged into another, with job_count, signal_count and contact_count
+  list(filters: PageOptions & { org_number?: string }): Promise<Page>;
+  // Companies not merged into another matching any of the filters
+  findMatchCandidates(filters: CompanyMatchFilters): Promise<Row[]>;
+  // Set merged_into on the company, and on the companies previously merged into it
+  markMerged(id: string, intoId: string): Promise<void>;
+  // Ids of companies not merged into another, oldest first
+  listIds(options: PageOptions): Promise<string[]>;
+  count(createdSince?: string): Promise<number>;
+}
+
+export interface JobFingerprintMatch {
+  id: string;
+  source: string;
+  fingerprint: string;
+  description_sketch: string | null;
+  created_at: string;
+}
+
+// Selection of stored jobs to re-evaluate; ids win over the other filters
+export interface JobReevaluationFilters {
+  ids?: string[];
+  source?: string;
+  ai_category?: string;
+  // created_at range (ISO date or timestamp)
+  created_from?: string;
+  created_to?: string;
+  // Scored with this job_evaluation prompt version
+  prompt_version?: string;
+  // Scored with any other version, or before versions were recorded
+  not_prompt_version?: string;
+  limit: number;
+}
+
+export interface JobRepository {
+  // Stored external_id / external_url values of a source, in jobs or job_source_links
+  findExternalKeys(table: DedupTable, source: string, column: DedupColumn, values: string[]): Promise<DedupRow[]>;
+  findByFingerprints(keys: string[]): Promise<JobFingerprintMatch[]>;
+  // Upsert on (source, external_id)
+  upsertSourceLink(link: Row): Promise<void>;
+  insert(row: Row): Promise<Row>;
+  // Delete a source's jobs posted before the cutoff date (YYYY-MM-DD), returns how many
+  deleteOlderThan(source: string, cutoffDate: string): Promise<number>;
+  list(filters: PageOptions & { source?: string; ai_valid?: boolean; from_date?: string; to_date?: string }): Promise<Page>;
+  // Full job rows (with `companies: { id, name, domain }`), newest first
+  findForReevaluation(filters: JobReevaluationFilters): Promise<Row[]>;
+  update(id: string, updates: Row): Promise<void>;
+  // Move a company's jobs to another company, returns how many
+  reassignCompany(fromCompanyId: string, toCompanyId: string): Promise<number>;
+  // Valid jobs posted (or, without posted_date, stored) since the given time, optionally of
+  // some companies: id, company_id, ai_category, posted_date, created_at and `companies: { id, name, domain }`
+  listPostings(filters: { since: string; company_ids?: string[] }): Promise<Row[]>;
+  // Job with its company and cross-source links
+  getDetail(id: string): Promise<Row | null>;
+  count(createdSince?: string): Promise<number>;
+}
+
+export interface ContactRepository {
+  findByEmail(companyId: string, email: string): Promise<Row | null>;
+  // Upsert on (company_id, email) or (company_id, linkedin_url).
+  // Resolves to null when another unique constraint rejects the row.
+  upsert(row: Row, conflictColumn: 'email' | 'linkedin_url'): Promise<Row | null>;
+  list(filters: PageOptions & { source?: string; source_method?: string }): Promise<Page>;
+  listByCompany(companyId: string): Promise<Row[]>;
+  // Move a company's contacts, except the given ones, to another company; returns how many
+  reassignCompany(fromCompanyId: string, toCompanyId: string, exceptIds: string[]): Promise<number>;
+  count(): Promise<number>;
+}
+
+export interface SignalRepository {
+  insert(row: Row): Promise<Row>;
+  // Website form submissions from an email captured since the given time
+  countFormSubmissions(email: string, since: string): Promise<number>;
+  getById(id: string): Promise<Row | null>;
+  update(id: string, updates: Row): Promise<void>;
+  // The signal created for a scraped job (payload.job_ad_id)
+  findByJobAdId(jobAdId: string): Promise<Row | null>;
+  // Move a company's signals to another company, returns how many
+  reassignCompany(fromCompanyId: string, toCompanyId: string): Promise<number>;
+  // All signals of a company, newest first
+  listByCompany(companyId: string): Promise<Row[]>;
+  list(filters: PageOptions & { source?: string; signal_type?: string }): Promise<Page>;
+  count(capturedSince?: string): Promise<number>;
+}
+
+export interface RejectedLeadRepository {
+  insert(row: Row): Promise<Row>;
+  countByEmail(email: string, since: string): Promise<number>;
+  getById(id: string): Promise<Row | null>;
+  update(id: string, updates: Row): Promise<void>;
+  list(filters: PageOptions & { classification?: string }): Promise<Page>;
+}
+
+export interface AlertRepository {
+  insert(row: Row): Promise<void>;
+  insertErrorLog(row: Row): Promise<void>;
+  list(filters: PageOptions & { source?: string; severity?: string; from_date: string; to_date?: string }): Promise<Page>;
+}
+
+export interface AccessRequestRepository {
+  insert(row: Row): Promise<string>;
+}
+
+export interface NotificationRepository {
+  // auth user ids of admin profiles
+  findAdminUserIds(): Promise<string[]>;
+  insertMany(rows: Row[]): Promise<void>;
+}
+
+export interface ScraperRunRepository {
+  insert(row: Row): Promise<void>;
+  // Listing omits the error lists
+  list(filters: PageOptions & { source?: string; status?: string; from_date?: string; to_date?: string }): Promise<Page>;
+  getByRunId(runId: string): Promise<Row | null>;
+}
+
+export interface WebhookSubmissionRepository {
+  // Insert a submission row; false when its idempotency_key is already taken
+  claim(row: Row): Promise<boolean>;
+  findByKey(key: string): Promise<Row | null>;
+  update(key: string, updates: Row): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface OutboxRepository {
+  insertMany(rows: Row[]): Promise<void>;
+  // All steps of a submission
+  listBySubmission(submissionId: string): Promise<Row[]>;
+  // Submissions with a pending step due by `now`, or a 'processing' step locked before `staleBefore`
+  findDueSubmissionIds(now: string, staleBefore: string, limit: number): Promise<string[]>;
+  // Lock a step for processing; false when it isn't pending (or stale) anymore
+  claim(id: string, lockedAt: string, staleBefore: string): Promise<boolean>;
+  update(id: string, updates: Row): Promise<void>;
+  list(filters: PageOptions & { status?: string; step?: string; submission_id?: string }): Promise<Page>;
+}
+
+export interface LeadFeedbackRepository {
+  insert(row: Row): Promise<Row>;
+  // Most recent review of a lead
+  findLatestByLead(leadType: string, leadId: string): Promise<Row | null>;
+  // Oldest first
+  list(filters: PageOptions & { lead_type?: string; disagreement?: boolean; from_date?: string; to_date?: string }): Promise<Page>;
+}
+
+export interface CompanyMergeRepository {
+  insert(row: Row): Promise<Row>;
+}
+
+export interface CandidateRepository {
+  insert(row: Row): Promise<Row>;
+  update(id: string, updates: Row): Promise<void>;
+}
+
+export interface FormSubmissionRepository {
+  insert(row: Row): Promise<Row>;
+  // Emails are stored lowercased
+  findByEmail(formType: string, email: string): Promise<Row | null>;
+}
+
+export interface AIUsageRepository {
+  insert(row: Row): Promise<void>;
+  // Calls, tokens, cost and latency per day, feature and model (ai_usage_daily); dates are inclusive YYYY-MM-DD
+  daily(fromDate: string, toDate: string): Promise<Row[]>;
+}
+
+export interface AICacheRepository {
+  // null when there is no entry or it has expired
+  get(cacheKey: string): Promise<Row | null>;
+  // Insert or replace by cache_key
+  upsert(row: Row): Promise<void>;
+}
+
+export interface HealthFreshnessData {
+  stale_scrapers: Row[];
+  signal_expiry: { total: number; expired: number; active: number };
+  table_freshness: Record<string, string | null>;
+}
+
+export interface HealthSignalStatsData {
+  by_source: SignalsBySource[];
+  by_type: Row[];
+  top_companies: TopCompanyBySignals[];
+}
+
+export interface HealthVolumeData {
+  row_counts: Record<string, number>;
+  null_rates: Record<string, number>;
+  jobs_by_source: JobsBySource[];
+}
+
+export interface HealthCheckRepository {
+  referentialIntegrity(): Promise<Record<string, number>>;
+  dataQuality(): Promise<Record<string, number>>;
+  freshness(): Promise<HealthFreshnessData>;
+  signalStats(): Promise<HealthSignalStatsData>;
+  volume(): Promise<HealthVolumeData>;
+}
+
+export interface Repositories {
+  companies: CompanyRepository;
+  jobs: JobRepository;
+  contacts: ContactRepository;
+  signals: SignalRepository;
+  rejectedLeads: RejectedLeadRepository;
+  alerts: AlertRepository;
+  accessRequests: AccessRequestRepository;
+  notifications: NotificationRepository;
+  scraperRuns: ScraperRunRepository;
+  webhookSubmissions: WebhookSubmissionRepository;
+  outbox: OutboxRepository;
+  leadFeedback: LeadFeedbackRepository;
+  companyMerges: CompanyMergeRepository;
+  candidates: CandidateRepository;
+  formSubmissions: FormSubmissionRepository;
+  aiUsage: AIUsageRepository;
+  aiCache: AICacheRepository;
+  healthChecks: HealthCheckRepository;
+}
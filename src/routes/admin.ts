@@ -1,4 +1,5 @@
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
 import { logger, getErrorMessage } from '../utils/logger.js';
 import {
   runFullHealthCheck,
@@ -7,6 +8,7 @@ import {
   getJobsBySource,
 } from '../services/healthCheckService.js';
 import { sendHealthCheckDigestEmail } from '../services/emailService.js';
+import { getAIUsageStats } from '../services/aiUsageService.js';
 import { verifyApiKey } from '../middleware/scraperAuth.js';
 import {
   getJobs,
@@ -17,7 +19,22 @@ import {
   getSignals,
   getDashboardSummary,
   getAlerts,
+  getScraperRuns,
+  getScraperRunById,
 } from '../services/supabaseService.js';
+import { getOutboxEntries, processOutbox, retryOutboxSubmission } from '../services/webhookOutboxService.js';
+import { reprocessRejectedLead, reprocessRejectedLeads } from '../services/rejectedLeadService.js';
+import { reevaluateJobs } from '../services/jobs/jobReevaluation.js';
+import { findCompanyMergeCandidates, mergeCompanies } from '../services/companyMergeService.js';
+import { getCompanyScore, rescoreAllCompanies } from '../services/companyScoringService.js';
+import { getHiringTrends } from '../services/hiringTrendService.js';
+import { normalizeOrgNumber } from '../utils/orgNumber.js';
+import {
+  overrideLeadClassification,
+  getLeadFeedback,
+  exportDisagreements,
+  getLeadFeedbackStats,
+} from '../services/leadFeedbackService.js';
 
 const router: Router = Router();
 
@@ -216,6 +233,79 @@ router.get('/stats/jobs-by-source', async (_req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/admin/stats/ai-usage:
+ *   get:
+ *     tags: [Stats]
+ *     summary: LLM token usage and estimated cost
+ *     description: |
+ *       Token usage, latency and estimated cost of every LLM call, aggregated per day and per feature
+ *       (job_evaluation, company_evaluation, cv_parsing, match_scoring, lead_scoring, ...).
+ *       Costs are estimates from the configured price table (`AI_MODEL_PRICES`); models without a price count as $0.
+ *       Defaults to the last 30 days.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from_date
+ *         schema: { type: string, format: date }
+ *         description: First day to include (YYYY-MM-DD)
+ *       - in: query
+ *         name: to_date
+ *         schema: { type: string, format: date }
+ *         description: Last day to include (YYYY-MM-DD)
+ *       - in: query
+ *         name: feature
+ *         schema: { type: string }
+ *         description: Only include one AI feature
+ *     responses:
+ *       200:
+ *         description: AI usage summary
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data: { $ref: '#/components/schemas/AIUsageSummary' }
+ *       400:
+ *         description: Invalid date
+ *       401:
+ *         description: Missing or invalid API key
+ */
+router.get('/stats/ai-usage', async (req: Request, res: Response) => {
+  try {
+    const { from_date, to_date, feature } = req.query;
+    const today = new Date().toISOString().split('T')[0];
+    const thirtyDaysAgo = new Date(Date.now() - 29 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+    const from = (from_date as string | undefined) || thirtyDaysAgo;
+    const to = (to_date as string | undefined) || today;
+
+    if (![from, to].every((date) => /^\d{4}-\d{2}-\d{2}$/.test(date))) {
+      return res.status(400).json({
+        success: false,
+        error: 'from_date and to_date must be YYYY-MM-DD',
+      });
+    }
+
+    const data = await getAIUsageStats({ from_date: from, to_date: to, feature: feature as string | undefined });
+
+    return res.status(200).json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    logger.error('Failed to get AI usage stats', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+    });
+  }
+});
+
 /**
  * @swagger
  * /api/admin/health-check/send-digest:
@@ -412,6 +502,90 @@ router.get('/jobs/:id', async (req: Request, res: Response) => {
   }
 });
 
+const JobReevaluationRequestSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(200).optional(),
+  source: z.string().min(1).optional(),
+  ai_category: z.string().min(1).optional(),
+  created_from: z.string().min(1).optional(),
+  created_to: z.string().min(1).optional(),
+  prompt_version: z.string().min(1).optional(),
+  outdated_prompt: z.boolean().optional(),
+  limit: z.number().int().min(1).max(200).optional(),
+  concurrency: z.number().int().min(1).max(10).optional(),
+}).refine(
+  (body) => body.ids || body.source || body.ai_category || body.created_from || body.created_to || body.prompt_version || body.outdated_prompt,
+  { message: 'Either ids or at least one filter is required' }
+);
+
+/**
+ * @swagger
+ * /api/admin/jobs/re-evaluate:
+ *   post:
+ *     tags: [Jobs]
+ *     summary: Re-evaluate stored jobs with the active job evaluation prompt
+ *     description: |
+ *       Reruns the AI job evaluation for the given jobs, or for the newest `limit` jobs matching the filters
+ *       (e.g. `{"ai_category": "AI Evaluation Failed"}` or `{"outdated_prompt": true}`), `concurrency` at a time.
+ *       Each job's `ai_*` columns and its signal payload get the new evaluation. A job whose evaluation fails
+ *       again keeps its stored one and is counted as failed.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ids: { type: array, items: { type: string }, maxItems: 200, description: 'Other filters are ignored when given' }
+ *               source: { type: string, example: indeed }
+ *               ai_category: { type: string, example: AI Evaluation Failed }
+ *               created_from: { type: string, format: date, description: 'Jobs created on or after' }
+ *               created_to: { type: string, format: date, description: 'Jobs created on or before' }
+ *               prompt_version: { type: string, example: v1, description: 'Jobs scored with this job_evaluation prompt version' }
+ *               outdated_prompt: { type: boolean, description: 'Jobs not scored with the active prompt version (including unrecorded ones)' }
+ *               limit: { type: integer, default: 50, maximum: 200 }
+ *               concurrency: { type: integer, default: 3, maximum: 10 }
+ *     responses:
+ *       200:
+ *         description: Counts of re-evaluated and failed jobs, jobs that flipped valid or invalid, and a result per job
+ *       400:
+ *         description: Neither ids nor a filter given, or an invalid body
+ *       401:
+ *         description: Missing or invalid API key
+ */
+router.post('/jobs/re-evaluate', async (req: Request, res: Response) => {
+  const startTime = Date.now();
+  const parseResult = JobReevaluationRequestSchema.safeParse(req.body ?? {});
+
+  if (!parseResult.success) {
+    return res.status(400).json({
+      success: false,
+      error: parseResult.error.errors.map((e) => e.message).join(', '),
+    });
+  }
+
+  const { concurrency, ...selection } = parseResult.data;
+
+  try {
+    const stats = await reevaluateJobs(selection, concurrency);
+
+    return res.status(200).json({
+      success: true,
+      stats,
+      processingTime: Date.now() - startTime,
+    });
+  } catch (error) {
+    logger.error('Job re-evaluation failed', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+      processingTime: Date.now() - startTime,
+    });
+  }
+});
+
 /**
  * @swagger
  * /api/admin/companies:
@@ -420,11 +594,15 @@ router.get('/jobs/:id', async (req: Request, res: Response) => {
  *     summary: List companies with counts
  *     description: |
  *       Paginated list of companies. Each entry includes aggregated counts of related jobs, signals, and contacts.
- *       Companies are created automatically when scrapers find new employers.
+ *       Companies are created automatically when scrapers find new employers. Companies merged into another are left out.
  *     security:
  *       - ApiKeyAuth: []
  *     parameters:
  *       - in: query
+ *         name: org_number
+ *         schema: { type: string, example: '556737-0431' }
+ *         description: Swedish organisation number, with or without the hyphen
+ *       - in: query
  *         name: status
  *         schema: { type: string, enum: [pending, active, inactive] }
  *         description: Filter by company status
@@ -452,16 +630,27 @@ router.get('/jobs/:id', async (req: Request, res: Response) => {
  *                       type: array
  *                       items:
  *                         $ref: '#/components/schemas/CompanySummary'
+ *       400:
+ *         description: Invalid org number
  *       401:
  *         description: Missing or invalid API key
  */
 router.get('/companies', async (req: Request, res: Response) => {
   try {
-    const { status, source, limit, offset } = req.query;
+    const { status, source, org_number, limit, offset } = req.query;
+    const orgNumber = org_number ? normalizeOrgNumber(org_number as string) : undefined;
+
+    if (orgNumber === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'org_number is not a valid Swedish organisation number',
+      });
+    }
 
     const result = await getCompanies({
       status: status as string | undefined,
       source: source as string | undefined,
+      org_number: orgNumber,
       limit: limit ? parseInt(limit as string, 10) : undefined,
       offset: offset ? parseInt(offset as string, 10) : undefined,
     });
@@ -531,6 +720,253 @@ router.get('/companies/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/admin/companies/{id}/merge-candidates:
+ *   get:
+ *     tags: [Companies]
+ *     summary: Find likely duplicates of a company
+ *     description: |
+ *       Companies that are likely the same company ("Klarna", "Klarna Bank AB", "Klarna AB (publ)"), best first.
+ *       Names are compared after legal suffixes (AB, publ, Sverige, …) are stripped. The same org number is a
+ *       match, a different one rules it out; a shared domain scores 0.95. Companies already merged are left out.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *       - in: query
+ *         name: min_score
+ *         schema: { type: number, default: 0.7, minimum: 0, maximum: 1 }
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, default: 20 }
+ *     responses:
+ *       200:
+ *         description: The company and its candidates, each with a score, name similarity and reasons (org_number, domain, name)
+ *       404:
+ *         description: Company not found
+ *       401:
+ *         description: Missing or invalid API key
+ */
+router.get('/companies/:id/merge-candidates', async (req: Request, res: Response) => {
+  try {
+    const { min_score, limit } = req.query;
+
+    const result = await findCompanyMergeCandidates(req.params.id, {
+      minScore: min_score ? parseFloat(min_score as string) : undefined,
+      limit: limit ? parseInt(limit as string, 10) : undefined,
+    });
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: 'Company not found',
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    logger.error('Failed to find company merge candidates', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+    });
+  }
+});
+
+const CompanyMergeRequestSchema = z.object({
+  company_ids: z.array(z.string().min(1)).min(1, 'company_ids is required').max(20),
+  reason: z.string().trim().min(3, 'reason is required'),
+  merged_by: z.string().optional(),
+});
+
+/**
+ * @swagger
+ * /api/admin/companies/{id}/merge:
+ *   post:
+ *     tags: [Companies]
+ *     summary: Merge duplicate companies into this one
+ *     description: |
+ *       Moves the jobs, signals and contacts of each company in `company_ids` to this company and fills its empty
+ *       fields (domain, org number, website, …) from them. Contacts this company already has (same email or
+ *       LinkedIn URL) stay on the duplicate. Each merge is recorded in `company_merges` with a snapshot of the
+ *       duplicate, the rows moved, the reason and who merged it.
+ *
+ *       The duplicates are kept with `merged_into` set: they no longer appear in the company list, and
+ *       `find_or_create_company` resolves their name and domain to this company.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *         description: The company to keep
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [company_ids, reason]
+ *             properties:
+ *               company_ids: { type: array, items: { type: string }, maxItems: 20 }
+ *               reason: { type: string, example: 'Same company, legal name variant' }
+ *               merged_by: { type: string }
+ *     responses:
+ *       200:
+ *         description: Companies merged, with the rows moved and fields filled per duplicate
+ *       400:
+ *         description: Invalid request body
+ *       404:
+ *         description: The company or a duplicate doesn't exist
+ *       409:
+ *         description: The company or a duplicate is already merged, or a company would be merged into itself
+ *       401:
+ *         description: Missing or invalid API key
+ */
+router.post('/companies/:id/merge', async (req: Request, res: Response) => {
+  const startTime = Date.now();
+  const parseResult = CompanyMergeRequestSchema.safeParse(req.body ?? {});
+
+  if (!parseResult.success) {
+    return res.status(400).json({
+      success: false,
+      error: parseResult.error.errors.map((e) => e.message).join(', '),
+    });
+  }
+
+  try {
+    const result = await mergeCompanies(req.params.id, {
+      companyIds: parseResult.data.company_ids,
+      reason: parseResult.data.reason,
+      mergedBy: parseResult.data.merged_by,
+    });
+
+    const statusCode = { merged: 200, not_found: 404, conflict: 409 }[result.status];
+
+    return res.status(statusCode).json({
+      success: result.status === 'merged',
+      data: result,
+      processingTime: Date.now() - startTime,
+    });
+  } catch (error) {
+    logger.error('Failed to merge companies', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+      processingTime: Date.now() - startTime,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/companies/{id}/score:
+ *   get:
+ *     tags: [Companies]
+ *     summary: Company lead score with per-signal contributions
+ *     description: |
+ *       The company's score (0-100) computed now from all its signals: form leads, job ads per source, the
+ *       Google Maps evaluation and hiring velocity (valid job ads in the last 30 days). Each signal earns points
+ *       scaled by its own AI score and halved every half-life; expired signals earn nothing. Also returns the
+ *       score stored by the last rescore.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Score, points per component and each signal's contribution (value, decay, points)
+ *       404:
+ *         description: Company not found
+ *       401:
+ *         description: Missing or invalid API key
+ */
+router.get('/companies/:id/score', async (req: Request, res: Response) => {
+  try {
+    const result = await getCompanyScore(req.params.id);
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: 'Company not found',
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    logger.error('Failed to compute company score', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/companies/rescore:
+ *   post:
+ *     tags: [Companies]
+ *     summary: Rescore all companies
+ *     description: Recomputes and stores the score of every company not merged into another, since scores decay without new signals. Called by cron daily.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Companies rescored
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 stats:
+ *                   type: object
+ *                   properties:
+ *                     companies: { type: integer }
+ *                     changed: { type: integer }
+ *                     failed: { type: integer }
+ *                 processingTime: { type: number }
+ */
+router.post('/companies/rescore', async (_req: Request, res: Response) => {
+  const startTime = Date.now();
+
+  try {
+    const stats = await rescoreAllCompanies();
+
+    return res.status(200).json({
+      success: true,
+      stats,
+      processingTime: Date.now() - startTime,
+    });
+  } catch (error) {
+    logger.error('Company rescore failed', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+      processingTime: Date.now() - startTime,
+    });
+  }
+});
+
 /**
  * @swagger
  * /api/admin/contacts:
@@ -617,7 +1053,7 @@ router.get('/contacts', async (req: Request, res: Response) => {
  *       (e.g. a job posting, a form submission, a Google Maps listing). Includes the linked company.
  *
  *       **Common signal_type values:** `indeed_job_ad`, `linkedin_job_ad`, `arbetsformedlingen_job_ad`,
- *       `google_maps_listing`, `website_form_submission`
+ *       `google_maps_listing`, `website_form_submission`, `hiring_spike`
  *     security:
  *       - ApiKeyAuth: []
  *     parameters:
@@ -803,4 +1239,812 @@ router.get('/alerts', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/admin/scraper-runs:
+ *   get:
+ *     tags: [Scrapers]
+ *     summary: List scraper runs
+ *     description: |
+ *       Paginated history of job and lead scraper runs, newest first. Each run has its config, stats,
+ *       duration, status and error count. Use the run detail endpoint for the full error list.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: source
+ *         schema:
+ *           type: string
+ *           enum: [indeed, linkedin, arbetsformedlingen, google_maps]
+ *         description: Filter by scraper source
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [completed, partial, failed]
+ *         description: Filter by run status
+ *       - in: query
+ *         name: from_date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only runs started at or after this time
+ *       - in: query
+ *         name: to_date
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only runs started at or before this time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Paginated list of scraper runs
+ */
+router.get('/scraper-runs', async (req: Request, res: Response) => {
+  try {
+    const { source, status, from_date, to_date, limit, offset } = req.query;
+
+    const result = await getScraperRuns({
+      source: source as string | undefined,
+      status: status as string | undefined,
+      from_date: from_date as string | undefined,
+      to_date: to_date as string | undefined,
+      limit: limit ? parseInt(limit as string, 10) : undefined,
+      offset: offset ? parseInt(offset as string, 10) : undefined,
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: result.data,
+      total: result.count,
+      limit: limit ? parseInt(limit as string, 10) : 50,
+      offset: offset ? parseInt(offset as string, 10) : 0,
+    });
+  } catch (error) {
+    logger.error('Failed to fetch scraper runs', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/scraper-runs/{runId}:
+ *   get:
+ *     tags: [Scrapers]
+ *     summary: Get scraper run details
+ *     description: Single scraper run including its config, stats and full error list.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Scraper run details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 data: { $ref: '#/components/schemas/ScraperRun' }
+ *       404:
+ *         description: Run not found
+ */
+router.get('/scraper-runs/:runId', async (req: Request, res: Response) => {
+  try {
+    const run = await getScraperRunById(req.params.runId);
+
+    if (!run) {
+      return res.status(404).json({
+        success: false,
+        error: 'Scraper run not found',
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: run,
+    });
+  } catch (error) {
+    logger.error('Failed to fetch scraper run', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+    });
+  }
+});
+
+// ============================================================================
+// WEBHOOK OUTBOX
+// ============================================================================
+
+/**
+ * @swagger
+ * /api/admin/outbox:
+ *   get:
+ *     tags: [Webhook]
+ *     summary: List webhook outbox steps
+ *     description: |
+ *       Side effects of valid leads (contact upsert, job ad generation and record, lead email,
+ *       access request, admin notification), one row per step, newest first. Failed steps are
+ *       retried with backoff; steps that ran out of attempts have status `failed`.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, processing, completed, failed]
+ *       - in: query
+ *         name: step
+ *         schema:
+ *           type: string
+ *           enum: [upsert_contact, generate_job_ad, create_job_ad, send_lead_email, create_access_request, notify_admins, link_rejected_lead]
+ *       - in: query
+ *         name: submission_id
+ *         schema: { type: string }
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Paginated list of outbox steps (without payloads)
+ */
+router.get('/outbox', async (req: Request, res: Response) => {
+  try {
+    const { status, step, submission_id, limit, offset } = req.query;
+
+    const result = await getOutboxEntries({
+      status: status as string | undefined,
+      step: step as string | undefined,
+      submission_id: submission_id as string | undefined,
+      limit: limit ? parseInt(limit as string, 10) : undefined,
+      offset: offset ? parseInt(offset as string, 10) : undefined,
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: result.data,
+      total: result.count,
+      limit: limit ? parseInt(limit as string, 10) : 50,
+      offset: offset ? parseInt(offset as string, 10) : 0,
+    });
+  } catch (error) {
+    logger.error('Failed to fetch outbox entries', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/outbox/process:
+ *   post:
+ *     tags: [Webhook]
+ *     summary: Retry due outbox steps
+ *     description: Runs outbox steps whose retry time has passed. Called by cron every 5 minutes.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Outbox processed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 stats:
+ *                   type: object
+ *                   properties:
+ *                     submissions: { type: integer }
+ *                     completed: { type: integer }
+ *                     pending: { type: integer }
+ *                     failed: { type: integer }
+ *                 processingTime: { type: number }
+ */
+router.post('/outbox/process', async (_req: Request, res: Response) => {
+  const startTime = Date.now();
+
+  try {
+    const stats = await processOutbox();
+
+    return res.status(200).json({
+      success: true,
+      stats,
+      processingTime: Date.now() - startTime,
+    });
+  } catch (error) {
+    logger.error('Outbox processing failed', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+      processingTime: Date.now() - startTime,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/outbox/{submissionId}/retry:
+ *   post:
+ *     tags: [Webhook]
+ *     summary: Retry a submission's outbox steps now
+ *     description: Makes all unfinished steps of a submission due immediately (failed steps start over with fresh attempts) and runs them.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: submissionId
+ *         required: true
+ *         schema: { type: string }
+ *     responses:
+ *       200:
+ *         description: Steps run; counts of completed, pending and failed steps
+ *       404:
+ *         description: No outbox steps for this submission
+ */
+router.post('/outbox/:submissionId/retry', async (req: Request, res: Response) => {
+  try {
+    const summary = await retryOutboxSubmission(req.params.submissionId);
+
+    if (!summary) {
+      return res.status(404).json({
+        success: false,
+        error: 'Outbox submission not found',
+      });
+    }
+
+    const { results: _results, ...data } = summary;
+
+    return res.status(200).json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    logger.error('Failed to retry outbox submission', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+    });
+  }
+});
+
+const leadClassificationSchema = z.enum(['valid_lead', 'invalid_lead', 'likely_candidate', 'likely_spam']);
+
+const ReprocessRequestSchema = z.object({
+  force_classification: leadClassificationSchema.optional(),
+});
+
+const BulkReprocessRequestSchema = ReprocessRequestSchema.extend({
+  ids: z.array(z.string().min(1)).min(1).max(100).optional(),
+  classification: z.string().min(1).optional(),
+  limit: z.number().int().min(1).max(100).optional(),
+}).refine((body) => body.ids || body.classification, {
+  message: 'Either ids or classification is required',
+});
+
+/**
+ * @swagger
+ * /api/admin/rejected-leads/reprocess:
+ *   post:
+ *     tags: [Webhook]
+ *     summary: Reprocess rejected leads in bulk
+ *     description: |
+ *       Reruns the webhook lead pipeline for the given rejected leads, or for the newest `limit` leads with a
+ *       classification (e.g. `processing_error`), one after the other. See the single-lead endpoint for details.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ids: { type: array, items: { type: string }, maxItems: 100 }
+ *               classification: { type: string, example: processing_error, description: 'Used when ids is not given' }
+ *               limit: { type: integer, default: 20, maximum: 100 }
+ *               force_classification: { type: string, enum: [valid_lead, invalid_lead, likely_candidate, likely_spam] }
+ *     responses:
+ *       200:
+ *         description: Counts of reprocessed, failed and skipped leads, with a result per lead
+ *       400:
+ *         description: Neither ids nor classification given, or an invalid body
+ */
+router.post('/rejected-leads/reprocess', async (req: Request, res: Response) => {
+  const startTime = Date.now();
+  const parseResult = BulkReprocessRequestSchema.safeParse(req.body ?? {});
+
+  if (!parseResult.success) {
+    return res.status(400).json({
+      success: false,
+      error: parseResult.error.errors.map((e) => e.message).join(', '),
+    });
+  }
+
+  const { ids, classification, limit, force_classification } = parseResult.data;
+
+  try {
+    const stats = await reprocessRejectedLeads(
+      { ids, classification, limit },
+      { forceClassification: force_classification }
+    );
+
+    return res.status(200).json({
+      success: true,
+      stats,
+      processingTime: Date.now() - startTime,
+    });
+  } catch (error) {
+    logger.error('Bulk reprocessing of rejected leads failed', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+      processingTime: Date.now() - startTime,
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/rejected-leads/{id}/reprocess:
+ *   post:
+ *     tags: [Webhook]
+ *     summary: Reprocess a rejected lead
+ *     description: |
+ *       Rebuilds the form data from a `scraping_rejected_leads` row (e.g. a `processing_error`, or a lead the AI
+ *       classified wrongly) and reruns the webhook lead pipeline. The row gets the new classification; for a valid
+ *       lead the company, contact and job ad are created and linked back to it (`company_id`, `contact_id`, `job_ad_id`).
+ *
+ *       `force_classification` skips the lead quality rules and overrides the AI classification.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema: { type: string }
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               force_classification: { type: string, enum: [valid_lead, invalid_lead, likely_candidate, likely_spam] }
+ *     responses:
+ *       200:
+ *         description: Lead reprocessed (new classification and linked company)
+ *       404:
+ *         description: Rejected lead not found
+ *       409:
+ *         description: The lead was already reprocessed into a valid lead
+ *       500:
+ *         description: The pipeline failed; the error is recorded on the row
+ */
+router.post('/rejected-leads/:id/reprocess', async (req: Request, res: Response) => {
+  const startTime = Date.now();
+  const parseResult = ReprocessRequestSchema.safeParse(req.body ?? {});
+
+  if (!parseResult.success) {
+    return res.status(400).json({
+      success: false,
+      error: parseResult.error.errors.map((e) => e.message).join(', '),
+    });
+  }
+
+  try {
+    const result = await reprocessRejectedLead(req.params.id, {
+      forceClassification: parseResult.data.force_classification,
+    });
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: 'Rejected lead not found',
+      });
+    }
+
+    const statusCode = { reprocessed: 200, skipped: 409, failed: 500 }[result.status];
+
+    return res.status(statusCode).json({
+      success: result.status === 'reprocessed',
+      data: result,
+      processingTime: Date.now() - startTime,
+    });
+  } catch (error) {
+    logger.error('Failed to reprocess rejected lead', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+      processingTime: Date.now() - startTime,
+    });
+  }
+});
+
+const LeadOverrideRequestSchema = z.object({
+  lead_type: z.enum(['rejected_lead', 'signal']),
+  lead_id: z.string().min(1),
+  classification: leadClassificationSchema,
+  lead_score: z.number().int().min(1).max(100).optional(),
+  reason: z.string().trim().min(3, 'reason is required'),
+  reviewed_by: z.string().optional(),
+});
+
+/**
+ * @swagger
+ * /api/admin/lead-feedback:
+ *   post:
+ *     tags: [Webhook]
+ *     summary: Override a lead's AI classification
+ *     description: |
+ *       Records a human review of a website lead: the correct classification (and optionally score) with a reason.
+ *       The lead is updated (`scraping_rejected_leads.classification`, or the form submission signal's payload) and the
+ *       review is stored in `lead_feedback` as a labelled example with the AI's original answer.
+ *
+ *       Overriding a rejected lead to `valid_lead` doesn't create the company and job ad; use
+ *       `POST /api/admin/rejected-leads/{id}/reprocess` with `force_classification` for that.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [lead_type, lead_id, classification, reason]
+ *             properties:
+ *               lead_type: { type: string, enum: [rejected_lead, signal] }
+ *               lead_id: { type: string, description: 'scraping_rejected_leads id, or a website_form_submission signal id' }
+ *               classification: { type: string, enum: [valid_lead, invalid_lead, likely_candidate, likely_spam] }
+ *               lead_score: { type: integer, minimum: 1, maximum: 100 }
+ *               reason: { type: string }
+ *               reviewed_by: { type: string }
+ *     responses:
+ *       201:
+ *         description: Review stored; `disagreement` tells whether it differs from the AI
+ *       400:
+ *         description: Invalid body
+ *       404:
+ *         description: Lead not found
+ */
+router.post('/lead-feedback', async (req: Request, res: Response) => {
+  const parseResult = LeadOverrideRequestSchema.safeParse(req.body ?? {});
+
+  if (!parseResult.success) {
+    return res.status(400).json({
+      success: false,
+      error: parseResult.error.errors.map((e) => e.message).join(', '),
+    });
+  }
+
+  const { lead_type, lead_id, classification, lead_score, reason, reviewed_by } = parseResult.data;
+
+  try {
+    const feedback = await overrideLeadClassification({
+      leadType: lead_type,
+      leadId: lead_id,
+      classification,
+      leadScore: lead_score,
+      reason,
+      reviewedBy: reviewed_by,
+    });
+
+    if (!feedback) {
+      return res.status(404).json({
+        success: false,
+        error: 'Lead not found',
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: feedback,
+    });
+  } catch (error) {
+    logger.error('Failed to override lead classification', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/lead-feedback:
+ *   get:
+ *     tags: [Webhook]
+ *     summary: List lead reviews
+ *     description: Paginated human reviews of AI lead classifications, oldest first.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: lead_type
+ *         schema:
+ *           type: string
+ *           enum: [rejected_lead, signal]
+ *       - in: query
+ *         name: disagreement
+ *         schema: { type: boolean }
+ *         description: Only reviews that disagree (true) or agree (false) with the AI
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Paginated list of reviews
+ */
+router.get('/lead-feedback', async (req: Request, res: Response) => {
+  try {
+    const { lead_type, disagreement, limit, offset } = req.query;
+
+    const result = await getLeadFeedback({
+      lead_type: lead_type as string | undefined,
+      disagreement: disagreement === undefined ? undefined : disagreement === 'true',
+      limit: limit ? parseInt(limit as string, 10) : undefined,
+      offset: offset ? parseInt(offset as string, 10) : undefined,
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: result.data,
+      total: result.count,
+      limit: limit ? parseInt(limit as string, 10) : 50,
+      offset: offset ? parseInt(offset as string, 10) : 0,
+    });
+  } catch (error) {
+    logger.error('Failed to fetch lead feedback', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/lead-feedback/export:
+ *   get:
+ *     tags: [Webhook]
+ *     summary: Export AI/human disagreements
+ *     description: |
+ *       Reviews where the reviewer disagreed with the AI (other classification, or a score 20+ points off) as
+ *       newline-delimited JSON: `input` (what the AI scored), `ai` and `expected`. Use it to tune and evaluate
+ *       the lead scoring prompt.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from_date
+ *         schema: { type: string, format: date-time }
+ *       - in: query
+ *         name: to_date
+ *         schema: { type: string, format: date-time }
+ *     responses:
+ *       200:
+ *         description: One labelled example per line
+ *         content:
+ *           application/x-ndjson:
+ *             schema: { type: string }
+ */
+router.get('/lead-feedback/export', async (req: Request, res: Response) => {
+  try {
+    const { from_date, to_date } = req.query;
+
+    const ndjson = await exportDisagreements({
+      from_date: from_date as string | undefined,
+      to_date: to_date as string | undefined,
+    });
+
+    res.setHeader('Content-Disposition', 'attachment; filename="lead-disagreements.jsonl"');
+    return res.status(200).type('application/x-ndjson').send(ndjson);
+  } catch (error) {
+    logger.error('Failed to export lead feedback', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/stats/lead-accuracy:
+ *   get:
+ *     tags: [Stats]
+ *     summary: AI lead classification accuracy
+ *     description: |
+ *       Agreement between the AI and human reviews, overall and per month or lead scoring prompt version,
+ *       with a confusion matrix (AI classification → human classification). Only reviews of leads the AI
+ *       classified count; a lead reviewed several times counts with its latest review.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: group_by
+ *         schema:
+ *           type: string
+ *           enum: [month, prompt_version]
+ *           default: month
+ *       - in: query
+ *         name: from_date
+ *         schema: { type: string, format: date-time }
+ *       - in: query
+ *         name: to_date
+ *         schema: { type: string, format: date-time }
+ *     responses:
+ *       200:
+ *         description: Accuracy stats
+ *       400:
+ *         description: Invalid group_by
+ */
+router.get('/stats/lead-accuracy', async (req: Request, res: Response) => {
+  try {
+    const { group_by, from_date, to_date } = req.query;
+    const groupBy = (group_by as string | undefined) || 'month';
+
+    if (groupBy !== 'month' && groupBy !== 'prompt_version') {
+      return res.status(400).json({
+        success: false,
+        error: 'group_by must be month or prompt_version',
+      });
+    }
+
+    const data = await getLeadFeedbackStats({
+      groupBy,
+      from_date: from_date as string | undefined,
+      to_date: to_date as string | undefined,
+    });
+
+    return res.status(200).json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    logger.error('Failed to get lead accuracy stats', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+    });
+  }
+});
+
+// Integer query parameter within bounds; undefined when absent, null when invalid
+function intParam(value: unknown, min: number, max: number): number | null | undefined {
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= min && parsed <= max ? parsed : null;
+}
+
+/**
+ * @swagger
+ * /api/admin/stats/hiring-trends:
+ *   get:
+ *     tags: [Stats]
+ *     summary: Hiring velocity, spikes and new-to-market employers
+ *     description: |
+ *       Valid scraped jobs posted in the window (default the last 30 days) compared with the baseline period
+ *       before it (default 90 days), scaled to the window's length. Per company: postings, expected postings,
+ *       ratio, categories, whether it has a hiring spike (at least 3 postings and 3 times the expected count)
+ *       and whether it is new to market (no postings in the baseline). Per category: postings, ratio and
+ *       whether it is rising or falling. Companies with a spike come first.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: window_days
+ *         schema: { type: integer, default: 30, minimum: 1, maximum: 365 }
+ *       - in: query
+ *         name: baseline_days
+ *         schema: { type: integer, default: 90, minimum: 1, maximum: 730 }
+ *       - in: query
+ *         name: category
+ *         schema: { type: string, example: Ekonomi }
+ *         description: Companies posting in this AI category, and only its category trend
+ *       - in: query
+ *         name: spikes_only
+ *         schema: { type: boolean }
+ *       - in: query
+ *         name: new_to_market
+ *         schema: { type: boolean }
+ *         description: Only companies with no postings in the baseline
+ *       - in: query
+ *         name: limit
+ *         schema: { type: integer, default: 50, minimum: 1, maximum: 500 }
+ *     responses:
+ *       200:
+ *         description: Window and baseline, summary, companies and categories
+ *       400:
+ *         description: Invalid window_days, baseline_days or limit
+ *       401:
+ *         description: Missing or invalid API key
+ */
+router.get('/stats/hiring-trends', async (req: Request, res: Response) => {
+  try {
+    const { category, spikes_only, new_to_market } = req.query;
+    const windowDays = intParam(req.query.window_days, 1, 365);
+    const baselineDays = intParam(req.query.baseline_days, 1, 730);
+    const limit = intParam(req.query.limit, 1, 500);
+
+    const invalid = [
+      windowDays === null && 'window_days must be an integer from 1 to 365',
+      baselineDays === null && 'baseline_days must be an integer from 1 to 730',
+      limit === null && 'limit must be an integer from 1 to 500',
+    ].filter(Boolean);
+
+    if (invalid.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: invalid.join(', '),
+      });
+    }
+
+    const data = await getHiringTrends({
+      windowDays: windowDays ?? undefined,
+      baselineDays: baselineDays ?? undefined,
+      category: category as string | undefined,
+      spikesOnly: spikes_only === 'true',
+      newToMarketOnly: new_to_market === 'true',
+      limit: limit ?? undefined,
+    });
+
+    return res.status(200).json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    logger.error('Failed to get hiring trends', error);
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+    });
+  }
+});
+
 export default router;
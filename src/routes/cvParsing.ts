@@ -5,6 +5,7 @@ import { verifyApiKey } from '../middleware/scraperAuth.js';
 import { extractTextFromPdf, CvParsingError } from '../services/cvParsingService.js';
 import { parseCv } from '../services/aiService.js';
 import { sendCriticalErrorAlert } from '../services/emailService.js';
+import { withAICacheStats } from '../services/aiCache.js';
 
 const router: Router = Router();
 
@@ -135,6 +136,8 @@ const CvParseRequestSchema = z.object({
  *                 processingTime:
  *                   type: number
  *                   description: Processing time in milliseconds
+ *                 aiCache:
+ *                   $ref: '#/components/schemas/AICacheStats'
  *       400:
  *         description: Invalid request (missing fileUrl or invalid URL)
  *         content:
@@ -186,17 +189,18 @@ router.post('/parse', verifyApiKey, async (req: Request, res: Response) => {
     // Step 1: Download PDF and extract text
     const cvText = await extractTextFromPdf(fileUrl);
 
-    // Step 2: Parse with AI
-    const parsedData = await parseCv(cvText);
+    // Step 2: Parse with AI (re-uploaded CVs are served from the AI cache)
+    const { result: parsedData, aiCache } = await withAICacheStats(() => parseCv(cvText));
 
     const processingTime = Date.now() - startTime;
 
-    logger.info('CV parse request complete', { processingTime, fileUrl });
+    logger.info('CV parse request complete', { processingTime, fileUrl, aiCache });
 
     return res.status(200).json({
       success: true,
       data: parsedData,
       processingTime,
+      aiCache,
     });
   } catch (error) {
     const processingTime = Date.now() - startTime;
@@ -1,15 +1,14 @@
 import { Router, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
 import { config } from '../config/env.js';
 import { logger, getErrorMessage } from '../utils/logger.js';
-import { runIndeedFetch } from '../services/jobs/indeedJobScraper.js';
-import { runLinkedInFetch } from '../services/jobs/linkedinJobScraper.js';
-import { runAFFetch } from '../services/jobs/afJobScraper.js';
-import { runJobProcessingPipeline } from '../services/jobs/jobProcessor.js';
+import { getJobSource, getJobSources } from '../services/jobs/jobSourceRegistry.js';
 import { deleteOldJobsBySource } from '../services/supabaseService.js';
-import { sendJobScraperDigestEmail, sendScraperFailureAlert } from '../services/emailService.js';
-import { ScraperRunRequestSchema, type ScraperRunRequestType } from '../schemas/scraper.js';
+import { executeJobSourceRun, summarizeJobRun } from '../services/scraperRunner.js';
+import { enqueueScraperRun, getQueuePosition } from '../services/scraperRunQueue.js';
+import { ScraperRunRequestSchema } from '../schemas/scraper.js';
 import { verifyApiKey } from '../middleware/scraperAuth.js';
-import { emitAlert } from '../services/alertService.js';
+import type { ScraperRunConfig } from '../types/scraper.types.js';
 
 const router: Router = Router();
 
@@ -37,15 +36,14 @@ router.use(verifyApiKey);
 
 /**
  * @swagger
- * /api/scraping/jobs/indeed:
+ * /api/scraping/jobs/cleanup:
  *   post:
  *     tags: [Scrapers]
- *     summary: Run Indeed job scraper
+ *     summary: Clean up old jobs
  *     description: |
- *       Triggers an Indeed scraper run via Apify. Fetches jobs, deduplicates against existing DB records,
- *       runs AI evaluation on each job, stores results, and sends a digest email. Typically triggered by cron.
+ *       Deletes jobs older than the retention period (default 20 days) for each registered job source.
  *
- *       **Tip:** Add `?dryRun=true` to get a mock response instantly without running the actual scraper.
+ *       **Tip:** Add `?dryRun=true` to get a mock response instantly without deleting anything.
  *     security:
  *       - ApiKeyAuth: []
  *     parameters:
@@ -54,288 +52,114 @@ router.use(verifyApiKey);
  *         schema:
  *           type: boolean
  *           default: false
- *         description: If true, returns mock data without running the scraper (for Swagger testing)
- *     requestBody:
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/ScraperRunRequest'
+ *         description: If true, returns every registered source with nothing deleted (for Swagger testing)
  *     responses:
  *       200:
- *         description: Scraper run completed
+ *         description: Cleanup completed
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/ScraperRunResult'
+ *               type: object
+ *               properties:
+ *                 success: { type: boolean }
+ *                 retentionDays: { type: integer, example: 20 }
+ *                 deletedBySource:
+ *                   type: object
+ *                   additionalProperties: { type: integer }
+ *                   description: Jobs deleted per registered job source
+ *                 totalDeleted: { type: integer, example: 23 }
  *       401:
  *         description: Missing or invalid API key
- *       503:
- *         description: Scraper is disabled
  */
-router.post('/indeed', async (req: Request, res: Response) => {
-  const startTime = Date.now();
-
+// Registered before /:source so `cleanup` is not treated as a source slug
+router.post('/cleanup', async (req: Request, res: Response) => {
   // Dry run: return mock data instantly (for Swagger testing)
   if (req.query.dryRun === 'true') {
     return res.status(200).json({
       success: true,
       dryRun: true,
-      runId: '00000000-0000-0000-0000-000000000000',
-      processingTime: 0,
-      stats: { fetched: 25, afterDedup: 18, afterFilter: 15, processed: 15, valid: 12, discarded: 3, errors: 0 },
-      summary: { newJobsFound: 18, validJobs: 12, discardedJobs: 3, errors: 0 },
+      retentionDays: config.scraper.retentionDays,
+      deletedBySource: Object.fromEntries(getJobSources().map((adapter) => [adapter.source, 0])),
+      totalDeleted: 0,
     });
   }
 
   try {
-    if (!config.scraper.enabled) {
-      return res.status(503).json({
-        success: false,
-        error: 'Scraper is disabled',
-      });
-    }
-    if (!config.scraper.indeedEnabled) {
-      return res.status(503).json({
-        success: false,
-        error: 'Indeed scraper is disabled (INDEED_ENABLED=false)',
-      });
-    }
-
-    // Parse and validate request body
-    const parseResult = ScraperRunRequestSchema.safeParse(req.body);
-    const runConfig: ScraperRunRequestType = parseResult.success
-      ? parseResult.data
-      : { country: 'SE', maxItems: 50 };
-
-    logger.info('Starting Indeed scraper run', { config: runConfig });
-
-    // 1. Fetch jobs from Indeed via Apify
-    const { jobs } = await runIndeedFetch({
-      keywords: runConfig.keywords,
-      exclusionKeywords: runConfig.exclusionKeywords,
-      country: runConfig.country,
-      maxItems: runConfig.maxItems,
-    });
-
-    // 2. Process jobs through the pipeline
-    const result = await runJobProcessingPipeline(jobs, 'indeed');
+    const sources = getJobSources().map((adapter) => adapter.source);
+    const retentionDays = config.scraper.retentionDays;
 
-    // 3. Send email digest (don't wait, don't fail if it errors)
-    sendJobScraperDigestEmail(result).catch((err) => {
-      logger.error('Failed to send scraper digest email', err);
-      emitAlert({
-        source: 'email_service',
-        stage: 'email_send',
-        severity: 'warning',
-        title: 'Scraper digest email failed to send',
-        message: getErrorMessage(err),
-        metadata: { scraperSource: 'indeed', runId: result.runId },
-      });
-    });
+    const results: Record<string, number> = {};
+    let totalDeleted = 0;
 
-    const processingTime = Date.now() - startTime;
+    for (const source of sources) {
+      try {
+        const deleted = await deleteOldJobsBySource(source, retentionDays);
+        results[source] = deleted;
+        totalDeleted += deleted;
+      } catch (err) {
+        logger.error(`Failed to cleanup ${source} jobs`, err);
+        results[source] = 0;
+      }
+    }
 
-    logger.info('Indeed scraper run complete', {
-      runId: result.runId,
-      processingTime,
-      stats: result.stats,
-    });
+    logger.info('Job cleanup complete', { results, totalDeleted, retentionDays });
 
     return res.status(200).json({
       success: true,
-      runId: result.runId,
-      processingTime,
-      stats: result.stats,
-      summary: {
-        newJobsFound: result.stats.afterDedup,
-        validJobs: result.stats.valid,
-        discardedJobs: result.stats.discarded,
-        errors: result.stats.errors,
-      },
+      retentionDays,
+      deletedBySource: results,
+      totalDeleted,
     });
   } catch (error) {
-    const processingTime = Date.now() - startTime;
-    logger.error('Indeed scraper run failed', error, { processingTime });
-
-    sendScraperFailureAlert('indeed', error, { processingTime }).catch(() => {});
-
-    emitAlert({
-      source: 'indeed_scraper',
-      stage: 'pipeline_failure',
-      severity: 'critical',
-      title: 'Indeed scraper pipeline failed',
-      message: getErrorMessage(error),
-      metadata: { processingTime },
-    });
+    logger.error('Job cleanup failed', error);
 
     return res.status(500).json({
       success: false,
       error: getErrorMessage(error),
-      processingTime,
     });
   }
 });
 
 /**
  * @swagger
- * /api/scraping/jobs/linkedin:
+ * /api/scraping/jobs/{source}:
  *   post:
  *     tags: [Scrapers]
- *     summary: Run LinkedIn job scraper
+ *     summary: Run a job scraper
  *     description: |
- *       Triggers a LinkedIn scraper run via Apify. Same pipeline as Indeed. Default maxItems is 10.
+ *       Triggers a scraper run for one registered job source. Fetches jobs, deduplicates against existing
+ *       DB records, runs AI evaluation on each job, stores results, and sends a digest email. Typically triggered by cron.
+ *
+ *       Sources come from the job source registry (`services/jobs/jobSourceRegistry.ts`); their slugs are listed
+ *       at `GET /` and in the 404 response for an unknown source. When the body is invalid, the source's own
+ *       default run config (`defaultRunConfig` of its adapter) is used.
+ *
+ *       Add `?async=true` to queue the run and get `202` with a run id immediately; poll
+ *       `GET /api/scraping/runs/{runId}` for progress. Use this behind proxies or on Vercel where long requests time out.
  *
  *       **Tip:** Add `?dryRun=true` to get a mock response instantly without running the actual scraper.
  *     security:
  *       - ApiKeyAuth: []
  *     parameters:
+ *       - in: path
+ *         name: source
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: indeed
+ *         description: Job source slug (the full source name, e.g. `arbetsformedlingen`, also works)
  *       - in: query
  *         name: dryRun
  *         schema:
  *           type: boolean
  *           default: false
  *         description: If true, returns mock data without running the scraper (for Swagger testing)
- *     requestBody:
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/ScraperRunRequest'
- *     responses:
- *       200:
- *         description: Scraper run completed
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ScraperRunResult'
- *       401:
- *         description: Missing or invalid API key
- *       503:
- *         description: Scraper is disabled
- */
-router.post('/linkedin', async (req: Request, res: Response) => {
-  const startTime = Date.now();
-
-  // Dry run: return mock data instantly (for Swagger testing)
-  if (req.query.dryRun === 'true') {
-    return res.status(200).json({
-      success: true,
-      dryRun: true,
-      runId: '00000000-0000-0000-0000-000000000000',
-      processingTime: 0,
-      stats: { fetched: 10, afterDedup: 8, afterFilter: 7, processed: 7, valid: 5, discarded: 2, errors: 0 },
-      summary: { newJobsFound: 8, validJobs: 5, discardedJobs: 2, errors: 0 },
-    });
-  }
-
-  try {
-    if (!config.scraper.enabled) {
-      return res.status(503).json({
-        success: false,
-        error: 'Scraper is disabled',
-      });
-    }
-    if (!config.scraper.linkedinEnabled) {
-      return res.status(503).json({
-        success: false,
-        error: 'LinkedIn scraper is disabled (LINKEDIN_ENABLED=false)',
-      });
-    }
-
-    // Parse and validate request body
-    const parseResult = ScraperRunRequestSchema.safeParse(req.body);
-    const runConfig: ScraperRunRequestType = parseResult.success
-      ? parseResult.data
-      : { country: 'SE', maxItems: 10 };
-
-    logger.info('Starting LinkedIn scraper run', { config: runConfig });
-
-    // 1. Fetch jobs from LinkedIn via Apify (all categories)
-    const { jobs } = await runLinkedInFetch({
-      keywords: runConfig.keywords,
-      exclusionKeywords: runConfig.exclusionKeywords,
-      country: runConfig.country,
-      maxItems: runConfig.maxItems,
-    });
-
-    // 2. Process jobs through the pipeline
-    const result = await runJobProcessingPipeline(jobs, 'linkedin');
-
-    // 3. Send email digest (don't wait, don't fail if it errors)
-    sendJobScraperDigestEmail(result).catch((err) => {
-      logger.error('Failed to send scraper digest email', err);
-      emitAlert({
-        source: 'email_service',
-        stage: 'email_send',
-        severity: 'warning',
-        title: 'Scraper digest email failed to send',
-        message: getErrorMessage(err),
-        metadata: { scraperSource: 'linkedin', runId: result.runId },
-      });
-    });
-
-    const processingTime = Date.now() - startTime;
-
-    logger.info('LinkedIn scraper run complete', {
-      runId: result.runId,
-      processingTime,
-      stats: result.stats,
-    });
-
-    return res.status(200).json({
-      success: true,
-      runId: result.runId,
-      processingTime,
-      stats: result.stats,
-      summary: {
-        newJobsFound: result.stats.afterDedup,
-        validJobs: result.stats.valid,
-        discardedJobs: result.stats.discarded,
-        errors: result.stats.errors,
-      },
-    });
-  } catch (error) {
-    const processingTime = Date.now() - startTime;
-    logger.error('LinkedIn scraper run failed', error, { processingTime });
-
-    sendScraperFailureAlert('linkedin', error, { processingTime }).catch(() => {});
-
-    emitAlert({
-      source: 'linkedin_scraper',
-      stage: 'pipeline_failure',
-      severity: 'critical',
-      title: 'LinkedIn scraper pipeline failed',
-      message: getErrorMessage(error),
-      metadata: { processingTime },
-    });
-
-    return res.status(500).json({
-      success: false,
-      error: getErrorMessage(error),
-      processingTime,
-    });
-  }
-});
-
-/**
- * @swagger
- * /api/scraping/jobs/af:
- *   post:
- *     tags: [Scrapers]
- *     summary: Run Arbetsförmedlingen job scraper
- *     description: |
- *       Triggers an Arbetsförmedlingen scraper run via the free JobTech API (no Apify needed).
- *       Includes API email fallback and pagination. Default maxItems is 100.
- *
- *       **Tip:** Add `?dryRun=true` to get a mock response instantly without running the actual scraper.
- *     security:
- *       - ApiKeyAuth: []
- *     parameters:
  *       - in: query
- *         name: dryRun
+ *         name: async
  *         schema:
  *           type: boolean
  *           default: false
- *         description: If true, returns mock data without running the scraper (for Swagger testing)
+ *         description: If true, queues the run and returns 202 with a run id
  *     requestBody:
  *       content:
  *         application/json:
@@ -348,195 +172,107 @@ router.post('/linkedin', async (req: Request, res: Response) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ScraperRunResult'
+ *       202:
+ *         description: Run queued (async mode)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScraperRunAccepted'
  *       401:
  *         description: Missing or invalid API key
+ *       404:
+ *         description: Unknown job source
  *       503:
  *         description: Scraper is disabled
  */
-router.post('/af', async (req: Request, res: Response) => {
+router.post('/:source', async (req: Request, res: Response) => {
   const startTime = Date.now();
+  const adapter = getJobSource(req.params.source);
+
+  if (!adapter) {
+    return res.status(404).json({
+      success: false,
+      error: `Unknown job source: ${req.params.source}`,
+      availableSources: getJobSources().map((a) => a.slug),
+    });
+  }
 
   // Dry run: return mock data instantly (for Swagger testing)
   if (req.query.dryRun === 'true') {
     return res.status(200).json({
       success: true,
       dryRun: true,
+      source: adapter.source,
       runId: '00000000-0000-0000-0000-000000000000',
       processingTime: 0,
-      stats: { fetched: 50, afterDedup: 40, afterFilter: 35, processed: 35, valid: 28, discarded: 7, errors: 0 },
-      summary: { newJobsFound: 40, validJobs: 28, discardedJobs: 7, errors: 0 },
-    });
-  }
-
-  try {
-    if (!config.scraper.enabled) {
-      return res.status(503).json({
-        success: false,
-        error: 'Scraper is disabled',
-      });
-    }
-    if (!config.scraper.afEnabled) {
-      return res.status(503).json({
-        success: false,
-        error: 'Arbetsförmedlingen scraper is disabled (AF_ENABLED=false)',
-      });
-    }
-
-    // Parse and validate request body
-    const parseResult = ScraperRunRequestSchema.safeParse(req.body);
-    const runConfig: ScraperRunRequestType = parseResult.success
-      ? parseResult.data
-      : { country: 'SE', maxItems: 100 };
-
-    logger.info('Starting AF scraper run', { config: runConfig });
-
-    // 1. Fetch jobs from Arbetsformedlingen via JobTech API
-    const { jobs } = await runAFFetch({
-      keywords: runConfig.keywords,
-      exclusionKeywords: runConfig.exclusionKeywords,
-      maxItems: runConfig.maxItems,
-    });
-
-    // 2. Process jobs through the pipeline
-    const result = await runJobProcessingPipeline(jobs, 'arbetsformedlingen');
-
-    // 3. Send email digest (don't wait, don't fail if it errors)
-    sendJobScraperDigestEmail(result).catch((err) => {
-      logger.error('Failed to send scraper digest email', err);
-      emitAlert({
-        source: 'email_service',
-        stage: 'email_send',
-        severity: 'warning',
-        title: 'Scraper digest email failed to send',
-        message: getErrorMessage(err),
-        metadata: { scraperSource: 'arbetsformedlingen', runId: result.runId },
-      });
-    });
-
-    const processingTime = Date.now() - startTime;
-
-    logger.info('AF scraper run complete', {
-      runId: result.runId,
-      processingTime,
-      stats: result.stats,
-    });
-
-    return res.status(200).json({
-      success: true,
-      runId: result.runId,
-      processingTime,
-      stats: result.stats,
+      stats: { fetched: 25, afterDedup: 18, crossSourceDuplicates: 2, afterFilter: 15, filterDrops: { seniority: 2, keywords: 1 }, processed: 15, valid: 12, discarded: 3, errors: 0, hiringSpikes: 1 },
       summary: {
-        newJobsFound: result.stats.afterDedup,
-        validJobs: result.stats.valid,
-        discardedJobs: result.stats.discarded,
-        errors: result.stats.errors,
+        newJobsFound: 18,
+        crossSourceDuplicates: 2,
+        validJobs: 12,
+        discardedJobs: 3,
+        errors: 0,
+        aiCache: { hits: 5, misses: 10 },
       },
     });
-  } catch (error) {
-    const processingTime = Date.now() - startTime;
-    logger.error('AF scraper run failed', error, { processingTime });
-
-    sendScraperFailureAlert('arbetsformedlingen', error, { processingTime }).catch(() => {});
+  }
 
-    emitAlert({
-      source: 'arbetsformedlingen_scraper',
-      stage: 'pipeline_failure',
-      severity: 'critical',
-      title: 'AF scraper pipeline failed',
-      message: getErrorMessage(error),
-      metadata: { processingTime },
+  if (!config.scraper.enabled) {
+    return res.status(503).json({
+      success: false,
+      error: 'Scraper is disabled',
     });
-
-    return res.status(500).json({
+  }
+  if (!adapter.isEnabled()) {
+    return res.status(503).json({
       success: false,
-      error: getErrorMessage(error),
-      processingTime,
+      error: `${adapter.displayName} scraper is disabled (${adapter.enabledFlag}=false)`,
     });
   }
-});
 
-/**
- * @swagger
- * /api/scraping/jobs/cleanup:
- *   post:
- *     tags: [Scrapers]
- *     summary: Clean up old jobs
- *     description: |
- *       Deletes jobs older than the retention period (default 20 days) for each scraper source.
- *
- *       **Tip:** Add `?dryRun=true` to get a mock response instantly without deleting anything.
- *     security:
- *       - ApiKeyAuth: []
- *     parameters:
- *       - in: query
- *         name: dryRun
- *         schema:
- *           type: boolean
- *           default: false
- *         description: If true, returns mock data without deleting anything (for Swagger testing)
- *     responses:
- *       200:
- *         description: Cleanup completed
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success: { type: boolean }
- *                 retentionDays: { type: integer, example: 20 }
- *                 deletedBySource:
- *                   type: object
- *                   additionalProperties: { type: integer }
- *                   example: { indeed: 10, linkedin: 5, arbetsformedlingen: 8 }
- *                 totalDeleted: { type: integer, example: 23 }
- *       401:
- *         description: Missing or invalid API key
- */
-router.post('/cleanup', async (req: Request, res: Response) => {
-  // Dry run: return mock data instantly (for Swagger testing)
-  if (req.query.dryRun === 'true') {
-    return res.status(200).json({
+  // Parse and validate request body
+  const parseResult = ScraperRunRequestSchema.safeParse(req.body);
+  const runConfig: ScraperRunConfig = parseResult.success ? parseResult.data : adapter.defaultRunConfig;
+  const runId = uuidv4();
+
+  // Async mode: queue the run and return immediately
+  if (req.query.async === 'true') {
+    const run = enqueueScraperRun({
+      runId,
+      source: adapter.source,
+      scraperType: 'job',
+      task: async (onProgress) => {
+        const result = await executeJobSourceRun(adapter, runConfig, { runId, onProgress });
+        return { stats: result.stats, summary: summarizeJobRun(result), duration: result.duration };
+      },
+    });
+
+    return res.status(202).json({
       success: true,
-      dryRun: true,
-      retentionDays: config.scraper.retentionDays,
-      deletedBySource: { indeed: 10, linkedin: 5, arbetsformedlingen: 8 },
-      totalDeleted: 23,
+      async: true,
+      runId,
+      status: run.status,
+      queuePosition: getQueuePosition(runId),
+      statusUrl: `/api/scraping/runs/${runId}`,
     });
   }
 
   try {
-    const sources = ['indeed', 'linkedin', 'arbetsformedlingen'] as const;
-    const retentionDays = config.scraper.retentionDays;
-
-    const results: Record<string, number> = {};
-    let totalDeleted = 0;
-
-    for (const source of sources) {
-      try {
-        const deleted = await deleteOldJobsBySource(source, retentionDays);
-        results[source] = deleted;
-        totalDeleted += deleted;
-      } catch (err) {
-        logger.error(`Failed to cleanup ${source} jobs`, err);
-        results[source] = 0;
-      }
-    }
-
-    logger.info('Job cleanup complete', { results, totalDeleted, retentionDays });
+    const result = await executeJobSourceRun(adapter, runConfig, { runId });
 
     return res.status(200).json({
       success: true,
-      retentionDays,
-      deletedBySource: results,
-      totalDeleted,
+      runId: result.runId,
+      processingTime: Date.now() - startTime,
+      stats: result.stats,
+      summary: summarizeJobRun(result),
     });
   } catch (error) {
-    logger.error('Job cleanup failed', error);
-
     return res.status(500).json({
       success: false,
+      runId,
       error: getErrorMessage(error),
+      processingTime: Date.now() - startTime,
     });
   }
 });
@@ -1,11 +1,11 @@
 import { Router, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
 import { config } from '../config/env.js';
-import { logger, getErrorMessage } from '../utils/logger.js';
-import { runGoogleMapsFetch } from '../services/leads/googleMapsScraper.js';
-import { sendLeadScraperDigestEmail, sendScraperFailureAlert } from '../services/emailService.js';
+import { getErrorMessage } from '../utils/logger.js';
+import { executeGoogleMapsRun, summarizeLeadRun } from '../services/scraperRunner.js';
+import { enqueueScraperRun, getQueuePosition } from '../services/scraperRunQueue.js';
 import { LeadScraperRunRequestSchema, type LeadScraperRunRequestType } from '../schemas/scraper.js';
 import { verifyApiKey } from '../middleware/scraperAuth.js';
-import { emitAlert } from '../services/alertService.js';
 
 const router: Router = Router();
 
@@ -41,6 +41,9 @@ router.use(verifyApiKey);
  *       Triggers a Google Maps lead scraper run via Apify. Finds companies on Google Maps,
  *       runs AI evaluation on each, creates company + signal + contacts. Sends digest email.
  *
+ *       Add `?async=true` to queue the run and get `202` with a run id immediately; poll
+ *       `GET /api/scraping/runs/{runId}` for progress.
+ *
  *       **Tip:** Add `?dryRun=true` to get a mock response instantly without running the actual scraper.
  *     security:
  *       - ApiKeyAuth: []
@@ -51,6 +54,12 @@ router.use(verifyApiKey);
  *           type: boolean
  *           default: false
  *         description: If true, returns mock data without running the scraper (for Swagger testing)
+ *       - in: query
+ *         name: async
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: If true, queues the run and returns 202 with a run id
  *     requestBody:
  *       content:
  *         application/json:
@@ -84,6 +93,22 @@ router.use(verifyApiKey);
  *                     discarded: { type: integer }
  *                     contactsCreated: { type: integer }
  *                     errors: { type: integer }
+ *                 summary:
+ *                   type: object
+ *                   properties:
+ *                     companiesEvaluated: { type: integer }
+ *                     validProspects: { type: integer }
+ *                     contactsCreated: { type: integer }
+ *                     discarded: { type: integer }
+ *                     errors: { type: integer }
+ *                     aiCache:
+ *                       $ref: '#/components/schemas/AICacheStats'
+ *       202:
+ *         description: Run queued (async mode)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScraperRunAccepted'
  *       401:
  *         description: Missing or invalid API key
  *       503:
@@ -100,91 +125,75 @@ router.post('/google-maps', async (req: Request, res: Response) => {
       runId: '00000000-0000-0000-0000-000000000000',
       processingTime: 0,
       stats: { fetched: 30, afterFilter: 22, processed: 22, valid: 18, discarded: 4, contactsCreated: 15, errors: 0 },
-      summary: { companiesEvaluated: 22, validProspects: 18, contactsCreated: 15, discarded: 4, errors: 0 },
+      summary: {
+        companiesEvaluated: 22,
+        validProspects: 18,
+        contactsCreated: 15,
+        discarded: 4,
+        errors: 0,
+        aiCache: { hits: 7, misses: 15 },
+      },
     });
   }
 
-  try {
-    if (!config.scraper.enabled) {
-      return res.status(503).json({
-        success: false,
-        error: 'Scraper is disabled',
-      });
-    }
-    if (!config.scraper.googleMapsEnabled) {
-      return res.status(503).json({
-        success: false,
-        error: 'Google Maps scraper is disabled (GOOGLEMAPS_ENABLED=false)',
-      });
-    }
-
-    // Parse and validate request body
-    const parseResult = LeadScraperRunRequestSchema.safeParse(req.body);
-    const runConfig: LeadScraperRunRequestType = parseResult.success
-      ? parseResult.data
-      : { maxItemsPerQuery: 50, countryFilter: 'SE' };
-
-    logger.info('Starting Google Maps lead scraper run', { config: runConfig });
-
-    // 1. Run the full Google Maps pipeline
-    const result = await runGoogleMapsFetch({
-      searchQueries: runConfig.searchQueries,
-      maxItemsPerQuery: runConfig.maxItemsPerQuery,
+  if (!config.scraper.enabled) {
+    return res.status(503).json({
+      success: false,
+      error: 'Scraper is disabled',
     });
-
-    // 2. Send digest email (fire-and-forget)
-    sendLeadScraperDigestEmail(result).catch((err) => {
-      logger.error('Failed to send lead scraper digest email', err);
-      emitAlert({
-        source: 'email_service',
-        stage: 'email_send',
-        severity: 'warning',
-        title: 'Lead scraper digest email failed to send',
-        message: getErrorMessage(err),
-        metadata: { scraperSource: 'google_maps', runId: result.runId },
-      });
+  }
+  if (!config.scraper.googleMapsEnabled) {
+    return res.status(503).json({
+      success: false,
+      error: 'Google Maps scraper is disabled (GOOGLEMAPS_ENABLED=false)',
     });
+  }
 
-    const processingTime = Date.now() - startTime;
+  // Parse and validate request body
+  const parseResult = LeadScraperRunRequestSchema.safeParse(req.body);
+  const runConfig: LeadScraperRunRequestType = parseResult.success
+    ? parseResult.data
+    : { maxItemsPerQuery: 50, countryFilter: 'SE' };
+  const runId = uuidv4();
+
+  // Async mode: queue the run and return immediately
+  if (req.query.async === 'true') {
+    const run = enqueueScraperRun({
+      runId,
+      source: 'google_maps',
+      scraperType: 'lead',
+      task: async (onProgress) => {
+        const result = await executeGoogleMapsRun(runConfig, { runId, onProgress });
+        return { stats: result.stats, summary: summarizeLeadRun(result), duration: result.duration };
+      },
+    });
 
-    logger.info('Google Maps lead scraper run complete', {
-      runId: result.runId,
-      processingTime,
-      stats: result.stats,
+    return res.status(202).json({
+      success: true,
+      async: true,
+      runId,
+      status: run.status,
+      queuePosition: getQueuePosition(runId),
+      statusUrl: `/api/scraping/runs/${runId}`,
     });
+  }
+
+  try {
+    const result = await executeGoogleMapsRun(runConfig, { runId });
 
     return res.status(200).json({
       success: true,
       runId: result.runId,
-      processingTime,
+      processingTime: Date.now() - startTime,
       stats: result.stats,
-      summary: {
-        companiesEvaluated: result.stats.processed,
-        validProspects: result.stats.valid,
-        contactsCreated: result.stats.contactsCreated,
-        discarded: result.stats.discarded,
-        errors: result.stats.errors,
-      },
+      summary: summarizeLeadRun(result),
     });
   } catch (error) {
-    const processingTime = Date.now() - startTime;
-    logger.error('Google Maps lead scraper run failed', error, { processingTime });
-
-    sendScraperFailureAlert('google_maps', error, { processingTime }).catch(() => {});
-
-    emitAlert({
-      source: 'google_maps_scraper',
-      stage: 'pipeline_failure',
-      severity: 'critical',
-      title: 'Google Maps scraper pipeline failed',
-      message: getErrorMessage(error),
-      metadata: { processingTime },
-    });
-
     return res.status(500).json({
       success: false,
+      runId,
       error: getErrorMessage(error),
-      processingTime,
+      processingTime: Date.now() - startTime,
     });
   }
 });
@@ -4,6 +4,7 @@ import { logger, getErrorMessage } from '../utils/logger.js';
 import { verifyApiKey } from '../middleware/scraperAuth.js';
 import { scoreMatchBatch } from '../services/aiService.js';
 import { sendCriticalErrorAlert } from '../services/emailService.js';
+import { withAICacheStats } from '../services/aiCache.js';
 
 const router: Router = Router();
 
@@ -23,7 +24,8 @@ const ScoreBatchRequestSchema = z.object({
 /**
  * POST /api/matching/score-batch
  * Score up to 25 candidate-job pairs for semantic relevance using AI.
- * Returns [{pairId, score, reason}] for each pair.
+ * Returns [{pairId, score, reason}] for each pair, plus AI cache hit/miss counts.
+ * Pairs scored before (same content, any pairId) are served from the AI cache.
  */
 router.post('/score-batch', verifyApiKey, async (req: Request, res: Response) => {
   const startTime = Date.now();
@@ -40,7 +42,7 @@ router.post('/score-batch', verifyApiKey, async (req: Request, res: Response) =>
 
     const { pairs } = parseResult.data;
 
-    const results = await scoreMatchBatch(pairs);
+    const { result: results, aiCache } = await withAICacheStats(() => scoreMatchBatch(pairs));
 
     const processingTime = Date.now() - startTime;
 
@@ -48,12 +50,14 @@ router.post('/score-batch', verifyApiKey, async (req: Request, res: Response) =>
       inputCount: pairs.length,
       outputCount: results.length,
       processingTime,
+      aiCache,
     });
 
     return res.status(200).json({
       success: true,
       results,
       processingTime,
+      aiCache,
     });
   } catch (error) {
     const processingTime = Date.now() - startTime;
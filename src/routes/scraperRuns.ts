@@ -0,0 +1,88 @@
+import { Router, Request, Response } from 'express';
+import { logger, getErrorMessage } from '../utils/logger.js';
+import { getQueuedRun, getQueuePosition } from '../services/scraperRunQueue.js';
+import { getScraperRunById } from '../services/supabaseService.js';
+import { verifyApiKey } from '../middleware/scraperAuth.js';
+
+const router: Router = Router();
+
+router.use(verifyApiKey);
+
+/**
+ * @swagger
+ * /api/scraping/runs/{runId}:
+ *   get:
+ *     tags: [Scrapers]
+ *     summary: Get scraper run status
+ *     description: |
+ *       Status and progress of a scraper run started with `?async=true`. Progress counts come from the
+ *       batch processing loop (`completed` of `total` jobs/companies, `succeeded` without errors).
+ *
+ *       Runs no longer held in memory (e.g. after a restart) are looked up in the persisted run history.
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: runId
+ *         required: true
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: Run status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScraperRunStatus'
+ *       401:
+ *         description: Missing or invalid API key
+ *       404:
+ *         description: Run not found
+ */
+router.get('/:runId', async (req: Request, res: Response) => {
+  const { runId } = req.params;
+
+  try {
+    const run = getQueuedRun(runId);
+
+    if (run) {
+      return res.status(200).json({
+        success: true,
+        ...run,
+        queuePosition: run.status === 'queued' ? getQueuePosition(runId) : 0,
+      });
+    }
+
+    // Not in memory — fall back to the persisted run history
+    const persisted = await getScraperRunById(runId);
+
+    if (!persisted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Scraper run not found',
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      runId,
+      source: persisted.source,
+      scraperType: persisted.scraper_type,
+      status: persisted.status === 'failed' ? 'failed' : 'completed',
+      stage: 'finished',
+      progress: null,
+      startedAt: persisted.started_at,
+      finishedAt: persisted.finished_at,
+      result: { stats: persisted.stats, duration: persisted.duration_ms, runStatus: persisted.status },
+      error: persisted.status === 'failed' ? ((persisted.errors as Array<{ error: string }>)?.[0]?.error ?? null) : null,
+    });
+  } catch (error) {
+    logger.error('Failed to fetch scraper run status', error, { runId });
+
+    return res.status(500).json({
+      success: false,
+      error: getErrorMessage(error),
+    });
+  }
+});
+
+export default router;
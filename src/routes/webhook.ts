@@ -1,32 +1,24 @@
 import express, { Request, Response, Router } from 'express';
 import { logger, getErrorMessage, maskEmail } from '../utils/logger.js';
+import { insertRejectedLead } from '../services/supabaseService.js';
+import { sendAdminAlert } from '../services/emailService.js';
+import { processLead } from '../services/leadPipelineService.js';
 import {
-  validateLead,
-  extractDomain,
-  normalizeCompanyData,
-  prepareContactData,
-} from '../utils/validator.js';
-import { scoreLead, generateJobAd } from '../services/aiService.js';
+  processCandidateForm,
+  processPartnershipForm,
+  processNewsletterForm,
+  type FormPipelineResult,
+} from '../services/formSubmissionService.js';
 import {
-  findOrCreateCompany,
-  createSignal,
-  insertRejectedLead,
-  upsertContact,
-  createJobAdRecord,
-  createClientAccessRequest,
-  notifyAdmins,
-} from '../services/supabaseService.js';
-import { sendEmailToLead, sendAdminAlert } from '../services/emailService.js';
-import {
-  parseWebhookRequest,
+  parseWebhookForm,
   formatValidationErrors,
 } from '../schemas/webhook.js';
 import { verifyWebhookSignature } from '../middleware/webhookAuth.js';
+import { webhookIdempotency } from '../middleware/webhookIdempotency.js';
 import { emitAlert } from '../services/alertService.js';
 import type {
   FormData,
   WebhookSuccessResponse,
-  JobAdWithCompanyId,
 } from '../types/index.js';
 
 const router: Router = express.Router();
@@ -38,11 +30,25 @@ const router: Router = express.Router();
  *     tags: [Webhook]
  *     summary: Process form submission
  *     description: |
- *       Receives a form submission from the Rookie website, runs it through AI classification,
- *       and routes it accordingly: valid leads get a company + signal + contact + AI job ad + email,
- *       candidates and spam get stored for tracking. Always returns 200 to the caller.
+ *       Receives a form submission from the Rookie website. `form_type` picks the form and its pipeline:
+ *       - `employer` (default when omitted): runs through AI classification and is routed accordingly —
+ *         valid leads get a company + signal + contact + AI job ad + email, candidates and spam get stored for tracking.
+ *       - `candidate`: stored in candidate_applications. A CV at `fileUrl` (Supabase Storage, CV bucket only)
+ *         is parsed by the outbox after the response, so the application is returned with `cv_status: pending`.
+ *       - `partnership`: stored in form_submissions and the admins are notified.
+ *       - `newsletter`: stored in form_submissions once per email.
+ *
+ *       Always returns 200 to the caller once the body is valid.
+ *
+ *       For valid leads, everything after the company and signal runs through the outbox: steps that
+ *       fail (e.g. job ad generation or the lead email) are retried in the background, and the job ad
+ *       fields are missing from the response until generation has succeeded.
  *
  *       **Auth:** Uses HMAC-SHA256 signature verification via `x-webhook-signature` header (not the API key).
+ *       The signature covers `${x-webhook-timestamp}.${body}`; timestamps outside the replay window are rejected.
+ *
+ *       **Idempotency:** Repeats of a submission (same `Idempotency-Key`, or the same body when no key is sent)
+ *       return the stored result instead of being processed again (`Idempotent-Replayed: true`).
  *
  *       **Tip:** Add `?dryRun=true` to get a mock response instantly without processing anything (skips signature check too).
  *       Use `?dryRun=true&mockClassification=invalid_lead` to see different response shapes.
@@ -64,25 +70,44 @@ const router: Router = express.Router();
  *         name: x-webhook-signature
  *         required: true
  *         schema: { type: string }
- *         description: HMAC-SHA256 hex digest of the request body
+ *         description: HMAC-SHA256 hex digest of `${timestamp}.${body}`
+ *       - in: header
+ *         name: x-webhook-timestamp
+ *         required: true
+ *         schema: { type: integer }
+ *         description: Unix time in seconds when the request was signed
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema: { type: string, maxLength: 255 }
+ *         description: Unique per submission; defaults to a hash of the body
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
- *             required: [name, email, company]
+ *             required: [email]
+ *             description: |
+ *               Required fields depend on `form_type` — employer: name, email, company; candidate: name, email;
+ *               partnership: name, email, company; newsletter: email.
  *             properties:
+ *               form_type: { type: string, enum: [employer, candidate, partnership, newsletter], default: employer }
  *               name: { type: string, example: 'Anna Svensson' }
  *               email: { type: string, format: email, example: 'anna@techcompany.se' }
  *               phone: { type: string }
  *               company: { type: string, example: 'Tech Company AB' }
+ *               org_number: { type: string, example: '556737-0431' }
  *               industry: { type: string }
  *               service_type: { type: string }
  *               message: { type: string }
  *               subject: { type: string }
  *               experience: { type: string, description: 'Seniority level from form dropdown (student, junior, mid, any)', example: 'junior' }
  *               consent: { type: boolean, description: 'GDPR consent checkbox (required by form, not stored separately)' }
+ *               city: { type: string, description: 'Candidate forms only' }
+ *               education: { type: string, description: 'Candidate forms only' }
+ *               linkedin_url: { type: string, format: uri, description: 'Candidate forms only' }
+ *               fileUrl: { type: string, format: uri, description: 'CV (PDF) URL in the Supabase Storage CV bucket, candidate forms only' }
+ *               website: { type: string, description: 'Partnership forms only' }
  *     responses:
  *       200:
  *         description: Submission received and processed
@@ -99,30 +124,40 @@ const router: Router = express.Router();
  *                 job_ad_title: { type: string, description: 'AI-generated job ad title (valid_lead only)' }
  *                 job_ad_description: { type: string, description: 'AI-generated job ad description (valid_lead only)' }
  *                 reason: { type: string, description: 'AI reasoning for rejection (invalid_lead/likely_spam only)' }
+ *                 form_type: { type: string, description: 'Non-employer forms only' }
+ *                 record_id: { type: string, description: 'Stored candidate application or form submission (non-employer forms only)' }
+ *                 cv_status: { type: string, enum: [none, pending, parsed, failed], description: 'Candidate forms only' }
  *                 processingTime: { type: number }
  *       400:
  *         description: Invalid request data (missing required fields)
+ *       409:
+ *         description: A request with the same idempotency key is still being processed
+ *       422:
+ *         description: The idempotency key was already used for a different body
  */
+// Free-text and identifying fields of all form types, logged as their length only
+const REDACTED_FIELDS = ['name', 'phone', 'city', 'education', 'experience', 'linkedin_url', 'message', 'fileUrl', 'website'];
+
 /**
  * Masks PII fields for GDPR-compliant logging while preserving structure visibility
  */
 function maskPiiForLogging(body: Record<string, unknown>): Record<string, unknown> {
   const masked = { ...body };
 
-  if (typeof masked.name === 'string') {
-    masked.name = masked.name.length > 0 ? `[REDACTED:${masked.name.length}chars]` : '[EMPTY]';
+  for (const field of REDACTED_FIELDS) {
+    const value = masked[field];
+    if (typeof value === 'string') {
+      masked[field] = value.length > 0 ? `[REDACTED:${value.length}chars]` : '[EMPTY]';
+    }
   }
   if (typeof masked.email === 'string') {
     masked.email = maskEmail(masked.email);
   }
-  if (typeof masked.phone === 'string') {
-    masked.phone = masked.phone.length > 0 ? `[REDACTED:${masked.phone.length}chars]` : '[EMPTY]';
-  }
 
   return masked;
 }
 
-router.post('/webhook', verifyWebhookSignature, async (req: Request, res: Response) => {
+router.post('/webhook', verifyWebhookSignature, webhookIdempotency, async (req: Request, res: Response) => {
   const startTime = Date.now();
 
   // Dry run: return mock data instantly (for Swagger testing)
@@ -176,8 +211,8 @@ router.post('/webhook', verifyWebhookSignature, async (req: Request, res: Respon
   try {
     logger.info('Webhook received', { body: maskPiiForLogging(req.body) });
 
-    // Step 1: Validate request body with zod
-    const validationResult = parseWebhookRequest(req.body);
+    // Step 1: Validate request body with zod (schema picked by form_type)
+    const validationResult = parseWebhookForm(req.body);
 
     if (!validationResult.success) {
       const errorMessage = formatValidationErrors(validationResult.errors);
@@ -192,14 +227,44 @@ router.post('/webhook', verifyWebhookSignature, async (req: Request, res: Respon
     }
 
     const validatedBody = validationResult.data;
+    const submissionId = req.submissionId ?? Date.now().toString();
+
+    // Candidate, partnership and newsletter forms have their own pipelines (no lead scoring)
+    if (validatedBody.form_type !== 'employer') {
+      let result: FormPipelineResult;
+
+      switch (validatedBody.form_type) {
+        case 'candidate':
+          result = await processCandidateForm(validatedBody, submissionId);
+          break;
+        case 'partnership':
+          result = await processPartnershipForm(validatedBody, submissionId);
+          break;
+        case 'newsletter':
+          result = await processNewsletterForm(validatedBody, submissionId);
+          break;
+      }
+
+      const response: WebhookSuccessResponse = {
+        success: true,
+        message: result.message,
+        form_type: validatedBody.form_type,
+        record_id: result.record_id,
+        cv_status: result.cv_status,
+        processingTime: Date.now() - startTime,
+      };
+
+      return res.status(200).json(response);
+    }
 
     // Step 2: Structure the validated form data
     formData = {
-      id: Date.now().toString(),
+      id: submissionId,
       full_name: validatedBody.name,
       email: validatedBody.email,
       phone: validatedBody.phone,
       company_name: validatedBody.company,
+      org_number: validatedBody.org_number,
       industry: validatedBody.industry,
       service_type: validatedBody.service_type,
       needs_description: validatedBody.message,
@@ -209,161 +274,21 @@ router.post('/webhook', verifyWebhookSignature, async (req: Request, res: Respon
 
     logger.info('Form data structured', { email: maskEmail(formData.email) });
 
-    // Step 2: Lead Data Validation - Validate and check for spam
-    const validatedData = validateLead(formData);
-
-    // Step 3: If - Check if validation passes
-    const passesValidation = validatedData.validation_score > 30 && !validatedData.is_likely_spam;
-
-    if (!passesValidation) {
-      // Fast reject path - Insert as spam and return
-      logger.warn('Lead failed validation - fast reject', {
-        score: validatedData.validation_score,
-        isSpam: validatedData.is_likely_spam,
-      });
-
-      await insertRejectedLead(validatedData);
-
-      const response: WebhookSuccessResponse = {
-        success: true,
-        message: 'Lead received but classified as spam (fast reject)',
-        classification: 'spam',
-        processingTime: Date.now() - startTime,
-      };
-
-      return res.status(200).json(response);
-    }
-
-    // Step 4: Scoring AI Agent - Get AI classification
-    const aiScore = await scoreLead(validatedData);
-
-    // Step 5: Switch - Route based on classification
-    const classification = aiScore.classification;
-
-    logger.info('Classification determined', { classification });
+    // Steps 2-11: quality rules, AI classification and routing (services/leadPipelineService.ts)
+    const result = await processLead(formData);
 
-    switch (classification) {
-      case 'valid_lead': {
-        // Valid lead path - Continue to contact creation and job ad generation
-        logger.info('Processing valid lead');
-
-        // Step 6: Extract Domain
-        const dataWithDomain = extractDomain({ ...validatedData, ...aiScore });
-
-        // Step 7: Find or Create Company
-        const companyId = await findOrCreateCompany(
-          dataWithDomain.company_name || '',
-          dataWithDomain.extracted_domain
-        );
-
-        // Step 8: Create Signal
-        await createSignal(companyId, {
-          full_name: dataWithDomain.full_name,
-          email: dataWithDomain.email,
-          phone: dataWithDomain.phone,
-          needs_description: dataWithDomain.needs_description,
-          lead_score: dataWithDomain.lead_score,
-          classification: dataWithDomain.classification,
-        });
-
-        // Step 9: Normalize Company Data
-        const normalizedData = normalizeCompanyData(formData, aiScore, { company_id: companyId });
-
-        // Step 10: Prepare Contact Data
-        const contactData = prepareContactData(formData, normalizedData);
-
-        // Step 11 & 12: Upsert Contact and Generate Job Ad in parallel (independent operations)
-        const [, jobAd] = await Promise.all([
-          upsertContact(contactData),
-          generateJobAd(formData, normalizedData),
-        ]);
-
-        // Add company_id to job ad data
-        const jobAdWithCompanyId: JobAdWithCompanyId = { ...jobAd, company_id: companyId };
-
-        // Step 13: Create Job Ad Record
-        await createJobAdRecord(jobAdWithCompanyId, formData, aiScore);
-
-        // Step 14: Send Email to Lead
-        await sendEmailToLead(formData.email || '', jobAd, formData.company_name || '');
-
-        // Step 15: Create client access request + notify admin (fire-and-forget)
-        createClientAccessRequest(formData).then((requestId) => {
-          if (requestId) {
-            notifyAdmins(
-              'access_request',
-              `Ny kundförfrågan från ${formData!.company_name || 'Okänt företag'}`,
-              `${formData!.full_name || 'Okänd'} har skickat en förfrågan.`,
-              `/access-requests/${requestId}`,
-              { accessRequestId: requestId, companyName: formData!.company_name }
-            );
-          }
-        });
-
-        const response: WebhookSuccessResponse = {
-          success: true,
-          message: 'Valid lead processed successfully',
-          classification: 'valid_lead',
-          lead_score: normalizedData.lead_score,
-          job_ad_title: jobAd.title,
-          job_ad_description: jobAd.description,
-          processingTime: Date.now() - startTime,
-        };
-
-        return res.status(200).json(response);
-      }
-
-      case 'invalid_lead': {
-        // Invalid lead path
-        logger.info('Processing invalid lead');
-        await insertRejectedLead(formData, aiScore.classification, aiScore.ai_reasoning);
-
-        const response: WebhookSuccessResponse = {
-          success: true,
-          message: 'Lead classified as invalid',
-          classification: 'invalid_lead',
-          reason: aiScore.ai_reasoning,
-          processingTime: Date.now() - startTime,
-        };
-
-        return res.status(200).json(response);
-      }
-
-      case 'likely_candidate': {
-        // Candidate path — store in scraping_rejected_leads with classification='likely_candidate'
-        logger.info('Processing likely candidate');
-        await insertRejectedLead(formData, 'likely_candidate', aiScore.ai_reasoning);
-
-        const response: WebhookSuccessResponse = {
-          success: true,
-          message: 'Lead classified as job seeker',
-          classification: 'likely_candidate',
-          processingTime: Date.now() - startTime,
-        };
-
-        return res.status(200).json(response);
-      }
-
-      case 'likely_spam': {
-        // Spam path (from AI classification)
-        logger.info('Processing likely spam (AI classified)');
-        await insertRejectedLead(formData, 'likely_spam', aiScore.ai_reasoning);
-
-        const response: WebhookSuccessResponse = {
-          success: true,
-          message: 'Lead classified as spam',
-          classification: 'likely_spam',
-          processingTime: Date.now() - startTime,
-        };
-
-        return res.status(200).json(response);
-      }
+    const response: WebhookSuccessResponse = {
+      success: true,
+      message: result.message,
+      classification: result.classification,
+      lead_score: result.lead_score,
+      job_ad_title: result.job_ad_title,
+      job_ad_description: result.job_ad_description,
+      reason: result.reason,
+      processingTime: Date.now() - startTime,
+    };
 
-      default: {
-        logger.error('Unknown classification', { classification });
-        throw new Error(`Unknown classification: ${classification}`);
-      }
-    }
+    return res.status(200).json(response);
   } catch (error) {
     logger.error('Webhook processing failed', error, {
       body: maskPiiForLogging(req.body),
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+/**
+ * Schemas for the lead quality rules (see utils/leadRules.ts).
+ * Defaults live in config/leadRules.config.ts; LEAD_RULES_FILE can override them.
+ */
+
+const leadFieldSchema = z.enum(['full_name', 'email', 'phone', 'company_name', 'needs_description', 'subject']);
+
+const ruleBase = {
+  id: z.string().min(1),
+  weight: z.number(),
+  enabled: z.boolean().optional(),
+  description: z.string().optional(),
+};
+
+export const leadRuleSchema = z.discriminatedUnion('type', [
+  // Case-insensitive regexes matched against the given fields
+  z.object({
+    ...ruleBase,
+    type: z.literal('keywords'),
+    params: z.object({ fields: z.array(leadFieldSchema).min(1), patterns: z.array(z.string()).min(1) }),
+  }),
+  // Case-insensitive regexes matched against the email domain
+  z.object({
+    ...ruleBase,
+    type: z.literal('email_domain'),
+    params: z.object({ patterns: z.array(z.string()).min(1) }),
+  }),
+  // Email domain (or a parent domain) in a list of throwaway-inbox providers
+  z.object({
+    ...ruleBase,
+    type: z.literal('disposable_email'),
+    params: z.object({ domains: z.array(z.string()).min(1) }),
+  }),
+  // Keyboard mashing: long consonant runs, too few vowels or low character entropy
+  z.object({
+    ...ruleBase,
+    type: z.literal('gibberish'),
+    params: z.object({
+      fields: z.array(leadFieldSchema).min(1),
+      minLetters: z.number().int().positive(),
+      maxConsonantRun: z.number().int().positive(),
+      minVowelRatio: z.number().min(0).max(1),
+      minEntropy: z.number().min(0),
+    }),
+  }),
+  // Same email submitted at least maxSubmissions times within the window
+  z.object({
+    ...ruleBase,
+    type: z.literal('repeat_submitter'),
+    params: z.object({ windowHours: z.number().positive(), maxSubmissions: z.number().int().positive() }),
+  }),
+  // Form completeness (validation_score) below the minimum
+  z.object({
+    ...ruleBase,
+    type: z.literal('incomplete'),
+    params: z.object({ minValidationScore: z.number().min(0).max(100) }),
+  }),
+]);
+
+export const leadRulesConfigSchema = z.object({
+  // Leads whose summed rule weights reach the threshold are fast-rejected
+  threshold: z.number(),
+  rules: z.array(leadRuleSchema),
+});
+
+/**
+ * Override file: a threshold and rules merged by id over the defaults.
+ * A rule with a new id needs the full definition; for an existing id any
+ * of weight, enabled, description and params (merged) can be given.
+ */
+export const leadRulesOverrideSchema = z.object({
+  threshold: z.number().optional(),
+  rules: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        type: z.string().optional(),
+        weight: z.number().optional(),
+        enabled: z.boolean().optional(),
+        description: z.string().optional(),
+        params: z.record(z.unknown()).optional(),
+      })
+    )
+    .optional(),
+});
+
+export type LeadField = z.infer<typeof leadFieldSchema>;
+export type LeadRule = z.infer<typeof leadRuleSchema>;
+export type LeadRulesConfig = z.infer<typeof leadRulesConfigSchema>;
+export type LeadRulesOverride = z.infer<typeof leadRulesOverrideSchema>;
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { logger } from '../utils/logger.js';
+import { JOB_SCRAPER_SOURCES } from '../types/scraper.types.js';
 
 // Schema for raw Indeed job from Apify
 // Note: Using lenient validation because Apify can return various formats
@@ -32,7 +33,7 @@ export const NormalizedJobSchema = z.object({
   postedAt: z.string().optional(),
   jobType: z.string().optional(),
   salary: z.string().optional(),
-  source: z.enum(['indeed', 'linkedin', 'arbetsformedlingen']),
+  source: z.enum(JOB_SCRAPER_SOURCES),
   rawData: z.record(z.unknown()),
 });
 
@@ -56,6 +57,11 @@ export type JobEvaluationResultType = z.infer<typeof JobEvaluationResultSchema>;
 export const ScraperRunRequestSchema = z.object({
   keywords: z.string().optional(),
   exclusionKeywords: z.array(z.string()).optional(),
+  titleExclusionKeywords: z.array(z.string()).optional(),
+  exclusionPatterns: z.array(z.string()).optional(),
+  excludeSenior: z.boolean().optional(),
+  blockedCompanies: z.array(z.string()).optional(),
+  minDescriptionLength: z.number().int().min(0).optional(),
   country: z.string().optional().default('SE'),
   maxItems: z.number().min(1).max(500).optional().default(50),
 });
@@ -93,7 +99,7 @@ export const RawAFJobSchema = z.object({
   id: z.string(),
   external_id: z.string().optional().nullable(),
   headline: z.string(),
-  employer: z.object({ name: z.string() }),
+  employer: z.object({ name: z.string(), organization_number: z.string().optional().nullable() }),
   workplace_address: z
     .object({
       municipality: z.string().optional().nullable(),
@@ -205,6 +211,7 @@ export const RawGoogleMapsPlaceSchema = z.object({
   phone: z.string().optional().nullable(),
   phoneUnformatted: z.string().optional().nullable(),
   totalScore: z.number().optional().nullable(),
+  description: z.string().optional().nullable(),
   leadsEnrichment: z.array(GoogleMapsLeadSchema).optional().nullable(),
 });
 
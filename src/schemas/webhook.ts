@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { config } from '../config/env.js';
 
 /**
  * Schema for validating incoming webhook request body.
@@ -10,6 +11,8 @@ export const webhookRequestSchema = z.object({
   email: z.string().email('Invalid email format'),
   phone: z.string().optional(),
   company: z.string().min(1, 'Company is required'),
+  // Organisation number; an invalid one is ignored, not rejected
+  org_number: z.string().optional(),
   industry: z.string().optional(),
   service_type: z.string().optional(),
   message: z.string().optional(),
@@ -45,6 +48,113 @@ export function parseWebhookRequest(body: unknown): WebhookValidationResult {
   return { success: false, errors: result.error };
 }
 
+// ============================================================================
+// FORM TYPES
+// ============================================================================
+
+/**
+ * The website posts several forms to the webhook, told apart by `form_type`:
+ * - employer:    "we need to hire" inquiry (default when form_type is missing)
+ * - candidate:   job seeker application, optionally with a CV (fileUrl)
+ * - partnership: schools, organisations and agencies wanting to work with Rookie
+ * - newsletter:  newsletter signup
+ */
+export const FORM_TYPES = ['employer', 'candidate', 'partnership', 'newsletter'] as const;
+export type FormType = (typeof FORM_TYPES)[number];
+
+export const employerFormSchema = webhookRequestSchema.extend({
+  form_type: z.literal('employer'),
+});
+
+/**
+ * Whether a CV url points into the CV bucket of our Supabase Storage. The server downloads
+ * the CV, so any other host could be used to make it fetch internal addresses.
+ */
+export function isCvStorageUrl(value: string): boolean {
+  let url: URL;
+  let storage: URL;
+  try {
+    url = new URL(value);
+    storage = new URL(config.supabase.url);
+  } catch {
+    return false;
+  }
+
+  // Authenticated, public and signed object urls
+  const prefixes = ['', 'authenticated/', 'public/', 'sign/'].map(
+    (access) => `/storage/v1/object/${access}${config.supabase.cvBucket}/`
+  );
+  return url.origin === storage.origin && prefixes.some((prefix) => url.pathname.startsWith(prefix));
+}
+
+export const candidateFormSchema = z.object({
+  form_type: z.literal('candidate'),
+  name: z.string().min(1, 'Name is required'),
+  email: z.string().email('Invalid email format'),
+  phone: z.string().optional(),
+  city: z.string().optional(),
+  education: z.string().optional(),
+  experience: z.string().optional(),
+  linkedin_url: z.string().url('linkedin_url must be a valid URL').optional(),
+  message: z.string().optional(),
+  // CV (PDF) uploaded to Supabase Storage; parsed by the outbox when present
+  fileUrl: z
+    .string()
+    .url('fileUrl must be a valid URL')
+    .refine(isCvStorageUrl, 'fileUrl must be a CV uploaded to Supabase Storage')
+    .optional(),
+  consent: z.boolean().optional(),
+});
+
+export const partnershipFormSchema = z.object({
+  form_type: z.literal('partnership'),
+  name: z.string().min(1, 'Name is required'),
+  email: z.string().email('Invalid email format'),
+  company: z.string().min(1, 'Organisation is required'),
+  phone: z.string().optional(),
+  website: z.string().optional(),
+  message: z.string().optional(),
+  consent: z.boolean().optional(),
+});
+
+export const newsletterFormSchema = z.object({
+  form_type: z.literal('newsletter'),
+  email: z.string().email('Invalid email format'),
+  name: z.string().optional(),
+  consent: z.boolean().optional(),
+});
+
+export const webhookFormSchema = z.preprocess(
+  // Forms posted before form_type existed are employer inquiries
+  (body) =>
+    body && typeof body === 'object' && !('form_type' in body) ? { ...body, form_type: 'employer' } : body,
+  z.discriminatedUnion('form_type', [employerFormSchema, candidateFormSchema, partnershipFormSchema, newsletterFormSchema])
+);
+
+export type EmployerForm = z.infer<typeof employerFormSchema>;
+export type CandidateForm = z.infer<typeof candidateFormSchema>;
+export type PartnershipForm = z.infer<typeof partnershipFormSchema>;
+export type NewsletterForm = z.infer<typeof newsletterFormSchema>;
+export type WebhookForm = z.infer<typeof webhookFormSchema>;
+
+export type WebhookFormValidationResult =
+  | { success: true; data: WebhookForm }
+  | { success: false; errors: z.ZodError };
+
+/**
+ * Parse a webhook body of any form type (employer when form_type is missing).
+ * Returns a result object instead of throwing.
+ */
+export function parseWebhookForm(body: unknown): WebhookFormValidationResult {
+  const result = webhookFormSchema.safeParse(body);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return { success: false, errors: result.error };
+}
+
 /**
  * Format zod validation errors into a user-friendly message.
  */
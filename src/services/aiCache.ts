@@ -0,0 +1,232 @@
+import { createHash } from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { config } from '../config/env.js';
+import { logger, getErrorMessage } from '../utils/logger.js';
+import { getRepositories } from '../repositories/index.js';
+import type { AICacheStats } from '../types/index.js';
+
+/**
+ * AI result cache.
+ *
+ * Re-scraped jobs, re-evaluated companies, re-uploaded CVs and repeated match
+ * pairs produce the exact same prompt, so the model's answer is reused instead
+ * of paying for another call. Entries are keyed by feature + model + prompt
+ * version + a hash of the input, so changing the model or editing a system
+ * prompt naturally invalidates old results.
+ *
+ * Backends (AI_CACHE_BACKEND):
+ * - memory: per-process Map with TTL and a max entry count (default)
+ * - table:  `ai_cache` table (repositories/), shared across instances and restarts
+ * - off:    every call goes to the model
+ *
+ * Cache failures never fail the AI call — a broken backend just behaves like a miss.
+ */
+
+export interface AICacheKeyParts {
+  feature: string;
+  model: string;
+  promptVersion: string;
+  input: unknown;
+}
+
+interface AICacheBackend {
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, parts: AICacheKeyParts, value: unknown, ttlMs: number): Promise<void>;
+}
+
+// Bump to invalidate every cached entry, e.g. when a result type changes shape
+const CACHE_KEY_VERSION = 'v2';
+
+// JSON with sorted object keys, so equal inputs always hash the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Short content hash of a system prompt, used as its version
+ */
+export function promptVersionOf(systemPrompt: string): string {
+  return createHash('sha256').update(systemPrompt).digest('hex').slice(0, 12);
+}
+
+/**
+ * sha256 of an AI input; key order in objects does not matter
+ */
+export function hashAIInput(input: unknown): string {
+  return createHash('sha256').update(stableStringify(input)).digest('hex');
+}
+
+/**
+ * Cache key for one AI call
+ */
+export function buildAICacheKey(parts: AICacheKeyParts): string {
+  const inputHash = hashAIInput(parts.input);
+  return [CACHE_KEY_VERSION, parts.feature, parts.model, parts.promptVersion, inputHash].join(':');
+}
+
+// ============================================================================
+// BACKENDS
+// ============================================================================
+
+/**
+ * In-process cache. Map insertion order doubles as LRU order: hits are
+ * re-inserted, and the oldest entry is evicted once maxEntries is exceeded.
+ */
+export function createMemoryAICacheBackend(maxEntries: number): AICacheBackend & { size(): number } {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    async set(key, _parts, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+
+    size: () => entries.size,
+  };
+}
+
+/**
+ * The `ai_cache` table, through the repository layer
+ */
+function createTableAICacheBackend(): AICacheBackend {
+  return {
+    async get(key) {
+      const entry = await getRepositories().aiCache.get(key);
+      return entry?.value ?? undefined;
+    },
+
+    async set(key, parts, value, ttlMs) {
+      await getRepositories().aiCache.upsert({
+        cache_key: key,
+        feature: parts.feature,
+        model: parts.model,
+        prompt_version: parts.promptVersion,
+        value,
+        expires_at: new Date(Date.now() + ttlMs).toISOString(),
+      });
+    },
+  };
+}
+
+function createBackend(): AICacheBackend | null {
+  switch (config.aiCache.backend) {
+    case 'off':
+      return null;
+    case 'table':
+      return createTableAICacheBackend();
+    default:
+      return createMemoryAICacheBackend(config.aiCache.maxEntries);
+  }
+}
+
+let backend: AICacheBackend | null = createBackend();
+
+/**
+ * Replace the cache backend (null disables caching). Used by tests.
+ */
+export function setAICacheBackend(next: AICacheBackend | null): void {
+  backend = next;
+}
+
+// ============================================================================
+// HIT / MISS COUNTING
+// ============================================================================
+
+// Counters for the current request or scraper run. Nested scopes also count
+// towards their parent, so a run total includes every call made inside it.
+interface StatsScope {
+  stats: AICacheStats;
+  parent?: StatsScope;
+}
+
+const statsStorage = new AsyncLocalStorage<StatsScope>();
+
+function countLookup(outcome: 'hits' | 'misses'): void {
+  for (let scope = statsStorage.getStore(); scope; scope = scope.parent) {
+    scope.stats[outcome]++;
+  }
+}
+
+/**
+ * Run `fn` and collect the cache hits / misses of every AI call it makes
+ */
+export async function withAICacheStats<T>(fn: () => Promise<T>): Promise<{ result: T; aiCache: AICacheStats }> {
+  const scope: StatsScope = { stats: { hits: 0, misses: 0 }, parent: statsStorage.getStore() };
+  const result = await statsStorage.run(scope, fn);
+  return { result, aiCache: { ...scope.stats } };
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/**
+ * Look up a cached result. Counts a hit or a miss when caching is enabled.
+ */
+export async function getCachedAIResult<T>(parts: AICacheKeyParts): Promise<T | undefined> {
+  if (!backend) return undefined;
+
+  try {
+    const value = await backend.get(buildAICacheKey(parts));
+    countLookup(value === undefined ? 'misses' : 'hits');
+    return value as T | undefined;
+  } catch (error) {
+    logger.warn('AI cache lookup failed, calling model', { feature: parts.feature, error: getErrorMessage(error) });
+    countLookup('misses');
+    return undefined;
+  }
+}
+
+/**
+ * Store a result. Fire-and-forget: NEVER throws.
+ */
+export function setCachedAIResult(parts: AICacheKeyParts, value: unknown): void {
+  if (!backend) return;
+
+  backend.set(buildAICacheKey(parts), parts, value, config.aiCache.ttlHours * 60 * 60 * 1000).catch((error) => {
+    logger.warn('AI cache write failed', { feature: parts.feature, error: getErrorMessage(error) });
+  });
+}
+
+/**
+ * Return the cached result for `parts`, or compute and cache it.
+ * Errors from `compute` are not cached.
+ */
+export async function cachedAICall<T>(parts: AICacheKeyParts, compute: () => Promise<T>): Promise<T> {
+  const cached = await getCachedAIResult<T>(parts);
+  if (cached !== undefined) {
+    logger.debug('AI cache hit', { feature: parts.feature, model: parts.model });
+    return cached;
+  }
+
+  const result = await compute();
+  setCachedAIResult(parts, result);
+  return result;
+}
@@ -0,0 +1,122 @@
+import { config } from '../config/env.js';
+import { logger, getErrorMessage } from '../utils/logger.js';
+import { getRepositories } from '../repositories/index.js';
+import type { AIUsageRecord, AIUsageDailyRow, AIUsageSummary, AIUsageTotals } from '../types/index.js';
+
+/**
+ * AI usage accounting.
+ *
+ * Every LLM completion is recorded in `ai_usage` with its feature, model,
+ * token counts, latency and estimated cost (from config.aiPricing), so spend
+ * can be broken down per feature. Aggregation happens in the ai_usage_daily
+ * RPC; this module only merges its rows.
+ */
+
+/**
+ * Estimated cost in USD, or null when the model has no configured price
+ */
+export function estimateLLMCost(model: string, promptTokens: number, completionTokens: number): number | null {
+  const price = config.aiPricing[model];
+  if (!price) return null;
+
+  return (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1_000_000;
+}
+
+async function insertUsage(record: AIUsageRecord): Promise<void> {
+  await getRepositories().aiUsage.insert({
+    feature: record.feature,
+    model: record.model,
+    prompt_tokens: record.promptTokens,
+    completion_tokens: record.completionTokens,
+    total_tokens: record.promptTokens + record.completionTokens,
+    latency_ms: record.latencyMs,
+    cost_usd: record.costUsd,
+    status: record.status,
+  });
+}
+
+/**
+ * Record one LLM completion.
+ * Fire-and-forget: NEVER throws, NEVER blocks the caller.
+ */
+export function recordAIUsage(record: AIUsageRecord): void {
+  insertUsage(record).catch((err) => {
+    logger.warn('Failed to record AI usage', { feature: record.feature, model: record.model, error: getErrorMessage(err) });
+  });
+}
+
+function emptyTotals(): AIUsageTotals {
+  return { calls: 0, failedCalls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+}
+
+function addRow(totals: AIUsageTotals, row: AIUsageDailyRow): void {
+  totals.calls += Number(row.calls);
+  totals.failedCalls += Number(row.failed_calls);
+  totals.promptTokens += Number(row.prompt_tokens);
+  totals.completionTokens += Number(row.completion_tokens);
+  totals.costUsd += Number(row.cost_usd);
+}
+
+const roundCost = (totals: AIUsageTotals) => ({ ...totals, costUsd: Math.round(totals.costUsd * 10_000) / 10_000 });
+
+/**
+ * Merge daily per-feature/model rows into totals, per-feature and per-day breakdowns.
+ * Features are sorted by cost (highest first), days chronologically.
+ */
+export function summarizeAIUsage(rows: AIUsageDailyRow[], from: string, to: string): AIUsageSummary {
+  const totals = emptyTotals();
+  const byFeature = new Map<string, AIUsageTotals & { models: Set<string>; latencyWeighted: number }>();
+  const byDay = new Map<string, AIUsageTotals>();
+
+  for (const row of rows) {
+    addRow(totals, row);
+
+    const feature = byFeature.get(row.feature) ?? { ...emptyTotals(), models: new Set<string>(), latencyWeighted: 0 };
+    addRow(feature, row);
+    feature.models.add(row.model);
+    feature.latencyWeighted += Number(row.avg_latency_ms) * Number(row.calls);
+    byFeature.set(row.feature, feature);
+
+    const day = byDay.get(row.day) ?? emptyTotals();
+    addRow(day, row);
+    byDay.set(row.day, day);
+  }
+
+  return {
+    from,
+    to,
+    totals: roundCost(totals),
+    byFeature: [...byFeature.entries()]
+      .map(([feature, { models, latencyWeighted, ...featureTotals }]) => ({
+        feature,
+        ...roundCost(featureTotals),
+        models: [...models].sort(),
+        avgLatencyMs: featureTotals.calls > 0 ? Math.round(latencyWeighted / featureTotals.calls) : 0,
+      }))
+      .sort((a, b) => b.costUsd - a.costUsd),
+    byDay: [...byDay.entries()]
+      .map(([day, dayTotals]) => ({ day, ...roundCost(dayTotals) }))
+      .sort((a, b) => a.day.localeCompare(b.day)),
+  };
+}
+
+/**
+ * AI usage between two dates (inclusive, YYYY-MM-DD), optionally for one feature
+ */
+export async function getAIUsageStats(filters: {
+  from_date: string;
+  to_date: string;
+  feature?: string;
+}): Promise<AIUsageSummary> {
+  try {
+    logger.info('Fetching AI usage stats', filters);
+
+    const data = await getRepositories().aiUsage.daily(filters.from_date, filters.to_date);
+
+    const rows = (data as unknown as AIUsageDailyRow[]).filter((row) => !filters.feature || row.feature === filters.feature);
+    return summarizeAIUsage(rows, filters.from_date, filters.to_date);
+  } catch (error) {
+    logger.error('Error fetching AI usage stats', error);
+    throw new Error(`Failed to fetch AI usage stats: ${getErrorMessage(error)}`);
+  }
+}
@@ -1,14 +1,11 @@
-import { createClient } from '@supabase/supabase-js';
-import { config } from '../config/env.js';
 import { logger } from '../utils/logger.js';
+import { getRepositories } from '../repositories/index.js';
 import type {
   SystemAlertSource,
   SystemAlertStage,
   SystemAlertSeverity,
 } from '../types/index.js';
 
-const supabase = createClient(config.supabase.url, config.supabase.key!);
-
 export interface EmitAlertParams {
   source: SystemAlertSource;
   stage: SystemAlertStage;
@@ -38,7 +35,7 @@ export function emitAlert(params: EmitAlertParams): void {
 }
 
 async function _insertAlert(params: EmitAlertParams): Promise<void> {
-  const { error } = await supabase.from('system_alerts').insert({
+  await getRepositories().alerts.insert({
     source: params.source,
     stage: params.stage,
     severity: params.severity,
@@ -48,8 +45,4 @@ async function _insertAlert(params: EmitAlertParams): Promise<void> {
     related_job_id: params.relatedJobId ?? null,
     related_company_id: params.relatedCompanyId ?? null,
   });
-
-  if (error) {
-    throw new Error(`Supabase insert failed: ${error.message}`);
-  }
 }
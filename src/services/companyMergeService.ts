@@ -0,0 +1,234 @@
+import { logger, getErrorMessage } from '../utils/logger.js';
+import { getRepositories } from '../repositories/index.js';
+import type { Row } from '../repositories/types.js';
+import {
+  companyNameTokens,
+  findMatchingCompanies,
+  matchCompanies,
+  MIN_MATCH_SCORE,
+  type CompanyIdentity,
+  type CompanyMatch,
+} from '../utils/companyMatcher.js';
+import { normalizeOrgNumber } from '../utils/orgNumber.js';
+import { refreshCompanyScore } from './companyScoringService.js';
+
+/**
+ * Duplicate companies: merge candidates for a company, and merging confirmed
+ * duplicates into it.
+ *
+ * A merge moves the duplicate's jobs, signals and contacts to the surviving company,
+ * fills its empty fields from the duplicate and records the merge in company_merges.
+ * The duplicate is kept with merged_into set, so find_or_create_company resolves its
+ * name and domain to the surviving company from then on.
+ */
+
+const CANDIDATE_POOL_SIZE = 200;
+const MAX_SEARCH_TERMS = 3;
+const DEFAULT_CANDIDATE_LIMIT = 20;
+
+// Copied from the duplicate when the surviving company has no value
+const FILLED_FIELDS = ['org_number', 'website', 'linkedin_url', 'industry', 'region', 'description', 'employee_count', 'company_size'];
+// Copied together, and only when the surviving company has no domain
+const DOMAIN_FIELDS = ['domain', 'domain_source', 'domain_confidence'];
+
+export interface CompanyMergeCandidates {
+  company: CompanyIdentity;
+  candidates: CompanyMatch[];
+}
+
+export interface CompanyMergeRequest {
+  companyIds: string[];
+  reason: string;
+  mergedBy?: string;
+}
+
+export interface MergedCompany {
+  company_id: string;
+  name: string;
+  merge_id: string;
+  moved: { jobs: number; signals: number; contacts: number };
+  // Contacts the surviving company already has (same email or LinkedIn URL), left on the duplicate
+  contacts_skipped: string[];
+  filled_fields: string[];
+  match: CompanyMatch;
+}
+
+export interface CompanyMergeResult {
+  company_id: string;
+  // not_found: the company or a duplicate doesn't exist; conflict: one of them is already merged
+  status: 'merged' | 'not_found' | 'conflict';
+  merged: MergedCompany[];
+  error?: string;
+}
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+function identityOf(row: Row): CompanyIdentity {
+  return {
+    id: String(row.id),
+    name: String(row.name ?? ''),
+    domain: (row.domain as string | null | undefined) ?? null,
+    org_number: (row.org_number as string | null | undefined) ?? null,
+  };
+}
+
+// The distinctive words of a name as stored (with diacritics), longest first
+function searchTerms(name: string): string[] {
+  return name
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= 2 && companyNameTokens(word).length > 0)
+    .sort((a, b) => b.length - a.length)
+    .slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * Companies that are likely the same company, best first. Returns null when the
+ * company doesn't exist.
+ */
+export async function findCompanyMergeCandidates(
+  companyId: string,
+  options: { minScore?: number; limit?: number } = {}
+): Promise<CompanyMergeCandidates | null> {
+  try {
+    const { companies } = getRepositories();
+    const row = await companies.getById(companyId);
+    if (!row) return null;
+
+    const company = identityOf(row);
+    const pool = await companies.findMatchCandidates({
+      name_terms: searchTerms(company.name),
+      domain: company.domain,
+      org_number: normalizeOrgNumber(company.org_number),
+      limit: CANDIDATE_POOL_SIZE,
+    });
+
+    const candidates = findMatchingCompanies(company, pool.map(identityOf), options.minScore ?? MIN_MATCH_SCORE).slice(
+      0,
+      options.limit ?? DEFAULT_CANDIDATE_LIMIT
+    );
+
+    logger.info('Company merge candidates found', { companyId, pool: pool.length, candidates: candidates.length });
+
+    return { company, candidates };
+  } catch (error) {
+    logger.error('Error finding company merge candidates', error, { companyId });
+    throw new Error(`Failed to find company merge candidates: ${getErrorMessage(error)}`);
+  }
+}
+
+// Contacts of the duplicate that would break the (company_id, email) or (company_id, linkedin_url) keys
+async function conflictingContacts(targetId: string, duplicateId: string): Promise<string[]> {
+  const { contacts } = getRepositories();
+  const [existing, incoming] = await Promise.all([contacts.listByCompany(targetId), contacts.listByCompany(duplicateId)]);
+
+  const emails = new Set(existing.map((c) => c.email).filter(Boolean));
+  const linkedinUrls = new Set(existing.map((c) => c.linkedin_url).filter(Boolean));
+
+  return incoming
+    .filter((c) => (c.email && emails.has(c.email)) || (c.linkedin_url && linkedinUrls.has(c.linkedin_url)))
+    .map((c) => String(c.id));
+}
+
+async function mergeOne(target: Row, duplicate: Row, request: CompanyMergeRequest): Promise<MergedCompany> {
+  const repos = getRepositories();
+  const targetId = String(target.id);
+  const duplicateId = String(duplicate.id);
+
+  const contactsSkipped = await conflictingContacts(targetId, duplicateId);
+  const moved = {
+    jobs: await repos.jobs.reassignCompany(duplicateId, targetId),
+    signals: await repos.signals.reassignCompany(duplicateId, targetId),
+    contacts: await repos.contacts.reassignCompany(duplicateId, targetId, contactsSkipped),
+  };
+
+  const fields = [...(isEmpty(target.domain) ? DOMAIN_FIELDS : []), ...FILLED_FIELDS];
+  const fills = Object.fromEntries(
+    fields.filter((field) => isEmpty(target[field]) && !isEmpty(duplicate[field])).map((field) => [field, duplicate[field]])
+  );
+
+  if (Object.keys(fills).length > 0) {
+    await repos.companies.update(targetId, { ...fills, updated_at: new Date().toISOString() });
+    Object.assign(target, fills);
+  }
+
+  const match = matchCompanies(identityOf(target), identityOf(duplicate));
+
+  // The duplicate is marked last, so a merge that failed halfway can be rerun
+  const audit = await repos.companyMerges.insert({
+    company_id: targetId,
+    merged_company_id: duplicateId,
+    merged_company: duplicate,
+    moved,
+    contacts_skipped: contactsSkipped,
+    filled_fields: Object.keys(fills),
+    match: { score: match.score, reasons: match.reasons },
+    reason: request.reason,
+    merged_by: request.mergedBy ?? null,
+  });
+  await repos.companies.markMerged(duplicateId, targetId);
+
+  logger.info('Company merged', { companyId: targetId, mergedCompanyId: duplicateId, moved, filled: Object.keys(fills) });
+
+  return {
+    company_id: duplicateId,
+    name: String(duplicate.name ?? ''),
+    merge_id: String(audit.id),
+    moved,
+    contacts_skipped: contactsSkipped,
+    filled_fields: Object.keys(fills),
+    match,
+  };
+}
+
+/**
+ * Merge duplicates into a company, one after the other. Nothing is merged when
+ * the company or a duplicate is missing or already merged.
+ */
+export async function mergeCompanies(companyId: string, request: CompanyMergeRequest): Promise<CompanyMergeResult> {
+  const { companies } = getRepositories();
+  const duplicateIds = [...new Set(request.companyIds)];
+  let target: Row | null;
+  let duplicates: (Row | null)[];
+
+  try {
+    [target, ...duplicates] = await Promise.all([companyId, ...duplicateIds].map((id) => companies.getById(id)));
+  } catch (error) {
+    logger.error('Error fetching companies to merge', error);
+    throw new Error(`Failed to fetch companies to merge: ${getErrorMessage(error)}`);
+  }
+
+  const rejected = (status: 'not_found' | 'conflict', error: string): CompanyMergeResult => ({
+    company_id: companyId,
+    status,
+    merged: [],
+    error,
+  });
+
+  if (!target) return rejected('not_found', 'Company not found');
+  if (target.merged_into) return rejected('conflict', `Company was merged into ${target.merged_into}`);
+  if (duplicateIds.includes(companyId)) return rejected('conflict', 'A company cannot be merged into itself');
+
+  const missing = duplicateIds.filter((_, i) => !duplicates[i]);
+  if (missing.length > 0) return rejected('not_found', `Companies not found: ${missing.join(', ')}`);
+
+  const merged = duplicates.filter((row): row is Row => Boolean(row?.merged_into));
+  if (merged.length > 0) {
+    return rejected('conflict', `Companies already merged: ${merged.map((row) => row.id).join(', ')}`);
+  }
+
+  const results: MergedCompany[] = [];
+  for (const duplicate of duplicates as Row[]) {
+    try {
+      results.push(await mergeOne(target, duplicate, request));
+    } catch (error) {
+      logger.error('Error merging company', error, { companyId, mergedCompanyId: duplicate.id });
+      throw new Error(`Failed to merge company ${duplicate.id}: ${getErrorMessage(error)}`);
+    }
+  }
+
+  // The duplicates' signals now count towards the company
+  await refreshCompanyScore(companyId);
+
+  return { company_id: companyId, status: 'merged', merged: results };
+}
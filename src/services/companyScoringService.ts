@@ -0,0 +1,143 @@
+import { logger, getErrorMessage } from '../utils/logger.js';
+import { getRepositories } from '../repositories/index.js';
+import type { Row } from '../repositories/types.js';
+import { scoreCompanySignals, type CompanyScore, type ScoringSignal } from '../utils/companyScoring.js';
+
+/**
+ * Company lead scores (see utils/companyScoring.ts).
+ *
+ * A company is rescored when it gets a new or changed signal, and all companies are
+ * rescored daily, since scores decay without new signals. The score is stored as
+ * companies.current_score with score_breakdown (points per component) and scored_at,
+ * and each signal stores its points as score_contribution.
+ */
+
+const RESCORE_BATCH_SIZE = 200;
+
+export interface CompanyScoreDetail extends CompanyScore {
+  company_id: string;
+  // As stored by the last rescore
+  stored_score: number | null;
+  scored_at: string | null;
+}
+
+export interface CompanyRescore extends CompanyScore {
+  previous_score: number | null;
+}
+
+export interface CompanyRescoreStats {
+  companies: number;
+  changed: number;
+  failed: number;
+}
+
+const scoreSignals = (rows: Row[], now: Date) => scoreCompanySignals(rows as unknown as ScoringSignal[], now);
+
+/**
+ * The current score of a company with each signal's contribution, without storing
+ * it. Returns null when the company doesn't exist.
+ */
+export async function getCompanyScore(companyId: string, now: Date = new Date()): Promise<CompanyScoreDetail | null> {
+  try {
+    const { companies, signals } = getRepositories();
+    const company = await companies.getById(companyId);
+    if (!company) return null;
+
+    const score = scoreSignals(await signals.listByCompany(companyId), now);
+
+    return {
+      company_id: companyId,
+      stored_score: (company.current_score as number | null | undefined) ?? null,
+      scored_at: (company.scored_at as string | null | undefined) ?? null,
+      ...score,
+    };
+  } catch (error) {
+    logger.error('Error computing company score', error, { companyId });
+    throw new Error(`Failed to compute company score: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Recompute and store a company's score. Returns null when the company doesn't
+ * exist or was merged into another.
+ */
+export async function rescoreCompany(companyId: string, now: Date = new Date()): Promise<CompanyRescore | null> {
+  try {
+    const { companies, signals } = getRepositories();
+    const company = await companies.getById(companyId);
+    if (!company || company.merged_into) return null;
+
+    const stored = await signals.listByCompany(companyId);
+    const score = scoreSignals(stored, now);
+
+    // Only signals whose contribution changed are written
+    const previous = new Map(stored.map((s) => [s.id, s.score_contribution]));
+    for (const contribution of score.contributions) {
+      if (contribution.signal_id && previous.get(contribution.signal_id) !== contribution.points) {
+        await signals.update(contribution.signal_id, { score_contribution: contribution.points });
+      }
+    }
+
+    await companies.update(companyId, {
+      current_score: score.score,
+      score_breakdown: { components: score.components, recent_job_ads: score.recent_job_ads },
+      scored_at: now.toISOString(),
+    });
+
+    const previousScore = (company.current_score as number | null | undefined) ?? null;
+    logger.debug('Company rescored', { companyId, score: score.score, previous: previousScore });
+
+    return { ...score, previous_score: previousScore };
+  } catch (error) {
+    logger.error('Error rescoring company', error, { companyId });
+    throw new Error(`Failed to rescore company: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Rescore a company after it got a new or changed signal. A failure is logged and
+ * not thrown: the signal is stored, and the daily rescore catches up.
+ */
+export async function refreshCompanyScore(companyId: string): Promise<void> {
+  try {
+    await rescoreCompany(companyId);
+  } catch (error) {
+    logger.warn('Company score not refreshed', { companyId, error: getErrorMessage(error) });
+  }
+}
+
+/**
+ * Rescore all companies not merged into another, in batches. A company that fails
+ * is counted and skipped.
+ */
+export async function rescoreAllCompanies(now: Date = new Date()): Promise<CompanyRescoreStats> {
+  const { companies } = getRepositories();
+  const stats: CompanyRescoreStats = { companies: 0, changed: 0, failed: 0 };
+
+  for (let offset = 0; ; offset += RESCORE_BATCH_SIZE) {
+    let ids: string[];
+    try {
+      ids = await companies.listIds({ limit: RESCORE_BATCH_SIZE, offset });
+    } catch (error) {
+      logger.error('Error listing companies to rescore', error, { offset });
+      throw new Error(`Failed to list companies to rescore: ${getErrorMessage(error)}`);
+    }
+
+    for (const id of ids) {
+      try {
+        const result = await rescoreCompany(id, now);
+        stats.companies++;
+        if (result && result.score !== result.previous_score) stats.changed++;
+      } catch {
+        // Logged by rescoreCompany
+        stats.failed++;
+      }
+    }
+
+    if (ids.length < RESCORE_BATCH_SIZE) break;
+  }
+
+  logger.info('Companies rescored', { ...stats });
+
+  return stats;
+}
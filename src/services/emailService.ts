@@ -1,15 +1,15 @@
 import { Resend } from 'resend';
-import { createClient } from '@supabase/supabase-js';
 import { config } from '../config/env.js';
 import { logger, getErrorMessage, maskEmail } from '../utils/logger.js';
 import type { FormData, JobAdData, EmailResponse } from '../types/index.js';
 import type { ScraperRunResult, ProcessedJob, LeadScraperRunResult, ProcessedCompany } from '../types/scraper.types.js';
 import type { HealthCheckResult, HealthCheckItem, HealthCheckSeverity } from '../types/healthCheck.types.js';
 import { emitAlert } from './alertService.js';
+import { getRepositories } from '../repositories/index.js';
 
-const supabase = createClient(config.supabase.url, config.supabase.key!);
-
-const resend = new Resend(config.resend.apiKey);
+// Created on first use so the module can be imported without a Resend key (tests)
+let resend: Resend | null = null;
+const getResend = () => (resend ??= new Resend(config.resend.apiKey));
 
 function isEmailWhitelisted(recipient: string | undefined): boolean {
   if (!recipient) return false;
@@ -238,7 +238,7 @@ export async function sendEmailToLead(
       return { id: 'blocked-by-whitelist' } as EmailResponse;
     }
 
-    const { data, error } = await resend.emails.send({
+    const { data, error } = await getResend().emails.send({
       from: config.resend.fromEmail,
       to: toAddress,
       subject: `Tack för din förfrågan till Rookie - Vi har kandidater! [Lead: ${leadEmail}]`,
@@ -400,7 +400,7 @@ export async function sendAdminAlert(
       failurePoint,
     });
 
-    const { data, error: emailError } = await resend.emails.send({
+    const { data, error: emailError } = await getResend().emails.send({
       from: config.resend.fromEmail,
       to: recipients,
       subject: `ALERT: Form Submission Failed - ${escapeHtml(formData.company_name || 'Unknown Company')}`,
@@ -424,7 +424,7 @@ export async function sendAdminAlert(
 
     // Write to system_error_logs
     try {
-      await supabase.from('system_error_logs').insert({
+      await getRepositories().alerts.insertErrorLog({
         source: 'backend',
         severity: 'critical',
         endpoint: `webhook/${failurePoint}`,
@@ -452,7 +452,7 @@ export async function sendAdminAlert(
 
     // Still write to DB even if email failed
     try {
-      await supabase.from('system_error_logs').insert({
+      await getRepositories().alerts.insertErrorLog({
         source: 'backend',
         severity: 'critical',
         endpoint: `webhook/${failurePoint}`,
@@ -575,7 +575,7 @@ export async function sendScraperFailureAlert(
 
     logger.info('Sending scraper failure alert', { source, recipients: recipients.length });
 
-    const { data, error: emailError } = await resend.emails.send({
+    const { data, error: emailError } = await getResend().emails.send({
       from: config.resend.fromEmail,
       to: recipients,
       subject: `Scraper Failed: ${source} | ${new Date().toLocaleDateString('sv-SE')}`,
@@ -600,7 +600,7 @@ export async function sendScraperFailureAlert(
 
     // Write to system_error_logs
     try {
-      await supabase.from('system_error_logs').insert({
+      await getRepositories().alerts.insertErrorLog({
         source: 'backend',
         severity: 'critical',
         endpoint: `scraper/${source}`,
@@ -629,7 +629,7 @@ export async function sendScraperFailureAlert(
 
     // Still write to DB even if email failed
     try {
-      await supabase.from('system_error_logs').insert({
+      await getRepositories().alerts.insertErrorLog({
         source: 'backend',
         severity: 'critical',
         endpoint: `scraper/${source}`,
@@ -824,6 +824,10 @@ function generateScraperDigestHTML(result: ScraperRunResult): string {
         <div class="stat-number">${result.stats.afterDedup}</div>
         <div class="stat-label">New Jobs</div>
       </div>
+      <div class="stat-box">
+        <div class="stat-number" style="color: #666;">${result.stats.crossSourceDuplicates}</div>
+        <div class="stat-label">Cross-source Dupes</div>
+      </div>
       <div class="stat-box">
         <div class="stat-number" style="color: #2e7d32;">${result.stats.valid}</div>
         <div class="stat-label">Valid</div>
@@ -868,7 +872,7 @@ export async function sendJobScraperDigestEmail(result: ScraperRunResult): Promi
       discardedJobs: result.stats.discarded,
     });
 
-    const { data, error } = await resend.emails.send({
+    const { data, error } = await getResend().emails.send({
       from: config.resend.fromEmail,
       to: recipients,
       subject: `Job Scraper: ${result.stats.valid} new ${result.source} jobs (${result.stats.afterDedup} processed)`,
@@ -1135,7 +1139,7 @@ export async function sendLeadScraperDigestEmail(result: LeadScraperRunResult):
       contactsCreated: result.stats.contactsCreated,
     });
 
-    const { data, error } = await resend.emails.send({
+    const { data, error } = await getResend().emails.send({
       from: config.resend.fromEmail,
       to: recipients,
       subject: `Google Maps Digest: ${result.stats.valid} New Prospects, ${result.stats.contactsCreated} Contacts | ${today}`,
@@ -1263,6 +1267,39 @@ function generateHealthCheckDigestHTML(result: HealthCheckResult): string {
       </table>`;
   }
 
+  // AI cost summary (last 7 days)
+  let aiCostHtml = '';
+  if (result.aiUsage && result.aiUsage.totals.calls > 0) {
+    const { totals, byFeature } = result.aiUsage;
+    const featureRows = byFeature
+      .map(
+        (f) => `
+      <tr>
+        <td style="padding: 6px 10px; border-bottom: 1px solid #eee; font-weight: 500;">${escapeHtml(f.feature)}</td>
+        <td style="padding: 6px 10px; border-bottom: 1px solid #eee; text-align: right; font-family: monospace;">${f.calls}</td>
+        <td style="padding: 6px 10px; border-bottom: 1px solid #eee; text-align: right; font-family: monospace;">${(f.promptTokens + f.completionTokens).toLocaleString('sv-SE')}</td>
+        <td style="padding: 6px 10px; border-bottom: 1px solid #eee; text-align: right; font-family: monospace;">${(f.avgLatencyMs / 1000).toFixed(1)}s</td>
+        <td style="padding: 6px 10px; border-bottom: 1px solid #eee; text-align: right; font-family: monospace;">$${f.costUsd.toFixed(2)}</td>
+      </tr>`
+      )
+      .join('');
+
+    aiCostHtml = `
+      <h3 style="margin: 24px 0 8px 0; color: #374151; font-size: 15px;">AI Cost (last 7 days): $${totals.costUsd.toFixed(2)}</h3>
+      <table style="width: 100%; border-collapse: collapse; margin-bottom: 12px;">
+        <thead>
+          <tr style="background: #f5f5f5;">
+            <th style="padding: 6px 10px; text-align: left; font-size: 11px;">Feature</th>
+            <th style="padding: 6px 10px; text-align: right; font-size: 11px;">Calls</th>
+            <th style="padding: 6px 10px; text-align: right; font-size: 11px;">Tokens</th>
+            <th style="padding: 6px 10px; text-align: right; font-size: 11px;">Avg Latency</th>
+            <th style="padding: 6px 10px; text-align: right; font-size: 11px;">Est. Cost</th>
+          </tr>
+        </thead>
+        <tbody>${featureRows}</tbody>
+      </table>`;
+  }
+
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -1340,6 +1377,7 @@ function generateHealthCheckDigestHTML(result: HealthCheckResult): string {
 
     ${categorySectionsHtml}
     ${signalsSummaryHtml}
+    ${aiCostHtml}
 
     <div style="margin-top: 30px; border-top: 1px solid #eee; padding-top: 10px; text-align: center; font-size: 11px; color: #999;">
       Generated at ${escapeHtml(result.timestamp)} | Rookie DB Health Check
@@ -1374,7 +1412,7 @@ export async function sendHealthCheckDigestEmail(result: HealthCheckResult): Pro
       summary: result.summary,
     });
 
-    const { data, error } = await resend.emails.send({
+    const { data, error } = await getResend().emails.send({
       from: config.resend.fromEmail,
       to: recipients,
       subject,
@@ -1469,7 +1507,7 @@ export async function sendCriticalErrorAlert(
   // Send email alert
   try {
     if (recipients.length > 0) {
-      const { error: emailError } = await resend.emails.send({
+      const { error: emailError } = await getResend().emails.send({
         from: config.resend.fromEmail,
         to: recipients,
         subject: `CRITICAL: ${source} failed | ${new Date().toLocaleString('sv-SE', { timeZone: 'Europe/Stockholm' })}`,
@@ -1489,7 +1527,7 @@ export async function sendCriticalErrorAlert(
 
   // Write to system_error_logs table
   try {
-    await supabase.from('system_error_logs').insert({
+    await getRepositories().alerts.insertErrorLog({
       source: 'backend',
       severity: 'critical',
       endpoint: context.endpoint,
@@ -0,0 +1,149 @@
+import { logger, getErrorMessage, maskEmail } from '../utils/logger.js';
+import { getRepositories } from '../repositories/index.js';
+import { notifyAdmins } from './supabaseService.js';
+import { enqueueCandidateCv } from './webhookOutboxService.js';
+import type { CandidateForm, NewsletterForm, PartnershipForm } from '../schemas/webhook.js';
+import type { CvStatus } from '../types/index.js';
+
+/**
+ * Pipelines for the webhook forms that aren't employer inquiries.
+ * Employer inquiries go through lead scoring in routes/webhook.ts.
+ */
+
+export interface FormPipelineResult {
+  message: string;
+  record_id: string;
+  cv_status?: CvStatus;
+}
+
+/**
+ * Store a candidate application. An attached CV is downloaded and parsed by the
+ * outbox (step parse_cv), so the application is stored with cv_status 'pending'.
+ * When queueing fails the application is kept and the CV recorded as failed.
+ */
+export async function processCandidateForm(form: CandidateForm, submissionId: string): Promise<FormPipelineResult> {
+  let id: string;
+  let cvStatus: CvStatus = form.fileUrl ? 'pending' : 'none';
+
+  try {
+    logger.info('Inserting candidate application', { email: maskEmail(form.email), cvStatus });
+
+    const data = await getRepositories().candidates.insert({
+      submission_id: submissionId,
+      full_name: form.name,
+      email: form.email.toLowerCase(),
+      phone: form.phone,
+      city: form.city,
+      education: form.education,
+      experience: form.experience,
+      linkedin_url: form.linkedin_url,
+      message: form.message,
+      cv_url: form.fileUrl,
+      cv_status: cvStatus,
+      source: 'website_form',
+    });
+    id = data.id as string;
+
+    logger.info('Candidate application inserted', { candidateId: id });
+  } catch (error) {
+    logger.error('Error inserting candidate application', error);
+    throw new Error(`Failed to insert candidate application: ${getErrorMessage(error)}`);
+  }
+
+  if (form.fileUrl) {
+    try {
+      await enqueueCandidateCv(submissionId, { candidateId: id, fileUrl: form.fileUrl });
+    } catch (error) {
+      cvStatus = 'failed';
+      const cvError = getErrorMessage(error);
+      logger.warn('CV parsing not queued for candidate application', { candidateId: id, error: cvError });
+
+      try {
+        await getRepositories().candidates.update(id, { cv_status: cvStatus, cv_error: cvError });
+      } catch (updateError) {
+        logger.warn('CV status not updated', { candidateId: id, error: getErrorMessage(updateError) });
+      }
+    }
+  }
+
+  return {
+    message:
+      cvStatus === 'failed'
+        ? 'Candidate application received, but the CV could not be queued for parsing'
+        : 'Candidate application received',
+    record_id: id,
+    cv_status: cvStatus,
+  };
+}
+
+/**
+ * Store a partnership inquiry and notify the admins. A failed notification
+ * doesn't fail the submission — the inquiry is in form_submissions either way.
+ */
+export async function processPartnershipForm(form: PartnershipForm, submissionId: string): Promise<FormPipelineResult> {
+  let id: string;
+
+  try {
+    logger.info('Inserting partnership inquiry', { email: maskEmail(form.email) });
+
+    const data = await getRepositories().formSubmissions.insert({
+      submission_id: submissionId,
+      form_type: 'partnership',
+      full_name: form.name,
+      email: form.email.toLowerCase(),
+      phone: form.phone,
+      company_name: form.company,
+      payload: { website: form.website, message: form.message },
+    });
+    id = data.id as string;
+  } catch (error) {
+    logger.error('Error inserting partnership inquiry', error);
+    throw new Error(`Failed to insert partnership inquiry: ${getErrorMessage(error)}`);
+  }
+
+  try {
+    await notifyAdmins(
+      'partnership',
+      `Ny samarbetsförfrågan från ${form.company}`,
+      `${form.name} vill samarbeta med Rookie.`,
+      undefined,
+      { formSubmissionId: id, companyName: form.company }
+    );
+  } catch (error) {
+    logger.warn('Partnership notification failed', { formSubmissionId: id, error: getErrorMessage(error) });
+  }
+
+  return { message: 'Partnership inquiry received', record_id: id };
+}
+
+/**
+ * Sign an email up for the newsletter. Signing up again is a no-op.
+ */
+export async function processNewsletterForm(form: NewsletterForm, submissionId: string): Promise<FormPipelineResult> {
+  const email = form.email.toLowerCase();
+
+  try {
+    const { formSubmissions } = getRepositories();
+
+    const existing = await formSubmissions.findByEmail('newsletter', email);
+    if (existing) {
+      logger.info('Newsletter email already signed up', { email: maskEmail(email) });
+      return { message: 'Already signed up for the newsletter', record_id: existing.id as string };
+    }
+
+    const data = await formSubmissions.insert({
+      submission_id: submissionId,
+      form_type: 'newsletter',
+      full_name: form.name,
+      email,
+      payload: { consent: form.consent ?? null },
+    });
+
+    logger.info('Newsletter signup stored', { email: maskEmail(email) });
+
+    return { message: 'Newsletter signup received', record_id: data.id as string };
+  } catch (error) {
+    logger.error('Error storing newsletter signup', error);
+    throw new Error(`Failed to store newsletter signup: ${getErrorMessage(error)}`);
+  }
+}
@@ -1,6 +1,6 @@
-import { createClient } from '@supabase/supabase-js';
-import { config } from '../config/env.js';
 import { logger, getErrorMessage } from '../utils/logger.js';
+import { getAIUsageStats } from './aiUsageService.js';
+import { getRepositories } from '../repositories/index.js';
 import type {
   HealthCheckItem,
   HealthCheckResult,
@@ -9,8 +9,7 @@ import type {
   TopCompanyBySignals,
   JobsBySource,
 } from '../types/healthCheck.types.js';
-
-const supabase = createClient(config.supabase.url, config.supabase.key!);
+import type { AIUsageSummary } from '../types/index.js';
 
 // ============================================================================
 // THRESHOLD CONSTANTS
@@ -44,11 +43,16 @@ function severityFromCount(
 // CATEGORY RUNNERS
 // ============================================================================
 
-async function runReferentialIntegrity(): Promise<HealthCheckItem[]> {
-  const { data, error } = await supabase.rpc('health_check_referential_integrity');
-  if (error) throw new Error(`referential_integrity RPC failed: ${getErrorMessage(error)}`);
+async function runCheck<T>(name: string, query: () => Promise<T>): Promise<T> {
+  try {
+    return await query();
+  } catch (error) {
+    throw new Error(`${name} RPC failed: ${getErrorMessage(error)}`);
+  }
+}
 
-  const d = data as Record<string, number>;
+async function runReferentialIntegrity(): Promise<HealthCheckItem[]> {
+  const d = await runCheck('referential_integrity', () => getRepositories().healthChecks.referentialIntegrity());
   const checks: { id: string; name: string; key: keyof typeof THRESHOLDS }[] = [
     { id: 'orphaned_jobs', name: 'Orphaned Jobs', key: 'orphaned_jobs' },
     { id: 'orphaned_signals', name: 'Orphaned Signals', key: 'orphaned_signals' },
@@ -73,10 +77,7 @@ async function runReferentialIntegrity(): Promise<HealthCheckItem[]> {
 }
 
 async function runDataQuality(): Promise<HealthCheckItem[]> {
-  const { data, error } = await supabase.rpc('health_check_data_quality');
-  if (error) throw new Error(`data_quality RPC failed: ${getErrorMessage(error)}`);
-
-  const d = data as Record<string, number>;
+  const d = await runCheck('data_quality', () => getRepositories().healthChecks.dataQuality());
   const checks: { id: string; name: string; key: keyof typeof THRESHOLDS }[] = [
     { id: 'duplicate_companies', name: 'Duplicate Companies', key: 'duplicate_companies' },
     { id: 'duplicate_contacts', name: 'Duplicate Contacts', key: 'duplicate_contacts' },
@@ -103,14 +104,7 @@ async function runDataQuality(): Promise<HealthCheckItem[]> {
 }
 
 async function runFreshness(): Promise<HealthCheckItem[]> {
-  const { data, error } = await supabase.rpc('health_check_freshness');
-  if (error) throw new Error(`freshness RPC failed: ${getErrorMessage(error)}`);
-
-  const d = data as {
-    stale_scrapers: Record<string, unknown>[];
-    signal_expiry: { total: number; expired: number; active: number };
-    table_freshness: Record<string, string | null>;
-  };
+  const d = await runCheck('freshness', () => getRepositories().healthChecks.freshness());
 
   const items: HealthCheckItem[] = [];
 
@@ -165,14 +159,7 @@ async function runSignalStats(): Promise<{
   signalsBySource: SignalsBySource[];
   topCompanies: TopCompanyBySignals[];
 }> {
-  const { data, error } = await supabase.rpc('health_check_signal_stats');
-  if (error) throw new Error(`signal_stats RPC failed: ${getErrorMessage(error)}`);
-
-  const d = data as {
-    by_source: SignalsBySource[];
-    by_type: Record<string, unknown>[];
-    top_companies: TopCompanyBySignals[];
-  };
+  const d = await runCheck('signal_stats', () => getRepositories().healthChecks.signalStats());
 
   const items: HealthCheckItem[] = [
     {
@@ -215,14 +202,7 @@ async function runVolume(): Promise<{
   items: HealthCheckItem[];
   jobsBySource: JobsBySource[];
 }> {
-  const { data, error } = await supabase.rpc('health_check_volume');
-  if (error) throw new Error(`volume RPC failed: ${getErrorMessage(error)}`);
-
-  const d = data as {
-    row_counts: Record<string, number>;
-    null_rates: Record<string, number>;
-    jobs_by_source: JobsBySource[];
-  };
+  const d = await runCheck('volume', () => getRepositories().healthChecks.volume());
 
   const totalRows = Object.values(d.row_counts).reduce((a, b) => a + b, 0);
 
@@ -259,31 +239,40 @@ async function runVolume(): Promise<{
   return { items, jobsBySource: d.jobs_by_source };
 }
 
+async function runAIUsage(): Promise<AIUsageSummary> {
+  const today = new Date().toISOString().split('T')[0];
+  const weekAgo = new Date(Date.now() - 6 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  return getAIUsageStats({ from_date: weekAgo, to_date: today });
+}
+
 // ============================================================================
 // PUBLIC API
 // ============================================================================
 
 /**
- * Run all 5 health check categories and return a unified result.
+ * Run all 5 health check categories and return a unified result,
+ * plus the last 7 days of AI usage for the digest's cost section.
  * Uses Promise.allSettled so partial failures don't block other categories.
  */
 export async function runFullHealthCheck(): Promise<HealthCheckResult> {
   const startTime = Date.now();
   logger.info('Starting full health check');
 
-  const [refResult, dqResult, freshResult, signalResult, volResult] =
+  const [refResult, dqResult, freshResult, signalResult, volResult, aiUsageResult] =
     await Promise.allSettled([
       runReferentialIntegrity(),
       runDataQuality(),
       runFreshness(),
       runSignalStats(),
       runVolume(),
+      runAIUsage(),
     ]);
 
   const checks: HealthCheckItem[] = [];
   let signalsBySource: SignalsBySource[] = [];
   let topCompanies: TopCompanyBySignals[] = [];
   let jobsBySource: JobsBySource[] = [];
+  let aiUsage: AIUsageSummary | null = null;
 
   // Collect results, log failures
   if (refResult.status === 'fulfilled') {
@@ -319,6 +308,12 @@ export async function runFullHealthCheck(): Promise<HealthCheckResult> {
     logger.error('Volume check failed', volResult.reason);
   }
 
+  if (aiUsageResult.status === 'fulfilled') {
+    aiUsage = aiUsageResult.value;
+  } else {
+    logger.error('AI usage stats failed', aiUsageResult.reason);
+  }
+
   // Compute overall severity
   const severityOrder: HealthCheckSeverity[] = ['ok', 'warning', 'critical'];
   const overallSeverity = checks.reduce<HealthCheckSeverity>((worst, check) => {
@@ -347,6 +342,7 @@ export async function runFullHealthCheck(): Promise<HealthCheckResult> {
     signalsBySource,
     topCompanies,
     jobsBySource,
+    aiUsage,
   };
 }
 
@@ -354,25 +350,22 @@ export async function runFullHealthCheck(): Promise<HealthCheckResult> {
  * Get signal stats by source (standalone endpoint)
  */
 export async function getSignalsBySource(): Promise<SignalsBySource[]> {
-  const { data, error } = await supabase.rpc('health_check_signal_stats');
-  if (error) throw new Error(`signal_stats RPC failed: ${getErrorMessage(error)}`);
-  return (data as { by_source: SignalsBySource[] }).by_source;
+  const d = await runCheck('signal_stats', () => getRepositories().healthChecks.signalStats());
+  return d.by_source;
 }
 
 /**
  * Get top companies by signal count (standalone endpoint)
  */
 export async function getTopCompanies(): Promise<TopCompanyBySignals[]> {
-  const { data, error } = await supabase.rpc('health_check_signal_stats');
-  if (error) throw new Error(`signal_stats RPC failed: ${getErrorMessage(error)}`);
-  return (data as { top_companies: TopCompanyBySignals[] }).top_companies;
+  const d = await runCheck('signal_stats', () => getRepositories().healthChecks.signalStats());
+  return d.top_companies;
 }
 
 /**
  * Get jobs by source (standalone endpoint)
  */
 export async function getJobsBySource(): Promise<JobsBySource[]> {
-  const { data, error } = await supabase.rpc('health_check_volume');
-  if (error) throw new Error(`volume RPC failed: ${getErrorMessage(error)}`);
-  return (data as { jobs_by_source: JobsBySource[] }).jobs_by_source;
+  const d = await runCheck('volume', () => getRepositories().healthChecks.volume());
+  return d.jobs_by_source;
 }
@@ -0,0 +1,128 @@
+import { logger, getErrorMessage } from '../utils/logger.js';
+import { getRepositories } from '../repositories/index.js';
+import type { Row } from '../repositories/types.js';
+import {
+  analyzeHiringTrends,
+  hiringTrendPeriods,
+  type HiringTrendOptions,
+  type HiringTrends,
+  type JobPosting,
+} from '../utils/hiringTrends.js';
+
+/**
+ * Hiring trends of scraped jobs (see utils/hiringTrends.ts), for sales to time their
+ * outreach. Only valid jobs count: the junior white-collar roles we recruit for.
+ *
+ * After each job scraper run, the companies that got new jobs are checked for a hiring
+ * spike. A spike is recorded as a hiring_spike signal, at most one per company per
+ * window, and expires when the window has passed.
+ */
+
+export const HIRING_SPIKE_SIGNAL = 'hiring_spike';
+
+const DEFAULT_COMPANY_LIMIT = 50;
+
+export interface HiringTrendQuery extends HiringTrendOptions {
+  // Companies posting in this category, and only this category's trend
+  category?: string;
+  spikesOnly?: boolean;
+  newToMarketOnly?: boolean;
+  limit?: number;
+}
+
+function toPosting(row: Row): JobPosting {
+  return {
+    company_id: String(row.company_id),
+    company_name: ((row.companies as Row | null | undefined)?.name as string | undefined) ?? null,
+    category: (row.ai_category as string | null | undefined) ?? null,
+    posted_at: String(row.posted_date ?? row.created_at),
+  };
+}
+
+async function loadTrends(options: HiringTrendOptions, companyIds?: string[]): Promise<HiringTrends> {
+  const { baseline } = hiringTrendPeriods(options);
+  const rows = await getRepositories().jobs.listPostings({ since: baseline.from, company_ids: companyIds });
+  return analyzeHiringTrends(rows.map(toPosting), options);
+}
+
+/**
+ * Posting velocity, spikes and new-to-market employers per company, and per category
+ */
+export async function getHiringTrends(query: HiringTrendQuery = {}): Promise<HiringTrends> {
+  try {
+    const trends = await loadTrends(query);
+    const { category, spikesOnly, newToMarketOnly, limit = DEFAULT_COMPANY_LIMIT } = query;
+
+    return {
+      ...trends,
+      companies: trends.companies
+        .filter(
+          (c) =>
+            (!category || c.categories.includes(category)) &&
+            (!spikesOnly || c.spike) &&
+            (!newToMarketOnly || c.new_to_market)
+        )
+        .slice(0, limit),
+      categories: trends.categories.filter((c) => !category || c.category === category),
+    };
+  } catch (error) {
+    logger.error('Error computing hiring trends', error);
+    throw new Error(`Failed to compute hiring trends: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Record a hiring_spike signal for each of the companies with a spike that has none
+ * from the current window yet. Returns how many were recorded.
+ */
+export async function detectHiringSpikes(companyIds: string[], options: HiringTrendOptions = {}): Promise<number> {
+  const ids = [...new Set(companyIds.filter(Boolean))];
+  if (ids.length === 0) return 0;
+
+  try {
+    const { signals } = getRepositories();
+    const trends = await loadTrends(options, ids);
+    let recorded = 0;
+
+    for (const company of trends.companies.filter((c) => c.spike)) {
+      const existing = await signals.listByCompany(company.company_id);
+      const alreadyRecorded = existing.some(
+        (s) =>
+          s.signal_type === HIRING_SPIKE_SIGNAL &&
+          Date.parse(String(s.signal_date ?? s.captured_at)) >= Date.parse(trends.window.from)
+      );
+      if (alreadyRecorded) continue;
+
+      const expiresAt = new Date(Date.parse(trends.window.to) + trends.window.days * 24 * 60 * 60 * 1000);
+      await signals.insert({
+        company_id: company.company_id,
+        signal_type: HIRING_SPIKE_SIGNAL,
+        source: 'hiring_trends',
+        signal_date: trends.window.to,
+        expired_at: expiresAt.toISOString(),
+        payload: {
+          company: company.company_name,
+          window_days: trends.window.days,
+          recent_postings: company.recent_postings,
+          baseline_postings: company.baseline_postings,
+          expected_postings: company.expected_postings,
+          ratio: company.ratio,
+          categories: company.categories,
+          new_to_market: company.new_to_market,
+        },
+      });
+      recorded++;
+
+      logger.info('Hiring spike recorded', {
+        companyId: company.company_id,
+        recent: company.recent_postings,
+        expected: company.expected_postings,
+      });
+    }
+
+    return recorded;
+  } catch (error) {
+    logger.error('Error detecting hiring spikes', error);
+    throw new Error(`Failed to detect hiring spikes: ${getErrorMessage(error)}`);
+  }
+}
@@ -1,3 +1,4 @@
+import { config } from '../../config/env.js';
 import {
   afConfig,
   defaultAFKeywords,
@@ -6,8 +7,14 @@ import {
 } from '../../config/scrapers/jobs/af.config.js';
 import { logger, getErrorMessage } from '../../utils/logger.js';
 import { parseRawAFJobs } from '../../schemas/scraper.js';
-import { filterByExclusions } from './scraperUtils.js';
-import type { RawAFJob, NormalizedJob, ScraperRunConfig } from '../../types/scraper.types.js';
+import { normalizeOrgNumber, extractOrgNumber } from '../../utils/orgNumber.js';
+import { runJobSourceFetch } from './scraperUtils.js';
+import type {
+  RawAFJob,
+  NormalizedJob,
+  ScraperRunConfig,
+  JobSourceAdapter,
+} from '../../types/scraper.types.js';
 
 /**
  * Fetch jobs from Arbetsformedlingen JobTech API (public, no auth required)
@@ -74,6 +81,8 @@ export async function fetchAFJobs(runConfig?: ScraperRunConfig): Promise<RawAFJo
  * Normalize an AF job to the common format
  */
 export function normalizeAFJob(raw: RawAFJob): NormalizedJob {
+  const description = raw.description?.text || raw.description?.text_formatted || '';
+
   return {
     externalId: raw.id,
     title: raw.headline || '',
@@ -83,12 +92,13 @@ export function normalizeAFJob(raw: RawAFJob): NormalizedJob {
       raw.workplace_address?.region ||
       raw.workplace_address?.country ||
       'Sweden',
-    description: raw.description?.text || raw.description?.text_formatted || '',
+    description,
     url: raw.webpage_url || '',
     applicationUrl: raw.application_details?.url || raw.webpage_url,
     postedAt: raw.publication_date ?? undefined,
     jobType: raw.employment_type?.label || raw.duration?.label || undefined,
     salary: raw.salary_type?.label ?? undefined,
+    orgNumber: normalizeOrgNumber(raw.employer?.organization_number) ?? extractOrgNumber(description) ?? undefined,
     source: 'arbetsformedlingen',
     rawData: raw as unknown as Record<string, unknown>,
   };
@@ -101,20 +111,24 @@ export function normalizeAFJob(raw: RawAFJob): NormalizedJob {
 export async function runAFFetch(
   runConfig?: ScraperRunConfig
 ): Promise<{ jobs: NormalizedJob[]; raw: RawAFJob[] }> {
-  // 1. Fetch from JobTech API
-  const rawJobs = await fetchAFJobs(runConfig);
-
-  // 2. Normalize to common format
-  const normalizedJobs = rawJobs.map(normalizeAFJob);
-
-  // 3. Filter by exclusion keywords
-  const filteredJobs = filterByExclusions(
-    normalizedJobs,
-    runConfig?.exclusionKeywords || defaultAFExclusionKeywords
-  );
-
-  return {
-    jobs: filteredJobs,
-    raw: rawJobs,
-  };
+  return runJobSourceFetch(afJobSource, runConfig);
 }
+
+/**
+ * Arbetsformedlingen job source adapter (registered in jobSourceRegistry)
+ * Keeps the short `af` slug so existing /api/scraping/jobs/af callers still work
+ */
+export const afJobSource: JobSourceAdapter<RawAFJob> = {
+  source: 'arbetsformedlingen',
+  slug: 'af',
+  displayName: 'Arbetsförmedlingen',
+  alertSource: 'arbetsformedlingen_scraper',
+  enabledFlag: 'AF_ENABLED',
+  isEnabled: () => config.scraper.afEnabled,
+  schedule: { cron: '0 8 * * *', label: 'daily 08:00 UTC' },
+  // JobTech API has no country parameter
+  defaultRunConfig: { maxItems: 100 },
+  defaultExclusionKeywords: defaultAFExclusionKeywords,
+  fetch: fetchAFJobs,
+  normalize: normalizeAFJob,
+};
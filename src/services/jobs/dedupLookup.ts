@@ -0,0 +1,81 @@
+import type { NormalizedJob } from '../../types/scraper.types.js';
+
+/**
+ * Incremental deduplication lookup.
+ *
+ * Instead of loading every stored id for a source, only the current batch's
+ * external ids and URLs are looked up, in chunks. Each chunk stays well below
+ * PostgREST's default 1000-row cap, so results are complete however large the
+ * jobs table grows. URLs are long, so chunks are also kept small to stay under
+ * request URL length limits.
+ */
+
+export const DEDUP_CHUNK_SIZE = 100;
+
+// Tables holding postings already seen for a source: inserted jobs and
+// cross-source duplicates linked to a canonical job
+const DEDUP_TABLES = ['jobs', 'job_source_links'] as const;
+const DEDUP_COLUMNS = ['external_id', 'external_url'] as const;
+
+export type DedupTable = (typeof DEDUP_TABLES)[number];
+export type DedupColumn = (typeof DEDUP_COLUMNS)[number];
+export type DedupRow = { external_id?: string | null; external_url?: string | null };
+
+/**
+ * Runs one chunked lookup: rows of `table` for the source whose `column` is in `values`.
+ * The Supabase implementation lives in supabaseService; tests pass a stub.
+ */
+export type DedupChunkQuery = (table: DedupTable, column: DedupColumn, values: string[]) => Promise<DedupRow[]>;
+
+/**
+ * Split an array into chunks of at most `size` items
+ */
+export function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Look up which of the batch's external ids / URLs are already stored for a source.
+ * Returns the subset of candidate keys that exist.
+ */
+export async function findExistingExternalKeys(
+  query: DedupChunkQuery,
+  jobs: Pick<NormalizedJob, 'externalId' | 'url'>[],
+  chunkSize: number = DEDUP_CHUNK_SIZE
+): Promise<Set<string>> {
+  const candidates: Record<DedupColumn, string[]> = {
+    external_id: [...new Set(jobs.map((j) => j.externalId).filter(Boolean))],
+    external_url: [...new Set(jobs.map((j) => j.url).filter(Boolean))],
+  };
+
+  const existing = new Set<string>();
+
+  for (const table of DEDUP_TABLES) {
+    for (const column of DEDUP_COLUMNS) {
+      for (const values of chunkArray(candidates[column], chunkSize)) {
+        const rows = await query(table, column, values);
+
+        for (const row of rows) {
+          if (row.external_id) existing.add(row.external_id);
+          if (row.external_url) existing.add(row.external_url);
+        }
+      }
+    }
+  }
+
+  return existing;
+}
+
+/**
+ * Drop jobs whose external id or URL is already stored
+ */
+export function excludeExistingJobs<T extends Pick<NormalizedJob, 'externalId' | 'url'>>(
+  jobs: T[],
+  existing: Set<string>
+): T[] {
+  return jobs.filter((job) => !existing.has(job.externalId) && !existing.has(job.url));
+}
@@ -6,8 +6,14 @@ import {
 } from '../../config/scrapers/jobs/indeed.config.js';
 import { logger, getErrorMessage } from '../../utils/logger.js';
 import { parseRawIndeedJobs } from '../../schemas/scraper.js';
-import { filterByExclusions } from './scraperUtils.js';
-import type { RawIndeedJob, NormalizedJob, ScraperRunConfig } from '../../types/scraper.types.js';
+import { extractOrgNumber } from '../../utils/orgNumber.js';
+import { runJobSourceFetch } from './scraperUtils.js';
+import type {
+  RawIndeedJob,
+  NormalizedJob,
+  ScraperRunConfig,
+  JobSourceAdapter,
+} from '../../types/scraper.types.js';
 
 /**
  * Fetch jobs from Indeed using Apify actor
@@ -82,6 +88,7 @@ export function normalizeIndeedJob(raw: RawIndeedJob): NormalizedJob {
     postedAt: raw.postingDateParsed || raw.postedAt,
     jobType: Array.isArray(raw.jobType) ? raw.jobType[0] : raw.jobType,
     salary: raw.salary,
+    orgNumber: extractOrgNumber(raw.description) ?? undefined,
     source: 'indeed',
     rawData: raw as unknown as Record<string, unknown>,
   };
@@ -94,17 +101,21 @@ export function normalizeIndeedJob(raw: RawIndeedJob): NormalizedJob {
 export async function runIndeedFetch(
   runConfig?: ScraperRunConfig
 ): Promise<{ jobs: NormalizedJob[]; raw: RawIndeedJob[] }> {
-  // 1. Fetch from Apify
-  const rawJobs = await fetchIndeedJobs(runConfig);
-
-  // 2. Normalize to common format
-  const normalizedJobs = rawJobs.map(normalizeIndeedJob);
-
-  // 3. Filter by exclusion keywords
-  const filteredJobs = filterByExclusions(normalizedJobs, runConfig?.exclusionKeywords);
-
-  return {
-    jobs: filteredJobs,
-    raw: rawJobs,
-  };
+  return runJobSourceFetch(indeedJobSource, runConfig);
 }
+
+/**
+ * Indeed job source adapter (registered in jobSourceRegistry)
+ */
+export const indeedJobSource: JobSourceAdapter<RawIndeedJob> = {
+  source: 'indeed',
+  slug: 'indeed',
+  displayName: 'Indeed',
+  alertSource: 'indeed_scraper',
+  enabledFlag: 'INDEED_ENABLED',
+  isEnabled: () => config.scraper.indeedEnabled,
+  schedule: { cron: '0 6 * * *', label: 'daily 06:00 UTC' },
+  defaultRunConfig: { country: 'SE', maxItems: 50 },
+  fetch: fetchIndeedJobs,
+  normalize: normalizeIndeedJob,
+};
@@ -0,0 +1,179 @@
+import { config } from '../../config/env.js';
+import { logger } from '../../utils/logger.js';
+import { defaultExclusionKeywords, normalizeCompanyName } from './scraperUtils.js';
+import type {
+  NormalizedJob,
+  JobFilterConfig,
+  JobSourceAdapter,
+  ScraperRunConfig,
+} from '../../types/scraper.types.js';
+
+/**
+ * Job filter pipeline: cheap checks that drop jobs before they reach AI evaluation.
+ *
+ * Each setting of JobFilterConfig becomes a stage; a job is dropped by the first
+ * stage that excludes it, so every dropped job is counted exactly once in the
+ * per-stage drop counts reported in ScraperRunResult.stats.filterDrops.
+ */
+
+export interface JobFilterStage {
+  name: string;
+  excludes(job: NormalizedJob): boolean;
+}
+
+export interface JobFilterResult {
+  jobs: NormalizedJob[];
+  // Jobs dropped by each stage, in stage order
+  drops: Record<string, number>;
+}
+
+// Upper end of the 0-8 years experience segment the job evaluation prompt targets
+const MAX_EXPERIENCE_YEARS = 8;
+
+// Title words that mark senior and management roles
+const SENIOR_TITLE_KEYWORDS = [
+  'senior', 'sr', 'lead', 'principal', 'head', 'director', 'direktör', 'vd', 'ceo', 'cfo', 'cto', 'coo', '*chef',
+];
+
+// "minst 10 års erfarenhet", "5-10 years of relevant experience", "10+ år av erfarenhet".
+// The first number is captured, so a range counts by its lower bound.
+const EXPERIENCE_YEARS_PATTERN =
+  /(\d{1,2})(?:\s*[-–]\s*\d{1,2})?\s*\+?\s*(?:års?|years?)(?:\s+\p{L}+){0,3}?\s+(?:erfarenhet|experience)/giu;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * One case-insensitive regex matching any of the keywords as a whole word.
+ * Word boundaries are Unicode-aware (å, ä, ö are letters), and a leading or
+ * trailing * matches the rest of a word. Returns null for an empty list.
+ */
+export function compileKeywords(keywords: string[]): RegExp | null {
+  const alternatives = keywords
+    .map((keyword) => keyword.trim())
+    .filter((keyword) => keyword.replace(/\*/g, ''))
+    .map((keyword) => {
+      const core = escapeRegExp(keyword.replace(/^\*|\*$/g, ''));
+      return `${keyword.startsWith('*') ? '\\p{L}*' : ''}${core}${keyword.endsWith('*') ? '\\p{L}*' : ''}`;
+    });
+
+  if (alternatives.length === 0) return null;
+
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'iu');
+}
+
+// Patterns that don't compile are logged and skipped
+function compilePatterns(patterns: string[]): RegExp[] {
+  return patterns.flatMap((pattern) => {
+    try {
+      return [new RegExp(pattern, 'iu')];
+    } catch (error) {
+      logger.warn('Invalid job exclusion pattern, ignoring', { pattern, error: String(error) });
+      return [];
+    }
+  });
+}
+
+function requiredExperienceYears(description: string): number | null {
+  let max: number | null = null;
+  for (const match of description.matchAll(EXPERIENCE_YEARS_PATTERN)) {
+    const years = parseInt(match[1], 10);
+    if (max === null || years > max) max = years;
+  }
+  return max;
+}
+
+/**
+ * The stages for a filter config, cheapest first. Disabled settings (empty
+ * lists, a zero length) add no stage.
+ */
+export function buildJobFilterStages(filters: JobFilterConfig): JobFilterStage[] {
+  const stages: JobFilterStage[] = [];
+
+  if (filters.minDescriptionLength > 0) {
+    stages.push({
+      name: 'min_description_length',
+      excludes: (job) => job.description.trim().length < filters.minDescriptionLength,
+    });
+  }
+
+  const blocked = new Set(filters.blockedCompanies.map(normalizeCompanyName).filter(Boolean));
+  if (blocked.size > 0) {
+    stages.push({
+      name: 'company_blocklist',
+      excludes: (job) => blocked.has(normalizeCompanyName(job.company)),
+    });
+  }
+
+  const titleKeywords = compileKeywords(filters.titleExclusionKeywords);
+  if (titleKeywords) {
+    stages.push({ name: 'title_keywords', excludes: (job) => titleKeywords.test(job.title) });
+  }
+
+  if (filters.excludeSenior) {
+    const seniorTitle = compileKeywords(SENIOR_TITLE_KEYWORDS)!;
+    stages.push({
+      name: 'seniority',
+      excludes: (job) =>
+        seniorTitle.test(job.title) || (requiredExperienceYears(job.description) ?? 0) > MAX_EXPERIENCE_YEARS,
+    });
+  }
+
+  const keywords = compileKeywords(filters.exclusionKeywords);
+  if (keywords) {
+    stages.push({
+      name: 'keywords',
+      excludes: (job) => keywords.test(job.title) || keywords.test(job.company) || keywords.test(job.description),
+    });
+  }
+
+  const patterns = compilePatterns(filters.exclusionPatterns);
+  if (patterns.length > 0) {
+    stages.push({
+      name: 'patterns',
+      excludes: (job) => patterns.some((pattern) => pattern.test(job.title) || pattern.test(job.description)),
+    });
+  }
+
+  return stages;
+}
+
+/**
+ * Run jobs through the stages in order
+ */
+export function runJobFilters(jobs: NormalizedJob[], stages: JobFilterStage[]): JobFilterResult {
+  const drops: Record<string, number> = Object.fromEntries(stages.map((stage) => [stage.name, 0]));
+
+  const kept = jobs.filter((job) => {
+    const stage = stages.find((candidate) => candidate.excludes(job));
+    if (!stage) return true;
+
+    drops[stage.name]++;
+    logger.debug('Job dropped by filter', { stage: stage.name, title: job.title, company: job.company });
+    return false;
+  });
+
+  logger.info('Filtered jobs', { before: jobs.length, after: kept.length, drops });
+
+  return { jobs: kept, drops };
+}
+
+/**
+ * Filters for a source: run config overrides, then the adapter's keywords,
+ * then the SCRAPER_* settings
+ */
+export function resolveJobFilterConfig(
+  adapter?: Pick<JobSourceAdapter, 'defaultExclusionKeywords'>,
+  runConfig?: ScraperRunConfig
+): JobFilterConfig {
+  const scraper = config.scraper;
+
+  return {
+    exclusionKeywords:
+      runConfig?.exclusionKeywords || adapter?.defaultExclusionKeywords || scraper.exclusionKeywords || defaultExclusionKeywords,
+    titleExclusionKeywords: runConfig?.titleExclusionKeywords ?? scraper.titleExclusionKeywords,
+    exclusionPatterns: runConfig?.exclusionPatterns ?? scraper.exclusionPatterns,
+    excludeSenior: runConfig?.excludeSenior ?? scraper.excludeSenior,
+    blockedCompanies: runConfig?.blockedCompanies ?? scraper.blockedCompanies,
+    minDescriptionLength: runConfig?.minDescriptionLength ?? scraper.minDescriptionLength,
+  };
+}
@@ -0,0 +1,150 @@
+import { createHash } from 'crypto';
+import type { NormalizedJob } from '../../types/scraper.types.js';
+
+/**
+ * Content fingerprints for cross-source job deduplication.
+ *
+ * The same position is often posted on Indeed, LinkedIn and Arbetsförmedlingen
+ * with different ids, URLs and formatting. A fingerprint has two parts:
+ * - key:    hash of normalized company + title + location (exact lookup, indexed)
+ * - sketch: bottom-k MinHash sketch of description word shingles, compared by
+ *           similarity so reformatted or slightly edited descriptions still match
+ */
+
+export interface JobFingerprint {
+  key: string;
+  // Comma-separated hex hashes; empty when the description is too short to shingle
+  descriptionSketch: string;
+}
+
+const SHINGLE_SIZE = 4;
+const SKETCH_SIZE = 16;
+// Minimum estimated description overlap for two same-key jobs to count as duplicates
+export const DESCRIPTION_SIMILARITY_THRESHOLD = 0.5;
+
+const LEGAL_SUFFIXES = new Set([
+  'ab', 'aktiebolag', 'publ', 'hb', 'kb', 'ltd', 'inc', 'gmbh', 'as', 'oy', 'sweden', 'sverige',
+]);
+const LOCATION_NOISE = new Set(['kommun', 'lan', 'county', 'sweden', 'sverige', 'hybrid', 'remote', 'distans']);
+
+/**
+ * Lowercase, strip diacritics and punctuation, collapse whitespace.
+ * Diacritics are dropped so "Göteborg" and "Goteborg" compare equal.
+ */
+export function normalizeFingerprintText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Company name without legal form / country suffixes, e.g. "Acme Sverige AB (publ)" → "acme"
+ */
+export function normalizeCompanyForFingerprint(company: string): string {
+  const tokens = normalizeFingerprintText(company).split(' ').filter(Boolean);
+  while (tokens.length > 1 && LEGAL_SUFFIXES.has(tokens[tokens.length - 1])) {
+    tokens.pop();
+  }
+  return tokens.join(' ');
+}
+
+/**
+ * Job title without bracketed notes and trailing " - Location" / " | Company" parts,
+ * e.g. "Junior Utvecklare (m/k) - Stockholm" → "junior utvecklare"
+ */
+export function normalizeTitleForFingerprint(title: string): string {
+  const withoutBrackets = title.replace(/\([^)]*\)|\[[^\]]*\]/g, ' ');
+  const mainPart = withoutBrackets.split(/\s[-–|]\s/)[0];
+  return normalizeFingerprintText(mainPart);
+}
+
+/**
+ * First location segment without postcodes or region noise,
+ * e.g. "Stockholm, Stockholm County, Sweden" / "111 22 Stockholm" → "stockholm"
+ */
+export function normalizeLocationForFingerprint(location: string): string {
+  const firstSegment = location.split(',')[0];
+  return normalizeFingerprintText(firstSegment)
+    .split(' ')
+    .filter((token) => token && !/^\d+$/.test(token) && !LOCATION_NOISE.has(token))
+    .join(' ');
+}
+
+// 32-bit FNV-1a — fast and stable across runs, good enough for shingle hashing
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Bottom-k MinHash sketch of the description's word shingles
+ */
+export function buildDescriptionSketch(description: string): string {
+  const words = normalizeFingerprintText(description).split(' ').filter(Boolean);
+  if (words.length < SHINGLE_SIZE) return '';
+
+  const hashes = new Set<number>();
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    hashes.add(fnv1a(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+  }
+
+  return [...hashes]
+    .sort((a, b) => a - b)
+    .slice(0, SKETCH_SIZE)
+    .map((h) => h.toString(16))
+    .join(',');
+}
+
+/**
+ * Estimated Jaccard similarity of two description sketches (0–1).
+ * Uses the bottom-k of the union, which is an unbiased estimator for set overlap.
+ */
+export function sketchSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+
+  const setA = new Set(a.split(','));
+  const setB = new Set(b.split(','));
+  const union = [...new Set([...setA, ...setB])]
+    .sort((x, y) => parseInt(x, 16) - parseInt(y, 16))
+    .slice(0, Math.min(SKETCH_SIZE, setA.size, setB.size));
+
+  if (union.length === 0) return 0;
+
+  const shared = union.filter((h) => setA.has(h) && setB.has(h)).length;
+  return shared / union.length;
+}
+
+/**
+ * Build the fingerprint for a normalized job
+ */
+export function buildJobFingerprint(
+  job: Pick<NormalizedJob, 'company' | 'title' | 'location' | 'description'>
+): JobFingerprint {
+  const keyParts = [
+    normalizeCompanyForFingerprint(job.company),
+    normalizeTitleForFingerprint(job.title),
+    normalizeLocationForFingerprint(job.location),
+  ];
+
+  return {
+    key: createHash('sha256').update(keyParts.join('|')).digest('hex').slice(0, 32),
+    descriptionSketch: buildDescriptionSketch(job.description),
+  };
+}
+
+/**
+ * Whether two fingerprints with the same key describe the same posting.
+ * Jobs without a usable description match on the key alone.
+ */
+export function isSameJobContent(a: JobFingerprint, b: JobFingerprint): boolean {
+  if (a.key !== b.key) return false;
+  if (!a.descriptionSketch || !b.descriptionSketch) return true;
+  return sketchSimilarity(a.descriptionSketch, b.descriptionSketch) >= DESCRIPTION_SIMILARITY_THRESHOLD;
+}
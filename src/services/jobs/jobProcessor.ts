@@ -4,15 +4,22 @@ import { evaluateJob } from '../aiService.js';
 import {
   findOrCreateCompany,
   findExistingJobsBySource,
+  findJobsByFingerprints,
+  linkDuplicateJob,
   createJobAdFromScraper,
   createSignalForJobAd,
   upsertScrapedContact,
   upsertLinkedInContact,
   updateCompanyEnrichment,
 } from '../supabaseService.js';
-import { guessCompanyDomain } from './scraperUtils.js';
+import { getJobSource, getJobSourceAlertSource } from './jobSourceRegistry.js';
+import { buildJobFilterStages, resolveJobFilterConfig, runJobFilters } from './jobFilters.js';
+import { buildJobFingerprint, isSameJobContent, sketchSimilarity } from './jobFingerprint.js';
+import { excludeExistingJobs } from './dedupLookup.js';
 import { emitAlert } from '../alertService.js';
-import type { SystemAlertSource } from '../../types/index.js';
+import { refreshCompanyScore } from '../companyScoringService.js';
+import { detectHiringSpikes } from '../hiringTrendService.js';
+import { resolveCompanyDomain, type DomainEvidence } from '../../utils/domainResolver.js';
 import type {
   NormalizedJob,
   JobEvaluationResult,
@@ -20,12 +27,10 @@ import type {
   ScraperRunResult,
   ExtractedContact,
   JobScraperSource,
+  BatchProgress,
+  PipelineRunOptions,
 } from '../../types/scraper.types.js';
 
-function scraperAlertSource(source: JobScraperSource): SystemAlertSource {
-  return `${source}_scraper` as SystemAlertSource;
-}
-
 /**
  * Deduplicate jobs against existing database records
  */
@@ -33,15 +38,8 @@ export async function deduplicateJobs(
   jobs: NormalizedJob[],
   source: JobScraperSource
 ): Promise<NormalizedJob[]> {
-  const existingIds = await findExistingJobsBySource(source);
-
-  const newJobs = jobs.filter((job) => {
-    const isDuplicate = existingIds.has(job.externalId) || existingIds.has(job.url);
-    if (isDuplicate) {
-      logger.debug('Skipping duplicate job', { externalId: job.externalId, title: job.title });
-    }
-    return !isDuplicate;
-  });
+  const existingIds = await findExistingJobsBySource(source, jobs);
+  const newJobs = excludeExistingJobs(jobs, existingIds);
 
   logger.info('Deduplication complete', {
     source,
@@ -53,6 +51,74 @@ export async function deduplicateJobs(
   return newJobs;
 }
 
+/**
+ * Link jobs already stored from another source to their canonical job instead of
+ * inserting them again. Matches on fingerprint key plus description similarity.
+ * Returns the jobs that are genuinely new and how many were linked.
+ */
+export async function linkCrossSourceDuplicates(
+  jobs: NormalizedJob[]
+): Promise<{ uniqueJobs: NormalizedJob[]; duplicates: number }> {
+  if (jobs.length === 0) {
+    return { uniqueJobs: [], duplicates: 0 };
+  }
+
+  const fingerprints = jobs.map(buildJobFingerprint);
+
+  let candidates: Awaited<ReturnType<typeof findJobsByFingerprints>>;
+  try {
+    candidates = await findJobsByFingerprints([...new Set(fingerprints.map((f) => f.key))]);
+  } catch (error) {
+    // Fingerprint lookup is an optimisation — process everything rather than fail the run
+    logger.warn('Cross-source deduplication skipped', { error: getErrorMessage(error) });
+    return { uniqueJobs: jobs, duplicates: 0 };
+  }
+
+  const uniqueJobs: NormalizedJob[] = [];
+  let duplicates = 0;
+
+  for (let i = 0; i < jobs.length; i++) {
+    const job = jobs[i];
+    const fingerprint = fingerprints[i];
+
+    // Candidates are ordered oldest first, so the first match is the canonical job
+    const canonical = candidates.find(
+      (c) =>
+        c.source !== job.source &&
+        isSameJobContent(fingerprint, { key: c.fingerprint, descriptionSketch: c.description_sketch ?? '' })
+    );
+
+    if (!canonical) {
+      uniqueJobs.push(job);
+      continue;
+    }
+
+    try {
+      const similarity =
+        fingerprint.descriptionSketch && canonical.description_sketch
+          ? sketchSimilarity(fingerprint.descriptionSketch, canonical.description_sketch)
+          : null;
+      await linkDuplicateJob(canonical.id, job, fingerprint, similarity);
+      duplicates++;
+    } catch (error) {
+      // Not linked and not inserted — the next run will try again
+      logger.warn('Failed to link cross-source duplicate', {
+        externalId: job.externalId,
+        canonicalJobId: canonical.id,
+        error: getErrorMessage(error),
+      });
+    }
+  }
+
+  logger.info('Cross-source deduplication complete', {
+    before: jobs.length,
+    after: uniqueJobs.length,
+    duplicates,
+  });
+
+  return { uniqueJobs, duplicates };
+}
+
 /**
  * Extract contact from job evaluation result
  */
@@ -142,6 +208,25 @@ function extractLinkedInContacts(
   return contacts;
 }
 
+/**
+ * Evidence of the employer's domain in a job: the application email (AI-extracted,
+ * or from the AF API), the LinkedIn company website and the AF application URL
+ */
+export function jobDomainEvidence(job: NormalizedJob, evaluation: JobEvaluationResult): DomainEvidence[] {
+  const raw = job.rawData as Record<string, unknown>;
+  const appDetails = raw.application_details as { email?: string; url?: string } | undefined;
+
+  return [
+    { source: 'linkedin_website', value: raw.companyWebsite as string | undefined },
+    {
+      source: 'application_email',
+      value: evaluation.applicationEmail !== 'Email Not Found' ? evaluation.applicationEmail : undefined,
+    },
+    { source: 'application_email', value: appDetails?.email },
+    { source: 'application_url', value: appDetails?.url },
+  ];
+}
+
 /**
  * Process a single job through the pipeline
  */
@@ -156,7 +241,7 @@ export async function processJob(job: NormalizedJob): Promise<ProcessedJob> {
         title: job.title, company: job.company,
       });
       emitAlert({
-        source: scraperAlertSource(job.source as JobScraperSource),
+        source: getJobSourceAlertSource(job.source),
         stage: 'ai_evaluation',
         severity: 'warning',
         title: 'AI evaluation failed — job saved with fallback data',
@@ -175,14 +260,12 @@ export async function processJob(job: NormalizedJob): Promise<ProcessedJob> {
       };
     }
 
-    // 2. Find or create company
-    const guessedDomain = guessCompanyDomain(job.company);
+    // 2. Find or create company (no domain unless the job gives evidence of one). The
+    // org number from the source data wins over the one the AI read from the description.
+    const { resolved: domain } = resolveCompanyDomain(job.company, jobDomainEvidence(job, evaluation));
+    const orgNumber = job.orgNumber ?? evaluation.orgNumber ?? null;
 
-    const companyId = await findOrCreateCompany(
-      job.company,
-      guessedDomain,
-      job.source
-    );
+    const companyId = await findOrCreateCompany(job.company, domain, job.source, orgNumber);
 
     // 3. Create job ad record
     const jobAdResult = await createJobAdFromScraper(job, companyId, evaluation);
@@ -194,6 +277,7 @@ export async function processJob(job: NormalizedJob): Promise<ProcessedJob> {
       job,
       evaluation
     );
+    await refreshCompanyScore(companyId);
 
     // 5. Extract and upsert contacts (source-aware)
     if (job.source === 'linkedin') {
@@ -301,7 +385,8 @@ export async function processJob(job: NormalizedJob): Promise<ProcessedJob> {
  */
 export async function processJobBatch(
   jobs: NormalizedJob[],
-  concurrency: number = 3
+  concurrency: number = 3,
+  onProgress?: (progress: BatchProgress) => void
 ): Promise<ProcessedJob[]> {
   const results: ProcessedJob[] = [];
 
@@ -313,11 +398,15 @@ export async function processJobBatch(
 
     results.push(...chunkResults);
 
+    const completed = Math.min(i + concurrency, jobs.length);
+    const succeeded = results.filter((r) => r.success).length;
+
     logger.info('Batch progress', {
-      completed: Math.min(i + concurrency, jobs.length),
+      completed,
       total: jobs.length,
-      successRate: `${results.filter((r) => r.success).length}/${results.length}`,
+      successRate: `${succeeded}/${results.length}`,
     });
+    onProgress?.({ completed, total: jobs.length, succeeded });
   }
 
   return results;
@@ -328,9 +417,10 @@ export async function processJobBatch(
  */
 export async function runJobProcessingPipeline(
   jobs: NormalizedJob[],
-  source: JobScraperSource
+  source: JobScraperSource,
+  options?: PipelineRunOptions
 ): Promise<ScraperRunResult> {
-  const runId = uuidv4();
+  const runId = options?.runId ?? uuidv4();
   const startTime = new Date();
 
   logger.info('Starting job processing pipeline', {
@@ -339,12 +429,19 @@ export async function runJobProcessingPipeline(
     jobCount: jobs.length,
   });
 
+  const filterStages = buildJobFilterStages(options?.filters ?? resolveJobFilterConfig(getJobSource(source)));
+
   try {
-    // 1. Deduplicate
-    const newJobs = await deduplicateJobs(jobs, source);
+    // 1. Deduplicate against this source, then against postings from other sources
+    const unseenJobs = await deduplicateJobs(jobs, source);
+    const { uniqueJobs: newJobs, duplicates: crossSourceDuplicates } =
+      await linkCrossSourceDuplicates(unseenJobs);
+
+    // 2. Drop jobs outside the target market before AI evaluation
+    const { jobs: filteredJobs, drops: filterDrops } = runJobFilters(newJobs, filterStages);
 
-    if (newJobs.length === 0) {
-      logger.info('No new jobs to process after deduplication', { runId });
+    if (filteredJobs.length === 0) {
+      logger.info('No new jobs to process after deduplication and filtering', { runId });
 
       return {
         source,
@@ -354,12 +451,15 @@ export async function runJobProcessingPipeline(
         duration: Date.now() - startTime.getTime(),
         stats: {
           fetched: jobs.length,
-          afterDedup: 0,
+          afterDedup: newJobs.length,
+          crossSourceDuplicates,
           afterFilter: 0,
+          filterDrops,
           processed: 0,
           valid: 0,
           discarded: 0,
           errors: 0,
+          hiringSpikes: 0,
         },
         validJobs: [],
         discardedJobs: [],
@@ -367,16 +467,25 @@ export async function runJobProcessingPipeline(
       };
     }
 
-    // 2. Process all jobs
-    const processedJobs = await processJobBatch(newJobs);
+    // 3. Process all jobs
+    const processedJobs = await processJobBatch(filteredJobs, 3, options?.onProgress);
 
-    // 3. Separate valid and discarded
+    // 4. Separate valid and discarded
     const validJobs = processedJobs.filter((p) => p.success && p.evaluation.isValid);
     const discardedJobs = processedJobs.filter((p) => p.success && !p.evaluation.isValid);
     const errors = processedJobs
       .filter((p) => !p.success)
       .map((p) => ({ job: p.job, error: p.error || 'Unknown error' }));
 
+    // 5. Check the companies with new valid jobs for a hiring spike
+    let hiringSpikes = 0;
+    try {
+      hiringSpikes = await detectHiringSpikes(validJobs.map((p) => p.companyId));
+    } catch (error) {
+      // The jobs are stored; the next run checks these companies again
+      logger.warn('Hiring spike detection skipped', { error: getErrorMessage(error) });
+    }
+
     const endTime = new Date();
 
     const result: ScraperRunResult = {
@@ -388,11 +497,14 @@ export async function runJobProcessingPipeline(
       stats: {
         fetched: jobs.length,
         afterDedup: newJobs.length,
-        afterFilter: newJobs.length, // Already filtered in scraper
+        crossSourceDuplicates,
+        afterFilter: filteredJobs.length,
+        filterDrops,
         processed: processedJobs.length,
         valid: validJobs.length,
         discarded: discardedJobs.length,
         errors: errors.length,
+        hiringSpikes,
       },
       validJobs,
       discardedJobs,
@@ -411,7 +523,7 @@ export async function runJobProcessingPipeline(
     logger.error('Job processing pipeline failed', error, { runId });
 
     emitAlert({
-      source: scraperAlertSource(source),
+      source: getJobSourceAlertSource(source),
       stage: 'pipeline_failure',
       severity: 'critical',
       title: `${source} job processing pipeline failed`,
@@ -428,11 +540,14 @@ export async function runJobProcessingPipeline(
       stats: {
         fetched: jobs.length,
         afterDedup: 0,
+        crossSourceDuplicates: 0,
         afterFilter: 0,
+        filterDrops: Object.fromEntries(filterStages.map((stage) => [stage.name, 0])),
         processed: 0,
         valid: 0,
         discarded: 0,
         errors: 1,
+        hiringSpikes: 0,
       },
       validJobs: [],
       discardedJobs: [],
@@ -0,0 +1,187 @@
+import { logger, getErrorMessage } from '../../utils/logger.js';
+import { getRepositories } from '../../repositories/index.js';
+import type { JobReevaluationFilters, Row } from '../../repositories/types.js';
+import { evaluateJob } from '../aiService.js';
+import { refreshCompanyScore } from '../companyScoringService.js';
+import { getPrompt, promptVersions } from '../../prompts/registry.js';
+import type { JobEvaluationResult, JobScraperSource, NormalizedJob } from '../../types/scraper.types.js';
+
+const DEFAULT_BATCH_SIZE = 50;
+const DEFAULT_CONCURRENCY = 3;
+
+export interface JobReevaluationSelection extends Partial<Omit<JobReevaluationFilters, 'not_prompt_version'>> {
+  // Only jobs not scored with the active job_evaluation prompt (including unrecorded versions)
+  outdated_prompt?: boolean;
+}
+
+export interface JobEvaluationSnapshot {
+  valid: boolean | null;
+  score: number | null;
+  category: string | null;
+  prompt_version: string | null;
+}
+
+export interface JobReevaluationResult {
+  id: string;
+  status: 'reevaluated' | 'failed';
+  previous: JobEvaluationSnapshot;
+  current?: JobEvaluationSnapshot;
+  flipped?: 'to_valid' | 'to_invalid';
+  signal_id?: string;
+  error?: string;
+}
+
+export interface JobReevaluationSummary {
+  total: number;
+  reevaluated: number;
+  failed: number;
+  flipped_to_valid: number;
+  flipped_to_invalid: number;
+  category_changed: number;
+  prompt_version: string;
+  results: JobReevaluationResult[];
+}
+
+/**
+ * Rebuild the scraped job a stored row was created from (see createJobAdFromScraper)
+ */
+function toNormalizedJob(row: Row): NormalizedJob {
+  const field = (column: string) => (typeof row[column] === 'string' ? (row[column] as string) : undefined);
+  const company = row.companies as { name?: string } | null | undefined;
+
+  return {
+    externalId: field('external_id') ?? String(row.id),
+    title: field('title') ?? '',
+    company: company?.name ?? '',
+    location: field('location') ?? '',
+    description: field('description') ?? '',
+    url: field('external_url') ?? '',
+    postedAt: field('posted_date'),
+    jobType: field('job_type'),
+    salary: field('salary'),
+    source: row.source as JobScraperSource,
+    rawData: (row.raw_data as Record<string, unknown> | null) ?? {},
+  };
+}
+
+function snapshotOf(row: Row): JobEvaluationSnapshot {
+  const prompts = row.ai_prompts as Record<string, string> | null | undefined;
+
+  return {
+    valid: typeof row.ai_valid === 'boolean' ? row.ai_valid : null,
+    score: typeof row.ai_score === 'number' ? row.ai_score : null,
+    category: typeof row.ai_category === 'string' ? row.ai_category : null,
+    prompt_version: prompts?.job_evaluation ?? null,
+  };
+}
+
+async function reevaluateRow(row: Row): Promise<JobReevaluationResult> {
+  const id = row.id as string;
+  const previous = snapshotOf(row);
+  const { jobs, signals } = getRepositories();
+
+  let evaluation: JobEvaluationResult;
+  try {
+    evaluation = await evaluateJob(toNormalizedJob(row));
+  } catch (error) {
+    // The stored evaluation is kept as it was
+    logger.error('Job re-evaluation failed', error, { id });
+    return { id, status: 'failed', previous, error: getErrorMessage(error) };
+  }
+
+  const aiPrompts = promptVersions({ job_evaluation: evaluation.promptVersion });
+
+  try {
+    await jobs.update(id, {
+      ai_valid: evaluation.isValid,
+      ai_score: evaluation.score,
+      ai_reasoning: evaluation.reasoning,
+      ai_category: evaluation.category,
+      ai_experience: evaluation.experience,
+      application_email: evaluation.applicationEmail !== 'Email Not Found' ? evaluation.applicationEmail : null,
+      duration: evaluation.duration,
+      ai_prompts: aiPrompts,
+    });
+
+    const signal = await signals.findByJobAdId(id);
+    if (signal) {
+      await signals.update(signal.id as string, {
+        payload: {
+          ...(signal.payload as Row | null),
+          score: evaluation.score,
+          valid: evaluation.isValid,
+          duration: evaluation.duration,
+          applicationEmail: evaluation.applicationEmail,
+          reasoning: evaluation.reasoning,
+          ai_prompts: aiPrompts,
+        },
+      });
+      if (signal.company_id) await refreshCompanyScore(signal.company_id as string);
+    }
+
+    const current: JobEvaluationSnapshot = {
+      valid: evaluation.isValid,
+      score: evaluation.score,
+      category: evaluation.category,
+      prompt_version: evaluation.promptVersion ?? null,
+    };
+    const flipped = previous.valid === current.valid ? undefined : current.valid ? 'to_valid' : 'to_invalid';
+
+    logger.info('Job re-evaluated', { id, previous: previous.category, category: current.category, flipped });
+
+    return { id, status: 'reevaluated', previous, current, flipped, signal_id: signal?.id as string | undefined };
+  } catch (error) {
+    logger.error('Failed to store job re-evaluation', error, { id });
+    return { id, status: 'failed', previous, error: getErrorMessage(error) };
+  }
+}
+
+/**
+ * Rerun the job evaluation prompt for stored jobs, e.g. the ones saved with the
+ * 'AI Evaluation Failed' fallback or scored by an older prompt version. Each job's
+ * ai_* columns and its signal payload get the new evaluation; a job whose
+ * evaluation fails again keeps its stored one.
+ *
+ * Jobs are evaluated `concurrency` at a time. Per-job errors are reported in the
+ * results, not thrown.
+ */
+export async function reevaluateJobs(
+  selection: JobReevaluationSelection,
+  concurrency: number = DEFAULT_CONCURRENCY
+): Promise<JobReevaluationSummary> {
+  const { outdated_prompt, ...filters } = selection;
+  const activeVersion = getPrompt('job_evaluation').version;
+  let rows: Row[];
+
+  try {
+    rows = await getRepositories().jobs.findForReevaluation({
+      ...filters,
+      not_prompt_version: outdated_prompt ? activeVersion : undefined,
+      limit: filters.ids?.length ?? filters.limit ?? DEFAULT_BATCH_SIZE,
+    });
+  } catch (error) {
+    logger.error('Error fetching jobs to re-evaluate', error);
+    throw new Error(`Failed to fetch jobs to re-evaluate: ${getErrorMessage(error)}`);
+  }
+
+  logger.info('Re-evaluating jobs', { count: rows.length, concurrency, promptVersion: activeVersion });
+
+  const results: JobReevaluationResult[] = [];
+  for (let i = 0; i < rows.length; i += concurrency) {
+    const chunk = rows.slice(i, i + concurrency);
+    results.push(...(await Promise.all(chunk.map(reevaluateRow))));
+  }
+
+  const reevaluated = results.filter((r) => r.status === 'reevaluated');
+
+  return {
+    total: results.length,
+    reevaluated: reevaluated.length,
+    failed: results.length - reevaluated.length,
+    flipped_to_valid: reevaluated.filter((r) => r.flipped === 'to_valid').length,
+    flipped_to_invalid: reevaluated.filter((r) => r.flipped === 'to_invalid').length,
+    category_changed: reevaluated.filter((r) => r.previous.category !== r.current?.category).length,
+    prompt_version: activeVersion,
+    results,
+  };
+}
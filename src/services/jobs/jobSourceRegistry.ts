@@ -0,0 +1,34 @@
+import { indeedJobSource } from './indeedJobScraper.js';
+import { linkedinJobSource } from './linkedinJobScraper.js';
+import { afJobSource } from './afJobScraper.js';
+import type { SystemAlertSource } from '../../types/index.js';
+import type { JobScraperSource, JobSourceAdapter } from '../../types/scraper.types.js';
+
+/**
+ * Registered job sources, in cron/cleanup order.
+ * To add a job board: write an adapter next to the other scrapers, add its
+ * source to JOB_SCRAPER_SOURCES and register it here. Routes, cron and cleanup
+ * pick it up automatically.
+ */
+const jobSources: JobSourceAdapter[] = [indeedJobSource, linkedinJobSource, afJobSource];
+
+/**
+ * All registered job source adapters
+ */
+export function getJobSources(): JobSourceAdapter[] {
+  return jobSources;
+}
+
+/**
+ * Look up an adapter by URL slug (e.g. `af`) or source name (e.g. `arbetsformedlingen`)
+ */
+export function getJobSource(slugOrSource: string): JobSourceAdapter | undefined {
+  return jobSources.find((adapter) => adapter.slug === slugOrSource || adapter.source === slugOrSource);
+}
+
+/**
+ * Alert source for a job scraper source
+ */
+export function getJobSourceAlertSource(source: JobScraperSource): SystemAlertSource {
+  return getJobSource(source)?.alertSource ?? (`${source}_scraper` as SystemAlertSource);
+}
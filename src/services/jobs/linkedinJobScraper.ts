@@ -7,8 +7,14 @@ import {
 } from '../../config/scrapers/jobs/linkedin.config.js';
 import { logger } from '../../utils/logger.js';
 import { parseRawLinkedInJobs } from '../../schemas/scraper.js';
-import { filterByExclusions } from './scraperUtils.js';
-import type { RawLinkedInJob, NormalizedJob, ScraperRunConfig } from '../../types/scraper.types.js';
+import { extractOrgNumber } from '../../utils/orgNumber.js';
+import { runJobSourceFetch } from './scraperUtils.js';
+import type {
+  RawLinkedInJob,
+  NormalizedJob,
+  ScraperRunConfig,
+  JobSourceAdapter,
+} from '../../types/scraper.types.js';
 
 /**
  * Fetch jobs from LinkedIn using Apify actor across all categories
@@ -100,6 +106,7 @@ export function normalizeLinkedInJob(raw: RawLinkedInJob): NormalizedJob {
     postedAt: raw.postedAt ?? undefined,
     jobType: raw.employmentType ?? undefined,
     salary: raw.salaryInfo?.[0] ?? undefined,
+    orgNumber: extractOrgNumber(raw.descriptionText) ?? undefined,
     source: 'linkedin',
     rawData: raw as unknown as Record<string, unknown>,
   };
@@ -112,20 +119,22 @@ export function normalizeLinkedInJob(raw: RawLinkedInJob): NormalizedJob {
 export async function runLinkedInFetch(
   runConfig?: ScraperRunConfig
 ): Promise<{ jobs: NormalizedJob[]; raw: RawLinkedInJob[] }> {
-  // 1. Fetch from Apify (all categories, deduplicated)
-  const rawJobs = await fetchLinkedInJobs(runConfig);
-
-  // 2. Normalize to common format
-  const normalizedJobs = rawJobs.map(normalizeLinkedInJob);
-
-  // 3. Filter by exclusion keywords
-  const filteredJobs = filterByExclusions(
-    normalizedJobs,
-    runConfig?.exclusionKeywords || defaultLinkedInExclusionKeywords
-  );
-
-  return {
-    jobs: filteredJobs,
-    raw: rawJobs,
-  };
+  return runJobSourceFetch(linkedinJobSource, runConfig);
 }
+
+/**
+ * LinkedIn job source adapter (registered in jobSourceRegistry)
+ */
+export const linkedinJobSource: JobSourceAdapter<RawLinkedInJob> = {
+  source: 'linkedin',
+  slug: 'linkedin',
+  displayName: 'LinkedIn',
+  alertSource: 'linkedin_scraper',
+  enabledFlag: 'LINKEDIN_ENABLED',
+  isEnabled: () => config.scraper.linkedinEnabled,
+  schedule: { cron: '0 7 * * *', label: 'daily 07:00 UTC' },
+  defaultRunConfig: { country: 'SE', maxItems: 10 },
+  defaultExclusionKeywords: defaultLinkedInExclusionKeywords,
+  fetch: fetchLinkedInJobs,
+  normalize: normalizeLinkedInJob,
+};
@@ -1,6 +1,6 @@
 import { config } from '../../config/env.js';
 import { logger } from '../../utils/logger.js';
-import type { NormalizedJob } from '../../types/scraper.types.js';
+import type { NormalizedJob, JobSourceAdapter, ScraperRunConfig } from '../../types/scraper.types.js';
 
 /**
  * Default exclusion keywords for job scrapers.
@@ -21,7 +21,8 @@ export const defaultExclusionKeywords = [
 ];
 
 /**
- * Filter jobs by exclusion keywords
+ * Filter jobs by exclusion keywords, as substrings of title, company or description.
+ * Scraper runs use the word-aware filter stages in jobFilters.ts instead.
  */
 export function filterByExclusions(
   jobs: NormalizedJob[],
@@ -61,6 +62,22 @@ export function filterByExclusions(
   return filtered;
 }
 
+/**
+ * Run the fetch stage for any job source adapter: fetch raw jobs and normalize them.
+ * Returns normalized jobs ready for processing; runJobProcessingPipeline filters them
+ */
+export async function runJobSourceFetch<TRaw>(
+  adapter: JobSourceAdapter<TRaw>,
+  runConfig?: ScraperRunConfig
+): Promise<{ jobs: NormalizedJob[]; raw: TRaw[] }> {
+  const rawJobs = await adapter.fetch(runConfig);
+
+  return {
+    jobs: rawJobs.map((raw) => adapter.normalize(raw)),
+    raw: rawJobs,
+  };
+}
+
 /**
  * Normalize company name for domain guessing
  */
@@ -72,7 +89,8 @@ export function normalizeCompanyName(company: string): string {
 }
 
 /**
- * Guess company domain from company name
+ * Guess company domain from company name. A slug, not a real domain: only used to
+ * recognize guesses stored before domains were resolved (isGuessedDomain)
  */
 export function guessCompanyDomain(company: string): string | null {
   const normalized = normalizeCompanyName(company);
@@ -90,3 +108,17 @@ export function guessCompanyDomain(company: string): string | null {
       .slice(0, 63) + '.se'
   );
 }
+
+/**
+ * Whether a stored domain is a slug guessed from the company name, as scraped jobs
+ * (guessCompanyDomain) and website forms ("techcompany.se") used to store them
+ */
+export function isGuessedDomain(company: string, domain: string): boolean {
+  const formGuess = `${company
+    .toLowerCase()
+    .replace(/\s+ab$/i, '')
+    .replace(/\s+aktiebolag$/i, '')
+    .replace(/\s+/g, '')}.se`;
+
+  return domain === guessCompanyDomain(company) || domain === formGuess;
+}
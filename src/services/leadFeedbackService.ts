@@ -0,0 +1,301 @@
+import { logger, getErrorMessage } from '../utils/logger.js';
+import { getRepositories } from '../repositories/index.js';
+import { refreshCompanyScore } from './companyScoringService.js';
+import type {
+  LeadClassification,
+  LeadFeedbackAccuracy,
+  LeadFeedbackStats,
+  LeadFeedbackType,
+} from '../types/index.js';
+
+/**
+ * Human review of AI lead classifications.
+ *
+ * An override corrects the lead itself (rejected lead row or form submission signal)
+ * and is kept in lead_feedback as a labelled example: the input the AI scored, its
+ * answer and the human one. Disagreements are the dataset for tuning the lead
+ * scoring prompt; the stats measure its accuracy per month or prompt version.
+ */
+
+// A score this far from the human one counts as a disagreement even when the classification matches
+const SCORE_DISAGREEMENT = 20;
+const EXPORT_PAGE_SIZE = 1000;
+
+type Row = Record<string, unknown>;
+
+export interface LeadOverride {
+  leadType: LeadFeedbackType;
+  leadId: string;
+  classification: LeadClassification;
+  leadScore?: number;
+  reason: string;
+  reviewedBy?: string;
+}
+
+interface AIVerdict {
+  classification: string | null;
+  score: number | null;
+  reasoning: string | null;
+  // lead_scoring prompt version stored with the lead (null for leads scored before versions were stored)
+  promptVersion: string | null;
+}
+
+const str = (value: unknown) => (typeof value === 'string' ? value : null);
+const num = (value: unknown) => (typeof value === 'number' ? value : null);
+const leadScoringVersion = (aiPrompts: unknown) => str((aiPrompts as Row | null | undefined)?.lead_scoring);
+
+// Fast rejects and processing errors never reached the AI
+function rejectedLeadVerdict(lead: Row): AIVerdict {
+  const reasoning = str(lead.ai_reasoning);
+  const scored = lead.classification !== 'processing_error' && !reasoning?.startsWith('Fast reject');
+  return {
+    classification: scored ? str(lead.classification) : null,
+    score: null,
+    reasoning,
+    promptVersion: scored ? leadScoringVersion(lead.ai_prompts) : null,
+  };
+}
+
+async function loadLead(leadType: LeadFeedbackType, leadId: string): Promise<{ input: Row; verdict: AIVerdict } | null> {
+  const repos = getRepositories();
+
+  if (leadType === 'rejected_lead') {
+    const lead = await repos.rejectedLeads.getById(leadId);
+    if (!lead) return null;
+
+    return {
+      input: {
+        full_name: lead.full_name ?? null,
+        email: lead.email ?? null,
+        phone: lead.phone ?? null,
+        company_name: lead.company_name ?? null,
+        needs_description: lead.submitted_description ?? null,
+      },
+      verdict: rejectedLeadVerdict(lead),
+    };
+  }
+
+  const signal = await repos.signals.getById(leadId);
+  if (!signal || signal.signal_type !== 'website_form_submission') return null;
+
+  const payload = (signal.payload ?? {}) as Row;
+  const company = signal.company_id ? await repos.companies.getById(signal.company_id as string) : null;
+
+  return {
+    input: {
+      full_name: payload.full_name ?? null,
+      email: payload.email ?? null,
+      phone: payload.phone ?? null,
+      company_name: company?.name ?? null,
+      needs_description: payload.needs_description ?? null,
+    },
+    verdict: {
+      classification: str(payload.classification),
+      score: num(payload.lead_score),
+      reasoning: null,
+      promptVersion: leadScoringVersion(payload.ai_prompts),
+    },
+  };
+}
+
+function isDisagreement(verdict: AIVerdict, classification: string, score: number | null): boolean {
+  if (verdict.classification === null) return false;
+  if (verdict.classification !== classification) return true;
+  return verdict.score !== null && score !== null && Math.abs(verdict.score - score) >= SCORE_DISAGREEMENT;
+}
+
+/**
+ * Override the classification (and score) of a lead with a reason.
+ *
+ * The AI's answer is taken from the first review of the lead, so overriding an
+ * override still compares against the AI. Returns null when the lead doesn't exist.
+ * Overriding a rejected lead to valid_lead doesn't create the company and job ad —
+ * reprocess it with force_classification for that.
+ */
+export async function overrideLeadClassification(override: LeadOverride): Promise<Row | null> {
+  const { leadType, leadId, classification, reason, reviewedBy } = override;
+
+  try {
+    const repos = getRepositories();
+    const lead = await loadLead(leadType, leadId);
+    if (!lead) return null;
+
+    const previousReview = await repos.leadFeedback.findLatestByLead(leadType, leadId);
+    const verdict: AIVerdict = previousReview
+      ? {
+          classification: str(previousReview.ai_classification),
+          score: num(previousReview.ai_score),
+          reasoning: str(previousReview.ai_reasoning),
+          promptVersion: str(previousReview.prompt_version),
+        }
+      : lead.verdict;
+    const score = override.leadScore ?? null;
+    const reviewedAt = new Date().toISOString();
+
+    const feedback = await repos.leadFeedback.insert({
+      lead_type: leadType,
+      lead_id: leadId,
+      input: lead.input,
+      ai_classification: verdict.classification,
+      ai_score: verdict.score,
+      ai_reasoning: verdict.reasoning,
+      human_classification: classification,
+      human_score: score,
+      reason,
+      reviewed_by: reviewedBy ?? null,
+      disagreement: isDisagreement(verdict, classification, score),
+      prompt_version: verdict.promptVersion,
+      created_at: reviewedAt,
+    });
+
+    if (leadType === 'rejected_lead') {
+      await repos.rejectedLeads.update(leadId, { classification, reviewed_at: reviewedAt });
+    } else {
+      const signal = await repos.signals.getById(leadId);
+      await repos.signals.update(leadId, {
+        payload: {
+          ...((signal?.payload ?? {}) as Row),
+          classification,
+          ...(score !== null ? { lead_score: score } : {}),
+          reviewed_at: reviewedAt,
+        },
+      });
+      // The lead score and classification count towards the company score
+      if (signal?.company_id) await refreshCompanyScore(signal.company_id as string);
+    }
+
+    logger.info('Lead classification overridden', {
+      leadType,
+      leadId,
+      ai: verdict.classification,
+      human: classification,
+      disagreement: feedback.disagreement,
+    });
+
+    return feedback;
+  } catch (error) {
+    logger.error('Error overriding lead classification', error);
+    throw new Error(`Failed to override lead classification: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Paginated reviews, oldest first
+ */
+export async function getLeadFeedback(filters: {
+  lead_type?: string;
+  disagreement?: boolean;
+  from_date?: string;
+  to_date?: string;
+  limit?: number;
+  offset?: number;
+}): Promise<{ data: Row[]; count: number }> {
+  try {
+    return await getRepositories().leadFeedback.list({
+      ...filters,
+      limit: filters.limit ?? 50,
+      offset: filters.offset ?? 0,
+    });
+  } catch (error) {
+    logger.error('Error fetching lead feedback', error);
+    throw new Error(`Failed to fetch lead feedback: ${getErrorMessage(error)}`);
+  }
+}
+
+async function listAllFeedback(filters: { disagreement?: boolean; from_date?: string; to_date?: string }): Promise<Row[]> {
+  const rows: Row[] = [];
+
+  for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+    const page = await getRepositories().leadFeedback.list({ ...filters, limit: EXPORT_PAGE_SIZE, offset });
+    rows.push(...page.data);
+    if (page.data.length < EXPORT_PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Disagreements between the AI and reviewers as labelled examples, one JSON object
+ * per line: the input the AI scored, its answer and the expected (human) answer.
+ */
+export async function exportDisagreements(filters: { from_date?: string; to_date?: string }): Promise<string> {
+  try {
+    const rows = await listAllFeedback({ ...filters, disagreement: true });
+
+    return rows
+      .map((row) =>
+        JSON.stringify({
+          id: row.id,
+          lead_type: row.lead_type,
+          lead_id: row.lead_id,
+          input: row.input,
+          ai: { classification: row.ai_classification, lead_score: row.ai_score, reasoning: row.ai_reasoning },
+          expected: { classification: row.human_classification, lead_score: row.human_score, reason: row.reason },
+          prompt_version: row.prompt_version,
+          reviewed_at: row.created_at,
+        })
+      )
+      .map((line) => `${line}\n`)
+      .join('');
+  } catch (error) {
+    logger.error('Error exporting lead feedback', error);
+    throw new Error(`Failed to export lead feedback: ${getErrorMessage(error)}`);
+  }
+}
+
+function accuracyOf(rows: Row[]): LeadFeedbackAccuracy {
+  const scored = rows.filter((row) => row.ai_classification !== null && row.ai_classification !== undefined);
+  const agreed = scored.filter((row) => row.ai_classification === row.human_classification).length;
+  const deltas = scored
+    .filter((row) => num(row.ai_score) !== null && num(row.human_score) !== null)
+    .map((row) => Math.abs(Number(row.ai_score) - Number(row.human_score)));
+
+  return {
+    reviewed: scored.length,
+    agreed,
+    accuracy: scored.length ? Math.round((agreed / scored.length) * 1000) / 1000 : null,
+    mean_score_delta: deltas.length ? Math.round((deltas.reduce((a, b) => a + b, 0) / deltas.length) * 10) / 10 : null,
+  };
+}
+
+/**
+ * Classification accuracy of the AI against reviewers, overall and per month or
+ * prompt version, with a confusion matrix. A lead reviewed several times counts once
+ * (its latest review).
+ */
+export async function getLeadFeedbackStats(options: {
+  groupBy: 'month' | 'prompt_version';
+  from_date?: string;
+  to_date?: string;
+}): Promise<LeadFeedbackStats> {
+  try {
+    const rows = await listAllFeedback({ from_date: options.from_date, to_date: options.to_date });
+
+    // Oldest first, so later reviews replace earlier ones
+    const latest = [...new Map(rows.map((row) => [`${row.lead_type}:${row.lead_id}`, row])).values()];
+
+    const groups = new Map<string, Row[]>();
+    for (const row of latest) {
+      const key = options.groupBy === 'month' ? String(row.created_at).slice(0, 7) : String(row.prompt_version);
+      groups.set(key, [...(groups.get(key) ?? []), row]);
+    }
+
+    const confusion: Record<string, Record<string, number>> = {};
+    for (const row of latest) {
+      if (row.ai_classification === null || row.ai_classification === undefined) continue;
+      const ai = String(row.ai_classification);
+      const human = String(row.human_classification);
+      confusion[ai] ??= {};
+      confusion[ai][human] = (confusion[ai][human] ?? 0) + 1;
+    }
+
+    return {
+      overall: accuracyOf(latest),
+      groups: [...groups.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, groupRows]) => ({ key, ...accuracyOf(groupRows) })),
+      confusion,
+    };
+  } catch (error) {
+    logger.error('Error computing lead feedback stats', error);
+    throw new Error(`Failed to compute lead feedback stats: ${getErrorMessage(error)}`);
+  }
+}
@@ -0,0 +1,196 @@
+import { logger } from '../utils/logger.js';
+import { extractDomain, normalizeCompanyData, prepareContactData } from '../utils/validator.js';
+import { describeLeadQuality } from '../utils/leadRules.js';
+import { normalizeOrgNumber, extractOrgNumber } from '../utils/orgNumber.js';
+import { scoreLead } from './aiService.js';
+import { assessLead } from './leadQualityService.js';
+import { findOrCreateCompany, createSignal, insertRejectedLead, updateRejectedLead } from './supabaseService.js';
+import { enqueueValidLead, runOutboxSubmission } from './webhookOutboxService.js';
+import { refreshCompanyScore } from './companyScoringService.js';
+import { promptVersions, type PromptVersions } from '../prompts/registry.js';
+import type {
+  FormData,
+  JobAdData,
+  LeadClassification,
+  LeadQualityBreakdown,
+} from '../types/index.js';
+
+export interface LeadPipelineOptions {
+  // Skip the quality rules and use this classification instead of the AI's (the AI still scores the lead)
+  forceClassification?: LeadClassification;
+  // Reprocessing a stored rejected lead: a rejection updates that row instead of adding one,
+  // and the company, contact and job ad of a valid lead are linked back to it
+  rejectedLeadId?: string;
+}
+
+export interface LeadPipelineResult {
+  // 'spam' for fast rejects by the lead quality rules
+  classification: LeadClassification | 'spam';
+  message: string;
+  lead_score?: number;
+  job_ad_title?: string;
+  job_ad_description?: string;
+  reason?: string;
+  company_id?: string;
+}
+
+const REJECTION_MESSAGES: Record<Exclude<LeadClassification, 'valid_lead'>, string> = {
+  invalid_lead: 'Lead classified as invalid',
+  likely_candidate: 'Lead classified as job seeker',
+  likely_spam: 'Lead classified as spam',
+};
+
+async function storeRejection(
+  formData: FormData,
+  classification: string,
+  reasoning: string,
+  quality: LeadQualityBreakdown | undefined,
+  aiPrompts: PromptVersions | undefined,
+  options: LeadPipelineOptions
+): Promise<void> {
+  if (options.rejectedLeadId) {
+    await updateRejectedLead(options.rejectedLeadId, {
+      classification,
+      ai_reasoning: reasoning,
+      ai_prompts: aiPrompts ?? null,
+      ...(quality ? { quality_breakdown: quality } : {}),
+    });
+    return;
+  }
+
+  await insertRejectedLead(formData, classification, reasoning, quality, aiPrompts);
+}
+
+/**
+ * Run an employer inquiry through the lead pipeline: quality rules, AI scoring, then
+ * company + signal + outbox side effects for valid leads, or a rejected lead row.
+ *
+ * Errors are thrown to the caller — the webhook saves the form as a processing_error,
+ * reprocessing leaves the rejected lead as it was.
+ */
+export async function processLead(formData: FormData, options: LeadPipelineOptions = {}): Promise<LeadPipelineResult> {
+  // Step 1: Lead Data Validation - weighted spam and quality rules
+  const validatedData = await assessLead(formData);
+
+  // Step 2: If - Fast reject when the rule score reaches the threshold
+  if (validatedData.quality.rejected && !options.forceClassification) {
+    logger.warn('Lead failed validation - fast reject', {
+      score: validatedData.validation_score,
+      qualityScore: validatedData.quality.score,
+      rules: validatedData.quality.hits.map((hit) => hit.rule),
+    });
+
+    await storeRejection(
+      validatedData,
+      'likely_spam',
+      `Fast reject: ${describeLeadQuality(validatedData.quality)}`,
+      validatedData.quality,
+      undefined,
+      options
+    );
+
+    return { classification: 'spam', message: 'Lead received but classified as spam (fast reject)' };
+  }
+
+  // Step 3: Scoring AI Agent - Get AI classification
+  const aiScore = await scoreLead(validatedData);
+  const aiPrompts = promptVersions({ lead_scoring: aiScore.prompt_version });
+
+  if (options.forceClassification && options.forceClassification !== aiScore.classification) {
+    logger.info('Overriding AI classification', { ai: aiScore.classification, forced: options.forceClassification });
+    aiScore.ai_reasoning = `Classification forced to ${options.forceClassification} (AI: ${aiScore.classification} — ${aiScore.ai_reasoning})`;
+    aiScore.classification = options.forceClassification;
+  }
+
+  // Step 4: Switch - Route based on classification
+  const classification = aiScore.classification;
+
+  logger.info('Classification determined', { classification });
+
+  if (classification !== 'valid_lead') {
+    if (!(classification in REJECTION_MESSAGES)) {
+      logger.error('Unknown classification', { classification });
+      throw new Error(`Unknown classification: ${classification}`);
+    }
+
+    logger.info('Processing rejected lead', { classification });
+    await storeRejection(formData, classification, aiScore.ai_reasoning, validatedData.quality, aiPrompts, options);
+
+    return {
+      classification,
+      message: REJECTION_MESSAGES[classification],
+      reason: classification === 'invalid_lead' ? aiScore.ai_reasoning : undefined,
+    };
+  }
+
+  // Valid lead path - Continue to contact creation and job ad generation
+  logger.info('Processing valid lead');
+
+  // Step 5: Extract Domain
+  const dataWithDomain = extractDomain({ ...validatedData, ...aiScore });
+
+  // Step 6: Find or Create Company, by the org number from the form or stated in the description
+  const orgNumber = normalizeOrgNumber(formData.org_number) ?? extractOrgNumber(formData.needs_description);
+  const companyId = await findOrCreateCompany(
+    dataWithDomain.company_name || '',
+    dataWithDomain.resolved_domain,
+    'website_form',
+    orgNumber
+  );
+
+  // Step 7: Create Signal
+  await createSignal(companyId, {
+    full_name: dataWithDomain.full_name,
+    email: dataWithDomain.email,
+    phone: dataWithDomain.phone,
+    needs_description: dataWithDomain.needs_description,
+    lead_score: dataWithDomain.lead_score,
+    classification: dataWithDomain.classification,
+    ai_prompts: aiPrompts,
+  });
+  await refreshCompanyScore(companyId);
+
+  // Step 8: Normalize Company Data
+  const normalizedData = normalizeCompanyData(formData, aiScore, { company_id: companyId });
+
+  // Step 9: Prepare Contact Data
+  const contactData = prepareContactData(formData, normalizedData);
+
+  // Step 10: Queue the side effects (contact, job ad, email, access request, admin
+  // notification) in the outbox, so a failing step is retried instead of losing the lead
+  await enqueueValidLead(formData.id, {
+    formData,
+    aiScore,
+    normalizedData,
+    contactData,
+    companyId,
+    rejectedLeadId: options.rejectedLeadId,
+  });
+
+  // The contact and job ad are linked by the outbox (link_rejected_lead) once they exist
+  if (options.rejectedLeadId) {
+    await updateRejectedLead(options.rejectedLeadId, {
+      classification: 'valid_lead',
+      ai_reasoning: aiScore.ai_reasoning,
+      ai_prompts: aiPrompts,
+      company_id: companyId,
+    });
+  }
+
+  // Step 11: First attempt inline; whatever fails is retried by the outbox worker
+  const outcome = await runOutboxSubmission(formData.id).catch((outboxError) => {
+    logger.error('Outbox run failed, leaving steps to the worker', outboxError);
+    return null;
+  });
+  const jobAd = outcome?.results.generate_job_ad as JobAdData | undefined;
+  const allDone = outcome !== null && outcome.pending === 0 && outcome.failed === 0;
+
+  return {
+    classification: 'valid_lead',
+    message: allDone ? 'Valid lead processed successfully' : 'Valid lead received, remaining steps will be retried',
+    lead_score: normalizedData.lead_score,
+    job_ad_title: jobAd?.title,
+    job_ad_description: jobAd?.description,
+    company_id: companyId,
+  };
+}
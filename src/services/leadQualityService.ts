@@ -0,0 +1,30 @@
+import { logger, getErrorMessage, maskEmail } from '../utils/logger.js';
+import { validateLead } from '../utils/validator.js';
+import { getRepeatSubmitterWindowHours } from '../utils/leadRules.js';
+import { countRecentSubmissions } from './supabaseService.js';
+import type { FormData, ValidatedLead } from '../types/index.js';
+
+/**
+ * Validate a form lead with the lead quality rules, including the ones that
+ * need submission history (repeat submitters). A failed history lookup only
+ * skips those rules — it never blocks the lead.
+ */
+export async function assessLead(lead: FormData): Promise<ValidatedLead> {
+  const windowHours = getRepeatSubmitterWindowHours();
+  let recentSubmissions: number | undefined;
+
+  if (windowHours !== null && lead.email) {
+    const since = new Date(Date.now() - windowHours * 60 * 60 * 1000).toISOString();
+
+    try {
+      recentSubmissions = await countRecentSubmissions(lead.email, since);
+    } catch (error) {
+      logger.warn('Submission history unavailable, skipping repeat submitter rule', {
+        email: maskEmail(lead.email),
+        error: getErrorMessage(error),
+      });
+    }
+  }
+
+  return validateLead(lead, { recentSubmissions });
+}
@@ -10,9 +10,12 @@ import {
 import { logger, getErrorMessage } from '../../utils/logger.js';
 import { parseRawGoogleMapsPlaces, type RawGoogleMapsPlaceType } from '../../schemas/scraper.js';
 import { evaluateCompany } from '../aiService.js';
+import { promptVersions } from '../../prompts/registry.js';
+import { resolveCompanyDomain } from '../../utils/domainResolver.js';
+import { extractOrgNumber } from '../../utils/orgNumber.js';
 import {
   findOrCreateCompany,
-  updateCompanyScore,
+  updateCompanyEvaluation,
   createGoogleMapsSignal,
   upsertGoogleMapsContact,
   updateCompanyEnrichment,
@@ -22,8 +25,11 @@ import type {
   CompanyEvaluationResult,
   ProcessedCompany,
   LeadScraperRunResult,
+  BatchProgress,
+  PipelineRunOptions,
 } from '../../types/scraper.types.js';
 import { emitAlert } from '../alertService.js';
+import { refreshCompanyScore } from '../companyScoringService.js';
 
 // ============================================================================
 // FETCH
@@ -184,6 +190,7 @@ export function normalizePlace(raw: RawGoogleMapsPlaceType): NormalizedGoogleMap
     reviewsCount: raw.reviewsCount ?? undefined,
     phone: (raw.phone || raw.phoneUnformatted) ?? undefined,
     googleRating: raw.totalScore ?? undefined,
+    orgNumber: extractOrgNumber(raw.description) ?? undefined,
     leads: (raw.leadsEnrichment ?? []).map((lead) => ({
       firstName: lead.firstName ?? undefined,
       lastName: lead.lastName ?? undefined,
@@ -238,18 +245,15 @@ export async function processCompany(
     }
 
     // 2. Find or create company in DB
-    const companyId = await findOrCreateCompany(
-      company.name,
-      company.domain,
-      'google_maps'
-    );
+    const { resolved } = resolveCompanyDomain(company.name, [{ source: 'google_maps_website', value: company.website }]);
+    const companyId = await findOrCreateCompany(company.name, resolved, 'google_maps', company.orgNumber ?? null);
 
-    // 3. Update company score
-    await updateCompanyScore(
+    // 3. Update company industry and AI reasoning
+    await updateCompanyEvaluation(
       companyId,
-      evaluation.score,
       evaluation.industryCategory,
-      evaluation.reasoning
+      evaluation.reasoning,
+      promptVersions({ company_scoring: evaluation.promptVersion })
     );
 
     // 4. Enrich company with Google Maps data
@@ -270,9 +274,13 @@ export async function processCompany(
       reasoning: evaluation.reasoning,
       website: company.website,
       leadsCount: company.leads.length,
+      ai_prompts: promptVersions({ company_scoring: evaluation.promptVersion }),
     });
 
-    // 6. Upsert contacts from leadsEnrichment
+    // 6. Rescore the company with the new listing
+    await refreshCompanyScore(companyId);
+
+    // 7. Upsert contacts from leadsEnrichment
     let contactsCreated = 0;
     for (const lead of company.leads) {
       const result = await upsertGoogleMapsContact(companyId, lead);
@@ -316,7 +324,8 @@ export async function processCompany(
  */
 export async function processCompanyBatch(
   companies: NormalizedGoogleMapsCompany[],
-  concurrency: number = 3
+  concurrency: number = 3,
+  onProgress?: (progress: BatchProgress) => void
 ): Promise<ProcessedCompany[]> {
   const results: ProcessedCompany[] = [];
 
@@ -326,11 +335,15 @@ export async function processCompanyBatch(
     const chunkResults = await Promise.all(chunk.map(processCompany));
     results.push(...chunkResults);
 
+    const completed = Math.min(i + concurrency, companies.length);
+    const succeeded = results.filter((r) => r.success).length;
+
     logger.info('Company batch progress', {
-      completed: Math.min(i + concurrency, companies.length),
+      completed,
       total: companies.length,
-      successRate: `${results.filter((r) => r.success).length}/${results.length}`,
+      successRate: `${succeeded}/${results.length}`,
     });
+    onProgress?.({ completed, total: companies.length, succeeded });
   }
 
   return results;
@@ -343,11 +356,14 @@ export async function processCompanyBatch(
 /**
  * Run the full Google Maps lead scraping pipeline
  */
-export async function runGoogleMapsFetch(runConfig?: {
-  searchQueries?: string[];
-  maxItemsPerQuery?: number;
-}): Promise<LeadScraperRunResult> {
-  const runId = uuidv4();
+export async function runGoogleMapsFetch(
+  runConfig?: {
+    searchQueries?: string[];
+    maxItemsPerQuery?: number;
+  },
+  options?: PipelineRunOptions
+): Promise<LeadScraperRunResult> {
+  const runId = options?.runId ?? uuidv4();
   const startTime = new Date();
   const queries = runConfig?.searchQueries || googleMapsConfig.defaultSearchQueries;
   const maxItems = runConfig?.maxItemsPerQuery || googleMapsConfig.defaultMaxItemsPerQuery;
@@ -393,7 +409,7 @@ export async function runGoogleMapsFetch(runConfig?: {
     const companies = filteredPlaces.map(normalizePlace);
 
     // 4. Process all companies (AI + DB)
-    const processed = await processCompanyBatch(companies);
+    const processed = await processCompanyBatch(companies, 3, options?.onProgress);
 
     // 5. Separate results
     const validCompanies = processed.filter((p) => p.success && p.evaluation.isValid);
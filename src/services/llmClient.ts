@@ -0,0 +1,354 @@
+import OpenAI from 'openai';
+import type { z } from 'zod';
+import { logger, getErrorMessage } from '../utils/logger.js';
+import { getCachedAIResult, setCachedAIResult } from './aiCache.js';
+import { recordAIUsage, estimateLLMCost } from './aiUsageService.js';
+import { getLLMProvider, type LLMProvider, type LLMMessage, type LLMCompletionResponse } from './llmProvider.js';
+
+/**
+ * Shared structured LLM call.
+ *
+ * Every AI feature goes through callStructuredLLM():
+ * 1. Try each model of the chain in order (OpenRouter), or the OpenAI model when
+ *    OpenRouter is not configured — through the configured LLM provider
+ * 2. Retry the same model with exponential backoff on 429 / 5xx / connection errors
+ * 3. Parse the response as JSON, running a repair pass on malformed output
+ * 4. Validate with the caller's zod schema
+ *
+ * Every completion received (including ones that fail parsing or validation)
+ * is recorded in the AI usage table with its tokens, latency and estimated cost.
+ *
+ * It never throws for model failures — callers get a typed result and decide
+ * whether to throw, return null or fall back.
+ */
+
+export type { LLMMessage };
+
+export type LLMErrorKind =
+  | 'rate_limited'
+  | 'provider_error'
+  | 'request_rejected'
+  | 'empty_response'
+  | 'invalid_json'
+  | 'schema_mismatch';
+
+export interface LLMAttemptFailure {
+  model: string;
+  kind: LLMErrorKind;
+  message: string;
+}
+
+export type StructuredLLMResult<T> =
+  | { ok: true; data: T; model: string; attempts: number; repaired: boolean }
+  | { ok: false; error: LLMCallError; attempts: number };
+
+/**
+ * Every model in the chain failed. `kind` is the last failure's kind.
+ */
+export class LLMCallError extends Error {
+  constructor(
+    public readonly kind: LLMErrorKind,
+    public readonly failures: LLMAttemptFailure[],
+  ) {
+    super(failures.map((f) => `${f.model}: ${f.message}`).join('; ') || 'No models to call');
+    this.name = 'LLMCallError';
+  }
+}
+
+export interface StructuredLLMOptions {
+  // Feature name for logs and cache keys, e.g. 'job_evaluation'
+  feature: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Request `response_format: json_object` (default true)
+  jsonMode?: boolean;
+  // Retries per model on retryable errors (default 2)
+  maxRetries?: number;
+  // Reshape the parsed JSON before validation, e.g. unwrap a single-element array
+  preprocess?: (parsed: unknown) => unknown;
+  // Serve / store the validated result in the AI cache
+  cache?: { promptVersion: string; input: unknown };
+}
+
+const DEFAULT_MAX_RETRIES = 2;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8000;
+
+/**
+ * The models a call will actually try with the current provider
+ */
+export function resolveModelChain(modelChain: string[]): string[] {
+  return getLLMProvider().resolveModelChain(modelChain);
+}
+
+// ============================================================================
+// JSON PARSING
+// ============================================================================
+
+/**
+ * Strip markdown code fences around a JSON response
+ */
+export function stripJsonFences(content: string): string {
+  return content
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```\s*$/, '')
+    .trim();
+}
+
+/**
+ * Best-effort fix of common LLM JSON mistakes:
+ * - prose before / after the JSON value
+ * - trailing commas before } or ]
+ * - invalid \u escapes (e.g. "\u" followed by non-hex characters in CV text)
+ * - raw newlines / tabs inside string values
+ */
+export function repairJson(content: string): string {
+  let text = stripJsonFences(content);
+
+  const start = text.search(/[{[]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (start !== -1 && end > start) {
+    text = text.slice(start, end + 1);
+  }
+
+  text = text.replace(/\\u(?![0-9a-fA-F]{4})/g, '\\\\u').replace(/,\s*([}\]])/g, '$1');
+
+  // Escape control characters, but only inside string literals
+  let repaired = '';
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString && char === '\\') {
+      repaired += char + (text[i + 1] ?? '');
+      i++;
+      continue;
+    }
+    if (char === '"') inString = !inString;
+    if (inString && char === '\n') repaired += '\\n';
+    else if (inString && char === '\r') repaired += '\\r';
+    else if (inString && char === '\t') repaired += '\\t';
+    else repaired += char;
+  }
+
+  return repaired;
+}
+
+/**
+ * Parse a model response as JSON, falling back to repairJson()
+ */
+export function parseJsonResponse(content: string): { value: unknown; repaired: boolean } {
+  try {
+    return { value: JSON.parse(stripJsonFences(content)), repaired: false };
+  } catch {
+    return { value: JSON.parse(repairJson(content)), repaired: true };
+  }
+}
+
+// ============================================================================
+// CALL
+// ============================================================================
+
+/**
+ * Whether an error from the provider is worth retrying on the same model
+ */
+export function isRetryableLLMError(error: unknown): boolean {
+  if (!(error instanceof OpenAI.APIError)) return false;
+  // Connection errors and timeouts have no status
+  return error.status === undefined || error.status === 429 || error.status >= 500;
+}
+
+function classifyProviderError(error: unknown): LLMErrorKind {
+  if (error instanceof OpenAI.APIError && error.status === 429) return 'rate_limited';
+  return isRetryableLLMError(error) ? 'provider_error' : 'request_rejected';
+}
+
+function backoffDelay(retry: number): number {
+  const exponential = Math.min(BACKOFF_BASE_MS * 2 ** retry, BACKOFF_MAX_MS);
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+interface Completion extends LLMCompletionResponse {
+  attempts: number;
+  latencyMs: number;
+}
+
+/**
+ * Request one completion, retrying transient provider errors with backoff
+ */
+async function requestCompletion(
+  provider: LLMProvider,
+  model: string,
+  messages: LLMMessage[],
+  options: StructuredLLMOptions
+): Promise<Completion | { failure: LLMAttemptFailure; attempts: number }> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  for (let retry = 0; ; retry++) {
+    const startTime = Date.now();
+    try {
+      const response = await provider.complete({
+        feature: options.feature,
+        model,
+        messages,
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        jsonMode: options.jsonMode !== false,
+      });
+      return { ...response, attempts: retry + 1, latencyMs: Date.now() - startTime };
+    } catch (error) {
+      if (!isRetryableLLMError(error) || retry >= maxRetries) {
+        return {
+          failure: { model, kind: classifyProviderError(error), message: getErrorMessage(error) },
+          attempts: retry + 1,
+        };
+      }
+
+      const delay = backoffDelay(retry);
+      logger.warn('LLM call failed, retrying', {
+        feature: options.feature,
+        model,
+        retry: retry + 1,
+        delayMs: Math.round(delay),
+        error: getErrorMessage(error),
+      });
+      await sleep(delay);
+    }
+  }
+}
+
+function recordCompletionUsage(
+  provider: LLMProvider,
+  feature: string,
+  model: string,
+  completion: Completion,
+  status: string
+): void {
+  if (!provider.trackUsage) return;
+
+  const promptTokens = completion.usage?.prompt_tokens ?? 0;
+  const completionTokens = completion.usage?.completion_tokens ?? 0;
+
+  recordAIUsage({
+    feature,
+    model,
+    promptTokens,
+    completionTokens,
+    latencyMs: completion.latencyMs,
+    costUsd: estimateLLMCost(model, promptTokens, completionTokens),
+    status,
+  });
+}
+
+async function callUncached<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  messages: LLMMessage[],
+  modelChain: string[],
+  options: StructuredLLMOptions
+): Promise<StructuredLLMResult<T>> {
+  const provider = getLLMProvider();
+  const failures: LLMAttemptFailure[] = [];
+  let attempts = 0;
+
+  for (const model of provider.resolveModelChain(modelChain)) {
+    // 1. Call the model
+    const completion = await requestCompletion(provider, model, messages, options);
+    attempts += completion.attempts;
+
+    if ('failure' in completion) {
+      failures.push(completion.failure);
+      logger.warn('LLM model failed, trying next in chain', { feature: options.feature, ...completion.failure });
+      continue;
+    }
+
+    const { content } = completion;
+    if (!content) {
+      recordCompletionUsage(provider, options.feature, model, completion, 'empty_response');
+      failures.push({ model, kind: 'empty_response', message: 'No content in AI response' });
+      logger.warn('LLM returned empty response', { feature: options.feature, model });
+      continue;
+    }
+
+    // 2. Parse, repairing malformed JSON
+    let parsed: { value: unknown; repaired: boolean };
+    try {
+      parsed = parseJsonResponse(content);
+    } catch (error) {
+      recordCompletionUsage(provider, options.feature, model, completion, 'invalid_json');
+      failures.push({ model, kind: 'invalid_json', message: getErrorMessage(error) });
+      logger.warn('LLM response is not valid JSON', {
+        feature: options.feature,
+        model,
+        rawContent: content.substring(0, 500),
+      });
+      continue;
+    }
+
+    // 3. Validate
+    const validated = schema.safeParse(options.preprocess ? options.preprocess(parsed.value) : parsed.value);
+    if (!validated.success) {
+      recordCompletionUsage(provider, options.feature, model, completion, 'schema_mismatch');
+      failures.push({ model, kind: 'schema_mismatch', message: validated.error.message });
+      logger.warn('LLM response validation failed', {
+        feature: options.feature,
+        model,
+        errors: validated.error.errors,
+        rawContent: content.substring(0, 500),
+      });
+      continue;
+    }
+
+    recordCompletionUsage(provider, options.feature, model, completion, 'ok');
+
+    if (parsed.repaired) {
+      logger.info('LLM response needed JSON repair', { feature: options.feature, model });
+    }
+
+    return { ok: true, data: validated.data, model, attempts, repaired: parsed.repaired };
+  }
+
+  const error = new LLMCallError(failures.at(-1)?.kind ?? 'provider_error', failures);
+  logger.error('All LLM models failed', error, { feature: options.feature, failures });
+  return { ok: false, error, attempts };
+}
+
+/**
+ * Call the model chain and return the schema-validated result.
+ * With `options.cache`, results are served from / stored in the AI cache;
+ * failures and fallback model results are never cached.
+ */
+export async function callStructuredLLM<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  messages: LLMMessage[],
+  modelChain: string[],
+  options: StructuredLLMOptions
+): Promise<StructuredLLMResult<T>> {
+  const { cache } = options;
+  if (!cache) {
+    return callUncached(schema, messages, modelChain, options);
+  }
+
+  const cacheParts = {
+    feature: options.feature,
+    model: resolveModelChain(modelChain)[0],
+    promptVersion: cache.promptVersion,
+    input: cache.input,
+  };
+
+  const cached = await getCachedAIResult<T>(cacheParts);
+  if (cached !== undefined) {
+    logger.debug('AI cache hit', { feature: cacheParts.feature, model: cacheParts.model });
+    return { ok: true, data: cached, model: cacheParts.model, attempts: 0, repaired: false };
+  }
+
+  const result = await callUncached(schema, messages, modelChain, options);
+
+  // Entries are keyed on the primary model, so a fallback model's answer is not cached:
+  // it would be served as the primary's until it expired
+  if (result.ok && result.model === cacheParts.model) {
+    setCachedAIResult(cacheParts, result.data);
+  }
+
+  return result;
+}
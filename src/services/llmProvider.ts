@@ -0,0 +1,109 @@
+import OpenAI from 'openai';
+import { config } from '../config/env.js';
+import { logger } from '../utils/logger.js';
+import { createMockLLMProvider, createRecordingLLMProvider } from './mockLLMProvider.js';
+
+/**
+ * LLM provider abstraction used by the structured LLM client.
+ *
+ * - openai: OpenRouter (or OpenAI directly when OpenRouter is not configured)
+ * - mock:   fixture-backed responses for offline tests and local development
+ *
+ * Selected with LLM_PROVIDER. Setting LLM_RECORD_FIXTURES_DIR wraps the real
+ * provider and writes every response as a fixture the mock provider can replay.
+ */
+
+export type LLMMessage = OpenAI.Chat.ChatCompletionMessageParam;
+
+export interface LLMCompletionRequest {
+  feature: string;
+  model: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode: boolean;
+}
+
+export interface LLMCompletionResponse {
+  content: string | null;
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+export interface LLMProvider {
+  name: string;
+  // Whether completions are billed and should be recorded in ai_usage
+  trackUsage: boolean;
+  // The models a call will actually try for a requested chain
+  resolveModelChain(modelChain: string[]): string[];
+  // Throws OpenAI.APIError subclasses for provider failures, so retry
+  // classification works the same for every provider
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResponse>;
+}
+
+/**
+ * OpenRouter / OpenAI provider. Clients are created on first use; the SDK's
+ * own retries are disabled so backoff is handled (and logged) in the LLM client.
+ */
+export function createOpenAIProvider(): LLMProvider {
+  let client: OpenAI | undefined;
+
+  const getClient = () => {
+    client ??= config.openRouter.apiKey
+      ? new OpenAI({ apiKey: config.openRouter.apiKey, baseURL: 'https://openrouter.ai/api/v1', maxRetries: 0 })
+      : new OpenAI({ apiKey: config.openai.apiKey, maxRetries: 0 });
+    return client;
+  };
+
+  return {
+    name: 'openai',
+    trackUsage: true,
+
+    // Without OpenRouter only the configured OpenAI model is available
+    resolveModelChain: (modelChain) => (config.openRouter.apiKey ? modelChain : [config.openai.model]),
+
+    async complete(request) {
+      const response = await getClient().chat.completions.create({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.jsonMode && { response_format: { type: 'json_object' as const } }),
+      });
+
+      return {
+        content: response.choices[0]?.message.content ?? null,
+        usage: response.usage,
+      };
+    },
+  };
+}
+
+function createConfiguredProvider(): LLMProvider {
+  if (config.llm.provider === 'mock') {
+    logger.info('Using mock LLM provider', { fixturesDir: config.llm.fixturesDir });
+    return createMockLLMProvider({ fixturesDir: config.llm.fixturesDir });
+  }
+
+  const provider = createOpenAIProvider();
+  if (config.llm.recordFixturesDir) {
+    logger.info('Recording LLM responses as fixtures', { dir: config.llm.recordFixturesDir });
+    return createRecordingLLMProvider(provider, config.llm.recordFixturesDir);
+  }
+
+  return provider;
+}
+
+let provider: LLMProvider | undefined;
+
+export function getLLMProvider(): LLMProvider {
+  provider ??= createConfiguredProvider();
+  return provider;
+}
+
+/**
+ * Replace the LLM provider, e.g. with a mock in tests.
+ * Pass undefined to go back to the configured provider.
+ */
+export function setLLMProvider(next: LLMProvider | undefined): void {
+  provider = next;
+}
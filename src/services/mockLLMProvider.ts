@@ -0,0 +1,246 @@
+import fs from 'fs';
+import path from 'path';
+import OpenAI from 'openai';
+import { logger, getErrorMessage } from '../utils/logger.js';
+import { hashAIInput, promptVersionOf } from './aiCache.js';
+import type { LLMProvider, LLMMessage, LLMCompletionRequest, LLMCompletionResponse } from './llmProvider.js';
+
+/**
+ * Fixture-backed LLM provider for offline tests and local development.
+ *
+ * Requests are matched on feature + input hash (the hash of the non-system
+ * messages, so fixtures survive system prompt edits). Fixtures without an
+ * inputHash answer any input of their feature, fixtures with a model only
+ * answer that model. The most specific match wins; a recorded fixture whose
+ * promptHash matches the system prompt is preferred, and with `matchPrompt`
+ * (prompt evals) it is required, so one prompt version never replays another's answers.
+ *
+ * Failures can be injected per feature (and optionally per model) to exercise
+ * retries, model fallback, JSON repair and schema validation paths.
+ */
+
+export interface MockLLMFixture {
+  feature: string;
+  inputHash?: string;
+  model?: string;
+  // Hash of the system prompt the response was recorded with
+  promptHash?: string;
+  // Parsed JSON response, or a raw string returned as-is (e.g. to exercise JSON repair)
+  response: unknown;
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+export type MockLLMFailureMode =
+  | 'timeout'
+  | 'rate_limit'
+  | 'server_error'
+  | 'bad_request'
+  | 'malformed_json'
+  | 'schema_violation'
+  | 'empty';
+
+export interface MockLLMFailure {
+  feature: string;
+  mode: MockLLMFailureMode;
+  // Only fail calls to this model
+  model?: string;
+  // Fail the first N matching calls, then answer normally (default: always fail)
+  times?: number;
+}
+
+export interface MockLLMCall {
+  feature: string;
+  model: string;
+  inputHash: string;
+  promptHash: string;
+}
+
+export interface MockLLMProvider extends LLMProvider {
+  calls: MockLLMCall[];
+  addFixture(fixture: MockLLMFixture): void;
+  injectFailure(failure: MockLLMFailure): void;
+  reset(): void;
+}
+
+/**
+ * Hash identifying an LLM input for fixture matching
+ */
+export function hashLLMInput(messages: LLMMessage[]): string {
+  return hashAIInput(messages.filter((m) => m.role !== 'system'));
+}
+
+/**
+ * Hash of the system prompt of an LLM input (the prompt version used by the AI cache)
+ */
+export function hashLLMPrompt(messages: LLMMessage[]): string {
+  return promptVersionOf(
+    messages
+      .filter((m) => m.role === 'system')
+      .map((m) => (typeof m.content === 'string' ? m.content : JSON.stringify(m.content)))
+      .join('\n')
+  );
+}
+
+/**
+ * Load fixtures from every .json file under a directory.
+ * A file holds one fixture or an array of fixtures.
+ */
+export function loadMockLLMFixtures(dir: string): MockLLMFixture[] {
+  if (!fs.existsSync(dir)) {
+    logger.warn('Mock LLM fixtures directory not found', { dir });
+    return [];
+  }
+
+  return fs
+    .readdirSync(dir, { recursive: true, encoding: 'utf8' })
+    .filter((file) => file.endsWith('.json'))
+    .flatMap((file) => {
+      const content = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as MockLLMFixture | MockLLMFixture[];
+      return Array.isArray(content) ? content : [content];
+    });
+}
+
+function failureResponse(mode: MockLLMFailureMode, request: LLMCompletionRequest): LLMCompletionResponse {
+  const message = `Mock ${mode} for ${request.feature} (${request.model})`;
+
+  switch (mode) {
+    case 'timeout':
+      throw new OpenAI.APIConnectionTimeoutError({ message });
+    case 'rate_limit':
+      throw new OpenAI.RateLimitError(429, undefined, message, {});
+    case 'server_error':
+      throw new OpenAI.InternalServerError(500, undefined, message, {});
+    case 'bad_request':
+      throw new OpenAI.BadRequestError(400, undefined, message, {});
+    case 'malformed_json':
+      return { content: '{"result": "truncated', usage: { prompt_tokens: 0, completion_tokens: 0 } };
+    case 'schema_violation':
+      return { content: '{"unexpected": true}', usage: { prompt_tokens: 0, completion_tokens: 0 } };
+    case 'empty':
+      return { content: null };
+  }
+}
+
+export function createMockLLMProvider(
+  options: {
+    fixtures?: MockLLMFixture[];
+    fixturesDir?: string;
+    failures?: MockLLMFailure[];
+    // Only replay fixtures recorded with the same system prompt
+    matchPrompt?: boolean;
+  } = {}
+): MockLLMProvider {
+  const fixtures: MockLLMFixture[] = [
+    ...(options.fixturesDir ? loadMockLLMFixtures(options.fixturesDir) : []),
+    ...(options.fixtures ?? []),
+  ];
+  let failures: Array<MockLLMFailure & { remaining: number }> = [];
+  const calls: MockLLMCall[] = [];
+
+  const injectFailure = (failure: MockLLMFailure) => {
+    failures.push({ ...failure, remaining: failure.times ?? Infinity });
+  };
+  options.failures?.forEach(injectFailure);
+
+  return {
+    name: 'mock',
+    trackUsage: false,
+    calls,
+
+    resolveModelChain: (modelChain) => modelChain,
+
+    async complete(request) {
+      const inputHash = hashLLMInput(request.messages);
+      const promptHash = hashLLMPrompt(request.messages);
+      calls.push({ feature: request.feature, model: request.model, inputHash, promptHash });
+
+      const failure = failures.find(
+        (f) => f.feature === request.feature && (!f.model || f.model === request.model) && f.remaining > 0
+      );
+      if (failure) {
+        failure.remaining--;
+        return failureResponse(failure.mode, request);
+      }
+
+      // Most specific fixture: input hash beats model beats feature-wide default,
+      // a matching system prompt breaks ties
+      let match: MockLLMFixture | undefined;
+      let matchScore = -1;
+      for (const fixture of fixtures) {
+        if (fixture.feature !== request.feature) continue;
+        if (fixture.inputHash && fixture.inputHash !== inputHash) continue;
+        if (fixture.model && fixture.model !== request.model) continue;
+        if (options.matchPrompt && fixture.promptHash !== promptHash) continue;
+
+        const score = (fixture.inputHash ? 4 : 0) + (fixture.model ? 2 : 0) + (fixture.promptHash === promptHash ? 1 : 0);
+        if (score > matchScore) {
+          match = fixture;
+          matchScore = score;
+        }
+      }
+
+      if (!match) {
+        throw new OpenAI.BadRequestError(
+          400,
+          undefined,
+          `No mock LLM fixture for ${request.feature} (input ${inputHash.slice(0, 12)}, prompt ${promptHash})`,
+          {}
+        );
+      }
+
+      return {
+        content: typeof match.response === 'string' ? match.response : JSON.stringify(match.response),
+        usage: match.usage ?? { prompt_tokens: 0, completion_tokens: 0 },
+      };
+    },
+
+    addFixture: (fixture) => fixtures.push(fixture),
+    injectFailure,
+
+    reset() {
+      failures = [];
+      calls.length = 0;
+    },
+  };
+}
+
+/**
+ * Wrap a real provider and save each response as a fixture under
+ * `<dir>/<feature>/<inputHash>-<promptHash>.json`, ready to be replayed by the mock provider.
+ */
+export function createRecordingLLMProvider(delegate: LLMProvider, dir: string): LLMProvider {
+  return {
+    ...delegate,
+    name: `${delegate.name}+recording`,
+
+    async complete(request) {
+      const response = await delegate.complete(request);
+      const inputHash = hashLLMInput(request.messages);
+      const promptHash = hashLLMPrompt(request.messages);
+
+      try {
+        let parsed: unknown = response.content;
+        try {
+          parsed = JSON.parse(response.content ?? '');
+        } catch {
+          // Keep the raw content so the fixture replays exactly what the model returned
+        }
+
+        const fixture: MockLLMFixture = {
+          feature: request.feature,
+          inputHash,
+          promptHash,
+          response: parsed,
+          usage: response.usage,
+        };
+        const featureDir = path.join(dir, request.feature);
+        fs.mkdirSync(featureDir, { recursive: true });
+        fs.writeFileSync(path.join(featureDir, `${inputHash}-${promptHash}.json`), JSON.stringify(fixture, null, 2));
+      } catch (error) {
+        logger.warn('Failed to record LLM fixture', { feature: request.feature, error: getErrorMessage(error) });
+      }
+
+      return response;
+    },
+  };
+}
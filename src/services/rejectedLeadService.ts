@@ -0,0 +1,164 @@
+import { logger, getErrorMessage } from '../utils/logger.js';
+import { getRepositories } from '../repositories/index.js';
+import { processLead } from './leadPipelineService.js';
+import { updateRejectedLead } from './supabaseService.js';
+import type { FormData, LeadClassification } from '../types/index.js';
+
+const DEFAULT_BATCH_SIZE = 20;
+
+export interface ReprocessOptions {
+  // Use this classification instead of the AI's (skips the quality rules)
+  forceClassification?: LeadClassification;
+}
+
+export interface ReprocessResult {
+  id: string;
+  // skipped: already reprocessed into a valid lead (has a company)
+  status: 'reprocessed' | 'failed' | 'skipped';
+  previous_classification: string;
+  classification?: string;
+  company_id?: string;
+  message?: string;
+  error?: string;
+}
+
+export interface ReprocessBatchSummary {
+  total: number;
+  reprocessed: number;
+  failed: number;
+  skipped: number;
+  results: ReprocessResult[];
+}
+
+/**
+ * Rebuild the form data of a stored rejected lead. Only the fields the rejected lead
+ * table keeps are restored; the submission id is derived from the row so the job ad
+ * of a reprocessed lead gets a stable external id.
+ */
+function toFormData(row: Record<string, unknown>): FormData {
+  const field = (column: string) => (typeof row[column] === 'string' ? (row[column] as string) : undefined);
+
+  return {
+    id: `rejected-lead-${row.id}`,
+    full_name: field('full_name'),
+    email: field('email'),
+    phone: field('phone'),
+    company_name: field('company_name'),
+    needs_description: field('submitted_description'),
+  };
+}
+
+async function reprocessRow(row: Record<string, unknown>, options: ReprocessOptions): Promise<ReprocessResult> {
+  const id = row.id as string;
+  const previous = String(row.classification);
+
+  // Reprocessed into a valid lead before (a human override alone doesn't create the company)
+  if (row.company_id) {
+    return { id, status: 'skipped', previous_classification: previous, message: 'Already reprocessed into a valid lead' };
+  }
+
+  const reprocessCount = Number(row.reprocess_count ?? 0) + 1;
+
+  try {
+    const result = await processLead(toFormData(row), {
+      forceClassification: options.forceClassification,
+      rejectedLeadId: id,
+    });
+
+    await updateRejectedLead(id, {
+      reprocessed_at: new Date().toISOString(),
+      reprocess_count: reprocessCount,
+      reprocess_error: null,
+    });
+
+    logger.info('Rejected lead reprocessed', { id, previous, classification: result.classification });
+
+    return {
+      id,
+      status: 'reprocessed',
+      previous_classification: previous,
+      // Fast rejects are stored as likely_spam
+      classification: result.classification === 'spam' ? 'likely_spam' : result.classification,
+      company_id: result.company_id,
+      message: result.message,
+    };
+  } catch (error) {
+    const message = getErrorMessage(error);
+    logger.error('Rejected lead reprocessing failed', error, { id });
+
+    await updateRejectedLead(id, {
+      reprocessed_at: new Date().toISOString(),
+      reprocess_count: reprocessCount,
+      reprocess_error: message,
+    }).catch((updateError) => logger.error('Failed to record reprocessing error', updateError, { id }));
+
+    return { id, status: 'failed', previous_classification: previous, error: message };
+  }
+}
+
+/**
+ * Rerun the webhook lead pipeline for a stored rejected lead (e.g. a processing_error,
+ * or a lead the AI got wrong). The row gets the new classification; a valid lead's
+ * company, contact and job ad are linked back to it.
+ *
+ * Returns null when the rejected lead doesn't exist. Pipeline errors are reported
+ * in the result, not thrown.
+ */
+export async function reprocessRejectedLead(id: string, options: ReprocessOptions = {}): Promise<ReprocessResult | null> {
+  let row: Record<string, unknown> | null;
+
+  try {
+    row = await getRepositories().rejectedLeads.getById(id);
+  } catch (error) {
+    logger.error('Error fetching rejected lead', error);
+    throw new Error(`Failed to fetch rejected lead: ${getErrorMessage(error)}`);
+  }
+
+  if (!row) return null;
+
+  return reprocessRow(row, options);
+}
+
+/**
+ * Reprocess several rejected leads one after the other: the given ids, or the newest
+ * `limit` leads with a classification (e.g. every processing_error).
+ */
+export async function reprocessRejectedLeads(
+  selection: { ids?: string[]; classification?: string; limit?: number },
+  options: ReprocessOptions = {}
+): Promise<ReprocessBatchSummary> {
+  const { rejectedLeads } = getRepositories();
+  let rows: Record<string, unknown>[];
+
+  try {
+    if (selection.ids) {
+      const found = await Promise.all(selection.ids.map((id) => rejectedLeads.getById(id)));
+      rows = found.filter((row): row is Record<string, unknown> => row !== null);
+    } else {
+      const page = await rejectedLeads.list({
+        classification: selection.classification,
+        limit: selection.limit ?? DEFAULT_BATCH_SIZE,
+        offset: 0,
+      });
+      rows = page.data;
+    }
+  } catch (error) {
+    logger.error('Error fetching rejected leads', error);
+    throw new Error(`Failed to fetch rejected leads: ${getErrorMessage(error)}`);
+  }
+
+  logger.info('Reprocessing rejected leads', { count: rows.length, classification: selection.classification });
+
+  const results: ReprocessResult[] = [];
+  for (const row of rows) {
+    results.push(await reprocessRow(row, options));
+  }
+
+  return {
+    total: results.length,
+    reprocessed: results.filter((r) => r.status === 'reprocessed').length,
+    failed: results.filter((r) => r.status === 'failed').length,
+    skipped: results.filter((r) => r.status === 'skipped').length,
+    results,
+  };
+}
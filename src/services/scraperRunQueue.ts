@@ -0,0 +1,140 @@
+import { logger, getErrorMessage } from '../utils/logger.js';
+import type { ScraperSource, BatchProgress } from '../types/scraper.types.js';
+
+/**
+ * In-process work queue for async scraper runs (`?async=true`).
+ *
+ * Runs execute one at a time in submission order — scrapers share the Apify
+ * account and AI rate limits, so running them in parallel only slows each down.
+ * State lives in memory: a restart drops queued runs, and on serverless hosts
+ * the process may be frozen after the 202 response. Finished runs are also
+ * persisted to scraper_runs, which the status endpoint falls back to.
+ */
+
+export type QueuedRunStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface QueuedRun {
+  runId: string;
+  source: ScraperSource;
+  scraperType: 'job' | 'lead';
+  status: QueuedRunStatus;
+  // 'fetching' until the first batch completes, then 'processing'
+  stage: 'queued' | 'fetching' | 'processing' | 'finished';
+  progress: BatchProgress | null;
+  queuedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+}
+
+export interface EnqueueScraperRunParams {
+  runId: string;
+  source: ScraperSource;
+  scraperType: 'job' | 'lead';
+  // Returns the response body to expose once the run completes
+  task: (onProgress: (progress: BatchProgress) => void) => Promise<Record<string, unknown>>;
+}
+
+// Finished runs kept in memory for polling before being evicted (oldest first)
+const MAX_FINISHED_RUNS = 100;
+
+const runs = new Map<string, QueuedRun>();
+const pending: EnqueueScraperRunParams[] = [];
+let draining = false;
+
+/**
+ * Add a run to the queue and start draining if idle. Returns the initial run state.
+ */
+export function enqueueScraperRun(params: EnqueueScraperRunParams): QueuedRun {
+  const run: QueuedRun = {
+    runId: params.runId,
+    source: params.source,
+    scraperType: params.scraperType,
+    status: 'queued',
+    stage: 'queued',
+    progress: null,
+    queuedAt: new Date().toISOString(),
+    startedAt: null,
+    finishedAt: null,
+    result: null,
+    error: null,
+  };
+
+  runs.set(run.runId, run);
+  pending.push(params);
+
+  logger.info('Scraper run queued', {
+    runId: run.runId,
+    source: run.source,
+    queueLength: pending.length,
+  });
+
+  void drainQueue();
+
+  return { ...run };
+}
+
+/**
+ * Current state of a queued, running or recently finished run
+ */
+export function getQueuedRun(runId: string): QueuedRun | undefined {
+  const run = runs.get(runId);
+  return run ? { ...run } : undefined;
+}
+
+/**
+ * Number of runs waiting ahead of (and including) the given run
+ */
+export function getQueuePosition(runId: string): number {
+  return pending.findIndex((p) => p.runId === runId) + 1;
+}
+
+async function drainQueue(): Promise<void> {
+  if (draining) return;
+  draining = true;
+
+  try {
+    let next = pending.shift();
+    while (next) {
+      await executeRun(next);
+      next = pending.shift();
+    }
+  } finally {
+    draining = false;
+  }
+}
+
+async function executeRun(params: EnqueueScraperRunParams): Promise<void> {
+  const run = runs.get(params.runId);
+  if (!run) return;
+
+  run.status = 'running';
+  run.stage = 'fetching';
+  run.startedAt = new Date().toISOString();
+
+  try {
+    run.result = await params.task((progress) => {
+      run.stage = 'processing';
+      run.progress = progress;
+    });
+    run.status = 'completed';
+  } catch (error) {
+    // The task has already alerted and recorded the failure
+    run.status = 'failed';
+    run.error = getErrorMessage(error);
+  } finally {
+    run.stage = 'finished';
+    run.finishedAt = new Date().toISOString();
+    evictFinishedRuns();
+  }
+}
+
+function evictFinishedRuns(): void {
+  const finished = [...runs.values()].filter((r) => r.finishedAt !== null);
+  const excess = finished.length - MAX_FINISHED_RUNS;
+
+  for (let i = 0; i < excess; i++) {
+    runs.delete(finished[i].runId);
+  }
+}
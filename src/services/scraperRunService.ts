@@ -0,0 +1,124 @@
+import { logger } from '../utils/logger.js';
+import { getRepositories } from '../repositories/index.js';
+import type {
+  ScraperSource,
+  ScraperRunResult,
+  LeadScraperRunResult,
+  ScraperRunStatus,
+  ScraperRunError,
+} from '../types/scraper.types.js';
+
+// Keep the stored error list bounded — a broken actor can fail every job in a run
+const MAX_STORED_ERRORS = 100;
+
+export interface RecordScraperRunParams {
+  runId: string;
+  source: ScraperSource;
+  scraperType: 'job' | 'lead';
+  config: Record<string, unknown>;
+  startedAt: Date;
+  finishedAt: Date;
+  // Counts from the run result (job runs also carry filterDrops per stage)
+  stats: Record<string, unknown>;
+  errors: ScraperRunError[];
+  // Set when the run died before the pipeline produced a result (e.g. Apify fetch threw)
+  fatalError?: string;
+}
+
+/**
+ * Derive the run status from its stats and errors.
+ * - failed:    fatal error, or errors with nothing processed
+ * - partial:   some jobs/companies errored
+ * - completed: no errors (including runs that found nothing new)
+ */
+export function deriveScraperRunStatus(
+  stats: Record<string, unknown>,
+  errors: ScraperRunError[],
+  fatalError?: string
+): ScraperRunStatus {
+  if (fatalError) return 'failed';
+  if (errors.length === 0) return 'completed';
+  return Number(stats.processed ?? 0) > 0 ? 'partial' : 'failed';
+}
+
+/**
+ * Build run record params from a job scraper pipeline result
+ */
+export function jobRunToRecord(
+  result: ScraperRunResult,
+  runConfig: Record<string, unknown>
+): RecordScraperRunParams {
+  return {
+    runId: result.runId,
+    source: result.source,
+    scraperType: 'job',
+    config: runConfig,
+    startedAt: result.startTime,
+    finishedAt: result.endTime,
+    stats: result.stats,
+    errors: result.errors.map((e) => ({
+      error: e.error,
+      externalId: e.job?.externalId,
+      title: e.job?.title,
+      company: e.job?.company,
+    })),
+  };
+}
+
+/**
+ * Build run record params from a lead scraper pipeline result
+ */
+export function leadRunToRecord(
+  result: LeadScraperRunResult,
+  runConfig: Record<string, unknown>
+): RecordScraperRunParams {
+  return {
+    runId: result.runId,
+    source: result.source,
+    scraperType: 'lead',
+    config: runConfig,
+    startedAt: result.startTime,
+    finishedAt: result.endTime,
+    stats: result.stats,
+    errors: result.errors.map((e) => ({
+      error: e.error,
+      externalId: e.company?.placeId,
+      company: e.company?.name,
+    })),
+  };
+}
+
+/**
+ * Fire-and-forget run recorder. Inserts a row into scraper_runs.
+ *
+ * - NEVER throws
+ * - NEVER blocks the caller
+ */
+export function recordScraperRun(params: RecordScraperRunParams): void {
+  _insertRun(params).catch((err) => {
+    logger.error('Failed to record scraper run', err, {
+      runId: params.runId,
+      source: params.source,
+    });
+  });
+}
+
+async function _insertRun(params: RecordScraperRunParams): Promise<void> {
+  const errors: ScraperRunError[] = params.fatalError
+    ? [{ error: params.fatalError }, ...params.errors]
+    : params.errors;
+
+  await getRepositories().scraperRuns.insert({
+    run_id: params.runId,
+    source: params.source,
+    scraper_type: params.scraperType,
+    status: deriveScraperRunStatus(params.stats, params.errors, params.fatalError),
+    config: params.config,
+    stats: params.stats,
+    errors: errors.slice(0, MAX_STORED_ERRORS),
+    error_count: errors.length,
+    started_at: params.startedAt.toISOString(),
+    finished_at: params.finishedAt.toISOString(),
+    duration_ms: params.finishedAt.getTime() - params.startedAt.getTime(),
+  });
+}
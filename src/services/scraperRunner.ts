@@ -0,0 +1,208 @@
+import { logger, getErrorMessage } from '../utils/logger.js';
+import { runJobSourceFetch } from './jobs/scraperUtils.js';
+import { runJobProcessingPipeline } from './jobs/jobProcessor.js';
+import { resolveJobFilterConfig } from './jobs/jobFilters.js';
+import { runGoogleMapsFetch } from './leads/googleMapsScraper.js';
+import {
+  sendJobScraperDigestEmail,
+  sendLeadScraperDigestEmail,
+  sendScraperFailureAlert,
+} from './emailService.js';
+import { emitAlert } from './alertService.js';
+import { recordScraperRun, jobRunToRecord, leadRunToRecord } from './scraperRunService.js';
+import { withAICacheStats } from './aiCache.js';
+import type {
+  JobSourceAdapter,
+  ScraperRunConfig,
+  ScraperRunResult,
+  LeadScraperRunResult,
+  PipelineRunOptions,
+} from '../types/scraper.types.js';
+
+// Shared by the synchronous route handlers and the async run queue, so both
+// paths record the run, send the digest and alert on failure the same way.
+
+type RunOptions = PipelineRunOptions & { runId: string };
+
+/**
+ * Response summary for a job scraper run
+ */
+export function summarizeJobRun(result: ScraperRunResult) {
+  return {
+    newJobsFound: result.stats.afterDedup,
+    crossSourceDuplicates: result.stats.crossSourceDuplicates,
+    validJobs: result.stats.valid,
+    discardedJobs: result.stats.discarded,
+    errors: result.stats.errors,
+    aiCache: result.aiCache,
+  };
+}
+
+/**
+ * Response summary for a lead scraper run
+ */
+export function summarizeLeadRun(result: LeadScraperRunResult) {
+  return {
+    companiesEvaluated: result.stats.processed,
+    validProspects: result.stats.valid,
+    contactsCreated: result.stats.contactsCreated,
+    discarded: result.stats.discarded,
+    errors: result.stats.errors,
+    aiCache: result.aiCache,
+  };
+}
+
+/**
+ * Fetch, process, record and digest one job source run.
+ * Re-throws fatal errors after recording the failed run and alerting.
+ */
+export async function executeJobSourceRun(
+  adapter: JobSourceAdapter,
+  runConfig: ScraperRunConfig,
+  options: RunOptions
+): Promise<ScraperRunResult> {
+  const startTime = Date.now();
+  const { runId } = options;
+
+  try {
+    logger.info(`Starting ${adapter.displayName} scraper run`, { runId, config: runConfig });
+
+    // 1. Fetch and normalize jobs from the source
+    const { jobs } = await runJobSourceFetch(adapter, runConfig);
+
+    // 2. Filter and process jobs through the pipeline
+    const filters = resolveJobFilterConfig(adapter, runConfig);
+    const { result, aiCache } = await withAICacheStats(() =>
+      runJobProcessingPipeline(jobs, adapter.source, { ...options, filters })
+    );
+    result.aiCache = aiCache;
+    recordScraperRun(jobRunToRecord(result, { ...runConfig }));
+
+    // 3. Send email digest (don't wait, don't fail if it errors)
+    sendJobScraperDigestEmail(result).catch((err) => {
+      logger.error('Failed to send scraper digest email', err);
+      emitAlert({
+        source: 'email_service',
+        stage: 'email_send',
+        severity: 'warning',
+        title: 'Scraper digest email failed to send',
+        message: getErrorMessage(err),
+        metadata: { scraperSource: adapter.source, runId },
+      });
+    });
+
+    logger.info(`${adapter.displayName} scraper run complete`, {
+      runId,
+      processingTime: Date.now() - startTime,
+      stats: result.stats,
+    });
+
+    return result;
+  } catch (error) {
+    const processingTime = Date.now() - startTime;
+    logger.error(`${adapter.displayName} scraper run failed`, error, { runId, processingTime });
+
+    recordScraperRun({
+      runId,
+      source: adapter.source,
+      scraperType: 'job',
+      config: { ...runConfig },
+      startedAt: new Date(startTime),
+      finishedAt: new Date(),
+      stats: {},
+      errors: [],
+      fatalError: getErrorMessage(error),
+    });
+
+    sendScraperFailureAlert(adapter.source, error, { runId, processingTime }).catch(() => {});
+
+    emitAlert({
+      source: adapter.alertSource,
+      stage: 'pipeline_failure',
+      severity: 'critical',
+      title: `${adapter.displayName} scraper pipeline failed`,
+      message: getErrorMessage(error),
+      metadata: { runId, processingTime },
+    });
+
+    throw error;
+  }
+}
+
+/**
+ * Run, record and digest one Google Maps lead scraper run.
+ * Re-throws fatal errors after recording the failed run and alerting.
+ */
+export async function executeGoogleMapsRun(
+  runConfig: { searchQueries?: string[]; maxItemsPerQuery?: number; countryFilter?: string },
+  options: RunOptions
+): Promise<LeadScraperRunResult> {
+  const startTime = Date.now();
+  const { runId } = options;
+
+  try {
+    logger.info('Starting Google Maps lead scraper run', { runId, config: runConfig });
+
+    // 1. Run the full Google Maps pipeline
+    const { result, aiCache } = await withAICacheStats(() =>
+      runGoogleMapsFetch(
+        {
+          searchQueries: runConfig.searchQueries,
+          maxItemsPerQuery: runConfig.maxItemsPerQuery,
+        },
+        options
+      )
+    );
+    result.aiCache = aiCache;
+    recordScraperRun(leadRunToRecord(result, { ...runConfig }));
+
+    // 2. Send digest email (fire-and-forget)
+    sendLeadScraperDigestEmail(result).catch((err) => {
+      logger.error('Failed to send lead scraper digest email', err);
+      emitAlert({
+        source: 'email_service',
+        stage: 'email_send',
+        severity: 'warning',
+        title: 'Lead scraper digest email failed to send',
+        message: getErrorMessage(err),
+        metadata: { scraperSource: 'google_maps', runId },
+      });
+    });
+
+    logger.info('Google Maps lead scraper run complete', {
+      runId,
+      processingTime: Date.now() - startTime,
+      stats: result.stats,
+    });
+
+    return result;
+  } catch (error) {
+    const processingTime = Date.now() - startTime;
+    logger.error('Google Maps lead scraper run failed', error, { runId, processingTime });
+
+    recordScraperRun({
+      runId,
+      source: 'google_maps',
+      scraperType: 'lead',
+      config: { ...runConfig },
+      startedAt: new Date(startTime),
+      finishedAt: new Date(),
+      stats: {},
+      errors: [],
+      fatalError: getErrorMessage(error),
+    });
+
+    sendScraperFailureAlert('google_maps', error, { runId, processingTime }).catch(() => {});
+
+    emitAlert({
+      source: 'google_maps_scraper',
+      stage: 'pipeline_failure',
+      severity: 'critical',
+      title: 'Google Maps scraper pipeline failed',
+      message: getErrorMessage(error),
+      metadata: { runId, processingTime },
+    });
+
+    throw error;
+  }
+}
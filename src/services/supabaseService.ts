@@ -1,5 +1,3 @@
-import { createClient } from '@supabase/supabase-js';
-import { config } from '../config/env.js';
 import { logger, getErrorMessage, maskEmail } from '../utils/logger.js';
 import type {
   FormData,
@@ -10,45 +8,86 @@ import type {
   RejectedLeadRecord,
   ContactRecord,
   JobAdRecord,
+  LeadQualityBreakdown,
 } from '../types/index.js';
-
-if (!config.supabase.key) {
-  throw new Error('SUPABASE_KEY is required');
-}
-
-const supabase = createClient(config.supabase.url, config.supabase.key);
+import { getRepositories } from '../repositories/index.js';
+import type { ResolvedDomain } from '../utils/domainResolver.js';
+import { isGuessedDomain } from './jobs/scraperUtils.js';
+import { promptVersions, type PromptVersions } from '../prompts/registry.js';
 
 /**
  * Calls the find_or_create_company stored procedure
  * Replicates the "Find or Create Company in Supabase" HTTP node
+ *
+ * Takes a domain resolved from evidence (utils/domainResolver.ts), never a guess,
+ * and records its source and confidence on the company. A valid org number
+ * (utils/orgNumber.ts) is the strongest match, and is stored on a company that has none.
  */
 export async function findOrCreateCompany(
   companyName: string,
-  domain: string | null,
-  source: string = 'website_form'
+  domain: ResolvedDomain | null,
+  source: string = 'website_form',
+  orgNumber: string | null = null
 ): Promise<string> {
   try {
-    logger.info('Finding or creating company', { companyName, domain });
+    logger.info('Finding or creating company', { companyName, domain: domain?.domain ?? null, orgNumber });
 
-    const { data, error } = await supabase.rpc('find_or_create_company', {
-      p_name: companyName,
-      p_domain: domain,
-      p_source: source,
-    });
+    const companyId = await getRepositories().companies.findOrCreate(companyName, domain?.domain ?? null, source, orgNumber);
+
+    if (domain) {
+      await recordCompanyDomain(companyId, domain);
+    }
 
-    if (error) {
-      throw error;
+    if (orgNumber) {
+      await recordCompanyOrgNumber(companyId, orgNumber);
     }
 
-    logger.info('Company found/created', { company_id: data });
+    logger.info('Company found/created', { company_id: companyId });
 
-    return data as string; // Returns the company_id
+    return companyId;
   } catch (error) {
     logger.error('Error finding/creating company', error);
     throw new Error(`Failed to find/create company: ${getErrorMessage(error)}`);
   }
 }
 
+/**
+ * Store a resolved domain with its source and confidence. A company found by name
+ * gets the domain when it has none, or only a slug guessed from its name; a
+ * different real domain is never overwritten.
+ */
+async function recordCompanyDomain(companyId: string, resolved: ResolvedDomain): Promise<void> {
+  const { companies } = getRepositories();
+  const company = await companies.getById(companyId);
+  if (!company) return;
+
+  const stored = typeof company.domain === 'string' && company.domain ? company.domain : null;
+
+  if (stored === resolved.domain) {
+    if (Number(company.domain_confidence ?? 0) >= resolved.confidence) return;
+  } else if (stored && (company.domain_source || !isGuessedDomain(String(company.name ?? ''), stored))) {
+    return;
+  }
+
+  await companies.update(companyId, {
+    domain: resolved.domain,
+    domain_source: resolved.source,
+    domain_confidence: resolved.confidence,
+  });
+
+  logger.info('Company domain recorded', { companyId, ...resolved, replaced: stored !== resolved.domain ? stored : undefined });
+}
+
+// An existing company found by domain or name gets the org number when it has none
+async function recordCompanyOrgNumber(companyId: string, orgNumber: string): Promise<void> {
+  const { companies } = getRepositories();
+  const company = await companies.getById(companyId);
+  if (!company || company.org_number) return;
+
+  await companies.update(companyId, { org_number: orgNumber });
+  logger.info('Company org number recorded', { companyId, orgNumber });
+}
+
 /**
  * Creates a signal record in the scraping_signals table
  * Replicates the "Create Signal for Form Submission" node
@@ -60,24 +99,16 @@ export async function createSignal(
   try {
     logger.info('Creating signal', { companyId });
 
-    const { data, error } = await supabase
-      .from('scraping_signals')
-      .insert({
-        company_id: companyId,
-        signal_type: 'website_form_submission',
-        source: 'website_form',
-        payload: payload,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      throw error;
-    }
+    const data = await getRepositories().signals.insert({
+      company_id: companyId,
+      signal_type: 'website_form_submission',
+      source: 'website_form',
+      payload: payload,
+    });
 
     logger.info('Signal created', { signalId: data.id });
 
-    return data as SignalRecord;
+    return data as unknown as SignalRecord;
   } catch (error) {
     logger.error('Error creating signal', error);
     throw new Error(`Failed to create signal: ${getErrorMessage(error)}`);
@@ -91,39 +122,66 @@ export async function createSignal(
 export async function insertRejectedLead(
   leadData: FormData,
   classification: string = 'likely_spam',
-  aiReasoning: string = 'N/A (Fast Reject)'
+  aiReasoning: string = 'N/A (Fast Reject)',
+  quality?: LeadQualityBreakdown,
+  aiPrompts?: PromptVersions
 ): Promise<RejectedLeadRecord> {
   try {
     logger.info('Inserting rejected lead', { email: maskEmail(leadData.email), classification });
 
-    const { data, error } = await supabase
-      .from('scraping_rejected_leads')
-      .insert({
-        full_name: leadData.full_name,
-        email: leadData.email,
-        phone: leadData.phone,
-        company_name: leadData.company_name,
-        submitted_description: leadData.needs_description,
-        source: 'website_form',
-        classification,
-        ai_reasoning: aiReasoning,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      throw error;
-    }
+    const data = await getRepositories().rejectedLeads.insert({
+      full_name: leadData.full_name,
+      email: leadData.email,
+      phone: leadData.phone,
+      company_name: leadData.company_name,
+      submitted_description: leadData.needs_description,
+      source: 'website_form',
+      classification,
+      ai_reasoning: aiReasoning,
+      // Lead quality rule breakdown (why it was or wasn't fast-rejected)
+      ...(quality ? { quality_breakdown: quality } : {}),
+      // Prompt versions behind the classification (none for fast rejects and errors)
+      ai_prompts: aiPrompts ?? null,
+    });
 
     logger.info('Rejected lead inserted', { leadId: data.id, classification });
 
-    return data as RejectedLeadRecord;
+    return data as unknown as RejectedLeadRecord;
   } catch (error) {
     logger.error('Error inserting rejected lead', error);
     throw new Error(`Failed to insert rejected lead: ${getErrorMessage(error)}`);
   }
 }
 
+/**
+ * Updates a rejected lead, e.g. with the outcome of reprocessing it
+ */
+export async function updateRejectedLead(id: string, updates: Record<string, unknown>): Promise<void> {
+  try {
+    await getRepositories().rejectedLeads.update(id, updates);
+  } catch (error) {
+    logger.error('Error updating rejected lead', error);
+    throw new Error(`Failed to update rejected lead: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Counts website form submissions from an email since the given time:
+ * accepted ones (form submission signals) plus rejected ones.
+ */
+export async function countRecentSubmissions(email: string, since: string): Promise<number> {
+  try {
+    const { signals, rejectedLeads } = getRepositories();
+    const [accepted, rejected] = await Promise.all([
+      signals.countFormSubmissions(email, since),
+      rejectedLeads.countByEmail(email, since),
+    ]);
+    return accepted + rejected;
+  } catch (error) {
+    logger.error('Error counting recent submissions', error);
+    throw new Error(`Failed to count recent submissions: ${getErrorMessage(error)}`);
+  }
+}
 
 /**
  * Upserts a contact record
@@ -134,22 +192,15 @@ export async function upsertContact(contactData: ContactData): Promise<ContactRe
   try {
     logger.info('Upserting contact', { email: maskEmail(contactData.email) });
 
-    const { data, error } = await supabase
-      .from('contacts')
-      .upsert(contactData, {
-        onConflict: 'company_id,email',
-        ignoreDuplicates: false,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      throw error;
+    const data = await getRepositories().contacts.upsert({ ...contactData }, 'email');
+
+    if (!data) {
+      throw new Error('Contact conflicts with an existing contact');
     }
 
     logger.info('Contact upserted', { contactId: data.id });
 
-    return data as ContactRecord;
+    return data as unknown as ContactRecord;
   } catch (error) {
     logger.error('Error upserting contact', error);
     throw new Error(`Failed to upsert contact: ${getErrorMessage(error)}`);
@@ -170,37 +221,30 @@ export async function createJobAdRecord(
 
     const now = Date.now().toString();
 
-    const { data, error } = await supabase
-      .from('jobs')
-      .insert({
-        company_id: jobAdData.company_id,
-        title: jobAdData.title,
-        description: jobAdData.description,
-        source: 'website_form',
-        external_id: formData.id || now,
-        published_status: 'draft',
-        ai_valid: true,
-        ai_score: aiData.lead_score,
-        ai_reasoning: aiData.ai_reasoning,
-        ai_category: aiData.role_category,
-        raw_data: formData,
-        service_type: formData.service_type,
-        is_ai_generated: true,
-        location: jobAdData.location,
-        external_url: jobAdData.external_url,
-        posted_date: jobAdData.posted_date,
-        category: jobAdData.category,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      throw error;
-    }
+    const data = await getRepositories().jobs.insert({
+      company_id: jobAdData.company_id,
+      title: jobAdData.title,
+      description: jobAdData.description,
+      source: 'website_form',
+      external_id: formData.id || now,
+      published_status: 'draft',
+      ai_valid: true,
+      ai_score: aiData.lead_score,
+      ai_reasoning: aiData.ai_reasoning,
+      ai_category: aiData.role_category,
+      ai_prompts: promptVersions({ lead_scoring: aiData.prompt_version, job_ad_generation: jobAdData.prompt_version }),
+      raw_data: formData,
+      service_type: formData.service_type,
+      is_ai_generated: true,
+      location: jobAdData.location,
+      external_url: jobAdData.external_url,
+      posted_date: jobAdData.posted_date,
+      category: jobAdData.category,
+    });
 
     logger.info('Job ad record created', { jobId: data.id });
 
-    return data as JobAdRecord;
+    return data as unknown as JobAdRecord;
   } catch (error) {
     logger.error('Error creating job ad record', error);
     throw new Error(`Failed to create job ad record: ${getErrorMessage(error)}`);
@@ -210,45 +254,37 @@ export async function createJobAdRecord(
 /**
  * Creates a client access request for the admin portal approval flow.
  * Called when a valid lead submits the website form.
- * Returns the created request ID (used for notification href), or null on failure.
+ * Returns the created request ID (used for notification href).
  */
 export async function createClientAccessRequest(
   formData: FormData
-): Promise<string | null> {
+): Promise<string> {
   try {
     const nameParts = (formData.full_name || '').trim().split(/\s+/);
     const firstName = nameParts[0] || '';
     const lastName = nameParts.slice(1).join(' ') || '';
 
-    const { data, error } = await supabase
-      .from('client_access_requests')
-      .insert({
-        email: formData.email || '',
-        first_name: firstName,
-        last_name: lastName,
-        company_name: formData.company_name || '',
-        phone: formData.phone || null,
-        message: formData.needs_description || null,
-        status: 'pending',
-      })
-      .select('id')
-      .single();
-
-    if (error) {
-      throw error;
-    }
+    const requestId = await getRepositories().accessRequests.insert({
+      email: formData.email || '',
+      first_name: firstName,
+      last_name: lastName,
+      company_name: formData.company_name || '',
+      phone: formData.phone || null,
+      message: formData.needs_description || null,
+      status: 'pending',
+    });
 
-    logger.info('Client access request created', { requestId: data.id });
-    return data.id as string;
+    logger.info('Client access request created', { requestId });
+    return requestId;
   } catch (error) {
     logger.error('Error creating client access request', error);
-    return null;
+    throw new Error(`Failed to create client access request: ${getErrorMessage(error)}`);
   }
 }
 
 /**
  * Creates an in-app notification for all admin users.
- * Fire-and-forget — never throws, never blocks the caller.
+ * Does nothing (with a warning) when there are no admin users.
  */
 export async function notifyAdmins(
   category: string,
@@ -258,36 +294,30 @@ export async function notifyAdmins(
   metadata?: Record<string, unknown>
 ): Promise<void> {
   try {
-    // Select user_id (FK to auth.users), not id (user_profiles PK)
-    // notifications.user_id references auth.users.id
-    const { data: admins, error: adminError } = await supabase
-      .from('user_profiles')
-      .select('user_id')
-      .eq('role', 'admin');
-
-    if (adminError || !admins?.length) {
-      logger.warn('No admin users found for notification', { error: adminError?.message });
-      return;
-    }
+    const { notifications } = getRepositories();
 
-    const notifications = admins.map((admin) => ({
-      user_id: admin.user_id,
-      category,
-      title,
-      body,
-      href: href || null,
-      metadata: metadata || {},
-    }));
+    const adminIds = await notifications.findAdminUserIds();
 
-    const { error } = await supabase.from('notifications').insert(notifications);
-
-    if (error) {
-      throw error;
+    if (!adminIds.length) {
+      logger.warn('No admin users found for notification');
+      return;
     }
 
-    logger.info('Admin notifications created', { count: admins.length, category });
+    await notifications.insertMany(
+      adminIds.map((userId) => ({
+        user_id: userId,
+        category,
+        title,
+        body,
+        href: href || null,
+        metadata: metadata || {},
+      }))
+    );
+
+    logger.info('Admin notifications created', { count: adminIds.length, category });
   } catch (error) {
     logger.error('Error creating admin notification', error);
+    throw new Error(`Failed to create admin notification: ${getErrorMessage(error)}`);
   }
 }
 
@@ -302,31 +332,26 @@ import type {
   JobScraperSource,
   GoogleMapsLead,
 } from '../types/scraper.types.js';
+import { buildJobFingerprint, type JobFingerprint } from './jobs/jobFingerprint.js';
+import { findExistingExternalKeys, chunkArray, DEDUP_CHUNK_SIZE } from './jobs/dedupLookup.js';
+import type { JobFingerprintMatch } from '../repositories/index.js';
 
 /**
- * Find existing jobs by external_id or url for deduplication
+ * Find which of a batch's external_ids / urls are already stored for a source.
+ * Queries only the batch's candidates (chunked), including postings already
+ * linked to a canonical job from another source.
  */
 export async function findExistingJobsBySource(
-  source: JobScraperSource
+  source: JobScraperSource,
+  jobs: NormalizedJob[]
 ): Promise<Set<string>> {
   try {
-    logger.info('Fetching existing jobs for deduplication', { source });
-
-    const { data, error } = await supabase
-      .from('jobs')
-      .select('external_id, external_url')
-      .eq('source', source);
-
-    if (error) {
-      throw error;
-    }
+    logger.info('Looking up existing jobs for deduplication', { source, candidates: jobs.length });
 
-    // Create a set of external_ids and urls for fast lookup
-    const existingIds = new Set<string>();
-    for (const job of data || []) {
-      if (job.external_id) existingIds.add(job.external_id);
-      if (job.external_url) existingIds.add(job.external_url);
-    }
+    const existingIds = await findExistingExternalKeys(
+      (table, column, values) => getRepositories().jobs.findExternalKeys(table, source, column, values),
+      jobs
+    );
 
     logger.info('Fetched existing jobs', { source, count: existingIds.size });
 
@@ -337,6 +362,58 @@ export async function findExistingJobsBySource(
   }
 }
 
+/**
+ * Find jobs from any source whose fingerprint key matches one of the given keys
+ */
+export async function findJobsByFingerprints(fingerprintKeys: string[]): Promise<JobFingerprintMatch[]> {
+  if (fingerprintKeys.length === 0) return [];
+
+  try {
+    const matches: JobFingerprintMatch[] = [];
+
+    for (const keys of chunkArray(fingerprintKeys, DEDUP_CHUNK_SIZE)) {
+      matches.push(...(await getRepositories().jobs.findByFingerprints(keys)));
+    }
+
+    // Oldest first, so callers can treat the first match as the canonical job
+    return matches.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  } catch (error) {
+    logger.error('Error fetching jobs by fingerprint', error);
+    throw new Error(`Failed to fetch jobs by fingerprint: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Link a cross-source duplicate posting to its canonical job instead of inserting it
+ */
+export async function linkDuplicateJob(
+  canonicalJobId: string,
+  job: NormalizedJob,
+  fingerprint: JobFingerprint,
+  similarity: number | null
+): Promise<void> {
+  try {
+    await getRepositories().jobs.upsertSourceLink({
+      canonical_job_id: canonicalJobId,
+      source: job.source,
+      external_id: job.externalId,
+      external_url: job.url,
+      fingerprint: fingerprint.key,
+      description_similarity: similarity,
+      posted_date: job.postedAt,
+    });
+
+    logger.debug('Linked cross-source duplicate job', {
+      canonicalJobId,
+      source: job.source,
+      externalId: job.externalId,
+    });
+  } catch (error) {
+    logger.error('Error linking duplicate job', error);
+    throw new Error(`Failed to link duplicate job: ${getErrorMessage(error)}`);
+  }
+}
+
 /**
  * Create a job ad record from a scraped job
  */
@@ -348,41 +425,37 @@ export async function createJobAdFromScraper(
   try {
     logger.info('Creating job ad from scraper', { title: job.title, source: job.source });
 
-    const { data, error } = await supabase
-      .from('jobs')
-      .insert({
-        company_id: companyId,
-        title: job.title,
-        description: job.description,
-        source: job.source,
-        external_id: job.externalId,
-        external_url: job.url,
-        location: job.location,
-        job_type: job.jobType,
-        posted_date: job.postedAt,
-        salary: job.salary,
-        ai_valid: evaluation.isValid,
-        ai_score: evaluation.score,
-        ai_reasoning: evaluation.reasoning,
-        ai_category: evaluation.category,
-        ai_experience: evaluation.experience,
-        application_email: evaluation.applicationEmail !== 'Email Not Found' ? evaluation.applicationEmail : null,
-        duration: evaluation.duration,
-        raw_data: job.rawData,
-        is_ai_generated: false,
-        published_status: 'scraped',
-      })
-      .select('id, company_id')
-      .single();
-
-    if (error) {
-      logger.error('Supabase insert error', { code: error.code, message: error.message, details: error.details });
-      throw error;
-    }
+    const fingerprint = buildJobFingerprint(job);
+
+    const data = await getRepositories().jobs.insert({
+      company_id: companyId,
+      title: job.title,
+      description: job.description,
+      source: job.source,
+      external_id: job.externalId,
+      external_url: job.url,
+      location: job.location,
+      job_type: job.jobType,
+      posted_date: job.postedAt,
+      salary: job.salary,
+      ai_valid: evaluation.isValid,
+      ai_score: evaluation.score,
+      ai_reasoning: evaluation.reasoning,
+      ai_category: evaluation.category,
+      ai_experience: evaluation.experience,
+      application_email: evaluation.applicationEmail !== 'Email Not Found' ? evaluation.applicationEmail : null,
+      duration: evaluation.duration,
+      ai_prompts: promptVersions({ job_evaluation: evaluation.promptVersion }),
+      raw_data: job.rawData,
+      fingerprint: fingerprint.key,
+      description_sketch: fingerprint.descriptionSketch || null,
+      is_ai_generated: false,
+      published_status: 'scraped',
+    });
 
     logger.info('Job ad created from scraper', { jobId: data.id, source: job.source });
 
-    return data;
+    return { id: data.id as string, company_id: data.company_id as string };
   } catch (error) {
     logger.error('Error creating job ad from scraper', error);
     throw new Error(`Failed to create job ad from scraper: ${getErrorMessage(error)}`);
@@ -403,37 +476,30 @@ export async function createSignalForJobAd(
 
     const signalType = `${job.source}_job_ad`;
 
-    const { data, error } = await supabase
-      .from('scraping_signals')
-      .insert({
-        company_id: companyId,
-        signal_type: signalType,
-        source: job.source,
-        signal_date: job.postedAt ? new Date(job.postedAt).toISOString() : new Date().toISOString(),
-        payload: {
-          job_ad_id: jobAdId,
-          title: job.title,
-          score: evaluation.score,
-          valid: evaluation.isValid,
-          company: job.company,
-          location: job.location,
-          description: job.description?.substring(0, 500),
-          url: job.url,
-          duration: evaluation.duration,
-          applicationEmail: evaluation.applicationEmail,
-          reasoning: evaluation.reasoning,
-        },
-      })
-      .select('id')
-      .single();
-
-    if (error) {
-      throw error;
-    }
+    const data = await getRepositories().signals.insert({
+      company_id: companyId,
+      signal_type: signalType,
+      source: job.source,
+      signal_date: job.postedAt ? new Date(job.postedAt).toISOString() : new Date().toISOString(),
+      payload: {
+        job_ad_id: jobAdId,
+        title: job.title,
+        score: evaluation.score,
+        valid: evaluation.isValid,
+        company: job.company,
+        location: job.location,
+        description: job.description?.substring(0, 500),
+        url: job.url,
+        duration: evaluation.duration,
+        applicationEmail: evaluation.applicationEmail,
+        reasoning: evaluation.reasoning,
+        ai_prompts: promptVersions({ job_evaluation: evaluation.promptVersion }),
+      },
+    });
 
     logger.info('Signal created for job ad', { signalId: data.id });
 
-    return data;
+    return { id: data.id as string };
   } catch (error) {
     logger.error('Error creating signal for job ad', error);
     throw new Error(`Failed to create signal for job ad: ${getErrorMessage(error)}`);
@@ -496,6 +562,7 @@ export async function upsertScrapedContact(contact: ExtractedContact): Promise<{
       fullName = undefined;
     }
 
+    const { contacts } = getRepositories();
     let firstResult: { id: string } | null = null;
 
     for (const email of emails) {
@@ -503,12 +570,7 @@ export async function upsertScrapedContact(contact: ExtractedContact): Promise<{
 
       // Protect api_extracted from being downgraded to ai_extracted
       if (contact.sourceMethod === 'ai_extracted') {
-        const { data: existing } = await supabase
-          .from('contacts')
-          .select('source_method')
-          .eq('company_id', contact.companyId)
-          .eq('email', email)
-          .maybeSingle();
+        const existing = await contacts.findByEmail(contact.companyId, email);
 
         if (existing?.source_method === 'api_extracted') {
           logger.info('Preserving api_extracted, skipping ai_extracted overwrite', {
@@ -519,44 +581,34 @@ export async function upsertScrapedContact(contact: ExtractedContact): Promise<{
         }
       }
 
-      const { data, error } = await supabase
-        .from('contacts')
-        .upsert(
-          {
-            company_id: contact.companyId,
-            first_name: firstName ?? null,
-            last_name: lastName ?? null,
-            full_name: fullName ?? null,
-            title: contact.title,
-            email,
-            linkedin_url: contact.linkedinUrl,
-            source: contact.source,
-            source_method: contact.sourceMethod,
-            related_job_ad_id: contact.relatedJobAdId,
-            department: contact.department ?? null,
-            seniority: contact.seniority ?? null,
-          },
-          {
-            onConflict: 'company_id,email',
-            ignoreDuplicates: false,
-          }
-        )
-        .select('id')
-        .single();
-
-      if (error) {
-        // Ignore unique constraint violations (duplicate contacts)
-        if (error.code === '23505') {
-          logger.debug('Contact already exists, skipping', { email: maskEmail(email) });
-          continue;
-        }
-        throw error;
+      const data = await contacts.upsert(
+        {
+          company_id: contact.companyId,
+          first_name: firstName ?? null,
+          last_name: lastName ?? null,
+          full_name: fullName ?? null,
+          title: contact.title,
+          email,
+          linkedin_url: contact.linkedinUrl,
+          source: contact.source,
+          source_method: contact.sourceMethod,
+          related_job_ad_id: contact.relatedJobAdId,
+          department: contact.department ?? null,
+          seniority: contact.seniority ?? null,
+        },
+        'email'
+      );
+
+      // Unique constraint violation (duplicate contact)
+      if (!data) {
+        logger.debug('Contact already exists, skipping', { email: maskEmail(email) });
+        continue;
       }
 
       logger.info('Scraped contact upserted', { contactId: data.id });
 
       if (!firstResult) {
-        firstResult = data;
+        firstResult = { id: data.id as string };
       }
     }
 
@@ -583,15 +635,16 @@ export async function updateCompanyEnrichment(
   }
 ): Promise<void> {
   try {
-    // Fetch current company to check which fields are null
-    const { data: company, error: fetchError } = await supabase
-      .from('companies')
-      .select('linkedin_url, website, description, employee_count, company_size')
-      .eq('id', companyId)
-      .single();
+    const { companies } = getRepositories();
 
-    if (fetchError || !company) {
+    // Fetch current company to check which fields are null
+    const company = await companies.getById(companyId).catch((fetchError) => {
       logger.error('Failed to fetch company for enrichment', fetchError, { companyId });
+      return null;
+    });
+
+    if (!company) {
+      logger.warn('Company not found for enrichment', { companyId });
       return;
     }
 
@@ -621,12 +674,9 @@ export async function updateCompanyEnrichment(
 
     updates.updated_at = new Date().toISOString();
 
-    const { error: updateError } = await supabase
-      .from('companies')
-      .update(updates)
-      .eq('id', companyId);
-
-    if (updateError) {
+    try {
+      await companies.update(companyId, updates);
+    } catch (updateError) {
       logger.error('Failed to update company enrichment', updateError, { companyId });
       return;
     }
@@ -652,41 +702,31 @@ export async function upsertLinkedInContact(contact: ExtractedContact): Promise<
 
     logger.info('Upserting LinkedIn contact', { linkedinUrl: contact.linkedinUrl });
 
-    const { data, error } = await supabase
-      .from('contacts')
-      .upsert(
-        {
-          company_id: contact.companyId,
-          first_name: contact.firstName,
-          last_name: contact.lastName,
-          full_name: contact.fullName,
-          title: contact.title,
-          linkedin_url: contact.linkedinUrl,
-          source: contact.source,
-          source_method: contact.sourceMethod,
-          related_job_ad_id: contact.relatedJobAdId,
-          department: contact.department ?? null,
-          seniority: contact.seniority ?? null,
-        },
-        {
-          onConflict: 'company_id,linkedin_url',
-          ignoreDuplicates: false,
-        }
-      )
-      .select('id')
-      .single();
-
-    if (error) {
-      if (error.code === '23505') {
-        logger.debug('LinkedIn contact already exists, skipping', { linkedinUrl: contact.linkedinUrl });
-        return null;
-      }
-      throw error;
+    const data = await getRepositories().contacts.upsert(
+      {
+        company_id: contact.companyId,
+        first_name: contact.firstName,
+        last_name: contact.lastName,
+        full_name: contact.fullName,
+        title: contact.title,
+        linkedin_url: contact.linkedinUrl,
+        source: contact.source,
+        source_method: contact.sourceMethod,
+        related_job_ad_id: contact.relatedJobAdId,
+        department: contact.department ?? null,
+        seniority: contact.seniority ?? null,
+      },
+      'linkedin_url'
+    );
+
+    if (!data) {
+      logger.debug('LinkedIn contact already exists, skipping', { linkedinUrl: contact.linkedinUrl });
+      return null;
     }
 
     logger.info('LinkedIn contact upserted', { contactId: data.id });
 
-    return data;
+    return { id: data.id as string };
   } catch (error) {
     logger.error('Error upserting LinkedIn contact', error);
     // Don't throw - contact upsert failures shouldn't break the pipeline
@@ -707,18 +747,11 @@ export async function deleteOldJobsBySource(
 
     logger.info('Deleting old jobs', { source, olderThanDays, cutoffDate: cutoffDate.toISOString() });
 
-    const { data, error } = await supabase
-      .from('jobs')
-      .delete()
-      .eq('source', source)
-      .lt('posted_date', cutoffDate.toISOString().split('T')[0])
-      .select('id');
-
-    if (error) {
-      throw error;
-    }
+    const deletedCount = await getRepositories().jobs.deleteOlderThan(
+      source,
+      cutoffDate.toISOString().split('T')[0]
+    );
 
-    const deletedCount = data?.length || 0;
     logger.info('Old jobs deleted', { source, deletedCount });
 
     return deletedCount;
@@ -733,36 +766,31 @@ export async function deleteOldJobsBySource(
 // ============================================================================
 
 /**
- * Update company with AI scoring results from Google Maps evaluation.
- * Always overwrites — each scrape run produces a fresh evaluation.
+ * Update company with the industry and reasoning from the Google Maps AI evaluation.
+ * Always overwrites — each scrape run produces a fresh evaluation. The evaluation's
+ * score is kept on the listing signal and counts towards the company score
+ * (services/companyScoringService.ts).
  */
-export async function updateCompanyScore(
+export async function updateCompanyEvaluation(
   companyId: string,
-  score: number,
   industry: string,
-  aiReasoning: string
+  aiReasoning: string,
+  aiPrompts: PromptVersions = {}
 ): Promise<void> {
   try {
-    logger.info('Updating company score', { companyId, score, industry });
-
-    const { error } = await supabase
-      .from('companies')
-      .update({
-        current_score: score,
-        industry,
-        ai_reasoning: aiReasoning,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', companyId);
-
-    if (error) {
-      throw error;
-    }
+    logger.info('Updating company evaluation', { companyId, industry });
+
+    await getRepositories().companies.update(companyId, {
+      industry,
+      ai_reasoning: aiReasoning,
+      ai_prompts: aiPrompts,
+      updated_at: new Date().toISOString(),
+    });
 
-    logger.info('Company score updated', { companyId, score });
+    logger.info('Company evaluation updated', { companyId });
   } catch (error) {
-    logger.error('Error updating company score', error);
-    throw new Error(`Failed to update company score: ${getErrorMessage(error)}`);
+    logger.error('Error updating company evaluation', error);
+    throw new Error(`Failed to update company evaluation: ${getErrorMessage(error)}`);
   }
 }
 
@@ -777,25 +805,17 @@ export async function createGoogleMapsSignal(
   try {
     logger.info('Creating Google Maps signal', { companyId });
 
-    const { data, error } = await supabase
-      .from('scraping_signals')
-      .insert({
-        company_id: companyId,
-        signal_type: 'google_maps_listing',
-        source: 'google_maps',
-        signal_date: new Date().toISOString(),
-        payload,
-      })
-      .select('id')
-      .single();
-
-    if (error) {
-      throw error;
-    }
+    const data = await getRepositories().signals.insert({
+      company_id: companyId,
+      signal_type: 'google_maps_listing',
+      source: 'google_maps',
+      signal_date: new Date().toISOString(),
+      payload,
+    });
 
     logger.info('Google Maps signal created', { signalId: data.id });
 
-    return data;
+    return { id: data.id as string };
   } catch (error) {
     logger.error('Error creating Google Maps signal', error);
     throw new Error(`Failed to create Google Maps signal: ${getErrorMessage(error)}`);
@@ -855,36 +875,11 @@ export async function getJobs(filters: {
   offset?: number;
 }): Promise<{ data: Record<string, unknown>[]; count: number }> {
   try {
-    const limit = filters.limit ?? 50;
-    const offset = filters.offset ?? 0;
-
-    let query = supabase
-      .from('jobs')
-      .select(
-        'id, title, source, location, ai_valid, ai_score, ai_category, ai_experience, posted_date, external_url, application_email, salary, duration, published_status, is_ai_generated, created_at, company_id, companies(id, name, domain)',
-        { count: 'exact' }
-      )
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
-
-    if (filters.source) {
-      query = query.eq('source', filters.source);
-    }
-    if (filters.ai_valid !== undefined) {
-      query = query.eq('ai_valid', filters.ai_valid);
-    }
-    if (filters.from_date) {
-      query = query.gte('posted_date', filters.from_date);
-    }
-    if (filters.to_date) {
-      query = query.lte('posted_date', filters.to_date);
-    }
-
-    const { data, error, count } = await query;
-
-    if (error) throw error;
-
-    return { data: (data || []) as Record<string, unknown>[], count: count ?? 0 };
+    return await getRepositories().jobs.list({
+      ...filters,
+      limit: filters.limit ?? 50,
+      offset: filters.offset ?? 0,
+    });
   } catch (error) {
     logger.error('Error fetching jobs', error);
     throw new Error(`Failed to fetch jobs: ${getErrorMessage(error)}`);
@@ -898,17 +893,7 @@ export async function getJobById(
   jobId: string
 ): Promise<Record<string, unknown> | null> {
   try {
-    const { data, error } = await supabase
-      .from('jobs')
-      .select(
-        '*, companies(id, name, domain, industry, current_score, website)'
-      )
-      .eq('id', jobId)
-      .maybeSingle();
-
-    if (error) throw error;
-
-    return data as Record<string, unknown> | null;
+    return await getRepositories().jobs.getDetail(jobId);
   } catch (error) {
     logger.error('Error fetching job by ID', error);
     throw new Error(`Failed to fetch job: ${getErrorMessage(error)}`);
@@ -916,43 +901,21 @@ export async function getJobById(
 }
 
 /**
- * Fetch companies with related counts (jobs, signals, contacts).
- * Supabase doesn't support COUNT on nested relations directly,
- * so we fetch the IDs and count client-side for simplicity.
+ * Fetch companies with related counts (jobs, signals, contacts). Filterable by org number.
  */
 export async function getCompanies(filters: {
   status?: string;
   source?: string;
+  org_number?: string;
   limit?: number;
   offset?: number;
 }): Promise<{ data: Record<string, unknown>[]; count: number }> {
   try {
-    const limit = filters.limit ?? 50;
-    const offset = filters.offset ?? 0;
-
-    const { data, error, count } = await supabase
-      .from('companies')
-      .select(
-        'id, name, domain, industry, region, current_score, status, source, website, linkedin_url, employee_count, company_size, enrichment_status, created_at, updated_at, jobs(id), scraping_signals(id), contacts(id)',
-        { count: 'exact' }
-      )
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
-
-    if (error) throw error;
-
-    // Transform nested arrays to counts
-    const transformed = (data || []).map((company: Record<string, unknown>) => {
-      const { jobs, scraping_signals, contacts, ...rest } = company;
-      return {
-        ...rest,
-        job_count: Array.isArray(jobs) ? jobs.length : 0,
-        signal_count: Array.isArray(scraping_signals) ? scraping_signals.length : 0,
-        contact_count: Array.isArray(contacts) ? contacts.length : 0,
-      };
+    return await getRepositories().companies.list({
+      org_number: filters.org_number,
+      limit: filters.limit ?? 50,
+      offset: filters.offset ?? 0,
     });
-
-    return { data: transformed, count: count ?? 0 };
   } catch (error) {
     logger.error('Error fetching companies', error);
     throw new Error(`Failed to fetch companies: ${getErrorMessage(error)}`);
@@ -966,17 +929,7 @@ export async function getCompanyById(
   companyId: string
 ): Promise<Record<string, unknown> | null> {
   try {
-    const { data, error } = await supabase
-      .from('companies')
-      .select(
-        '*, jobs(id, title, source, location, ai_valid, ai_score, ai_category, posted_date, external_url, created_at), scraping_signals(id, signal_type, source, signal_date, captured_at, payload), contacts(id, full_name, email, phone, title, linkedin_url, source, source_method, created_at)'
-      )
-      .eq('id', companyId)
-      .maybeSingle();
-
-    if (error) throw error;
-
-    return data as Record<string, unknown> | null;
+    return await getRepositories().companies.getDetail(companyId);
   } catch (error) {
     logger.error('Error fetching company by ID', error);
     throw new Error(`Failed to fetch company: ${getErrorMessage(error)}`);
@@ -993,30 +946,11 @@ export async function getContacts(filters: {
   offset?: number;
 }): Promise<{ data: Record<string, unknown>[]; count: number }> {
   try {
-    const limit = filters.limit ?? 50;
-    const offset = filters.offset ?? 0;
-
-    let query = supabase
-      .from('contacts')
-      .select(
-        'id, full_name, first_name, last_name, email, phone, title, linkedin_url, source, source_method, department, seniority, created_at, company_id, companies(id, name, domain)',
-        { count: 'exact' }
-      )
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
-
-    if (filters.source) {
-      query = query.eq('source', filters.source);
-    }
-    if (filters.source_method) {
-      query = query.eq('source_method', filters.source_method);
-    }
-
-    const { data, error, count } = await query;
-
-    if (error) throw error;
-
-    return { data: (data || []) as Record<string, unknown>[], count: count ?? 0 };
+    return await getRepositories().contacts.list({
+      ...filters,
+      limit: filters.limit ?? 50,
+      offset: filters.offset ?? 0,
+    });
   } catch (error) {
     logger.error('Error fetching contacts', error);
     throw new Error(`Failed to fetch contacts: ${getErrorMessage(error)}`);
@@ -1033,30 +967,11 @@ export async function getSignals(filters: {
   offset?: number;
 }): Promise<{ data: Record<string, unknown>[]; count: number }> {
   try {
-    const limit = filters.limit ?? 50;
-    const offset = filters.offset ?? 0;
-
-    let query = supabase
-      .from('scraping_signals')
-      .select(
-        'id, signal_type, source, signal_date, captured_at, expired_at, score_contribution, payload, company_id, companies(id, name, domain)',
-        { count: 'exact' }
-      )
-      .order('captured_at', { ascending: false })
-      .range(offset, offset + limit - 1);
-
-    if (filters.source) {
-      query = query.eq('source', filters.source);
-    }
-    if (filters.signal_type) {
-      query = query.eq('signal_type', filters.signal_type);
-    }
-
-    const { data, error, count } = await query;
-
-    if (error) throw error;
-
-    return { data: (data || []) as Record<string, unknown>[], count: count ?? 0 };
+    return await getRepositories().signals.list({
+      ...filters,
+      limit: filters.limit ?? 50,
+      offset: filters.offset ?? 0,
+    });
   } catch (error) {
     logger.error('Error fetching signals', error);
     throw new Error(`Failed to fetch signals: ${getErrorMessage(error)}`);
@@ -1072,26 +987,28 @@ export async function getDashboardSummary(): Promise<Record<string, unknown>> {
     oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
     const weekCutoff = oneWeekAgo.toISOString();
 
+    const { companies: companyRepo, jobs: jobRepo, contacts: contactRepo, signals: signalRepo } = getRepositories();
+
     // Run all counts in parallel
     const [companies, jobs, contacts, signals, companiesWeek, jobsWeek, signalsWeek] =
       await Promise.all([
-        supabase.from('companies').select('id', { count: 'exact', head: true }),
-        supabase.from('jobs').select('id', { count: 'exact', head: true }),
-        supabase.from('contacts').select('id', { count: 'exact', head: true }),
-        supabase.from('scraping_signals').select('id', { count: 'exact', head: true }),
-        supabase.from('companies').select('id', { count: 'exact', head: true }).gte('created_at', weekCutoff),
-        supabase.from('jobs').select('id', { count: 'exact', head: true }).gte('created_at', weekCutoff),
-        supabase.from('scraping_signals').select('id', { count: 'exact', head: true }).gte('captured_at', weekCutoff),
+        companyRepo.count(),
+        jobRepo.count(),
+        contactRepo.count(),
+        signalRepo.count(),
+        companyRepo.count(weekCutoff),
+        jobRepo.count(weekCutoff),
+        signalRepo.count(weekCutoff),
       ]);
 
     return {
-      total_companies: companies.count ?? 0,
-      total_jobs: jobs.count ?? 0,
-      total_contacts: contacts.count ?? 0,
-      total_signals: signals.count ?? 0,
-      companies_this_week: companiesWeek.count ?? 0,
-      jobs_this_week: jobsWeek.count ?? 0,
-      signals_this_week: signalsWeek.count ?? 0,
+      total_companies: companies,
+      total_jobs: jobs,
+      total_contacts: contacts,
+      total_signals: signals,
+      companies_this_week: companiesWeek,
+      jobs_this_week: jobsWeek,
+      signals_this_week: signalsWeek,
     };
   } catch (error) {
     logger.error('Error fetching dashboard summary', error);
@@ -1112,39 +1029,55 @@ export async function getAlerts(filters: {
   offset?: number;
 }): Promise<{ data: Record<string, unknown>[]; count: number }> {
   try {
-    const limit = filters.limit ?? 50;
-    const offset = filters.offset ?? 0;
-
     const defaultFrom = new Date();
     defaultFrom.setDate(defaultFrom.getDate() - 7);
 
-    let query = supabase
-      .from('system_alerts')
-      .select('*', { count: 'exact' })
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
-
-    if (filters.source) {
-      query = query.eq('source', filters.source);
-    }
-    if (filters.severity) {
-      query = query.eq('severity', filters.severity);
-    }
-
-    const fromDate = filters.from_date || defaultFrom.toISOString();
-    query = query.gte('created_at', fromDate);
-
-    if (filters.to_date) {
-      query = query.lte('created_at', filters.to_date);
-    }
-
-    const { data, error, count } = await query;
-
-    if (error) throw error;
-
-    return { data: (data || []) as Record<string, unknown>[], count: count ?? 0 };
+    return await getRepositories().alerts.list({
+      ...filters,
+      from_date: filters.from_date || defaultFrom.toISOString(),
+      limit: filters.limit ?? 50,
+      offset: filters.offset ?? 0,
+    });
   } catch (error) {
     logger.error('Error fetching system alerts', error);
     throw new Error(`Failed to fetch system alerts: ${getErrorMessage(error)}`);
   }
 }
+
+/**
+ * Fetch scraper run history with optional filters.
+ * Ordered by started_at DESC, limit 50 by default.
+ */
+export async function getScraperRuns(filters: {
+  source?: string;
+  status?: string;
+  from_date?: string;
+  to_date?: string;
+  limit?: number;
+  offset?: number;
+}): Promise<{ data: Record<string, unknown>[]; count: number }> {
+  try {
+    return await getRepositories().scraperRuns.list({
+      ...filters,
+      limit: filters.limit ?? 50,
+      offset: filters.offset ?? 0,
+    });
+  } catch (error) {
+    logger.error('Error fetching scraper runs', error);
+    throw new Error(`Failed to fetch scraper runs: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Fetch a single scraper run by its run ID, including the full error list
+ */
+export async function getScraperRunById(
+  runId: string
+): Promise<Record<string, unknown> | null> {
+  try {
+    return await getRepositories().scraperRuns.getByRunId(runId);
+  } catch (error) {
+    logger.error('Error fetching scraper run by ID', error);
+    throw new Error(`Failed to fetch scraper run: ${getErrorMessage(error)}`);
+  }
+}
@@ -0,0 +1,375 @@
+import { logger, getErrorMessage } from '../utils/logger.js';
+import { getRepositories } from '../repositories/index.js';
+import { generateJobAd } from './aiService.js';
+import { sendEmailToLead } from './emailService.js';
+import { emitAlert } from './alertService.js';
+import { extractTextFromPdf } from './cvParsingService.js';
+import { parseCv } from './aiService.js';
+import {
+  upsertContact,
+  createJobAdRecord,
+  createClientAccessRequest,
+  notifyAdmins,
+  updateRejectedLead,
+} from './supabaseService.js';
+import type {
+  FormData,
+  AIScoreResult,
+  NormalizedCompanyData,
+  ContactData,
+  JobAdData,
+  OutboxStep,
+  OutboxRunSummary,
+} from '../types/index.js';
+
+// Retry delays double from BASE_BACKOFF_MS; a step is marked failed after MAX_ATTEMPTS
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 2 * 60 * 1000;
+// A step still 'processing' after this long belongs to a run that died mid-way
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_BATCH_SIZE = 20;
+
+/** Everything the valid-lead side effects need, captured when the webhook is processed */
+export interface ValidLeadContext {
+  formData: FormData;
+  aiScore: AIScoreResult;
+  normalizedData: NormalizedCompanyData;
+  contactData: ContactData;
+  companyId: string;
+  // Set when a rejected lead is reprocessed (see rejectedLeadService.ts)
+  rejectedLeadId?: string;
+}
+
+/** A CV attached to a candidate application, downloaded and parsed outside the webhook request */
+export interface CandidateCvContext {
+  candidateId: string;
+  fileUrl: string;
+}
+
+type OutboxContext = ValidLeadContext | CandidateCvContext;
+type StepResults = Partial<Record<OutboxStep, unknown>>;
+
+interface StepDefinition<Context extends OutboxContext = ValidLeadContext> {
+  // Steps that must have completed first; their results are passed to run()
+  dependsOn: OutboxStep[];
+  run(context: Context, results: StepResults): Promise<unknown>;
+}
+
+// Run in this order
+const STEPS: { [Step in OutboxStep]: StepDefinition<Step extends 'parse_cv' ? CandidateCvContext : ValidLeadContext> } = {
+  upsert_contact: {
+    dependsOn: [],
+    run: async ({ contactData }) => ({ contact_id: (await upsertContact(contactData)).id }),
+  },
+  generate_job_ad: {
+    dependsOn: [],
+    run: ({ formData, normalizedData }) => generateJobAd(formData, normalizedData),
+  },
+  create_job_ad: {
+    dependsOn: ['generate_job_ad'],
+    run: async ({ formData, aiScore, companyId }, results) => {
+      const jobAd = results.generate_job_ad as JobAdData;
+      const record = await createJobAdRecord({ ...jobAd, company_id: companyId }, formData, aiScore);
+      return { job_id: record.id };
+    },
+  },
+  send_lead_email: {
+    dependsOn: ['generate_job_ad', 'create_job_ad'],
+    run: async ({ formData }, results) => {
+      const email = await sendEmailToLead(
+        formData.email || '',
+        results.generate_job_ad as JobAdData,
+        formData.company_name || ''
+      );
+      return { email_id: email.id };
+    },
+  },
+  create_access_request: {
+    dependsOn: [],
+    run: async ({ formData }) => ({ request_id: await createClientAccessRequest(formData) }),
+  },
+  notify_admins: {
+    dependsOn: ['create_access_request'],
+    run: async ({ formData }, results) => {
+      const { request_id: requestId } = results.create_access_request as { request_id: string };
+      await notifyAdmins(
+        'access_request',
+        `Ny kundförfrågan från ${formData.company_name || 'Okänt företag'}`,
+        `${formData.full_name || 'Okänd'} har skickat en förfrågan.`,
+        `/access-requests/${requestId}`,
+        { accessRequestId: requestId, companyName: formData.company_name }
+      );
+      return null;
+    },
+  },
+  // Only queued when reprocessing a rejected lead: points the row at the new contact and job ad
+  link_rejected_lead: {
+    dependsOn: ['upsert_contact', 'create_job_ad'],
+    run: async ({ rejectedLeadId }, results) => {
+      const { contact_id: contactId } = results.upsert_contact as { contact_id: string };
+      const { job_id: jobId } = results.create_job_ad as { job_id: string };
+      await updateRejectedLead(rejectedLeadId as string, { contact_id: contactId, job_ad_id: jobId });
+      return null;
+    },
+  },
+  // Candidate applications only. A failed attempt is recorded on the application until a retry succeeds.
+  parse_cv: {
+    dependsOn: [],
+    run: async ({ candidateId, fileUrl }) => {
+      const { candidates } = getRepositories();
+
+      try {
+        const cvData = await parseCv(await extractTextFromPdf(fileUrl));
+        await candidates.update(candidateId, { cv_status: 'parsed', cv_data: cvData, cv_error: null });
+      } catch (error) {
+        await candidates.update(candidateId, { cv_status: 'failed', cv_error: getErrorMessage(error) });
+        throw error;
+      }
+
+      return { candidate_id: candidateId };
+    },
+  },
+};
+
+const STEP_ORDER = Object.keys(STEPS) as OutboxStep[];
+const VALID_LEAD_STEPS = STEP_ORDER.filter((step) => step !== 'parse_cv');
+
+/**
+ * Delay before the next attempt: 2, 4, 8 ... minutes
+ */
+export function outboxBackoffMs(attempts: number): number {
+  return BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1);
+}
+
+/**
+ * Record the side effects of a valid lead as pending outbox steps.
+ * Run them with runOutboxSubmission(); failed steps are retried by processOutbox().
+ */
+export async function enqueueValidLead(submissionId: string, context: ValidLeadContext): Promise<void> {
+  try {
+    const now = new Date().toISOString();
+    const steps = VALID_LEAD_STEPS.filter((step) => step !== 'link_rejected_lead' || context.rejectedLeadId);
+
+    await getRepositories().outbox.insertMany(
+      steps.map((step) => ({
+        submission_id: submissionId,
+        step,
+        status: 'pending',
+        payload: context,
+        attempts: 0,
+        next_attempt_at: now,
+      }))
+    );
+
+    logger.info('Valid lead side effects queued', { submissionId, steps: steps.length });
+  } catch (error) {
+    logger.error('Error queueing valid lead side effects', error);
+    throw new Error(`Failed to queue valid lead side effects: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Queue the download and parsing of a candidate's CV. It runs with the next
+ * processOutbox() instead of blocking the webhook response.
+ */
+export async function enqueueCandidateCv(submissionId: string, context: CandidateCvContext): Promise<void> {
+  try {
+    await getRepositories().outbox.insertMany([
+      {
+        submission_id: submissionId,
+        step: 'parse_cv',
+        status: 'pending',
+        payload: context,
+        attempts: 0,
+        next_attempt_at: new Date().toISOString(),
+      },
+    ]);
+
+    logger.info('Candidate CV parsing queued', { submissionId, candidateId: context.candidateId });
+  } catch (error) {
+    logger.error('Error queueing candidate CV parsing', error);
+    throw new Error(`Failed to queue candidate CV parsing: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Run the due steps of one submission in order.
+ *
+ * A step runs once the steps it depends on have completed. Failures are scheduled
+ * for a retry with exponential backoff, and marked failed (with an alert) after
+ * MAX_ATTEMPTS; steps depending on a failed step are marked failed as well.
+ * Step errors never throw — they are reported in the summary.
+ */
+export async function runOutboxSubmission(submissionId: string): Promise<OutboxRunSummary> {
+  const repo = getRepositories().outbox;
+  const rows = await repo.listBySubmission(submissionId);
+  const byStep = new Map(rows.map((row) => [row.step as OutboxStep, row]));
+  const results: StepResults = {};
+
+  for (const row of rows) {
+    if (row.status === 'completed') results[row.step as OutboxStep] = row.result;
+  }
+
+  for (const step of STEP_ORDER) {
+    const row = byStep.get(step);
+    if (!row || row.status === 'completed' || row.status === 'failed') continue;
+
+    const definition: StepDefinition<OutboxContext> = STEPS[step];
+    const dependencies = definition.dependsOn.map((dependency) => byStep.get(dependency));
+    const failedDependency = dependencies.find((dependency) => dependency?.status === 'failed');
+
+    if (failedDependency) {
+      const updates = { status: 'failed', last_error: `Blocked by failed step ${failedDependency.step}` };
+      await repo.update(row.id as string, updates);
+      Object.assign(row, updates);
+      continue;
+    }
+
+    const now = new Date();
+    if (row.status === 'pending' && new Date(String(row.next_attempt_at)) > now) continue;
+
+    const waitingOn = dependencies.find((dependency) => dependency?.status !== 'completed');
+    if (waitingOn) {
+      // Not due before its dependency, so the worker doesn't keep picking it up
+      if (waitingOn.status === 'pending' && waitingOn.next_attempt_at !== row.next_attempt_at) {
+        await repo.update(row.id as string, { next_attempt_at: waitingOn.next_attempt_at });
+        row.next_attempt_at = waitingOn.next_attempt_at;
+      }
+      continue;
+    }
+
+    const staleBefore = new Date(now.getTime() - LOCK_TIMEOUT_MS).toISOString();
+    if (!(await repo.claim(row.id as string, now.toISOString(), staleBefore))) continue;
+
+    const attempts = Number(row.attempts ?? 0) + 1;
+
+    try {
+      const result = await definition.run(row.payload as OutboxContext, results);
+      const updates = { status: 'completed', attempts, result, last_error: null, completed_at: new Date().toISOString() };
+
+      await repo.update(row.id as string, updates);
+      Object.assign(row, updates);
+      results[step] = result;
+    } catch (error) {
+      const message = getErrorMessage(error);
+      const exhausted = attempts >= MAX_ATTEMPTS;
+      const updates = exhausted
+        ? { status: 'failed', attempts, last_error: message }
+        : {
+            status: 'pending',
+            attempts,
+            last_error: message,
+            next_attempt_at: new Date(Date.now() + outboxBackoffMs(attempts)).toISOString(),
+          };
+
+      await repo.update(row.id as string, updates);
+      Object.assign(row, updates);
+
+      logger.warn('Outbox step failed', { submissionId, step, attempts, exhausted, error: message });
+
+      if (exhausted) {
+        emitAlert({
+          source: 'website_form',
+          stage: 'webhook_outbox',
+          severity: 'critical',
+          title: `Webhook step ${step} failed after ${attempts} attempts`,
+          message,
+          metadata: { submissionId, step },
+          relatedCompanyId: (row.payload as Partial<ValidLeadContext>).companyId,
+        });
+      }
+    }
+  }
+
+  const count = (status: string) => rows.filter((row) => row.status === status).length;
+
+  return {
+    submissionId,
+    completed: count('completed'),
+    pending: rows.length - count('completed') - count('failed'),
+    failed: count('failed'),
+    results,
+  };
+}
+
+/**
+ * Retry due outbox steps (called from cron).
+ */
+export async function processOutbox(limit = DEFAULT_BATCH_SIZE): Promise<{
+  submissions: number;
+  completed: number;
+  pending: number;
+  failed: number;
+}> {
+  try {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - LOCK_TIMEOUT_MS).toISOString();
+    const submissionIds = await getRepositories().outbox.findDueSubmissionIds(now.toISOString(), staleBefore, limit);
+
+    const stats = { submissions: submissionIds.length, completed: 0, pending: 0, failed: 0 };
+
+    for (const submissionId of submissionIds) {
+      const summary = await runOutboxSubmission(submissionId);
+      stats.completed += summary.completed;
+      stats.pending += summary.pending;
+      stats.failed += summary.failed;
+    }
+
+    logger.info('Outbox processed', stats);
+    return stats;
+  } catch (error) {
+    logger.error('Error processing outbox', error);
+    throw new Error(`Failed to process outbox: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Make every unfinished step of a submission due now (failed steps start over), then run it.
+ * Returns null when the submission has no outbox steps.
+ */
+export async function retryOutboxSubmission(submissionId: string): Promise<OutboxRunSummary | null> {
+  try {
+    const repo = getRepositories().outbox;
+    const rows = await repo.listBySubmission(submissionId);
+    if (rows.length === 0) return null;
+
+    const now = new Date().toISOString();
+    for (const row of rows) {
+      if (row.status === 'pending' || row.status === 'failed') {
+        await repo.update(row.id as string, {
+          status: 'pending',
+          next_attempt_at: now,
+          ...(row.status === 'failed' ? { attempts: 0 } : {}),
+        });
+      }
+    }
+
+    logger.info('Outbox submission retry requested', { submissionId });
+    return await runOutboxSubmission(submissionId);
+  } catch (error) {
+    logger.error('Error retrying outbox submission', error);
+    throw new Error(`Failed to retry outbox submission: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * List outbox steps (without payloads) with optional filters.
+ */
+export async function getOutboxEntries(filters: {
+  status?: string;
+  step?: string;
+  submission_id?: string;
+  limit?: number;
+  offset?: number;
+}): Promise<{ data: Record<string, unknown>[]; count: number }> {
+  try {
+    return await getRepositories().outbox.list({
+      ...filters,
+      limit: filters.limit ?? 50,
+      offset: filters.offset ?? 0,
+    });
+  } catch (error) {
+    logger.error('Error fetching outbox entries', error);
+    throw new Error(`Failed to fetch outbox entries: ${getErrorMessage(error)}`);
+  }
+}
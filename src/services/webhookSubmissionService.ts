@@ -0,0 +1,97 @@
+import { config } from '../config/env.js';
+import { logger, getErrorMessage } from '../utils/logger.js';
+import { getRepositories } from '../repositories/index.js';
+
+// A claim still 'processing' after this long belongs to a request that died mid-way
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type SubmissionClaim =
+  | { status: 'new' }
+  // Already processed: return the stored result
+  | { status: 'replay'; statusCode: number; response: unknown }
+  // Another request with the same key is being processed right now
+  | { status: 'in_progress' }
+  // The key was used for a different request body
+  | { status: 'key_mismatch' };
+
+function isExpired(submission: Record<string, unknown>, now: number): boolean {
+  const createdAt = new Date(String(submission.created_at)).getTime();
+  const maxAgeMs =
+    submission.status === 'completed' ? config.webhook.idempotencyTtlHours * 60 * 60 * 1000 : PROCESSING_TIMEOUT_MS;
+  return now - createdAt > maxAgeMs;
+}
+
+/**
+ * Claim an idempotency key for a webhook submission.
+ *
+ * The first request for a key gets 'new' and must later call completeSubmission()
+ * or releaseSubmission(). Repeats get the stored result once it is complete.
+ * Expired submissions (past the TTL, or abandoned while processing) are replaced.
+ */
+export async function claimSubmission(key: string, requestHash: string): Promise<SubmissionClaim> {
+  const repo = getRepositories().webhookSubmissions;
+
+  try {
+    // Two attempts: the first may find an expired row (or one released in between)
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const claimed = await repo.claim({
+        idempotency_key: key,
+        request_hash: requestHash,
+        status: 'processing',
+        created_at: new Date().toISOString(),
+      });
+      if (claimed) return { status: 'new' };
+
+      const existing = await repo.findByKey(key);
+      if (!existing) continue;
+
+      if (isExpired(existing, Date.now())) {
+        logger.info('Replacing expired webhook submission', { status: existing.status });
+        await repo.delete(key);
+        continue;
+      }
+
+      if (existing.request_hash !== requestHash) return { status: 'key_mismatch' };
+
+      if (existing.status === 'completed') {
+        return { status: 'replay', statusCode: Number(existing.status_code), response: existing.response };
+      }
+
+      return { status: 'in_progress' };
+    }
+
+    return { status: 'in_progress' };
+  } catch (error) {
+    logger.error('Error claiming webhook submission', error);
+    throw new Error(`Failed to claim webhook submission: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Store the response for a claimed key so repeats get the same result
+ */
+export async function completeSubmission(key: string, statusCode: number, response: unknown): Promise<void> {
+  try {
+    await getRepositories().webhookSubmissions.update(key, {
+      status: 'completed',
+      status_code: statusCode,
+      response,
+      completed_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Error completing webhook submission', error);
+    throw new Error(`Failed to complete webhook submission: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Drop a claim without storing a result, so the key can be retried
+ */
+export async function releaseSubmission(key: string): Promise<void> {
+  try {
+    await getRepositories().webhookSubmissions.delete(key);
+  } catch (error) {
+    logger.error('Error releasing webhook submission', error);
+    throw new Error(`Failed to release webhook submission: ${getErrorMessage(error)}`);
+  }
+}
@@ -1,3 +1,5 @@
+import type { AIUsageSummary } from './index.js';
+
 export type HealthCheckSeverity = 'ok' | 'warning' | 'critical';
 export type HealthCheckCategory =
   | 'referential_integrity'
@@ -26,6 +28,8 @@ export interface HealthCheckResult {
   signalsBySource: SignalsBySource[];
   topCompanies: TopCompanyBySignals[];
   jobsBySource: JobsBySource[];
+  // LLM usage and estimated cost over the last 7 days (null if it could not be loaded)
+  aiUsage: AIUsageSummary | null;
 }
 
 export interface SignalsBySource {
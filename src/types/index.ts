@@ -8,6 +8,7 @@ export interface FormData {
   email?: string;
   phone?: string;
   company_name?: string;
+  org_number?: string;
   industry?: string;
   service_type?: string;
   needs_description?: string;
@@ -26,10 +27,27 @@ export interface ValidationDetails {
 }
 
 // Lead data after validation
+// A rule that fired for a lead, with why
+export interface LeadRuleHit {
+  rule: string;
+  weight: number;
+  reason: string;
+}
+
+// Explainable result of the lead quality rules (stored with fast-rejected leads)
+export interface LeadQualityBreakdown {
+  score: number;
+  threshold: number;
+  rejected: boolean;
+  hits: LeadRuleHit[];
+}
+
 export interface ValidatedLead extends FormData {
   validation_score: number;
+  // Rejected by the lead quality rules (spam indicators or an incomplete form)
   is_likely_spam: boolean;
   validation_details: ValidationDetails;
+  quality: LeadQualityBreakdown;
 }
 
 // Classification types from AI scoring
@@ -42,12 +60,14 @@ export interface AIScoreResult {
   classification: LeadClassification;
   key_requirements: string[];
   ai_reasoning: string;
+  // Version of the lead_scoring prompt that produced the result
+  prompt_version?: string;
 }
 
 // Data after domain extraction
 export interface DataWithDomain extends ValidatedLead, AIScoreResult {
   extracted_domain: string | null;
-  domain_source: 'email' | 'guessed' | 'none';
+  domain_source: 'email' | 'none';
 }
 
 // Normalized company data for database operations
@@ -83,6 +103,8 @@ export interface JobAdData {
   category: string;
   external_url: string;
   posted_date: string;
+  // Version of the job_ad_generation prompt that produced the ad
+  prompt_version?: string;
 }
 
 // Job ad data with company ID for database
@@ -159,6 +181,7 @@ export interface Config {
   supabase: {
     url: string;
     key: string | undefined;
+    cvBucket: string;
   };
   resend: {
     apiKey: string | undefined;
@@ -169,6 +192,8 @@ export interface Config {
   };
   webhook: {
     secret: string | undefined;
+    timestampToleranceSeconds: number;
+    idempotencyTtlHours: number;
   };
   apify: {
     apiKey: string | undefined;
@@ -183,10 +208,90 @@ export interface Config {
     googleMapsEnabled: boolean;
     keywords: string;
     exclusionKeywords: string[];
+    titleExclusionKeywords: string[];
+    exclusionPatterns: string[];
+    excludeSenior: boolean;
+    blockedCompanies: string[];
+    minDescriptionLength: number;
     country: string;
     maxItems: number;
     retentionDays: number;
   };
+  aiCache: {
+    backend: 'memory' | 'table' | 'off';
+    ttlHours: number;
+    maxEntries: number;
+  };
+  // USD per million tokens, keyed by model id
+  aiPricing: Record<string, AIModelPrice>;
+  llm: {
+    provider: 'openai' | 'mock';
+    fixturesDir: string | undefined;
+    recordFixturesDir: string | undefined;
+  };
+  storage: {
+    backend: 'supabase' | 'memory';
+  };
+  leadRules: {
+    file: string | undefined;
+  };
+  prompts: {
+    // Prompt id -> active version
+    versions: Record<string, string>;
+  };
+}
+
+export interface AIModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// AI result cache lookups for one request or scraper run
+export interface AICacheStats {
+  hits: number;
+  misses: number;
+}
+
+// Token usage and estimated cost of one LLM completion
+export interface AIUsageRecord {
+  feature: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  // null when the model is missing from the price table
+  costUsd: number | null;
+  // 'ok' or the LLM failure kind (invalid_json, schema_mismatch, ...)
+  status: string;
+}
+
+// One row of the ai_usage_daily RPC
+export interface AIUsageDailyRow {
+  day: string;
+  feature: string;
+  model: string;
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+  avg_latency_ms: number;
+  failed_calls: number;
+}
+
+export interface AIUsageTotals {
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface AIUsageSummary {
+  from: string;
+  to: string;
+  totals: AIUsageTotals;
+  byFeature: Array<AIUsageTotals & { feature: string; models: string[]; avgLatencyMs: number }>;
+  byDay: Array<AIUsageTotals & { day: string }>;
 }
 
 // Logger meta type
@@ -207,9 +312,58 @@ export interface WebhookSuccessResponse {
   job_ad_title?: string;
   job_ad_description?: string;
   reason?: string;
+  // Non-employer forms (candidate, partnership, newsletter)
+  form_type?: string;
+  record_id?: string;
+  cv_status?: CvStatus;
   processingTime: number;
 }
 
+// CV parsing outcome for a candidate application ('none' when no fileUrl was sent,
+// 'pending' until the outbox has parsed it)
+export type CvStatus = 'none' | 'pending' | 'parsed' | 'failed';
+
+// Human review of an AI lead classification (stored in lead_feedback)
+export type LeadFeedbackType = 'rejected_lead' | 'signal';
+
+export interface LeadFeedbackAccuracy {
+  // Reviews of leads that had an AI classification (not fast rejects or processing errors)
+  reviewed: number;
+  agreed: number;
+  accuracy: number | null;
+  // Mean |human score - AI score| where both are known
+  mean_score_delta: number | null;
+}
+
+export interface LeadFeedbackStats {
+  overall: LeadFeedbackAccuracy;
+  groups: Array<LeadFeedbackAccuracy & { key: string }>;
+  // AI classification -> human classification -> count
+  confusion: Record<string, Record<string, number>>;
+}
+
+// Webhook outbox: side effects of a valid lead and candidate CV parsing, retried until they succeed
+export type OutboxStep =
+  | 'upsert_contact'
+  | 'generate_job_ad'
+  | 'create_job_ad'
+  | 'send_lead_email'
+  | 'create_access_request'
+  | 'notify_admins'
+  | 'link_rejected_lead'
+  | 'parse_cv';
+
+export type OutboxStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface OutboxRunSummary {
+  submissionId: string;
+  completed: number;
+  pending: number;
+  failed: number;
+  // Step results by step (e.g. the generated job ad)
+  results: Partial<Record<OutboxStep, unknown>>;
+}
+
 // System alerts
 export type SystemAlertSource =
   | 'website_form'
@@ -225,7 +379,8 @@ export type SystemAlertStage =
   | 'db_insert'
   | 'email_send'
   | 'pipeline_failure'
-  | 'webhook_processing';
+  | 'webhook_processing'
+  | 'webhook_outbox';
 
 export type SystemAlertSeverity = 'critical' | 'warning' | 'info';
 
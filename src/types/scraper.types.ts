@@ -1,7 +1,11 @@
 // Scraper types for job scraping and lead generation
 
-// Scraper sources
-export type JobScraperSource = 'indeed' | 'linkedin' | 'arbetsformedlingen';
+import type { SystemAlertSource, AICacheStats } from './index.js';
+
+// Scraper sources — every job board needs an entry here and an adapter
+// registered in services/jobs/jobSourceRegistry.ts
+export const JOB_SCRAPER_SOURCES = ['indeed', 'linkedin', 'arbetsformedlingen'] as const;
+export type JobScraperSource = (typeof JOB_SCRAPER_SOURCES)[number];
 export type LeadScraperSource = 'google_maps';
 export type ScraperSource = JobScraperSource | LeadScraperSource;
 
@@ -32,6 +36,8 @@ export interface NormalizedJob {
   postedAt?: string;
   jobType?: string;
   salary?: string;
+  // Employer's organisation number (NNNNNN-NNNN): from the source data, or labelled in the description
+  orgNumber?: string;
   source: JobScraperSource;
   rawData: Record<string, unknown>;
 }
@@ -46,6 +52,10 @@ export interface JobEvaluationResult {
   reasoning: string;
   applicationEmail: string;
   duration: string;
+  // Employer's organisation number found by the AI (job_evaluation v2 and later), validated
+  orgNumber?: string;
+  // Version of the job_evaluation prompt (unset for fallback evaluations)
+  promptVersion?: string;
 }
 
 // Job processing result (after AI + DB operations)
@@ -62,9 +72,33 @@ export interface ProcessedJob {
 // Scraper run configuration
 export interface ScraperRunConfig {
   keywords?: string;
-  exclusionKeywords?: string[];
   country?: string;
   maxItems?: number;
+  // Filter overrides for this run (see JobFilterConfig)
+  exclusionKeywords?: string[];
+  titleExclusionKeywords?: string[];
+  exclusionPatterns?: string[];
+  excludeSenior?: boolean;
+  blockedCompanies?: string[];
+  minDescriptionLength?: number;
+}
+
+// Filters applied to new jobs before AI evaluation, one stage per setting.
+// Keywords match whole words, case-insensitively; a * at either end matches the
+// rest of a word (e.g. "*chef" matches "ekonomichef").
+export interface JobFilterConfig {
+  // Matched against title, company and description
+  exclusionKeywords: string[];
+  // Matched against the title only
+  titleExclusionKeywords: string[];
+  // Case-insensitive regular expressions matched against title and description
+  exclusionPatterns: string[];
+  // Drop senior titles and ads requiring more years of experience than the target segment
+  excludeSenior: boolean;
+  // Company names, compared after normalizeCompanyName (e.g. "Acme AB" = "acme")
+  blockedCompanies: string[];
+  // Minimum description length in characters (0 disables)
+  minDescriptionLength: number;
 }
 
 // Scraper run result
@@ -76,16 +110,72 @@ export interface ScraperRunResult {
   duration: number;
   stats: {
     fetched: number;
+    // New jobs after same-source and cross-source deduplication
     afterDedup: number;
+    // Postings already seen on another source, linked to the canonical job
+    crossSourceDuplicates: number;
     afterFilter: number;
+    // Jobs dropped by each filter stage, in stage order
+    filterDrops: Record<string, number>;
     processed: number;
     valid: number;
     discarded: number;
     errors: number;
+    // hiring_spike signals recorded for the companies with new valid jobs
+    hiringSpikes: number;
   };
   validJobs: ProcessedJob[];
   discardedJobs: ProcessedJob[];
   errors: Array<{ job?: NormalizedJob; error: string }>;
+  // AI result cache lookups made while evaluating jobs
+  aiCache?: AICacheStats;
+}
+
+// Job source adapter — everything the routes, cron and cleanup need to know
+// about a job board. The pipeline after fetch is shared by all sources.
+export interface JobSourceAdapter<TRaw = unknown> {
+  source: JobScraperSource;
+  // URL segment for POST /api/scraping/jobs/:source (defaults to source)
+  slug: string;
+  displayName: string;
+  alertSource: SystemAlertSource;
+  // Env var that toggles this source, used in disabled/skip messages
+  enabledFlag: string;
+  isEnabled(): boolean;
+  // Cron expression (UTC) and a human-readable label for the startup log
+  schedule: { cron: string; label: string };
+  // Used when the run request body fails validation
+  defaultRunConfig: ScraperRunConfig;
+  // Falls back to the global exclusion list when omitted
+  defaultExclusionKeywords?: string[];
+  fetch(runConfig?: ScraperRunConfig): Promise<TRaw[]>;
+  normalize(raw: TRaw): NormalizedJob;
+}
+
+// Progress reported after each processJobBatch / processCompanyBatch chunk
+export interface BatchProgress {
+  completed: number;
+  total: number;
+  succeeded: number;
+}
+
+// Optional hooks for pipeline callers (route handlers, async run queue)
+export interface PipelineRunOptions {
+  // Pre-assigned run id, e.g. returned to the client before the run starts
+  runId?: string;
+  onProgress?: (progress: BatchProgress) => void;
+  // Job filters (default: the configured filters of the source)
+  filters?: JobFilterConfig;
+}
+
+// Persisted scraper run (scraper_runs table)
+export type ScraperRunStatus = 'completed' | 'partial' | 'failed';
+
+export interface ScraperRunError {
+  error: string;
+  externalId?: string;
+  title?: string;
+  company?: string;
 }
 
 // Contact extracted from job
@@ -181,7 +271,7 @@ export interface RawAFJob {
   id: string;
   external_id?: string;
   headline: string;
-  employer: { name: string };
+  employer: { name: string; organization_number?: string | null };
   workplace_address?: {
     municipality?: string;
     region?: string;
@@ -276,6 +366,8 @@ export interface NormalizedGoogleMapsCompany {
   reviewsCount?: number;
   phone?: string;
   googleRating?: number;
+  // Organisation number labelled in the place description
+  orgNumber?: string;
   leads: GoogleMapsLead[];
   rawData: Record<string, unknown>;
 }
@@ -287,6 +379,8 @@ export interface CompanyEvaluationResult {
   reasoning: string;
   industryCategory: string;
   sizeEstimate: string;
+  // Version of the company_scoring prompt (unset for fallback evaluations)
+  promptVersion?: string;
 }
 
 // Company processing result (after AI + DB operations)
@@ -319,6 +413,8 @@ export interface LeadScraperRunResult {
   validCompanies: ProcessedCompany[];
   discardedCompanies: ProcessedCompany[];
   errors: Array<{ company?: NormalizedGoogleMapsCompany; error: string }>;
+  // AI result cache lookups made while evaluating companies
+  aiCache?: AICacheStats;
 }
 
 // Google Maps scraper config
@@ -0,0 +1,127 @@
+import { normalizeOrgNumber } from './orgNumber.js';
+
+/**
+ * Company entity resolution: whether two company records are likely the same
+ * company ("Klarna", "Klarna Bank AB" and "Klarna AB (publ)").
+ *
+ * Org numbers decide when both companies have one. Otherwise a shared domain and
+ * the similarity of the names, after legal suffixes are stripped, are scored.
+ * Matches are merge candidates for a human to confirm, never merged automatically.
+ */
+
+export interface CompanyIdentity {
+  id: string;
+  name: string;
+  domain?: string | null;
+  org_number?: string | null;
+}
+
+export type CompanyMatchReason = 'org_number' | 'domain' | 'name';
+
+export interface CompanyMatch {
+  id: string;
+  name: string;
+  // 0-1
+  score: number;
+  // 0-1, token similarity of the names
+  name_similarity: number;
+  reasons: CompanyMatchReason[];
+}
+
+// Below this, a match isn't worth proposing
+export const MIN_MATCH_SCORE = 0.7;
+
+const DOMAIN_MATCH_SCORE = 0.95;
+// Two different real domains suggest two companies (or a group with country sites)
+const DOMAIN_MISMATCH_PENALTY = 0.15;
+
+const LEGAL_SUFFIXES = new Set([
+  'ab', 'aktiebolag', 'publ', 'hb', 'kb', 'as', 'asa', 'oy', 'aps', 'gmbh', 'ltd', 'limited', 'inc',
+  'group', 'sweden', 'sverige', 'nordic', 'scandinavia',
+]);
+
+/**
+ * Words of a company name without diacritics, punctuation and legal suffixes
+ * ("Klarna Bank AB (publ)" -> ["klarna", "bank"])
+ */
+export function companyNameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token && !LEGAL_SUFFIXES.has(token));
+}
+
+/**
+ * Token similarity of two names: the mean of the Jaccard index and the overlap
+ * with the shorter name, so "Klarna" vs "Klarna Bank" scores 0.75 and
+ * "Volvo Cars" vs "Volvo Trucks" 0.42. Names equal once their words are joined
+ * ("Sky Scanner" / "Skyscanner") score 1.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = companyNameTokens(a);
+  const tokensB = companyNameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+  if (tokensA.join('') === tokensB.join('')) return 1;
+
+  const setA = new Set(tokensA);
+  const setB = new Set(tokensB);
+  const shared = [...setA].filter((token) => setB.has(token)).length;
+  const union = setA.size + setB.size - shared;
+
+  return (shared / union + shared / Math.min(setA.size, setB.size)) / 2;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * How likely two companies are the same company, with the evidence behind it
+ */
+export function matchCompanies(company: CompanyIdentity, other: CompanyIdentity): CompanyMatch {
+  const nameScore = nameSimilarity(company.name, other.name);
+  const result = (score: number, reasons: CompanyMatchReason[]): CompanyMatch => ({
+    id: other.id,
+    name: other.name,
+    score: round(Math.max(0, Math.min(1, score))),
+    name_similarity: round(nameScore),
+    reasons,
+  });
+
+  const orgNumber = normalizeOrgNumber(company.org_number);
+  const otherOrgNumber = normalizeOrgNumber(other.org_number);
+  if (orgNumber && otherOrgNumber) {
+    return orgNumber === otherOrgNumber ? result(1, ['org_number']) : result(0, []);
+  }
+
+  const reasons: CompanyMatchReason[] = [];
+  let score = nameScore;
+
+  if (nameScore > 0) reasons.push('name');
+
+  if (company.domain && other.domain) {
+    if (company.domain === other.domain) {
+      score = Math.max(score, DOMAIN_MATCH_SCORE);
+      reasons.unshift('domain');
+    } else {
+      score -= DOMAIN_MISMATCH_PENALTY;
+    }
+  }
+
+  return result(score, reasons);
+}
+
+/**
+ * The companies likely to be the same as `company`, best first
+ */
+export function findMatchingCompanies(
+  company: CompanyIdentity,
+  candidates: CompanyIdentity[],
+  minScore: number = MIN_MATCH_SCORE
+): CompanyMatch[] {
+  return candidates
+    .filter((candidate) => candidate.id !== company.id)
+    .map((candidate) => matchCompanies(company, candidate))
+    .filter((match) => match.score >= minScore)
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,157 @@
+/**
+ * Company lead score: how promising a company is as a customer right now, from all
+ * of its signals (0-100).
+ *
+ * Each signal earns points for its type, scaled by its own AI score and halved every
+ * half-life, so a form lead from last week outweighs one from last year. Expired
+ * signals earn nothing. Points are capped per component, and the caps add up to 100,
+ * so the per-signal contributions add up to the score.
+ */
+
+export type ScoreComponent = 'form_lead' | 'job_ad' | 'google_maps' | 'hiring_velocity';
+
+export interface ScoringSignal {
+  id: string;
+  signal_type: string;
+  signal_date?: string | null;
+  captured_at?: string | null;
+  expired_at?: string | null;
+  payload?: Record<string, unknown> | null;
+}
+
+export interface SignalContribution {
+  // null for hiring velocity, which comes from several signals
+  signal_id: string | null;
+  signal_type: string;
+  component: ScoreComponent;
+  // 0-1, the signal's own score
+  value: number;
+  // 0-1, what is left after the half-life decay
+  decay: number;
+  points: number;
+}
+
+export interface CompanyScore {
+  // 0-100
+  score: number;
+  components: Record<ScoreComponent, number>;
+  // Valid job ads within the velocity window
+  recent_job_ads: number;
+  contributions: SignalContribution[];
+}
+
+interface SignalWeight {
+  component: ScoreComponent;
+  // Points for a fresh signal with a perfect score
+  points: number;
+  half_life_days: number;
+}
+
+// Maximum points per component (adds up to 100)
+export const COMPONENT_CAPS: Record<ScoreComponent, number> = {
+  form_lead: 40,
+  job_ad: 30,
+  google_maps: 15,
+  hiring_velocity: 15,
+};
+
+// Signal types not listed here don't count towards the score
+export const SIGNAL_WEIGHTS: Record<string, SignalWeight> = {
+  website_form_submission: { component: 'form_lead', points: 40, half_life_days: 90 },
+  linkedin_job_ad: { component: 'job_ad', points: 10, half_life_days: 30 },
+  indeed_job_ad: { component: 'job_ad', points: 8, half_life_days: 30 },
+  arbetsformedlingen_job_ad: { component: 'job_ad', points: 8, half_life_days: 30 },
+  google_maps_listing: { component: 'google_maps', points: 15, half_life_days: 180 },
+};
+
+// Valid job ads within this many days make up the hiring velocity. The first ad adds
+// nothing on top of its own points; VELOCITY_FULL_ADS or more earn the full cap.
+export const VELOCITY_WINDOW_DAYS = 30;
+const VELOCITY_FULL_ADS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const scoreOf = (value: unknown) => (typeof value === 'number' ? Math.max(0, Math.min(1, value / 100)) : 0);
+
+// The signal's own score (0-1): the AI lead score of a valid form lead, the AI score of a valid job ad or listing
+function signalValue(signal: ScoringSignal, component: ScoreComponent): number {
+  const payload = signal.payload ?? {};
+  switch (component) {
+    case 'form_lead':
+      return payload.classification === 'valid_lead' ? scoreOf(payload.lead_score) : 0;
+    case 'job_ad':
+      return payload.valid === false ? 0 : scoreOf(payload.score);
+    case 'google_maps':
+      return payload.isValid === false ? 0 : scoreOf(payload.score);
+    default:
+      return 0;
+  }
+}
+
+function ageInDays(signal: ScoringSignal, now: Date): number {
+  const date = Date.parse(signal.signal_date ?? signal.captured_at ?? '');
+  return Number.isNaN(date) ? 0 : Math.max(0, (now.getTime() - date) / DAY_MS);
+}
+
+/**
+ * The score of a company from its signals at a point in time, with what each
+ * signal contributed
+ */
+export function scoreCompanySignals(signals: ScoringSignal[], now: Date = new Date()): CompanyScore {
+  const contributions: SignalContribution[] = [];
+  let recentJobAds = 0;
+
+  for (const signal of signals) {
+    const weight = SIGNAL_WEIGHTS[signal.signal_type];
+    if (!weight) continue;
+
+    const expired = Boolean(signal.expired_at) && Date.parse(signal.expired_at as string) <= now.getTime();
+    const age = ageInDays(signal, now);
+    const value = expired ? 0 : signalValue(signal, weight.component);
+    const decay = 0.5 ** (age / weight.half_life_days);
+
+    if (weight.component === 'job_ad' && value > 0 && age <= VELOCITY_WINDOW_DAYS) recentJobAds++;
+
+    contributions.push({
+      signal_id: signal.id,
+      signal_type: signal.signal_type,
+      component: weight.component,
+      value: round(value),
+      decay: round(decay),
+      points: weight.points * value * decay,
+    });
+  }
+
+  if (recentJobAds > 1) {
+    const velocity = Math.min(1, (recentJobAds - 1) / (VELOCITY_FULL_ADS - 1));
+    contributions.push({
+      signal_id: null,
+      signal_type: 'hiring_velocity',
+      component: 'hiring_velocity',
+      value: round(velocity),
+      decay: 1,
+      points: COMPONENT_CAPS.hiring_velocity * velocity,
+    });
+  }
+
+  // A component over its cap scales its contributions down to the cap
+  const components = {} as Record<ScoreComponent, number>;
+  for (const component of Object.keys(COMPONENT_CAPS) as ScoreComponent[]) {
+    const own = contributions.filter((c) => c.component === component);
+    const total = own.reduce((sum, c) => sum + c.points, 0);
+    const scale = total > COMPONENT_CAPS[component] ? COMPONENT_CAPS[component] / total : 1;
+    own.forEach((c) => (c.points *= scale));
+    components[component] = round(total * scale);
+  }
+
+  contributions.forEach((c) => (c.points = round(c.points)));
+
+  return {
+    score: Math.round(Object.values(components).reduce((sum, points) => sum + points, 0)),
+    components,
+    recent_job_ads: recentJobAds,
+    contributions: contributions.sort((a, b) => b.points - a.points),
+  };
+}
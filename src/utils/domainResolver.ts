@@ -0,0 +1,214 @@
+import { logger } from './logger.js';
+import { companyNameTokens } from './companyMatcher.js';
+
+/**
+ * Company domain resolution from evidence found alongside a lead or job:
+ * emails, company websites and application URLs. Each candidate domain is
+ * ranked by how trustworthy its source is, whether it resembles the company
+ * name and how many sources agree on it.
+ *
+ * Domains are never derived from the company name alone. A company without
+ * usable evidence gets no domain rather than a slug like "volvo-cars.se".
+ */
+
+export type DomainSource =
+  | 'google_maps_website'
+  | 'linkedin_website'
+  | 'application_url'
+  | 'application_email'
+  | 'email'
+  // Set by hand (admin, scripts)
+  | 'manual';
+
+export interface DomainEvidence {
+  source: DomainSource;
+  // URL, bare host or email address
+  value: string | null | undefined;
+}
+
+export interface DomainCandidate {
+  domain: string;
+  // Most trusted source that pointed at the domain
+  source: DomainSource;
+  confidence: number;
+  sources: DomainSource[];
+  matchesName: boolean;
+}
+
+export interface ResolvedDomain {
+  domain: string;
+  source: DomainSource;
+  // 0-1
+  confidence: number;
+}
+
+export interface DomainResolution {
+  resolved: ResolvedDomain | null;
+  // Every candidate, best first
+  candidates: DomainCandidate[];
+}
+
+// Below this, no domain is better than a wrong one (it merges companies in find_or_create_company)
+export const MIN_DOMAIN_CONFIDENCE = 0.5;
+
+// Company websites are the company's own; emails and application URLs may belong to an
+// agency or recruitment system, so when they don't resemble the name they drop below
+// MIN_DOMAIN_CONFIDENCE (even when two such sources agree). Otherwise every employer
+// hiring through one agency mailbox would resolve to the agency's company.
+const SOURCE_CONFIDENCE: Record<DomainSource, { base: number; unrelatedPenalty: number }> = {
+  manual: { base: 1, unrelatedPenalty: 0 },
+  google_maps_website: { base: 0.9, unrelatedPenalty: 0 },
+  linkedin_website: { base: 0.9, unrelatedPenalty: 0 },
+  application_email: { base: 0.7, unrelatedPenalty: 0.3 },
+  email: { base: 0.7, unrelatedPenalty: 0.3 },
+  application_url: { base: 0.6, unrelatedPenalty: 0.2 },
+};
+
+const NAME_MATCH_BONUS = 0.1;
+const AGREEMENT_BONUS = 0.05;
+
+const PERSONAL_EMAIL_DOMAINS = [
+  'gmail.com',
+  'googlemail.com',
+  'hotmail.com',
+  'hotmail.se',
+  'outlook.com',
+  'outlook.se',
+  'live.com',
+  'live.se',
+  'msn.com',
+  'icloud.com',
+  'me.com',
+  'yahoo.com',
+  'yahoo.se',
+  'telia.com',
+  'bredband.net',
+  'spray.se',
+  'protonmail.com',
+  'proton.me',
+];
+
+// Job boards, recruitment systems, site builders and social networks: never a company's own domain
+const SHARED_PLATFORM_DOMAINS = [
+  'teamtailor.com',
+  'varbi.com',
+  'jobylon.com',
+  'reachmee.com',
+  'myworkdayjobs.com',
+  'workday.com',
+  'lever.co',
+  'greenhouse.io',
+  'smartrecruiters.com',
+  'recruitee.com',
+  'successfactors.com',
+  'webcruiter.com',
+  'hr-manager.net',
+  'arbetsformedlingen.se',
+  'platsbanken.se',
+  'indeed.com',
+  'linkedin.com',
+  'facebook.com',
+  'instagram.com',
+  'google.com',
+  'wixsite.com',
+  'business.site',
+];
+
+// Public suffixes with two labels that show up in practice
+const TWO_LABEL_SUFFIXES = new Set(['co.uk', 'org.uk', 'com.au', 'co.nz', 'com.br', 'co.jp', 'co.za', 'com.tr']);
+
+/**
+ * Registrable domain of a URL, host or email address ("https://careers.volvo.com/x" -> "volvo.com").
+ * Null when there is no plausible host.
+ */
+export function registrableDomain(value: string): string | null {
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed) return null;
+
+  let host: string;
+  if (trimmed.includes('@') && !trimmed.includes('/')) {
+    host = trimmed.split('@').pop() ?? '';
+  } else {
+    try {
+      host = new URL(/^[a-z][a-z0-9+.-]*:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`).hostname;
+    } catch {
+      return null;
+    }
+  }
+
+  const labels = host.replace(/\.$/, '').split('.').filter(Boolean);
+  if (labels.length < 2 || !labels.every((label) => /^[\p{L}\p{N}-]+$/u.test(label))) return null;
+  if (/^\d+$/.test(labels[labels.length - 1])) return null;
+
+  const lastTwo = labels.slice(-2).join('.');
+  return TWO_LABEL_SUFFIXES.has(lastTwo) && labels.length >= 3 ? labels.slice(-3).join('.') : lastTwo;
+}
+
+function isSharedDomain(domain: string): boolean {
+  return PERSONAL_EMAIL_DOMAINS.includes(domain) || SHARED_PLATFORM_DOMAINS.includes(domain);
+}
+
+// "Åhléns AB" -> "ahlens"
+function nameKey(name: string): string {
+  return companyNameTokens(name).join('');
+}
+
+/**
+ * Whether a domain resembles a company name: "volvocars.com" and "volvo.se" both
+ * resemble "Volvo Cars AB"
+ */
+export function domainMatchesName(domain: string, companyName: string): boolean {
+  const key = nameKey(companyName);
+  const label = nameKey(domain.split('.')[0]);
+  if (key.length < 2 || label.length < 2) return false;
+
+  return label === key || (label.length >= 4 && key.includes(label)) || (key.length >= 4 && label.includes(key));
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Rank the candidate domains from the evidence and pick the best one when it is
+ * trusted enough (MIN_DOMAIN_CONFIDENCE)
+ */
+export function resolveCompanyDomain(companyName: string, evidence: DomainEvidence[]): DomainResolution {
+  const bySource = new Map<string, DomainSource[]>();
+
+  for (const item of evidence) {
+    const domain = item.value ? registrableDomain(item.value) : null;
+    if (!domain || isSharedDomain(domain)) continue;
+
+    const sources = bySource.get(domain) ?? [];
+    if (!sources.includes(item.source)) sources.push(item.source);
+    bySource.set(domain, sources);
+  }
+
+  const candidates = [...bySource.entries()]
+    .map(([domain, sources]): DomainCandidate => {
+      const matchesName = domainMatchesName(domain, companyName);
+      const scores = sources.map((source) => {
+        const { base, unrelatedPenalty } = SOURCE_CONFIDENCE[source];
+        return matchesName ? base + NAME_MATCH_BONUS : base - unrelatedPenalty;
+      });
+      const best = Math.max(...scores);
+
+      return {
+        domain,
+        source: sources[scores.indexOf(best)],
+        confidence: round(Math.min(1, best + AGREEMENT_BONUS * (sources.length - 1))),
+        sources,
+        matchesName,
+      };
+    })
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const best = candidates[0];
+  const resolved =
+    best && best.confidence >= MIN_DOMAIN_CONFIDENCE
+      ? { domain: best.domain, source: best.source, confidence: best.confidence }
+      : null;
+
+  logger.debug('Company domain resolved', { companyName, resolved, candidates: candidates.length });
+
+  return { resolved, candidates };
+}
@@ -0,0 +1,194 @@
+/**
+ * Hiring trends: how fast companies and job categories are posting compared with
+ * their own past.
+ *
+ * Postings in the window (by default the last 30 days) are compared with the baseline
+ * period before it (the 90 days before), scaled to the window's length. A company
+ * posting at least SPIKE_MIN_POSTINGS and SPIKE_RATIO times its expected count has a
+ * hiring spike: six junior roles this month after one last quarter. A company with
+ * postings in the window and none in the baseline is new to market.
+ */
+
+export interface JobPosting {
+  company_id: string;
+  company_name?: string | null;
+  category?: string | null;
+  // posted_date, or created_at when the board gave none
+  posted_at: string;
+}
+
+export interface HiringTrendOptions {
+  now?: Date;
+  windowDays?: number;
+  baselineDays?: number;
+}
+
+export interface HiringTrendPeriod {
+  from: string;
+  to: string;
+  days: number;
+}
+
+export interface PostingTrend {
+  recent_postings: number;
+  baseline_postings: number;
+  // Baseline postings scaled to the window's length
+  expected_postings: number;
+  // recent / expected, with at least one posting expected
+  ratio: number;
+}
+
+export interface CompanyHiringTrend extends PostingTrend {
+  company_id: string;
+  company_name: string | null;
+  // Categories posted in the window, most postings first
+  categories: string[];
+  last_posted_at: string;
+  spike: boolean;
+  new_to_market: boolean;
+}
+
+export interface CategoryHiringTrend extends PostingTrend {
+  category: string;
+  // Companies posting in the category in the window
+  companies: number;
+  trend: 'rising' | 'falling' | 'stable';
+}
+
+export interface HiringTrends {
+  window: HiringTrendPeriod;
+  baseline: HiringTrendPeriod;
+  summary: {
+    recent_postings: number;
+    baseline_postings: number;
+    companies_hiring: number;
+    spikes: number;
+    new_to_market: number;
+  };
+  // Companies posting in the window: spikes first, then by ratio and postings
+  companies: CompanyHiringTrend[];
+  // By postings in the window
+  categories: CategoryHiringTrend[];
+}
+
+export const DEFAULT_WINDOW_DAYS = 30;
+export const DEFAULT_BASELINE_DAYS = 90;
+
+const SPIKE_MIN_POSTINGS = 3;
+const SPIKE_RATIO = 3;
+// A category posting this many times its expected count is rising, the inverse falling
+const CATEGORY_TREND_RATIO = 1.5;
+
+const UNCATEGORIZED = 'Uncategorized';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * The window and the baseline period before it
+ */
+export function hiringTrendPeriods(options: HiringTrendOptions = {}): { window: HiringTrendPeriod; baseline: HiringTrendPeriod } {
+  const now = options.now ?? new Date();
+  const windowDays = options.windowDays ?? DEFAULT_WINDOW_DAYS;
+  const baselineDays = options.baselineDays ?? DEFAULT_BASELINE_DAYS;
+  const windowFrom = new Date(now.getTime() - windowDays * DAY_MS);
+  const baselineFrom = new Date(windowFrom.getTime() - baselineDays * DAY_MS);
+
+  return {
+    window: { from: windowFrom.toISOString(), to: now.toISOString(), days: windowDays },
+    baseline: { from: baselineFrom.toISOString(), to: windowFrom.toISOString(), days: baselineDays },
+  };
+}
+
+function postingTrend(recent: number, baseline: number, windowDays: number, baselineDays: number): PostingTrend {
+  const expected = (baseline * windowDays) / baselineDays;
+  return {
+    recent_postings: recent,
+    baseline_postings: baseline,
+    expected_postings: round(expected),
+    ratio: round(recent / Math.max(expected, 1)),
+  };
+}
+
+// Values by how often they occur, most frequent first
+function byFrequency(values: string[]): string[] {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts.keys()].sort((a, b) => counts.get(b)! - counts.get(a)!);
+}
+
+/**
+ * Posting velocity, spikes and new-to-market employers per company, and velocity per
+ * category. Postings before the baseline period are ignored.
+ */
+export function analyzeHiringTrends(postings: JobPosting[], options: HiringTrendOptions = {}): HiringTrends {
+  const { window, baseline } = hiringTrendPeriods(options);
+  const windowStart = Date.parse(window.from);
+  const baselineStart = Date.parse(baseline.from);
+
+  const recent: JobPosting[] = [];
+  const past: JobPosting[] = [];
+  for (const posting of postings) {
+    const postedAt = Date.parse(posting.posted_at);
+    if (Number.isNaN(postedAt) || postedAt < baselineStart) continue;
+    (postedAt >= windowStart ? recent : past).push(posting);
+  }
+
+  const trend = (recentCount: number, baselineCount: number) =>
+    postingTrend(recentCount, baselineCount, window.days, baseline.days);
+  const categoryOf = (posting: JobPosting) => posting.category || UNCATEGORIZED;
+
+  const companies = [...new Set(recent.map((p) => p.company_id))].map((companyId): CompanyHiringTrend => {
+    const own = recent.filter((p) => p.company_id === companyId);
+    const baselineCount = past.filter((p) => p.company_id === companyId).length;
+    const counts = trend(own.length, baselineCount);
+
+    return {
+      company_id: companyId,
+      company_name: own.find((p) => p.company_name)?.company_name ?? null,
+      ...counts,
+      categories: byFrequency(own.map(categoryOf)),
+      last_posted_at: own.map((p) => p.posted_at).sort().at(-1) as string,
+      spike: own.length >= SPIKE_MIN_POSTINGS && own.length >= SPIKE_RATIO * Math.max(counts.expected_postings, 1),
+      new_to_market: baselineCount === 0,
+    };
+  });
+
+  companies.sort(
+    (a, b) => Number(b.spike) - Number(a.spike) || b.ratio - a.ratio || b.recent_postings - a.recent_postings
+  );
+
+  const categories = byFrequency([...recent, ...past].map(categoryOf)).map((category): CategoryHiringTrend => {
+    const own = recent.filter((p) => categoryOf(p) === category);
+    const categoryTrend = trend(own.length, past.filter((p) => categoryOf(p) === category).length);
+    const direction =
+      categoryTrend.ratio >= CATEGORY_TREND_RATIO
+        ? 'rising'
+        : categoryTrend.expected_postings > 0 && categoryTrend.ratio <= 1 / CATEGORY_TREND_RATIO
+          ? 'falling'
+          : 'stable';
+
+    return {
+      category,
+      ...categoryTrend,
+      companies: new Set(own.map((p) => p.company_id)).size,
+      trend: direction,
+    };
+  });
+
+  categories.sort((a, b) => b.recent_postings - a.recent_postings || b.baseline_postings - a.baseline_postings);
+
+  return {
+    window,
+    baseline,
+    summary: {
+      recent_postings: recent.length,
+      baseline_postings: past.length,
+      companies_hiring: companies.length,
+      spikes: companies.filter((c) => c.spike).length,
+      new_to_market: companies.filter((c) => c.new_to_market).length,
+    },
+    companies,
+    categories,
+  };
+}
@@ -0,0 +1,217 @@
+import fs from 'fs';
+import { config } from '../config/env.js';
+import { defaultLeadRulesConfig } from '../config/leadRules.config.js';
+import {
+  leadRulesConfigSchema,
+  leadRulesOverrideSchema,
+  type LeadField,
+  type LeadRule,
+  type LeadRulesConfig,
+  type LeadRulesOverride,
+} from '../schemas/leadRules.js';
+import { logger, getErrorMessage } from './logger.js';
+import type { FormData, LeadQualityBreakdown, LeadRuleHit } from '../types/index.js';
+
+/**
+ * Weighted rules that decide whether a form lead is fast-rejected before AI scoring.
+ *
+ * Every rule that fires adds its weight to the lead's score and a reason to the
+ * breakdown; leads at or above the threshold are rejected. The breakdown is stored
+ * with the rejected lead, so a wrongly rejected customer can be traced to its rules.
+ */
+
+// Facts about the lead that need storage lookups (gathered by services/leadQualityService.ts)
+export interface LeadRuleContext {
+  // Earlier submissions from the same email within the repeat_submitter window
+  recentSubmissions?: number;
+}
+
+// Character entropy is meaningless on short strings like names
+const ENTROPY_MIN_LETTERS = 20;
+const VOWELS = /[aeiouyåäöéüæø]/;
+const CONSONANT_RUN = /[bcdfghjklmnpqrstvwxz]+/g;
+
+function mergeLeadRules(base: LeadRulesConfig, override: LeadRulesOverride): LeadRulesConfig {
+  const rules = base.rules.map((rule) => {
+    const patch = override.rules?.find((r) => r.id === rule.id);
+    if (!patch) return rule;
+    return { ...rule, ...patch, type: rule.type, params: { ...rule.params, ...patch.params } };
+  });
+  const added = (override.rules ?? []).filter((r) => !base.rules.some((rule) => rule.id === r.id));
+
+  const merged = leadRulesConfigSchema.parse({
+    threshold: override.threshold ?? base.threshold,
+    rules: [...rules, ...added],
+  });
+
+  // Fail on load rather than on the first lead
+  for (const rule of merged.rules) {
+    if (rule.type === 'keywords' || rule.type === 'email_domain') {
+      rule.params.patterns.forEach((pattern) => new RegExp(pattern, 'i'));
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Read a rules file (JSON, see leadRulesOverrideSchema) and merge it over the defaults.
+ * Falls back to the defaults when the file is missing or invalid.
+ */
+export function loadLeadRulesConfig(file: string | undefined): LeadRulesConfig {
+  if (!file) return defaultLeadRulesConfig;
+
+  try {
+    const override = leadRulesOverrideSchema.parse(JSON.parse(fs.readFileSync(file, 'utf8')));
+    const merged = mergeLeadRules(defaultLeadRulesConfig, override);
+    logger.info('Lead rules loaded', { file, threshold: merged.threshold, rules: merged.rules.length });
+    return merged;
+  } catch (error) {
+    logger.error('Invalid lead rules file, using defaults', error, { file });
+    return defaultLeadRulesConfig;
+  }
+}
+
+let rulesConfig: LeadRulesConfig | undefined;
+
+export function getLeadRulesConfig(): LeadRulesConfig {
+  rulesConfig ??= loadLeadRulesConfig(config.leadRules.file);
+  return rulesConfig;
+}
+
+/**
+ * Replace the rules, e.g. in tests. Pass undefined to reload from LEAD_RULES_FILE.
+ * A partial config is merged over the defaults.
+ */
+export function setLeadRulesConfig(next: LeadRulesOverride | undefined): void {
+  rulesConfig = next ? mergeLeadRules(defaultLeadRulesConfig, next) : undefined;
+}
+
+function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) counts.set(char, (counts.get(char) ?? 0) + 1);
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+// Why a text looks like keyboard mashing, or null
+function gibberishReason(text: string, params: Extract<LeadRule, { type: 'gibberish' }>['params']): string | null {
+  const letters = (text.toLowerCase().match(/\p{L}/gu) ?? []).join('');
+  if (letters.length < params.minLetters) return null;
+
+  const longestRun = Math.max(0, ...(text.toLowerCase().match(CONSONANT_RUN) ?? []).map((run) => run.length));
+  if (longestRun > params.maxConsonantRun) return `${longestRun} consonants in a row`;
+
+  const vowelRatio = [...letters].filter((char) => VOWELS.test(char)).length / letters.length;
+  if (vowelRatio < params.minVowelRatio) return `only ${Math.round(vowelRatio * 100)}% vowels`;
+
+  if (letters.length >= ENTROPY_MIN_LETTERS) {
+    const entropy = shannonEntropy(letters);
+    if (entropy < params.minEntropy) return `repetitive text (entropy ${entropy.toFixed(2)})`;
+  }
+
+  return null;
+}
+
+const fieldValue = (lead: FormData, field: LeadField) => lead[field] || '';
+
+function emailDomain(lead: FormData): string {
+  const email = lead.email || '';
+  return email.includes('@') ? email.split('@')[1].toLowerCase() : '';
+}
+
+// Why the rule fires for this lead, or null
+function evaluateRule(rule: LeadRule, lead: FormData, validationScore: number, context: LeadRuleContext): string | null {
+  switch (rule.type) {
+    case 'keywords': {
+      for (const field of rule.params.fields) {
+        for (const pattern of rule.params.patterns) {
+          const match = fieldValue(lead, field).match(new RegExp(pattern, 'i'));
+          if (match) return `${field} contains "${match[0]}"`;
+        }
+      }
+      return null;
+    }
+
+    case 'email_domain': {
+      const domain = emailDomain(lead);
+      const pattern = rule.params.patterns.find((p) => domain && new RegExp(p, 'i').test(domain));
+      return pattern ? `email domain ${domain} matches ${pattern}` : null;
+    }
+
+    case 'disposable_email': {
+      const domain = emailDomain(lead);
+      const listed = rule.params.domains.find((d) => domain === d || domain.endsWith(`.${d}`));
+      return listed ? `disposable email domain ${domain}` : null;
+    }
+
+    case 'gibberish': {
+      for (const field of rule.params.fields) {
+        const reason = gibberishReason(fieldValue(lead, field), rule.params);
+        if (reason) return `${field}: ${reason}`;
+      }
+      return null;
+    }
+
+    case 'repeat_submitter': {
+      const count = context.recentSubmissions ?? 0;
+      return count >= rule.params.maxSubmissions
+        ? `${count} earlier submissions in the last ${rule.params.windowHours}h`
+        : null;
+    }
+
+    case 'incomplete':
+      return validationScore < rule.params.minValidationScore
+        ? `validation score ${validationScore} below ${rule.params.minValidationScore}`
+        : null;
+  }
+}
+
+/**
+ * Run the enabled rules against a lead and sum the weights of those that fire.
+ */
+export function evaluateLeadRules(
+  lead: FormData,
+  validationScore: number,
+  context: LeadRuleContext = {},
+  rules: LeadRulesConfig = getLeadRulesConfig()
+): LeadQualityBreakdown {
+  const hits: LeadRuleHit[] = [];
+
+  for (const rule of rules.rules) {
+    if (rule.enabled === false) continue;
+
+    try {
+      const reason = evaluateRule(rule, lead, validationScore, context);
+      if (reason) hits.push({ rule: rule.id, weight: rule.weight, reason });
+    } catch (error) {
+      // A broken rule must not reject (or let through) every lead
+      logger.warn('Lead rule failed', { rule: rule.id, error: getErrorMessage(error) });
+    }
+  }
+
+  const score = hits.reduce((sum, hit) => sum + hit.weight, 0);
+
+  return { score, threshold: rules.threshold, rejected: score >= rules.threshold, hits };
+}
+
+/**
+ * The repeat_submitter window in hours, or null when the rule is disabled
+ */
+export function getRepeatSubmitterWindowHours(rules: LeadRulesConfig = getLeadRulesConfig()): number | null {
+  const rule = rules.rules.find((r) => r.type === 'repeat_submitter' && r.enabled !== false);
+  return rule?.type === 'repeat_submitter' ? rule.params.windowHours : null;
+}
+
+/**
+ * One-line summary of a breakdown, e.g. for rejected lead reasoning
+ */
+export function describeLeadQuality(quality: LeadQualityBreakdown): string {
+  const reasons = quality.hits.map((hit) => `${hit.rule} (+${hit.weight}): ${hit.reason}`).join('; ');
+  return `Score ${quality.score}/${quality.threshold}${reasons ? ` — ${reasons}` : ''}`;
+}
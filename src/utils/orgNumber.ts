@@ -0,0 +1,48 @@
+/**
+ * Swedish organisation numbers (organisationsnummer): the unique id of a legal
+ * entity, NNNNNN-NNNN with a Luhn check digit.
+ *
+ * Only legal-entity numbers are accepted (the third digit is 2 or more). Sole
+ * traders use their personnummer as org number; those are personal data and
+ * never captured from free text or stored on a company.
+ */
+
+// "Org.nr 556737-0431", "organisationsnummer: 5567370431", "Corporate identity number 556737-0431"
+const LABELLED_ORG_NUMBER =
+  /(?:org(?:anisations)?\.?\s*(?:nr|nummer|no)|organi[sz]ation\s+number|corporate\s+identity\s+number|company\s+registration\s+number)\.?\s*[:#]?\s*((?:16)?\d{6}\s?[-–]?\s?\d{4})(?!\d)/giu;
+
+function luhnValid(digits: string): boolean {
+  const sum = [...digits].reduce((total, char, i) => {
+    const doubled = Number(char) * (i % 2 === 0 ? 2 : 1);
+    return total + (doubled > 9 ? doubled - 9 : doubled);
+  }, 0);
+  return sum % 10 === 0;
+}
+
+/**
+ * A valid org number in the NNNNNN-NNNN form ("5567370431", "16556737-0431" ->
+ * "556737-0431"), or null when it isn't one
+ */
+export function normalizeOrgNumber(value: string | null | undefined): string | null {
+  const digits = (value ?? '').replace(/[\s\-–]/g, '');
+  if (!/^\d+$/.test(digits)) return null;
+
+  // 12-digit form with the "16" century prefix
+  const short = digits.length === 12 && digits.startsWith('16') ? digits.slice(2) : digits;
+  if (short.length !== 10 || short[0] === '0' || Number(short[2]) < 2 || !luhnValid(short)) return null;
+
+  return `${short.slice(0, 6)}-${short.slice(6)}`;
+}
+
+/**
+ * The first valid org number labelled as one in a text ("Org.nr: 556737-0431").
+ * Unlabelled 10-digit numbers are ignored: phone and reference numbers pass the
+ * Luhn check often enough to be mistaken for one.
+ */
+export function extractOrgNumber(text: string | null | undefined): string | null {
+  for (const match of (text ?? '').matchAll(LABELLED_ORG_NUMBER)) {
+    const orgNumber = normalizeOrgNumber(match[1]);
+    if (orgNumber) return orgNumber;
+  }
+  return null;
+}
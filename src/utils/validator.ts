@@ -1,4 +1,6 @@
 import { logger } from './logger.js';
+import { evaluateLeadRules, type LeadRuleContext } from './leadRules.js';
+import { resolveCompanyDomain, type ResolvedDomain } from './domainResolver.js';
 import type {
   FormData,
   ValidatedLead,
@@ -16,7 +18,9 @@ interface DataWithDomainInput {
 
 interface DataWithDomainResult {
   extracted_domain: string | null;
-  domain_source: 'email' | 'guessed' | 'none';
+  domain_source: 'email' | 'none';
+  // The domain with its source and confidence, for findOrCreateCompany
+  resolved_domain: ResolvedDomain | null;
 }
 
 interface SignalData {
@@ -29,9 +33,10 @@ interface SwitchData {
 
 /**
  * Validates lead data and performs spam detection
- * Originally the "Lead Data Validation" node in n8n, now maintained here
+ * Originally the "Lead Data Validation" node in n8n, now maintained here.
+ * Spam and quality checks run through the weighted rules in utils/leadRules.ts.
  */
-export function validateLead(lead: FormData): ValidatedLead {
+export function validateLead(lead: FormData, context: LeadRuleContext = {}): ValidatedLead {
   const validation: ValidationDetails = {
     email_valid: /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(lead.email || ''),
     phone_valid: /[\d\s\-+()]{8,}/.test(lead.phone || ''),
@@ -54,79 +59,39 @@ export function validateLead(lead: FormData): ValidatedLead {
   const totalFields = 6;
   const validationScore = Math.round(((validFields + (validation.needs_description_length > 0 ? 1 : 0)) / totalFields) * 100);
 
-  // Check for spam indicators
-  const spamIndicators = [
-    /(viagra|cialis|casino|crypto|bitcoin)/i.test(lead.needs_description || ''),
-    /(click here|buy now|limited offer)/i.test(lead.needs_description || ''),
-    (lead.needs_description || '').includes('http'),
-    Boolean((lead.email || '').match(/@(test|example|temp|fake)/i)),
-  ];
-
-  const isLikelySpam = spamIndicators.filter((v) => v).length >= 2;
+  const quality = evaluateLeadRules(lead, validationScore, context);
 
   logger.debug('Lead validation complete', {
     validationScore,
-    isLikelySpam,
-    validFields,
+    qualityScore: quality.score,
+    rejected: quality.rejected,
+    rules: quality.hits.map((hit) => hit.rule),
   });
 
   return {
     ...lead,
     validation_score: validationScore,
-    is_likely_spam: isLikelySpam,
+    is_likely_spam: quality.rejected,
     validation_details: validation,
+    quality,
   };
 }
 
 /**
- * Extracts domain from email or company name
+ * Extracts the company domain from a corporate email address (see utils/domainResolver.ts).
+ * Personal email domains give no domain; it is never guessed from the company name.
  * Originally the "Extract Domain" node in n8n, now maintained here
  */
 export function extractDomain<T extends DataWithDomainInput>(data: T): T & DataWithDomainResult {
-  let domain: string | null = null;
-  let domainSource: 'email' | 'guessed' | 'none' = 'none';
-
-  // Try to extract from email domain first
-  if (data.email && data.email.includes('@')) {
-    const emailDomain = data.email.split('@')[1].toLowerCase();
-
-    // Only use if NOT a personal email domain
-    const personalDomains = [
-      'gmail.com',
-      'hotmail.com',
-      'outlook.com',
-      'icloud.com',
-      'yahoo.com',
-      'live.com',
-      'hotmail.se',
-      'outlook.se',
-    ];
-
-    if (!personalDomains.includes(emailDomain)) {
-      domain = emailDomain;
-      domainSource = 'email';
-    }
-  }
-
-  // Fallback: try to guess from company name
-  if (!domain && data.company_name) {
-    // Simple guess: company name + .se (Swedish default)
-    const cleanName = data.company_name
-      .toLowerCase()
-      .replace(/\s+ab$/i, '')
-      .replace(/\s+aktiebolag$/i, '')
-      .replace(/\s+/g, '');
-
-    domain = `${cleanName}.se`; // Fallback guess
-    domainSource = 'guessed';
-  }
+  const { resolved } = resolveCompanyDomain(data.company_name ?? '', [{ source: 'email', value: data.email }]);
 
-  logger.debug('Domain extracted', { domain, domainSource });
+  logger.debug('Domain extracted', { domain: resolved?.domain ?? null, confidence: resolved?.confidence });
 
   return {
     ...data,
-    extracted_domain: domain,
-    domain_source: domainSource,
+    extracted_domain: resolved?.domain ?? null,
+    domain_source: resolved ? 'email' : 'none',
+    resolved_domain: resolved,
   };
 }
 
@@ -0,0 +1,124 @@
+/**
+ * Unit tests: AI result cache
+ *
+ * Tests buildAICacheKey() / cachedAICall() / withAICacheStats() — keys are
+ * stable across input key order and change with model or prompt version,
+ * cached results skip the model call, hits and misses are counted per scope,
+ * and the memory backend expires and evicts entries.
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import {
+  buildAICacheKey,
+  cachedAICall,
+  createMemoryAICacheBackend,
+  promptVersionOf,
+  setAICacheBackend,
+  withAICacheStats,
+} from '../dist/services/aiCache.js';
+
+const parts = (input, overrides = {}) => ({
+  feature: 'job_evaluation',
+  model: 'google/gemini-2.5-flash',
+  promptVersion: promptVersionOf('system prompt v1'),
+  input,
+  ...overrides,
+});
+
+describe('buildAICacheKey', () => {
+  it('should ignore object key order', () => {
+    assert.strictEqual(
+      buildAICacheKey(parts({ title: 'Ekonom', company: 'Acme' })),
+      buildAICacheKey(parts({ company: 'Acme', title: 'Ekonom' }))
+    );
+  });
+
+  it('should change with model, prompt version or input', () => {
+    const base = buildAICacheKey(parts('same input'));
+
+    assert.notStrictEqual(base, buildAICacheKey(parts('same input', { model: 'openai/gpt-4o-mini' })));
+    assert.notStrictEqual(base, buildAICacheKey(parts('same input', { promptVersion: promptVersionOf('v2') })));
+    assert.notStrictEqual(base, buildAICacheKey(parts('other input')));
+  });
+});
+
+describe('cachedAICall', () => {
+  beforeEach(() => setAICacheBackend(createMemoryAICacheBackend(100)));
+
+  it('should call the model once for repeated input and count hits and misses', async () => {
+    let calls = 0;
+    const compute = async () => {
+      calls++;
+      return { isValid: true, score: 80 };
+    };
+
+    const { result, aiCache } = await withAICacheStats(async () => {
+      await cachedAICall(parts('job A'), compute);
+      return cachedAICall(parts('job A'), compute);
+    });
+
+    assert.deepStrictEqual(result, { isValid: true, score: 80 });
+    assert.strictEqual(calls, 1);
+    assert.deepStrictEqual(aiCache, { hits: 1, misses: 1 });
+  });
+
+  it('should not cache errors', async () => {
+    let calls = 0;
+    const failing = async () => {
+      calls++;
+      throw new Error('model unavailable');
+    };
+
+    await assert.rejects(cachedAICall(parts('job B'), failing));
+    await assert.rejects(cachedAICall(parts('job B'), failing));
+    assert.strictEqual(calls, 2);
+  });
+
+  it('should count nested scopes towards the outer scope', async () => {
+    const outer = await withAICacheStats(async () => {
+      const inner = await withAICacheStats(() => cachedAICall(parts('job C'), async () => 'ok'));
+      assert.deepStrictEqual(inner.aiCache, { hits: 0, misses: 1 });
+    });
+
+    assert.deepStrictEqual(outer.aiCache, { hits: 0, misses: 1 });
+  });
+
+  it('should always call the model when caching is disabled', async () => {
+    setAICacheBackend(null);
+    let calls = 0;
+
+    const { aiCache } = await withAICacheStats(async () => {
+      await cachedAICall(parts('job D'), async () => ++calls);
+      await cachedAICall(parts('job D'), async () => ++calls);
+    });
+
+    assert.strictEqual(calls, 2);
+    assert.deepStrictEqual(aiCache, { hits: 0, misses: 0 });
+  });
+});
+
+describe('createMemoryAICacheBackend', () => {
+  it('should expire entries after their TTL', async () => {
+    const backend = createMemoryAICacheBackend(10);
+    await backend.set('expired', parts('x'), 'old', -1);
+    await backend.set('fresh', parts('y'), 'new', 60_000);
+
+    assert.strictEqual(await backend.get('expired'), undefined);
+    assert.strictEqual(await backend.get('fresh'), 'new');
+  });
+
+  it('should evict the least recently used entry when full', async () => {
+    const backend = createMemoryAICacheBackend(2);
+    await backend.set('a', parts('a'), 1, 60_000);
+    await backend.set('b', parts('b'), 2, 60_000);
+    await backend.get('a');
+    await backend.set('c', parts('c'), 3, 60_000);
+
+    assert.strictEqual(backend.size(), 2);
+    assert.strictEqual(await backend.get('a'), 1);
+    assert.strictEqual(await backend.get('b'), undefined);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Unit tests: AI usage accounting
+ *
+ * Tests estimateLLMCost() against the default price table and
+ * summarizeAIUsage(), which merges ai_usage_daily rows into totals,
+ * per-feature (cost-sorted) and per-day breakdowns. Then records usage and reads
+ * the daily stats back with in-memory storage.
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { estimateLLMCost, summarizeAIUsage, recordAIUsage, getAIUsageStats } from '../dist/services/aiUsageService.js';
+import { setRepositories, createMemoryRepositories } from '../dist/repositories/index.js';
+
+describe('estimateLLMCost', () => {
+  it('should price prompt and completion tokens separately', () => {
+    // gpt-4o-mini: $0.15 / 1M input, $0.60 / 1M output
+    assert.strictEqual(estimateLLMCost('openai/gpt-4o-mini', 1_000_000, 500_000), 0.45);
+  });
+
+  it('should return null for models without a price', () => {
+    assert.strictEqual(estimateLLMCost('unknown/model', 1000, 1000), null);
+  });
+});
+
+describe('summarizeAIUsage', () => {
+  const rows = [
+    { day: '2026-03-02', feature: 'cv_parsing', model: 'google/gemini-2.0-flash-001', calls: 10, failed_calls: 1, prompt_tokens: 40000, completion_tokens: 8000, cost_usd: 0.0072, avg_latency_ms: 3000 },
+    { day: '2026-03-01', feature: 'job_evaluation', model: 'google/gemini-2.5-flash', calls: 100, failed_calls: 0, prompt_tokens: 200000, completion_tokens: 30000, cost_usd: 0.135, avg_latency_ms: 1000 },
+    { day: '2026-03-02', feature: 'job_evaluation', model: 'openai/gpt-4o-mini', calls: 100, failed_calls: 2, prompt_tokens: 200000, completion_tokens: 30000, cost_usd: 0.048, avg_latency_ms: 2000 },
+  ];
+
+  it('should total all rows', () => {
+    const summary = summarizeAIUsage(rows, '2026-03-01', '2026-03-02');
+
+    assert.deepStrictEqual(summary.totals, {
+      calls: 210,
+      failedCalls: 3,
+      promptTokens: 440000,
+      completionTokens: 68000,
+      costUsd: 0.1902,
+    });
+  });
+
+  it('should group by feature, sorted by cost, with call-weighted latency', () => {
+    const summary = summarizeAIUsage(rows, '2026-03-01', '2026-03-02');
+
+    assert.deepStrictEqual(summary.byFeature.map((f) => f.feature), ['job_evaluation', 'cv_parsing']);
+    assert.deepStrictEqual(summary.byFeature[0].models, ['google/gemini-2.5-flash', 'openai/gpt-4o-mini']);
+    assert.strictEqual(summary.byFeature[0].calls, 200);
+    assert.strictEqual(summary.byFeature[0].avgLatencyMs, 1500);
+  });
+
+  it('should group by day in date order', () => {
+    const summary = summarizeAIUsage(rows, '2026-03-01', '2026-03-02');
+
+    assert.deepStrictEqual(summary.byDay.map((d) => [d.day, d.calls]), [['2026-03-01', 100], ['2026-03-02', 110]]);
+  });
+
+  it('should return zero totals for no usage', () => {
+    const summary = summarizeAIUsage([], '2026-03-01', '2026-03-02');
+
+    assert.strictEqual(summary.totals.calls, 0);
+    assert.deepStrictEqual(summary.byFeature, []);
+    assert.deepStrictEqual(summary.byDay, []);
+  });
+});
+
+describe('getAIUsageStats', () => {
+  let repos;
+
+  const usage = (model, createdAt, extra = {}) => ({
+    feature: 'job_evaluation',
+    model,
+    prompt_tokens: 1000,
+    completion_tokens: 200,
+    latency_ms: 1000,
+    cost_usd: 0.001,
+    status: 'ok',
+    created_at: createdAt,
+    ...extra,
+  });
+
+  beforeEach(() => {
+    repos = createMemoryRepositories({
+      ai_usage: [
+        usage('openai/gpt-4o-mini', '2026-03-01T08:00:00.000Z'),
+        usage('openai/gpt-4o-mini', '2026-03-01T20:00:00.000Z', { latency_ms: 3000, status: 'invalid_json' }),
+        usage('openai/gpt-4o-mini', '2026-03-02T08:00:00.000Z', { feature: 'cv_parsing' }),
+        usage('openai/gpt-4o-mini', '2026-03-05T08:00:00.000Z'),
+      ],
+    });
+    setRepositories(repos);
+  });
+
+  after(() => {
+    setRepositories(undefined);
+  });
+
+  it('should record a completion', async () => {
+    recordAIUsage({
+      feature: 'cv_parsing',
+      model: 'openai/gpt-4o-mini',
+      promptTokens: 300,
+      completionTokens: 100,
+      latencyMs: 800,
+      costUsd: null,
+      status: 'ok',
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const recorded = repos.tables.ai_usage.at(-1);
+    assert.strictEqual(recorded.feature, 'cv_parsing');
+    assert.strictEqual(recorded.total_tokens, 400);
+  });
+
+  it('should aggregate usage per day between the dates', async () => {
+    const stats = await getAIUsageStats({ from_date: '2026-03-01', to_date: '2026-03-02' });
+
+    assert.deepStrictEqual(stats.byDay.map((d) => [d.day, d.calls, d.failedCalls]), [
+      ['2026-03-01', 2, 1],
+      ['2026-03-02', 1, 0],
+    ]);
+    assert.strictEqual(stats.byFeature.find((f) => f.feature === 'job_evaluation').avgLatencyMs, 2000);
+
+    const cvParsing = await getAIUsageStats({ from_date: '2026-03-01', to_date: '2026-03-05', feature: 'cv_parsing' });
+    assert.strictEqual(cvParsing.totals.calls, 1);
+  });
+});
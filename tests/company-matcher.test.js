@@ -0,0 +1,88 @@
+/**
+ * Unit tests: company entity resolution
+ *
+ * Tests whether two company records are likely the same company:
+ * - companyNameTokens(): legal suffixes, punctuation and diacritics stripped
+ * - nameSimilarity(): token similarity of two names
+ * - matchCompanies(): org number, domain and name evidence combined into a score
+ * - findMatchingCompanies(): candidates above the threshold, best first
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  companyNameTokens,
+  nameSimilarity,
+  matchCompanies,
+  findMatchingCompanies,
+} from '../dist/utils/companyMatcher.js';
+
+const company = (id, name, extra = {}) => ({ id, name, domain: null, org_number: null, ...extra });
+
+describe('companyNameTokens', () => {
+  it('should strip legal suffixes, punctuation and diacritics', () => {
+    assert.deepStrictEqual(companyNameTokens('Klarna Bank AB (publ)'), ['klarna', 'bank']);
+    assert.deepStrictEqual(companyNameTokens('Åhléns Aktiebolag'), ['ahlens']);
+    assert.deepStrictEqual(companyNameTokens('H&M Sverige'), ['h', 'm']);
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('should score legal name variants as the same name', () => {
+    assert.strictEqual(nameSimilarity('Klarna', 'Klarna AB (publ)'), 1);
+    assert.strictEqual(nameSimilarity('Sky Scanner', 'Skyscanner AB'), 1);
+  });
+
+  it('should score names contained in each other above unrelated ones', () => {
+    assert.strictEqual(nameSimilarity('Klarna', 'Klarna Bank AB'), 0.75);
+    assert.ok(nameSimilarity('Volvo Cars', 'Volvo Trucks') < 0.5);
+    assert.strictEqual(nameSimilarity('Acme AB', 'Klarna AB'), 0);
+  });
+});
+
+describe('matchCompanies', () => {
+  it('should match on org number, and rule out different org numbers', () => {
+    const klarna = company('a', 'Klarna', { org_number: '556737-0431' });
+
+    const same = matchCompanies(klarna, company('b', 'Kreditor Europe AB', { org_number: '5567370431' }));
+    assert.strictEqual(same.score, 1);
+    assert.deepStrictEqual(same.reasons, ['org_number']);
+
+    const different = matchCompanies(klarna, company('c', 'Klarna AB', { org_number: '556000-0001' }));
+    assert.strictEqual(different.score, 0);
+  });
+
+  it('should score a shared domain even when the names differ', () => {
+    const match = matchCompanies(
+      company('a', 'Volvo Personvagnar', { domain: 'volvocars.com' }),
+      company('b', 'Volvo Cars', { domain: 'volvocars.com' })
+    );
+
+    assert.strictEqual(match.score, 0.95);
+    assert.deepStrictEqual(match.reasons, ['domain', 'name']);
+  });
+
+  it('should lower the name score when the domains differ', () => {
+    const match = matchCompanies(company('a', 'Klarna', { domain: 'klarna.com' }), company('b', 'Klarna AB', { domain: 'klarna.se' }));
+
+    assert.strictEqual(match.score, 0.85);
+    assert.strictEqual(match.name_similarity, 1);
+  });
+});
+
+describe('findMatchingCompanies', () => {
+  it('should return candidates above the threshold, best first, without the company itself', () => {
+    const klarna = company('a', 'Klarna');
+    const matches = findMatchingCompanies(klarna, [
+      klarna,
+      company('b', 'Klarna Bank AB'),
+      company('c', 'Klarna AB (publ)'),
+      company('d', 'Klarnas Bageri'),
+      company('e', 'Acme AB'),
+    ]);
+
+    assert.deepStrictEqual(matches.map((m) => m.id), ['c', 'b']);
+  });
+});
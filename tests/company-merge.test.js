@@ -0,0 +1,158 @@
+/**
+ * Route tests: duplicate companies (offline)
+ *
+ * Proposes merge candidates and merges duplicates via the admin router, with
+ * in-memory storage: jobs, signals and contacts move to the surviving company,
+ * contacts it already has stay behind, empty fields are filled, the merge is
+ * recorded in company_merges, and find_or_create_company resolves the merged
+ * company's name to the surviving one.
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import express from 'express';
+import adminRouter from '../dist/routes/admin.js';
+import { setRepositories, createMemoryRepositories } from '../dist/repositories/index.js';
+
+let server;
+let baseUrl;
+let repos;
+
+async function request(method, path, body) {
+  const res = await fetch(`${baseUrl}/api/admin${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/admin', adminRouter);
+
+  await new Promise((resolve) => {
+    server = app.listen(0, resolve);
+  });
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => {
+  server.close();
+  setRepositories(undefined);
+});
+
+beforeEach(() => {
+  repos = createMemoryRepositories({
+    companies: [
+      { id: 'c1', name: 'Klarna', domain: null, created_at: '2026-01-01T00:00:00.000Z' },
+      {
+        id: 'c2',
+        name: 'Klarna Bank AB',
+        domain: 'klarna.com',
+        domain_source: 'linkedin_website',
+        domain_confidence: 0.95,
+        website: 'https://www.klarna.com',
+        created_at: '2026-01-02T00:00:00.000Z',
+      },
+      { id: 'c3', name: 'Klarna AB (publ)', domain: null, created_at: '2026-01-03T00:00:00.000Z' },
+      { id: 'c4', name: 'Acme AB', domain: 'acme.se', created_at: '2026-01-04T00:00:00.000Z' },
+    ],
+    jobs: [
+      { id: 'j1', company_id: 'c1', title: 'Controller' },
+      { id: 'j2', company_id: 'c2', title: 'Redovisningsekonom' },
+    ],
+    scraping_signals: [{ id: 's1', company_id: 'c2', signal_type: 'linkedin_job_ad', payload: {} }],
+    contacts: [
+      { id: 'p1', company_id: 'c1', email: 'anna@klarna.com' },
+      { id: 'p2', company_id: 'c2', email: 'anna@klarna.com' },
+      { id: 'p3', company_id: 'c2', email: 'erik@klarna.com' },
+    ],
+  });
+  setRepositories(repos);
+});
+
+describe('GET /api/admin/companies/:id/merge-candidates', () => {
+  it('should propose legal name variants, best first', async () => {
+    const { status, body } = await request('GET', '/companies/c1/merge-candidates');
+
+    assert.strictEqual(status, 200);
+    assert.deepStrictEqual(body.data.candidates.map((c) => c.id), ['c3', 'c2']);
+    assert.strictEqual(body.data.candidates[0].score, 1);
+    assert.deepStrictEqual(body.data.candidates[0].reasons, ['name']);
+  });
+
+  it('should respond 404 for an unknown company', async () => {
+    const { status } = await request('GET', '/companies/missing/merge-candidates');
+
+    assert.strictEqual(status, 404);
+  });
+});
+
+describe('POST /api/admin/companies/:id/merge', () => {
+  it('should move jobs, signals and contacts and record the merge', async () => {
+    const { status, body } = await request('POST', '/companies/c1/merge', {
+      company_ids: ['c2'],
+      reason: 'Same company, legal name variant',
+      merged_by: 'anna@rookiework.se',
+    });
+
+    assert.strictEqual(status, 200);
+    const [merged] = body.data.merged;
+    assert.deepStrictEqual(merged.moved, { jobs: 1, signals: 1, contacts: 1 });
+    assert.deepStrictEqual(merged.contacts_skipped, ['p2']);
+    assert.deepStrictEqual(merged.filled_fields, ['domain', 'domain_source', 'domain_confidence', 'website']);
+
+    const { tables } = repos;
+    assert.strictEqual(tables.jobs.find((j) => j.id === 'j2').company_id, 'c1');
+    assert.strictEqual(tables.scraping_signals[0].company_id, 'c1');
+    assert.strictEqual(tables.contacts.find((c) => c.id === 'p3').company_id, 'c1');
+    assert.strictEqual(tables.contacts.find((c) => c.id === 'p2').company_id, 'c2');
+
+    const target = tables.companies.find((c) => c.id === 'c1');
+    assert.strictEqual(target.domain, 'klarna.com');
+    assert.strictEqual(target.domain_source, 'linkedin_website');
+    assert.strictEqual(tables.companies.find((c) => c.id === 'c2').merged_into, 'c1');
+
+    assert.strictEqual(tables.company_merges.length, 1);
+    assert.strictEqual(tables.company_merges[0].merged_company_id, 'c2');
+    assert.strictEqual(tables.company_merges[0].merged_company.name, 'Klarna Bank AB');
+    assert.strictEqual(tables.company_merges[0].reason, 'Same company, legal name variant');
+  });
+
+  it('should resolve a merged company to the one it was merged into', async () => {
+    await request('POST', '/companies/c1/merge', { company_ids: ['c2', 'c3'], reason: 'Duplicates' });
+
+    assert.strictEqual(await repos.companies.findOrCreate('Klarna Bank AB', null, 'linkedin'), 'c1');
+    assert.strictEqual(await repos.companies.findOrCreate('Klarna AB', 'klarna.com', 'linkedin'), 'c1');
+
+    const { body } = await request('GET', '/companies');
+    assert.deepStrictEqual(body.data.map((c) => c.id).sort(), ['c1', 'c4']);
+
+    // Companies merged into c1 follow it when c1 is merged in turn
+    await request('POST', '/companies/c4/merge', { company_ids: ['c1'], reason: 'Test' });
+    assert.strictEqual(repos.tables.companies.find((c) => c.id === 'c2').merged_into, 'c4');
+  });
+
+  it('should reject merging an already merged company', async () => {
+    await request('POST', '/companies/c1/merge', { company_ids: ['c2'], reason: 'Duplicates' });
+
+    const { status, body } = await request('POST', '/companies/c3/merge', { company_ids: ['c2'], reason: 'Duplicates' });
+
+    assert.strictEqual(status, 409);
+    assert.match(body.data.error, /already merged/);
+    assert.strictEqual(repos.tables.company_merges.length, 1);
+  });
+
+  it('should respond 404 for unknown companies and 400 for a blank reason', async () => {
+    const missing = await request('POST', '/companies/c1/merge', { company_ids: ['nope'], reason: 'Duplicates' });
+    assert.strictEqual(missing.status, 404);
+
+    const invalid = await request('POST', '/companies/c1/merge', { company_ids: ['c2'], reason: ' ' });
+    assert.strictEqual(invalid.status, 400);
+    assert.match(invalid.body.error, /reason is required/);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Unit and route tests: company lead scores (offline)
+ *
+ * Tests scoreCompanySignals(): points per signal type scaled by the signal's own
+ * score, half-life decay, expired and invalid signals, component caps and hiring
+ * velocity. Then scores and rescores companies via the admin router, with
+ * in-memory storage.
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import express from 'express';
+import adminRouter from '../dist/routes/admin.js';
+import { scoreCompanySignals } from '../dist/utils/companyScoring.js';
+import { setRepositories, createMemoryRepositories } from '../dist/repositories/index.js';
+
+const NOW = new Date('2026-06-01T00:00:00.000Z');
+const daysAgo = (days) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const formLead = (id, days, payload = {}) => ({
+  id,
+  signal_type: 'website_form_submission',
+  captured_at: daysAgo(days),
+  payload: { classification: 'valid_lead', lead_score: 100, ...payload },
+});
+const jobAd = (id, days, payload = {}) => ({
+  id,
+  signal_type: 'linkedin_job_ad',
+  signal_date: daysAgo(days),
+  payload: { score: 100, valid: true, ...payload },
+});
+
+describe('scoreCompanySignals', () => {
+  it('should halve a signal\'s points every half-life', () => {
+    const fresh = scoreCompanySignals([formLead('s1', 0)], NOW);
+    const old = scoreCompanySignals([formLead('s1', 90)], NOW);
+
+    assert.strictEqual(fresh.score, 40);
+    assert.strictEqual(old.score, 20);
+    assert.strictEqual(old.contributions[0].decay, 0.5);
+  });
+
+  it('should scale points by the signal\'s own score', () => {
+    const result = scoreCompanySignals([formLead('s1', 0, { lead_score: 50 }), jobAd('s2', 0, { score: 80 })], NOW);
+
+    assert.deepStrictEqual(
+      result.contributions.map((c) => [c.signal_id, c.points]),
+      [['s1', 20], ['s2', 8]]
+    );
+    assert.strictEqual(result.score, 28);
+  });
+
+  it('should give nothing for expired, invalid, rejected and unknown signals', () => {
+    const result = scoreCompanySignals(
+      [
+        { ...formLead('s1', 0), expired_at: daysAgo(1) },
+        formLead('s2', 0, { classification: 'likely_spam' }),
+        jobAd('s3', 0, { valid: false }),
+        { id: 's4', signal_type: 'google_maps_listing', captured_at: daysAgo(0), payload: { score: 90, isValid: false } },
+        { id: 's5', signal_type: 'press_mention', captured_at: daysAgo(0), payload: { score: 100 } },
+      ],
+      NOW
+    );
+
+    assert.strictEqual(result.score, 0);
+    assert.deepStrictEqual(result.contributions.map((c) => c.signal_id).sort(), ['s1', 's2', 's3', 's4']);
+  });
+
+  it('should cap job ads and add hiring velocity for recent ones', () => {
+    const ads = ['s1', 's2', 's3', 's4', 's5'].map((id) => jobAd(id, 1));
+    const result = scoreCompanySignals([...ads, jobAd('s6', 45)], NOW);
+
+    assert.strictEqual(result.recent_job_ads, 5);
+    assert.strictEqual(result.components.job_ad, 30);
+    assert.strictEqual(result.components.hiring_velocity, 15);
+    assert.strictEqual(result.score, 45);
+
+    const velocity = result.contributions.find((c) => c.component === 'hiring_velocity');
+    assert.strictEqual(velocity.signal_id, null);
+
+    const total = result.contributions.reduce((sum, c) => sum + c.points, 0);
+    assert.ok(Math.abs(total - 45) < 0.1);
+  });
+});
+
+describe('company score routes', () => {
+  let server;
+  let baseUrl;
+  let repos;
+
+  before(async () => {
+    const app = express();
+    app.use('/api/admin', adminRouter);
+    await new Promise((resolve) => {
+      server = app.listen(0, resolve);
+    });
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  after(() => {
+    server.close();
+    setRepositories(undefined);
+  });
+
+  beforeEach(() => {
+    const recent = new Date(Date.now() - 60 * 1000).toISOString();
+    repos = createMemoryRepositories({
+      companies: [
+        { id: 'c1', name: 'Acme AB', current_score: 90, created_at: '2026-01-01T00:00:00.000Z' },
+        { id: 'c2', name: 'Beta AB', current_score: null, created_at: '2026-01-02T00:00:00.000Z' },
+        { id: 'c3', name: 'Acme Sverige AB', merged_into: 'c1', created_at: '2026-01-03T00:00:00.000Z' },
+      ],
+      scraping_signals: [
+        { ...formLead('s1', 0), company_id: 'c1', captured_at: recent },
+        { ...jobAd('s2', 0, { score: 50 }), company_id: 'c1', signal_date: recent, captured_at: recent },
+      ],
+    });
+    setRepositories(repos);
+  });
+
+  const request = async (method, path) => {
+    const res = await fetch(`${baseUrl}/api/admin${path}`, { method });
+    return { status: res.status, body: await res.json() };
+  };
+
+  it('should return the score with each signal\'s contribution, without storing it', async () => {
+    const { status, body } = await request('GET', '/companies/c1/score');
+
+    assert.strictEqual(status, 200);
+    assert.strictEqual(body.data.score, 45);
+    assert.strictEqual(body.data.stored_score, 90);
+    assert.deepStrictEqual(body.data.contributions.map((c) => c.signal_id), ['s1', 's2']);
+    assert.strictEqual(repos.tables.companies[0].current_score, 90);
+
+    const missing = await request('GET', '/companies/missing/score');
+    assert.strictEqual(missing.status, 404);
+  });
+
+  it('should rescore all companies not merged into another', async () => {
+    const { status, body } = await request('POST', '/companies/rescore');
+
+    assert.strictEqual(status, 200);
+    assert.deepStrictEqual(body.stats, { companies: 2, changed: 2, failed: 0 });
+
+    const [acme, beta, merged] = repos.tables.companies;
+    assert.strictEqual(acme.current_score, 45);
+    assert.deepStrictEqual(acme.score_breakdown.components, { form_lead: 40, job_ad: 5, google_maps: 0, hiring_velocity: 0 });
+    assert.ok(acme.scored_at);
+    assert.strictEqual(beta.current_score, 0);
+    assert.strictEqual(merged.scored_at, undefined);
+    assert.deepStrictEqual(repos.tables.scraping_signals.map((s) => s.score_contribution), [40, 5]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests: Incremental deduplication lookup
+ *
+ * Tests findExistingExternalKeys() / excludeExistingJobs() against a stubbed
+ * query that behaves like PostgREST: at most 1000 rows per request. Batches
+ * well above that limit must still dedupe completely because lookups are
+ * chunked by candidate id.
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  findExistingExternalKeys,
+  excludeExistingJobs,
+  chunkArray,
+  DEDUP_CHUNK_SIZE,
+} from '../dist/services/jobs/dedupLookup.js';
+
+const ROW_CAP = 1000;
+
+function makeJob(n) {
+  return { externalId: `ext-${n}`, url: `https://se.indeed.com/viewjob?jk=${n}` };
+}
+
+/**
+ * Stub for the Supabase chunk query: filters stored rows by column and
+ * silently truncates to ROW_CAP, like the real default row limit.
+ */
+function stubQuery(tables) {
+  const calls = [];
+  const query = async (table, column, values) => {
+    calls.push({ table, column, size: values.length });
+    const wanted = new Set(values);
+    return (tables[table] || []).filter((row) => wanted.has(row[column])).slice(0, ROW_CAP);
+  };
+  return { query, calls };
+}
+
+describe('chunkArray', () => {
+  it('should split into chunks of at most the given size', () => {
+    const chunks = chunkArray([1, 2, 3, 4, 5], 2);
+    assert.deepStrictEqual(chunks, [[1, 2], [3, 4], [5]]);
+  });
+
+  it('should return no chunks for an empty array', () => {
+    assert.deepStrictEqual(chunkArray([], 100), []);
+  });
+});
+
+describe('findExistingExternalKeys', () => {
+  it('should find every stored job in a batch larger than the row cap', async () => {
+    const stored = Array.from({ length: 2500 }, (_, i) => makeJob(i));
+    const { query, calls } = stubQuery({
+      jobs: stored.map((j) => ({ external_id: j.externalId, external_url: j.url })),
+    });
+
+    // 2500 already stored + 100 new
+    const batch = Array.from({ length: 2600 }, (_, i) => makeJob(i));
+
+    const existing = await findExistingExternalKeys(query, batch);
+    const newJobs = excludeExistingJobs(batch, existing);
+
+    assert.strictEqual(newJobs.length, 100);
+    assert.strictEqual(newJobs[0].externalId, 'ext-2500');
+    assert.ok(calls.every((c) => c.size <= DEDUP_CHUNK_SIZE));
+  });
+
+  it('should treat jobs linked as cross-source duplicates as existing', async () => {
+    const { query } = stubQuery({
+      jobs: [],
+      job_source_links: [{ external_id: 'ext-7', external_url: 'https://se.indeed.com/viewjob?jk=7' }],
+    });
+
+    const batch = [makeJob(7), makeJob(8)];
+    const newJobs = excludeExistingJobs(batch, await findExistingExternalKeys(query, batch));
+
+    assert.deepStrictEqual(
+      newJobs.map((j) => j.externalId),
+      ['ext-8']
+    );
+  });
+
+  it('should match on url when the external id changed', async () => {
+    const { query } = stubQuery({
+      jobs: [{ external_id: 'old-id', external_url: 'https://se.indeed.com/viewjob?jk=3' }],
+    });
+
+    const batch = [{ externalId: 'new-id', url: 'https://se.indeed.com/viewjob?jk=3' }];
+    const newJobs = excludeExistingJobs(batch, await findExistingExternalKeys(query, batch));
+
+    assert.strictEqual(newJobs.length, 0);
+  });
+
+  it('should not query when the batch is empty', async () => {
+    const { query, calls } = stubQuery({});
+    const existing = await findExistingExternalKeys(query, []);
+
+    assert.strictEqual(existing.size, 0);
+    assert.strictEqual(calls.length, 0);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit tests: company domain resolution
+ *
+ * Tests registrableDomain() (URLs, hosts and emails to a registrable domain),
+ * domainMatchesName() and resolveCompanyDomain(): candidates ranked by source,
+ * name resemblance and agreement; personal, job board and ATS domains ignored;
+ * no domain rather than an untrusted one.
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { registrableDomain, domainMatchesName, resolveCompanyDomain } from '../dist/utils/domainResolver.js';
+
+describe('registrableDomain', () => {
+  it('should reduce URLs, hosts and emails to the registrable domain', () => {
+    assert.strictEqual(registrableDomain('https://careers.volvo.com/jobs/123'), 'volvo.com');
+    assert.strictEqual(registrableDomain('www.acme.se'), 'acme.se');
+    assert.strictEqual(registrableDomain('jobb@mail.acme.se'), 'acme.se');
+    assert.strictEqual(registrableDomain('https://shop.example.co.uk'), 'example.co.uk');
+  });
+
+  it('should return null for values without a plausible host', () => {
+    assert.strictEqual(registrableDomain(''), null);
+    assert.strictEqual(registrableDomain('Email Not Found'), null);
+    assert.strictEqual(registrableDomain('localhost'), null);
+    assert.strictEqual(registrableDomain('http://10.0.0.1/apply'), null);
+  });
+});
+
+describe('domainMatchesName', () => {
+  it('should match domains that resemble the company name', () => {
+    assert.ok(domainMatchesName('volvocars.com', 'Volvo Cars AB'));
+    assert.ok(domainMatchesName('volvo.se', 'Volvo Cars AB'));
+    assert.ok(domainMatchesName('ahlens.se', 'Åhléns AB'));
+  });
+
+  it('should not match unrelated domains', () => {
+    assert.ok(!domainMatchesName('adecco.se', 'Volvo Cars AB'));
+    assert.ok(!domainMatchesName('ab.se', 'Acme AB'));
+  });
+});
+
+describe('resolveCompanyDomain', () => {
+  it('should prefer the company website over an application email', () => {
+    const { resolved, candidates } = resolveCompanyDomain('Acme AB', [
+      { source: 'application_email', value: 'jobs@acmegroup-hr.se' },
+      { source: 'linkedin_website', value: 'https://www.acme.se' },
+    ]);
+
+    assert.deepStrictEqual(resolved, { domain: 'acme.se', source: 'linkedin_website', confidence: 1 });
+    assert.strictEqual(candidates.length, 2);
+  });
+
+  it('should raise confidence when sources agree', () => {
+    const single = resolveCompanyDomain('Acme AB', [{ source: 'application_email', value: 'jobb@acme.se' }]);
+    const agreed = resolveCompanyDomain('Acme AB', [
+      { source: 'application_email', value: 'jobb@acme.se' },
+      { source: 'application_url', value: 'https://acme.se/karriar' },
+    ]);
+
+    assert.strictEqual(single.resolved.confidence, 0.8);
+    assert.strictEqual(agreed.resolved.confidence, 0.85);
+    assert.deepStrictEqual(agreed.candidates[0].sources, ['application_email', 'application_url']);
+  });
+
+  it('should ignore personal email, job board and ATS domains', () => {
+    const { resolved, candidates } = resolveCompanyDomain('Acme AB', [
+      { source: 'application_email', value: 'anna@gmail.com' },
+      { source: 'application_url', value: 'https://acme.teamtailor.com/jobs/1' },
+      { source: 'application_url', value: 'https://arbetsformedlingen.se/platsbanken/annonser/1' },
+    ]);
+
+    assert.strictEqual(resolved, null);
+    assert.deepStrictEqual(candidates, []);
+  });
+
+  it('should not trust an application URL unrelated to the company name', () => {
+    const { resolved, candidates } = resolveCompanyDomain('Acme AB', [
+      { source: 'application_url', value: 'https://recruitfirm.se/apply/1' },
+    ]);
+
+    assert.strictEqual(resolved, null);
+    assert.strictEqual(candidates[0].confidence, 0.4);
+  });
+
+  it('should not trust an agency email unrelated to the company name', () => {
+    const { resolved, candidates } = resolveCompanyDomain('Volvo Cars AB', [
+      { source: 'application_email', value: 'rekrytering@academicwork.se' },
+    ]);
+
+    assert.strictEqual(resolved, null);
+    assert.strictEqual(candidates[0].confidence, 0.4);
+  });
+
+  it('should not trust a form email unrelated to the company name, even when sources agree', () => {
+    const form = resolveCompanyDomain('Volvo Cars AB', [{ source: 'email', value: 'anna@bemanningsbolaget.se' }]);
+    const agreed = resolveCompanyDomain('Volvo Cars AB', [
+      { source: 'application_email', value: 'jobb@bemanningsbolaget.se' },
+      { source: 'email', value: 'anna@bemanningsbolaget.se' },
+    ]);
+
+    assert.strictEqual(form.resolved, null);
+    assert.strictEqual(agreed.resolved, null);
+    assert.strictEqual(agreed.candidates[0].confidence, 0.45);
+  });
+
+  it('should never derive a domain from the company name alone', () => {
+    assert.strictEqual(resolveCompanyDomain('Volvo Cars AB', []).resolved, null);
+  });
+});
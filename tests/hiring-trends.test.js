@@ -0,0 +1,182 @@
+/**
+ * Unit and route tests: hiring trends (offline)
+ *
+ * Tests analyzeHiringTrends(): postings in the window compared with the baseline,
+ * hiring spikes, new-to-market employers and category trends. Then records
+ * hiring_spike signals with detectHiringSpikes() and reads the trends via the admin
+ * router, with in-memory storage.
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import express from 'express';
+import adminRouter from '../dist/routes/admin.js';
+import { analyzeHiringTrends } from '../dist/utils/hiringTrends.js';
+import { detectHiringSpikes } from '../dist/services/hiringTrendService.js';
+import { setRepositories, createMemoryRepositories } from '../dist/repositories/index.js';
+
+const NOW = new Date('2026-06-01T00:00:00.000Z');
+const daysAgo = (days, now = NOW) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const posting = (companyId, days, category = 'Ekonomi') => ({
+  company_id: companyId,
+  company_name: `Company ${companyId}`,
+  category,
+  posted_at: daysAgo(days),
+});
+
+describe('analyzeHiringTrends', () => {
+  it('should flag a company posting far above its baseline as a spike', () => {
+    const trends = analyzeHiringTrends(
+      [
+        ...[1, 3, 5, 8, 12, 20].map((days) => posting('acme', days)),
+        posting('acme', 60),
+        posting('beta', 2),
+        posting('beta', 40),
+        posting('beta', 70),
+        posting('beta', 100),
+      ],
+      { now: NOW }
+    );
+
+    const [acme, beta] = trends.companies;
+    assert.strictEqual(acme.company_id, 'acme');
+    assert.deepStrictEqual(
+      [acme.recent_postings, acme.baseline_postings, acme.expected_postings, acme.ratio, acme.spike],
+      [6, 1, 0.33, 6, true]
+    );
+    assert.strictEqual(beta.spike, false);
+    assert.strictEqual(beta.expected_postings, 1);
+    assert.strictEqual(trends.summary.spikes, 1);
+  });
+
+  it('should not flag a few postings or a steady poster as a spike', () => {
+    const trends = analyzeHiringTrends(
+      [
+        posting('small', 1),
+        posting('small', 2),
+        ...[1, 5, 10, 15].map((days) => posting('steady', days)),
+        ...[35, 45, 55, 65, 75, 85, 95, 105].map((days) => posting('steady', days)),
+      ],
+      { now: NOW }
+    );
+
+    assert.deepStrictEqual(trends.companies.map((c) => c.spike), [false, false]);
+    // No earlier postings at all
+    assert.strictEqual(trends.companies.find((c) => c.company_id === 'small').new_to_market, true);
+    assert.strictEqual(trends.companies.find((c) => c.company_id === 'steady').new_to_market, false);
+  });
+
+  it('should compute category trends and ignore postings before the baseline', () => {
+    const trends = analyzeHiringTrends(
+      [
+        ...[1, 2, 3].map((days) => posting('a', days, 'Ekonomi')),
+        posting('b', 4, 'Ekonomi'),
+        posting('c', 50, 'Ekonomi'),
+        ...[40, 50, 60, 70, 80, 90].map((days) => posting('d', days, 'HR')),
+        posting('e', 300, 'IT'),
+      ],
+      { now: NOW }
+    );
+
+    assert.deepStrictEqual(
+      trends.categories.map((c) => [c.category, c.recent_postings, c.companies, c.trend]),
+      [
+        ['Ekonomi', 4, 2, 'rising'],
+        ['HR', 0, 0, 'falling'],
+      ]
+    );
+    assert.strictEqual(trends.summary.baseline_postings, 7);
+  });
+});
+
+describe('hiring spikes and trends', () => {
+  let server;
+  let baseUrl;
+  let repos;
+
+  const job = (id, companyId, days, extra = {}) => ({
+    id,
+    company_id: companyId,
+    title: 'Junior Controller',
+    ai_valid: true,
+    ai_category: 'Ekonomi',
+    posted_date: daysAgo(days, new Date()).slice(0, 10),
+    created_at: daysAgo(days, new Date()),
+    ...extra,
+  });
+
+  before(async () => {
+    const app = express();
+    app.use('/api/admin', adminRouter);
+    await new Promise((resolve) => {
+      server = app.listen(0, resolve);
+    });
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  after(() => {
+    server.close();
+    setRepositories(undefined);
+  });
+
+  beforeEach(() => {
+    repos = createMemoryRepositories({
+      companies: [
+        { id: 'c1', name: 'Acme AB' },
+        { id: 'c2', name: 'Beta AB' },
+      ],
+      jobs: [
+        ...[1, 3, 5, 8].map((days, i) => job(`j${i}`, 'c1', days)),
+        job('j4', 'c1', 10, { ai_valid: false }),
+        job('j5', 'c2', 2, { ai_category: 'HR' }),
+        job('j6', 'c2', 60, { ai_category: 'HR' }),
+      ],
+    });
+    setRepositories(repos);
+  });
+
+  it('should record a hiring_spike signal once per company and window', async () => {
+    assert.strictEqual(await detectHiringSpikes(['c1', 'c2']), 1);
+    assert.strictEqual(await detectHiringSpikes(['c1']), 0);
+
+    const [signal] = repos.tables.scraping_signals;
+    assert.strictEqual(signal.signal_type, 'hiring_spike');
+    assert.strictEqual(signal.company_id, 'c1');
+    assert.strictEqual(signal.payload.recent_postings, 4);
+    assert.strictEqual(signal.payload.new_to_market, true);
+    assert.ok(signal.expired_at > signal.signal_date);
+  });
+
+  it('should return hiring trends, filterable by category', async () => {
+    const res = await fetch(`${baseUrl}/api/admin/stats/hiring-trends`);
+    const body = await res.json();
+
+    assert.strictEqual(res.status, 200);
+    assert.deepStrictEqual(body.data.companies.map((c) => [c.company_name, c.recent_postings, c.spike]), [
+      ['Acme AB', 4, true],
+      ['Beta AB', 1, false],
+    ]);
+    assert.deepStrictEqual(body.data.summary, {
+      recent_postings: 5,
+      baseline_postings: 1,
+      companies_hiring: 2,
+      spikes: 1,
+      new_to_market: 1,
+    });
+
+    const hr = await (await fetch(`${baseUrl}/api/admin/stats/hiring-trends?category=HR`)).json();
+    assert.deepStrictEqual(hr.data.companies.map((c) => c.company_id), ['c2']);
+    assert.deepStrictEqual(hr.data.categories.map((c) => c.category), ['HR']);
+  });
+
+  it('should respond 400 for an invalid window', async () => {
+    const res = await fetch(`${baseUrl}/api/admin/stats/hiring-trends?window_days=0`);
+    const body = await res.json();
+
+    assert.strictEqual(res.status, 400);
+    assert.match(body.error, /window_days/);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Unit tests: job filter stages
+ *
+ * Tests the filters applied to scraped jobs before AI evaluation:
+ * - compileKeywords(): whole-word, Unicode-aware keyword matching with * wildcards
+ * - buildJobFilterStages(): one stage per enabled setting
+ * - runJobFilters(): each dropped job counted once, by the first stage that drops it
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { compileKeywords, buildJobFilterStages, runJobFilters } from '../dist/services/jobs/jobFilters.js';
+
+const noFilters = {
+  exclusionKeywords: [],
+  titleExclusionKeywords: [],
+  exclusionPatterns: [],
+  excludeSenior: false,
+  blockedCompanies: [],
+  minDescriptionLength: 0,
+};
+
+const job = (title, overrides = {}) => ({
+  externalId: title,
+  title,
+  company: 'Acme AB',
+  location: 'Stockholm',
+  description: 'Vi söker en junior medarbetare med 0-2 års erfarenhet till vårt team i Stockholm.',
+  url: 'https://example.com/job',
+  source: 'indeed',
+  rawData: {},
+  ...overrides,
+});
+
+const titles = (jobs) => jobs.map((j) => j.title);
+
+describe('compileKeywords', () => {
+  it('should match whole words only', () => {
+    const regex = compileKeywords(['kock', 'lead']);
+
+    assert.ok(regex.test('Kock till restaurang'));
+    assert.ok(regex.test('Team Lead'));
+    assert.ok(!regex.test('Ekonom till Kockums'));
+    assert.ok(!regex.test('A leading company'));
+  });
+
+  it('should treat Swedish letters as part of a word', () => {
+    const regex = compileKeywords(['lärare']);
+
+    assert.ok(regex.test('Lärare i matematik'));
+    assert.ok(!regex.test('Förskollärarexamen'));
+  });
+
+  it('should match the rest of a word with a * at either end', () => {
+    assert.ok(compileKeywords(['*chef']).test('Ekonomichef'));
+    assert.ok(compileKeywords(['*chef']).test('Chef'));
+    assert.ok(compileKeywords(['sjukskötersk*']).test('Sjuksköterskor sökes'));
+    assert.ok(!compileKeywords(['*chef']).test('Chefsassistent'));
+  });
+
+  it('should escape regex characters and ignore empty keywords', () => {
+    assert.ok(compileKeywords(['c++']).test('Utvecklare C++ och Python'));
+    assert.ok(!compileKeywords(['c++']).test('Utvecklare Cxx'));
+    assert.strictEqual(compileKeywords(['', ' ', '*']), null);
+  });
+});
+
+describe('buildJobFilterStages', () => {
+  it('should add no stages when nothing is configured', () => {
+    assert.deepStrictEqual(buildJobFilterStages(noFilters), []);
+  });
+
+  it('should add a stage per enabled setting, cheapest first', () => {
+    const stages = buildJobFilterStages({
+      exclusionKeywords: ['kock'],
+      titleExclusionKeywords: ['trainee'],
+      exclusionPatterns: ['körkort\\s+c\\b'],
+      excludeSenior: true,
+      blockedCompanies: ['Adecco'],
+      minDescriptionLength: 50,
+    });
+
+    assert.deepStrictEqual(
+      stages.map((s) => s.name),
+      ['min_description_length', 'company_blocklist', 'title_keywords', 'seniority', 'keywords', 'patterns']
+    );
+  });
+
+  it('should skip patterns that do not compile', () => {
+    const stages = buildJobFilterStages({ ...noFilters, exclusionPatterns: ['(unclosed'] });
+
+    assert.deepStrictEqual(stages, []);
+  });
+});
+
+describe('runJobFilters', () => {
+  it('should drop senior titles and ads asking for more years than the target segment', () => {
+    const stages = buildJobFilterStages({ ...noFilters, excludeSenior: true });
+    const result = runJobFilters(
+      [
+        job('Junior Controller'),
+        job('Senior Controller'),
+        job('Ekonomichef'),
+        job('Controller', { description: 'Du har minst 10 års erfarenhet av controlling.' }),
+        job('Redovisningsekonom', { description: 'Du har 3-5 års erfarenhet av redovisning.' }),
+      ],
+      stages
+    );
+
+    assert.deepStrictEqual(titles(result.jobs), ['Junior Controller', 'Redovisningsekonom']);
+    assert.deepStrictEqual(result.drops, { seniority: 3 });
+  });
+
+  it('should match blocked companies after normalizing the name', () => {
+    const stages = buildJobFilterStages({ ...noFilters, blockedCompanies: ['Adecco'] });
+    const result = runJobFilters([job('Ekonom', { company: 'Adecco AB' }), job('Ekonom')], stages);
+
+    assert.strictEqual(result.jobs.length, 1);
+    assert.strictEqual(result.drops.company_blocklist, 1);
+  });
+
+  it('should only match title keywords in the title', () => {
+    const stages = buildJobFilterStages({ ...noFilters, titleExclusionKeywords: ['trainee'] });
+    const result = runJobFilters(
+      [job('Trainee ekonomi'), job('Ekonom', { description: 'Du har gått vårt traineeprogram eller ett trainee-år.' })],
+      stages
+    );
+
+    assert.deepStrictEqual(titles(result.jobs), ['Ekonom']);
+  });
+
+  it('should count each dropped job once, for the first stage that drops it', () => {
+    const stages = buildJobFilterStages({
+      ...noFilters,
+      minDescriptionLength: 40,
+      exclusionKeywords: ['kock'],
+      exclusionPatterns: ['körkort\\s+c\\b'],
+    });
+    const result = runJobFilters(
+      [
+        job('Kock', { description: 'Kort.' }),
+        job('Kock till lunchrestaurang'),
+        job('Lagerarbetare', { description: 'Du har körkort C och erfarenhet av truckkörning på lager.' }),
+        job('Ekonom till Kockums'),
+      ],
+      stages
+    );
+
+    assert.deepStrictEqual(titles(result.jobs), ['Ekonom till Kockums']);
+    assert.deepStrictEqual(result.drops, { min_description_length: 1, keywords: 1, patterns: 1 });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit tests: Cross-source job fingerprints
+ *
+ * Tests buildJobFingerprint() normalization (company legal suffixes, title
+ * noise, location formats) and the description sketch similarity used to
+ * decide whether two postings from different sources are the same job.
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  buildJobFingerprint,
+  isSameJobContent,
+  sketchSimilarity,
+  normalizeCompanyForFingerprint,
+  normalizeTitleForFingerprint,
+  normalizeLocationForFingerprint,
+} from '../dist/services/jobs/jobFingerprint.js';
+
+const description =
+  'Vi söker en junior utvecklare som vill växa med oss. Du kommer att arbeta med React, Node.js och ' +
+  'TypeScript i ett agilt team. Vi erbjuder mentorskap, flexibla arbetstider och goda möjligheter ' +
+  'till utveckling. Tjänsten är på heltid med start enligt överenskommelse.';
+
+describe('fingerprint normalization', () => {
+  it('should strip legal suffixes from company names', () => {
+    assert.strictEqual(normalizeCompanyForFingerprint('Acme Sverige AB (publ)'), 'acme');
+    assert.strictEqual(normalizeCompanyForFingerprint('ACME AB'), 'acme');
+    assert.strictEqual(normalizeCompanyForFingerprint('Acme'), 'acme');
+  });
+
+  it('should strip bracketed notes and trailing location from titles', () => {
+    assert.strictEqual(normalizeTitleForFingerprint('Junior Utvecklare (m/k) - Stockholm'), 'junior utvecklare');
+    assert.strictEqual(normalizeTitleForFingerprint('junior utvecklare'), 'junior utvecklare');
+  });
+
+  it('should reduce location formats to the city', () => {
+    assert.strictEqual(normalizeLocationForFingerprint('Stockholm, Stockholm County, Sweden'), 'stockholm');
+    assert.strictEqual(normalizeLocationForFingerprint('111 22 Stockholm'), 'stockholm');
+    assert.strictEqual(normalizeLocationForFingerprint('Göteborg'), normalizeLocationForFingerprint('Goteborg'));
+  });
+});
+
+describe('buildJobFingerprint', () => {
+  it('should match the same posting across sources despite formatting differences', () => {
+    const indeed = buildJobFingerprint({
+      company: 'Acme AB',
+      title: 'Junior Utvecklare',
+      location: 'Stockholm',
+      description,
+    });
+    const linkedin = buildJobFingerprint({
+      company: 'Acme',
+      title: 'Junior Utvecklare (m/k) - Stockholm',
+      location: 'Stockholm, Stockholm County, Sweden',
+      description: `${description.toUpperCase()}\n\nAnsök via LinkedIn.`,
+    });
+
+    assert.strictEqual(indeed.key, linkedin.key);
+    assert.ok(sketchSimilarity(indeed.descriptionSketch, linkedin.descriptionSketch) >= 0.5);
+    assert.strictEqual(isSameJobContent(indeed, linkedin), true);
+  });
+
+  it('should not match a different position at the same company', () => {
+    const a = buildJobFingerprint({ company: 'Acme AB', title: 'Junior Utvecklare', location: 'Stockholm', description });
+    const b = buildJobFingerprint({ company: 'Acme AB', title: 'Ekonomiassistent', location: 'Stockholm', description });
+
+    assert.notStrictEqual(a.key, b.key);
+    assert.strictEqual(isSameJobContent(a, b), false);
+  });
+
+  it('should not match same key when descriptions are unrelated', () => {
+    const a = buildJobFingerprint({ company: 'Acme AB', title: 'Säljare', location: 'Malmö', description });
+    const b = buildJobFingerprint({
+      company: 'Acme AB',
+      title: 'Säljare',
+      location: 'Malmö',
+      description:
+        'Som säljare ansvarar du för nya kunder inom detaljhandeln och bygger långsiktiga relationer ' +
+        'med butikschefer i hela Skåne. Körkort krävs och tidigare erfarenhet av B2B-försäljning är meriterande.',
+    });
+
+    assert.strictEqual(a.key, b.key);
+    assert.strictEqual(isSameJobContent(a, b), false);
+  });
+
+  it('should match on key alone when a description is too short', () => {
+    const a = buildJobFingerprint({ company: 'Acme AB', title: 'Lagerarbetare', location: 'Örebro', description: '' });
+    const b = buildJobFingerprint({ company: 'Acme', title: 'Lagerarbetare', location: 'Örebro', description });
+
+    assert.strictEqual(a.descriptionSketch, '');
+    assert.strictEqual(isSameJobContent(a, b), true);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Pipeline tests: job processing and admin listings (offline)
+ *
+ * Runs runJobProcessingPipeline() against in-memory storage with the mock LLM
+ * provider: jobs are evaluated and stored with their company, signal and
+ * contact; re-runs skip known postings; the same posting from another source
+ * is linked to the canonical job. The admin router then reads it all back.
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import express from 'express';
+import adminRouter from '../dist/routes/admin.js';
+import { runJobProcessingPipeline } from '../dist/services/jobs/jobProcessor.js';
+import { setRepositories, createMemoryRepositories } from '../dist/repositories/index.js';
+import { setLLMProvider } from '../dist/services/llmProvider.js';
+import { createMockLLMProvider } from '../dist/services/mockLLMProvider.js';
+import { setAICacheBackend } from '../dist/services/aiCache.js';
+
+const description =
+  'Vi söker en junior controller till vårt team i Stockholm. Du har en ekonomiexamen och 0-2 års erfarenhet. ' +
+  'Du arbetar med budget, prognoser och månadsbokslut tillsammans med ekonomichefen.';
+
+const job = (source, externalId) => ({
+  externalId,
+  title: 'Junior Controller',
+  company: 'Acme AB',
+  location: 'Stockholm',
+  description,
+  url: `https://example.com/${source}/${externalId}`,
+  postedAt: '2026-03-01',
+  source,
+  rawData: {},
+});
+
+const evaluation = {
+  experience_logic: '0-2 years',
+  isValid: true,
+  score: 80,
+  category: 'Ekonomi',
+  experience: '0-2',
+  reasoning: 'Entry-level white-collar role',
+  applicationEmail: 'jobb@acme.se',
+  duration: 'Tillsvidare',
+};
+
+let repos;
+
+beforeEach(() => {
+  repos = createMemoryRepositories();
+  setRepositories(repos);
+  setLLMProvider(createMockLLMProvider({ fixtures: [{ feature: 'job_evaluation', response: evaluation }] }));
+  setAICacheBackend(null);
+});
+
+after(() => {
+  setRepositories(undefined);
+  setLLMProvider(undefined);
+});
+
+describe('runJobProcessingPipeline', () => {
+  it('should store evaluated jobs with company, signal and contact', async () => {
+    const result = await runJobProcessingPipeline([job('indeed', 'i-1')], 'indeed');
+
+    assert.strictEqual(result.stats.valid, 1);
+    assert.strictEqual(result.errors.length, 0);
+
+    const { tables } = repos;
+    assert.strictEqual(tables.jobs.length, 1);
+    assert.strictEqual(tables.jobs[0].ai_score, 80);
+    assert.deepStrictEqual(tables.jobs[0].ai_prompts, { job_evaluation: 'v1' });
+    assert.strictEqual(tables.jobs[0].company_id, tables.companies[0].id);
+    // Resolved from the application email, not guessed from the name
+    assert.strictEqual(tables.companies[0].domain, 'acme.se');
+    assert.strictEqual(tables.companies[0].domain_source, 'application_email');
+    assert.strictEqual(tables.companies[0].domain_confidence, 0.8);
+    assert.strictEqual(tables.scraping_signals[0].signal_type, 'indeed_job_ad');
+    assert.strictEqual(tables.scraping_signals[0].payload.job_ad_id, tables.jobs[0].id);
+    assert.strictEqual(tables.contacts[0].email, 'jobb@acme.se');
+  });
+
+  it('should drop filtered jobs before AI evaluation and report drops per stage', async () => {
+    const filters = {
+      exclusionKeywords: ['kock'],
+      titleExclusionKeywords: [],
+      exclusionPatterns: [],
+      excludeSenior: true,
+      blockedCompanies: [],
+      minDescriptionLength: 0,
+    };
+    const result = await runJobProcessingPipeline(
+      [job('indeed', 'i-1'), { ...job('indeed', 'i-2'), title: 'Senior Controller' }, { ...job('indeed', 'i-3'), title: 'Kock' }],
+      'indeed',
+      { filters }
+    );
+
+    assert.strictEqual(result.stats.fetched, 3);
+    assert.strictEqual(result.stats.afterDedup, 3);
+    assert.strictEqual(result.stats.afterFilter, 1);
+    assert.deepStrictEqual(result.stats.filterDrops, { seniority: 1, keywords: 1 });
+    assert.strictEqual(result.stats.processed, 1);
+    assert.strictEqual(repos.tables.jobs.length, 1);
+  });
+
+  it('should replace a slug guessed from the company name, but not a real domain', async () => {
+    repos.tables.companies.push(
+      { id: 'c1', name: 'Acme Bygg AB', domain: 'acme-bygg.se', source: 'indeed' },
+      { id: 'c2', name: 'Beta Bygg AB', domain: 'betagroup.com', domain_source: 'google_maps_website', source: 'google_maps' }
+    );
+    const withEmail = (applicationEmail) =>
+      setLLMProvider(createMockLLMProvider({ fixtures: [{ feature: 'job_evaluation', response: { ...evaluation, applicationEmail } }] }));
+
+    withEmail('jobb@acmebygg.se');
+    await runJobProcessingPipeline([{ ...job('indeed', 'i-1'), company: 'Acme Bygg AB' }], 'indeed');
+    withEmail('jobb@betabygg.se');
+    await runJobProcessingPipeline([{ ...job('indeed', 'i-2'), company: 'Beta Bygg AB', title: 'Junior Ekonom' }], 'indeed');
+
+    const [acme, beta] = repos.tables.companies;
+    assert.deepStrictEqual([acme.domain, acme.domain_source], ['acmebygg.se', 'application_email']);
+    assert.strictEqual(beta.domain, 'betagroup.com');
+    assert.deepStrictEqual(repos.tables.jobs.map((j) => j.company_id).sort(), ['c1', 'c2']);
+  });
+
+  it('should match companies on org number before domain and name', async () => {
+    repos.tables.companies.push(
+      { id: 'c1', name: 'Acme AB', domain: null, org_number: '556000-0001', source: 'indeed' },
+      { id: 'c2', name: 'Acme Holding AB', domain: null, org_number: '556737-0431', source: 'allabolag' }
+    );
+
+    // Same name as c1, but the posting's org number belongs to c2
+    await runJobProcessingPipeline([{ ...job('indeed', 'i-1'), orgNumber: '556737-0431' }], 'indeed');
+
+    assert.strictEqual(repos.tables.companies.length, 2);
+    assert.strictEqual(repos.tables.jobs[0].company_id, 'c2');
+  });
+
+  it('should skip postings already stored for the source', async () => {
+    await runJobProcessingPipeline([job('indeed', 'i-1')], 'indeed');
+    const rerun = await runJobProcessingPipeline([job('indeed', 'i-1'), job('indeed', 'i-2')], 'indeed');
+
+    assert.strictEqual(rerun.stats.afterDedup, 1);
+    assert.strictEqual(repos.tables.jobs.length, 2);
+  });
+
+  it('should link the same posting from another source to the canonical job', async () => {
+    await runJobProcessingPipeline([job('indeed', 'i-1')], 'indeed');
+    const result = await runJobProcessingPipeline([job('linkedin', 'l-1')], 'linkedin');
+
+    assert.strictEqual(result.stats.crossSourceDuplicates, 1);
+    assert.strictEqual(repos.tables.jobs.length, 1);
+    assert.strictEqual(repos.tables.job_source_links[0].canonical_job_id, repos.tables.jobs[0].id);
+  });
+});
+
+describe('admin listings', () => {
+  let server;
+  let baseUrl;
+
+  before(async () => {
+    const app = express();
+    app.use('/api/admin', adminRouter);
+    await new Promise((resolve) => {
+      server = app.listen(0, resolve);
+    });
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  after(() => server.close());
+
+  const get = async (path) => (await fetch(`${baseUrl}/api/admin${path}`)).json();
+
+  it('should list jobs with their company', async () => {
+    await runJobProcessingPipeline([job('indeed', 'i-1')], 'indeed');
+
+    const body = await get('/jobs?source=indeed');
+
+    assert.strictEqual(body.total, 1);
+    assert.strictEqual(body.data[0].companies.name, 'Acme AB');
+  });
+
+  it('should return a company with its related records', async () => {
+    await runJobProcessingPipeline([job('indeed', 'i-1')], 'indeed');
+
+    const body = await get(`/companies/${repos.tables.companies[0].id}`);
+
+    assert.strictEqual(body.data.jobs.length, 1);
+    assert.strictEqual(body.data.scraping_signals.length, 1);
+    assert.strictEqual(body.data.contacts.length, 1);
+  });
+
+  it('should filter companies by org number in any format', async () => {
+    await runJobProcessingPipeline([{ ...job('indeed', 'i-1'), orgNumber: '556737-0431' }], 'indeed');
+
+    const body = await get('/companies?org_number=5567370431');
+    assert.strictEqual(body.total, 1);
+    assert.strictEqual(body.data[0].org_number, '556737-0431');
+
+    const invalid = await fetch(`${baseUrl}/api/admin/companies?org_number=5567370432`);
+    assert.strictEqual(invalid.status, 400);
+  });
+
+  it('should count records on the dashboard', async () => {
+    await runJobProcessingPipeline([job('indeed', 'i-1'), job('indeed', 'i-2')], 'indeed');
+
+    const body = await get('/dashboard');
+
+    assert.strictEqual(body.data.total_jobs, 2);
+    assert.strictEqual(body.data.total_companies, 1);
+    assert.strictEqual(body.data.jobs_this_week, 2);
+  });
+});
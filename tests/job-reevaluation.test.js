@@ -0,0 +1,180 @@
+/**
+ * Route tests: job re-evaluation (offline)
+ *
+ * Reruns the job evaluation prompt for stored jobs via the admin router, with
+ * in-memory storage and the mock LLM provider: jobs are selected by category,
+ * prompt version or id, their ai_* columns and signal payload get the new
+ * evaluation, flips between valid and invalid are counted, and a failed
+ * evaluation keeps the stored one.
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import express from 'express';
+import adminRouter from '../dist/routes/admin.js';
+import { setRepositories, createMemoryRepositories } from '../dist/repositories/index.js';
+import { setLLMProvider } from '../dist/services/llmProvider.js';
+import { createMockLLMProvider } from '../dist/services/mockLLMProvider.js';
+import { setAICacheBackend } from '../dist/services/aiCache.js';
+
+const storedJob = (id, evaluation) => ({
+  id,
+  company_id: 'c1',
+  title: 'Junior Controller',
+  description: 'Vi söker en junior controller med 0-2 års erfarenhet till vårt team i Stockholm.',
+  source: 'indeed',
+  external_id: `indeed-${id}`,
+  external_url: `https://example.com/indeed/${id}`,
+  location: 'Stockholm',
+  posted_date: '2026-03-01',
+  raw_data: {},
+  created_at: '2026-03-02T08:00:00.000Z',
+  ...evaluation,
+});
+
+const failedEvaluation = {
+  ai_valid: false,
+  ai_score: 0,
+  ai_category: 'AI Evaluation Failed',
+  ai_reasoning: 'AI evaluation error: timeout',
+  ai_prompts: {},
+};
+
+const signal = (id, jobId) => ({
+  id,
+  company_id: 'c1',
+  signal_type: 'indeed_job_ad',
+  source: 'indeed',
+  captured_at: '2026-03-02T08:00:00.000Z',
+  payload: { job_ad_id: jobId, title: 'Junior Controller', score: 0, valid: false, url: `https://example.com/indeed/${jobId}` },
+});
+
+const evaluation = (isValid) => ({
+  experience_logic: '0-2 years',
+  isValid,
+  score: isValid ? 80 : 20,
+  category: isValid ? 'Ekonomi' : 'Senior',
+  experience: '0-2',
+  reasoning: isValid ? 'Entry-level white-collar role' : 'Requires senior experience',
+  applicationEmail: 'jobb@acme.se',
+  duration: 'Tillsvidare',
+});
+
+let server;
+let baseUrl;
+let repos;
+let llm;
+
+async function post(body) {
+  const res = await fetch(`${baseUrl}/api/admin/jobs/re-evaluate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/admin', adminRouter);
+
+  await new Promise((resolve) => {
+    server = app.listen(0, resolve);
+  });
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => {
+  server.close();
+  setRepositories(undefined);
+  setLLMProvider(undefined);
+});
+
+beforeEach(() => {
+  repos = createMemoryRepositories({
+    companies: [{ id: 'c1', name: 'Acme AB', domain: 'acme.se' }],
+    jobs: [
+      storedJob('j1', failedEvaluation),
+      storedJob('j2', { ai_valid: true, ai_score: 75, ai_category: 'Ekonomi', ai_prompts: null }),
+      storedJob('j3', { ai_valid: true, ai_score: 75, ai_category: 'Ekonomi', ai_prompts: { job_evaluation: 'v1' } }),
+    ],
+    scraping_signals: [signal('s1', 'j1'), signal('s2', 'j2')],
+  });
+  setRepositories(repos);
+  llm = createMockLLMProvider();
+  setLLMProvider(llm);
+  setAICacheBackend(null);
+});
+
+describe('POST /api/admin/jobs/re-evaluate', () => {
+  it('should re-evaluate fallback jobs and update the job and its signal', async () => {
+    llm.addFixture({ feature: 'job_evaluation', response: evaluation(true) });
+
+    const { status, body } = await post({ ai_category: 'AI Evaluation Failed' });
+
+    assert.strictEqual(status, 200);
+    assert.strictEqual(body.stats.total, 1);
+    assert.strictEqual(body.stats.reevaluated, 1);
+    assert.strictEqual(body.stats.flipped_to_valid, 1);
+    assert.strictEqual(body.stats.flipped_to_invalid, 0);
+    assert.strictEqual(body.stats.category_changed, 1);
+    assert.deepStrictEqual(body.stats.results[0].previous, {
+      valid: false, score: 0, category: 'AI Evaluation Failed', prompt_version: null,
+    });
+    assert.strictEqual(body.stats.results[0].signal_id, 's1');
+
+    const job = repos.tables.jobs.find((j) => j.id === 'j1');
+    assert.strictEqual(job.ai_valid, true);
+    assert.strictEqual(job.ai_score, 80);
+    assert.strictEqual(job.ai_category, 'Ekonomi');
+    assert.strictEqual(job.application_email, 'jobb@acme.se');
+    assert.deepStrictEqual(job.ai_prompts, { job_evaluation: 'v1' });
+
+    const { payload } = repos.tables.scraping_signals.find((s) => s.id === 's1');
+    assert.strictEqual(payload.valid, true);
+    assert.strictEqual(payload.score, 80);
+    assert.strictEqual(payload.title, 'Junior Controller');
+    assert.deepStrictEqual(payload.ai_prompts, { job_evaluation: 'v1' });
+
+    // Jobs outside the selection are untouched
+    assert.strictEqual(repos.tables.jobs.find((j) => j.id === 'j2').ai_score, 75);
+  });
+
+  it('should select jobs not scored with the active prompt version and count flips to invalid', async () => {
+    llm.addFixture({ feature: 'job_evaluation', response: evaluation(false) });
+
+    const { status, body } = await post({ outdated_prompt: true });
+
+    assert.strictEqual(status, 200);
+    assert.strictEqual(body.stats.prompt_version, 'v1');
+    assert.deepStrictEqual(body.stats.results.map((r) => r.id).sort(), ['j1', 'j2']);
+    assert.strictEqual(body.stats.flipped_to_invalid, 1);
+    assert.strictEqual(body.stats.flipped_to_valid, 0);
+    assert.strictEqual(repos.tables.jobs.find((j) => j.id === 'j3').ai_score, 75);
+  });
+
+  it('should keep the stored evaluation when the AI fails again', async () => {
+    llm.injectFailure({ feature: 'job_evaluation', mode: 'server_error' });
+
+    const { status, body } = await post({ ids: ['j1'] });
+
+    assert.strictEqual(status, 200);
+    assert.strictEqual(body.stats.failed, 1);
+    assert.strictEqual(body.stats.results[0].status, 'failed');
+    assert.ok(body.stats.results[0].error);
+
+    const job = repos.tables.jobs.find((j) => j.id === 'j1');
+    assert.strictEqual(job.ai_category, 'AI Evaluation Failed');
+    assert.strictEqual(repos.tables.scraping_signals.find((s) => s.id === 's1').payload.score, 0);
+  });
+
+  it('should reject a request without ids or filters', async () => {
+    const { status, body } = await post({ limit: 10 });
+
+    assert.strictEqual(status, 400);
+    assert.match(body.error, /ids or at least one filter/);
+  });
+});
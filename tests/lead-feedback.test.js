@@ -0,0 +1,143 @@
+/**
+ * Route tests: human review of AI lead classifications (offline)
+ *
+ * Overrides rejected leads and form submission signals through the admin
+ * router with in-memory storage: the lead is corrected, the review is kept
+ * with the AI's original answer, disagreements are exported as JSONL and the
+ * accuracy stats count each lead's latest review.
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import express from 'express';
+import adminRouter from '../dist/routes/admin.js';
+import { setRepositories, createMemoryRepositories } from '../dist/repositories/index.js';
+
+let server;
+let baseUrl;
+let repos;
+
+async function request(method, path, body) {
+  const res = await fetch(`${baseUrl}/api/admin${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const text = await res.text();
+  return { status: res.status, type: res.headers.get('content-type'), text, body: text.startsWith('{') ? JSON.parse(text) : null };
+}
+
+const override = (body) => request('POST', '/lead-feedback', { reason: 'Recruiting for a finance role', ...body });
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/admin', adminRouter);
+
+  await new Promise((resolve) => {
+    server = app.listen(0, resolve);
+  });
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => {
+  server.close();
+  setRepositories(undefined);
+});
+
+beforeEach(() => {
+  repos = createMemoryRepositories({
+    companies: [{ id: 'c1', name: 'Tech Company AB', domain: 'techcompany.se' }],
+    scraping_rejected_leads: [
+      {
+        id: 'r1',
+        full_name: 'Anna Svensson',
+        company_name: 'Tech Company AB',
+        submitted_description: 'Vi söker en junior ekonom.',
+        classification: 'likely_candidate',
+        ai_reasoning: 'Sounds like a job seeker',
+        ai_prompts: { lead_scoring: 'v1' },
+      },
+      { id: 'r2', classification: 'likely_spam', ai_reasoning: 'Fast reject: Score 60/50 — links (+30)' },
+    ],
+    scraping_signals: [
+      {
+        id: 's1',
+        company_id: 'c1',
+        signal_type: 'website_form_submission',
+        payload: { full_name: 'Bo Berg', needs_description: 'Två lagerarbetare', lead_score: 85, classification: 'valid_lead', ai_prompts: { lead_scoring: 'v1' } },
+      },
+    ],
+  });
+  setRepositories(repos);
+});
+
+describe('POST /api/admin/lead-feedback', () => {
+  it('should correct a rejected lead and keep the AI answer', async () => {
+    const { status, body } = await override({ lead_type: 'rejected_lead', lead_id: 'r1', classification: 'valid_lead' });
+
+    assert.strictEqual(status, 201);
+    assert.strictEqual(body.data.ai_classification, 'likely_candidate');
+    assert.strictEqual(body.data.human_classification, 'valid_lead');
+    assert.strictEqual(body.data.disagreement, true);
+    assert.strictEqual(body.data.input.needs_description, 'Vi söker en junior ekonom.');
+    assert.strictEqual(body.data.prompt_version, 'v1');
+    assert.strictEqual(repos.tables.scraping_rejected_leads[0].classification, 'valid_lead');
+  });
+
+  it('should override a signal score and compare re-reviews against the AI', async () => {
+    await override({ lead_type: 'signal', lead_id: 's1', classification: 'invalid_lead', lead_score: 20 });
+    const { body } = await override({ lead_type: 'signal', lead_id: 's1', classification: 'valid_lead', lead_score: 80 });
+
+    assert.strictEqual(body.data.ai_classification, 'valid_lead');
+    assert.strictEqual(body.data.ai_score, 85);
+    assert.strictEqual(body.data.disagreement, false);
+    assert.strictEqual(body.data.input.company_name, 'Tech Company AB');
+    assert.strictEqual(repos.tables.scraping_signals[0].payload.lead_score, 80);
+    assert.strictEqual(repos.tables.scraping_signals[0].payload.needs_description, 'Två lagerarbetare');
+  });
+
+  it('should not count fast rejects as AI disagreements', async () => {
+    const { body } = await override({ lead_type: 'rejected_lead', lead_id: 'r2', classification: 'valid_lead' });
+
+    assert.strictEqual(body.data.ai_classification, null);
+    assert.strictEqual(body.data.disagreement, false);
+  });
+
+  it('should require a reason and an existing lead', async () => {
+    const missingReason = await override({ lead_type: 'rejected_lead', lead_id: 'r1', classification: 'valid_lead', reason: '' });
+    const missingLead = await override({ lead_type: 'signal', lead_id: 'nope', classification: 'valid_lead' });
+
+    assert.strictEqual(missingReason.status, 400);
+    assert.strictEqual(missingLead.status, 404);
+    assert.strictEqual(repos.tables.lead_feedback.length, 0);
+  });
+});
+
+describe('lead feedback export and stats', () => {
+  beforeEach(async () => {
+    await override({ lead_type: 'rejected_lead', lead_id: 'r1', classification: 'valid_lead' });
+    await override({ lead_type: 'signal', lead_id: 's1', classification: 'valid_lead', lead_score: 80 });
+  });
+
+  it('should export disagreements as JSON lines', async () => {
+    const { status, type, text } = await request('GET', '/lead-feedback/export');
+    const lines = text.trim().split('\n').map((line) => JSON.parse(line));
+
+    assert.strictEqual(status, 200);
+    assert.match(type, /application\/x-ndjson/);
+    assert.strictEqual(lines.length, 1);
+    assert.strictEqual(lines[0].ai.classification, 'likely_candidate');
+    assert.strictEqual(lines[0].expected.classification, 'valid_lead');
+  });
+
+  it('should report accuracy with a confusion matrix', async () => {
+    const { body } = await request('GET', '/stats/lead-accuracy?group_by=prompt_version');
+
+    assert.deepStrictEqual(body.data.overall, { reviewed: 2, agreed: 1, accuracy: 0.5, mean_score_delta: 5 });
+    assert.deepStrictEqual(body.data.groups.map((group) => group.key), ['v1']);
+    assert.deepStrictEqual(body.data.confusion, { likely_candidate: { valid_lead: 1 }, valid_lead: { valid_lead: 1 } });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit tests: Lead quality rules
+ *
+ * Tests evaluateLeadRules() (weighted hits with reasons, threshold),
+ * the disposable-email, gibberish and repeat-submitter rules, and loading
+ * overrides from a rules file merged over the defaults.
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  evaluateLeadRules,
+  loadLeadRulesConfig,
+  setLeadRulesConfig,
+  describeLeadQuality,
+} from '../dist/utils/leadRules.js';
+import { validateLead } from '../dist/utils/validator.js';
+
+const lead = {
+  full_name: 'Anna Svensson',
+  email: 'anna@techcompany.se',
+  phone: '+46 70 123 4567',
+  company_name: 'Tech Company AB',
+  needs_description: 'Vi behöver en junior ekonom med erfarenhet av bokföring för vårt växande team.',
+};
+
+const ruleIds = (quality) => quality.hits.map((hit) => hit.rule);
+
+afterEach(() => setLeadRulesConfig(undefined));
+
+describe('evaluateLeadRules', () => {
+  it('should pass a normal lead with no hits', () => {
+    const quality = evaluateLeadRules(lead, 100);
+
+    assert.deepStrictEqual(quality, { score: 0, threshold: 50, rejected: false, hits: [] });
+  });
+
+  it('should sum weights and explain each hit', () => {
+    const quality = evaluateLeadRules({ ...lead, needs_description: 'Buy bitcoin now, see http://x.io' }, 100);
+
+    assert.deepStrictEqual(ruleIds(quality), ['spam_keywords', 'links']);
+    assert.strictEqual(quality.score, 60);
+    assert.strictEqual(quality.rejected, true);
+    assert.strictEqual(quality.hits[0].reason, 'needs_description contains "bitcoin"');
+    assert.match(describeLeadQuality(quality), /^Score 60\/50 — spam_keywords \(\+30\)/);
+  });
+
+  it('should flag disposable email domains, including subdomains', () => {
+    const quality = evaluateLeadRules({ ...lead, email: 'anna@eu.mailinator.com' }, 100);
+
+    assert.deepStrictEqual(ruleIds(quality), ['disposable_email']);
+    assert.strictEqual(quality.rejected, false);
+  });
+
+  it('should flag keyboard mashing but not real Swedish names', () => {
+    const mashed = evaluateLeadRules({ ...lead, company_name: 'Xkcdfghjkl AB' }, 100);
+    const repetitive = evaluateLeadRules({ ...lead, needs_description: 'asdfasdfasdfasdfasdfasdfasdf' }, 100);
+    const names = evaluateLeadRules({ ...lead, full_name: 'Göran Ljungström', company_name: 'Strömqvist Revision AB' }, 100);
+
+    assert.match(mashed.hits[0].reason, /^company_name: \d+ consonants in a row$/);
+    assert.match(repetitive.hits[0].reason, /^needs_description: repetitive text/);
+    assert.deepStrictEqual(ruleIds(names), []);
+  });
+
+  it('should flag repeat submitters from the context', () => {
+    assert.deepStrictEqual(ruleIds(evaluateLeadRules(lead, 100, { recentSubmissions: 2 })), []);
+
+    const quality = evaluateLeadRules(lead, 100, { recentSubmissions: 3 });
+
+    assert.deepStrictEqual(ruleIds(quality), ['repeat_submitter']);
+    assert.strictEqual(quality.hits[0].reason, '3 earlier submissions in the last 24h');
+  });
+
+  it('should reject incomplete forms on their own', () => {
+    const quality = evaluateLeadRules(lead, 17);
+
+    assert.deepStrictEqual(ruleIds(quality), ['incomplete_form']);
+    assert.strictEqual(quality.rejected, true);
+  });
+});
+
+describe('lead rules configuration', () => {
+  it('should apply overrides through validateLead', () => {
+    setLeadRulesConfig({ threshold: 30, rules: [{ id: 'links', enabled: false }] });
+
+    const withLink = validateLead({ ...lead, needs_description: `${lead.needs_description} http://techcompany.se` });
+    const withKeyword = validateLead({ ...lead, needs_description: `${lead.needs_description} crypto` });
+
+    assert.strictEqual(withLink.is_likely_spam, false);
+    assert.strictEqual(withKeyword.is_likely_spam, true);
+    assert.strictEqual(withKeyword.quality.threshold, 30);
+  });
+
+  it('should load a rules file merged over the defaults', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lead-rules-'));
+    const file = path.join(dir, 'rules.json');
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        rules: [
+          { id: 'disposable_email', params: { domains: ['spamgrotto.se'] } },
+          { id: 'seo_offers', type: 'keywords', weight: 60, params: { fields: ['needs_description'], patterns: ['seo'] } },
+        ],
+      })
+    );
+
+    const rules = loadLeadRulesConfig(file);
+
+    assert.strictEqual(rules.threshold, 50);
+    assert.deepStrictEqual(ruleIds(evaluateLeadRules({ ...lead, email: 'a@spamgrotto.se' }, 100, {}, rules)), ['disposable_email']);
+    assert.strictEqual(evaluateLeadRules({ ...lead, needs_description: 'Billig SEO!' }, 100, {}, rules).rejected, true);
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  it('should fall back to the defaults for an invalid rules file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lead-rules-'));
+    const file = path.join(dir, 'rules.json');
+    fs.writeFileSync(file, JSON.stringify({ rules: [{ id: 'links', params: { patterns: ['(unclosed'] } }] }));
+
+    const rules = loadLeadRulesConfig(file);
+
+    assert.strictEqual(rules.rules.find((rule) => rule.id === 'links').params.patterns[0], 'http');
+    fs.rmSync(dir, { recursive: true });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Unit tests: Structured LLM client helpers
+ *
+ * Tests parseJsonResponse() / repairJson() — fenced, prose-wrapped and slightly
+ * malformed model output is repaired into valid JSON — and isRetryableLLMError(),
+ * which decides whether a provider error is retried with backoff.
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import OpenAI from 'openai';
+import { parseJsonResponse, repairJson, isRetryableLLMError } from '../dist/services/llmClient.js';
+
+describe('parseJsonResponse', () => {
+  it('should parse fenced JSON without repair', () => {
+    const result = parseJsonResponse('```json\n{"score": 80}\n```');
+    assert.deepStrictEqual(result, { value: { score: 80 }, repaired: false });
+  });
+
+  it('should repair JSON wrapped in prose', () => {
+    const result = parseJsonResponse('Here is the evaluation:\n{"isValid": true}\nLet me know if you need more.');
+    assert.deepStrictEqual(result, { value: { isValid: true }, repaired: true });
+  });
+
+  it('should throw when the content cannot be repaired', () => {
+    assert.throws(() => parseJsonResponse('I cannot evaluate this job.'));
+  });
+});
+
+describe('repairJson', () => {
+  it('should remove trailing commas', () => {
+    assert.deepStrictEqual(JSON.parse(repairJson('{"skills": ["Excel", "SQL",], "score": 5,}')), {
+      skills: ['Excel', 'SQL'],
+      score: 5,
+    });
+  });
+
+  it('should escape raw newlines inside strings only', () => {
+    const repaired = repairJson('{\n  "reasoning": "Line one\nLine two"\n}');
+    assert.deepStrictEqual(JSON.parse(repaired), { reasoning: 'Line one\nLine two' });
+  });
+
+  it('should fix invalid unicode escapes', () => {
+    assert.deepStrictEqual(JSON.parse(repairJson('{"name": "J\\u00f6rgen \\uZZ"}')), { name: 'Jörgen \\uZZ' });
+  });
+});
+
+describe('isRetryableLLMError', () => {
+  it('should retry rate limits, server errors and connection errors', () => {
+    assert.strictEqual(isRetryableLLMError(new OpenAI.APIError(429, undefined, 'rate limited', {})), true);
+    assert.strictEqual(isRetryableLLMError(new OpenAI.APIError(503, undefined, 'unavailable', {})), true);
+    assert.strictEqual(isRetryableLLMError(new OpenAI.APIConnectionError({ message: 'socket hang up' })), true);
+  });
+
+  it('should not retry rejected requests or non-provider errors', () => {
+    assert.strictEqual(isRetryableLLMError(new OpenAI.APIError(400, undefined, 'bad request', {})), false);
+    assert.strictEqual(isRetryableLLMError(new SyntaxError('Unexpected token')), false);
+  });
+});
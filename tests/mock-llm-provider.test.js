@@ -0,0 +1,324 @@
+/**
+ * Unit tests: Offline AI flows with the mock LLM provider
+ *
+ * Runs lead scoring (webhook), job evaluation (job pipeline), CV parsing, match
+ * scoring and the interview flows end-to-end through aiService and the structured LLM
+ * client, with a fixture-backed provider instead of the network. Injected
+ * failures exercise retries, model fallback, JSON repair and schema validation.
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  createMockLLMProvider,
+  createRecordingLLMProvider,
+  loadMockLLMFixtures,
+} from '../dist/services/mockLLMProvider.js';
+import { setLLMProvider } from '../dist/services/llmProvider.js';
+import { setAICacheBackend, createMemoryAICacheBackend } from '../dist/services/aiCache.js';
+import { config } from '../dist/config/env.js';
+import {
+  scoreLead,
+  evaluateJob,
+  parseCv,
+  scoreMatchBatch,
+  generateInterviewQuestions,
+  evaluateInterviewRecording,
+} from '../dist/services/aiService.js';
+
+const lead = {
+  id: 'lead-1',
+  full_name: 'Anna Svensson',
+  email: 'anna@acme.se',
+  phone: '0701234567',
+  company_name: 'Acme AB',
+  industry: 'Tech',
+  service_type: 'Rekrytering',
+  needs_description: 'Vi söker en junior ekonom till vårt kontor i Stockholm.',
+};
+
+const leadScore = {
+  lead_score: 85,
+  role_category: 'Ekonomi',
+  classification: 'valid_lead',
+  key_requirements: ['Ekonomiexamen'],
+  ai_reasoning: 'Company need within scope',
+};
+
+const job = {
+  externalId: 'job-1',
+  title: 'Junior Controller',
+  company: 'Acme AB',
+  location: 'Stockholm',
+  description: 'Vi söker en junior controller med 0-2 års erfarenhet.',
+  url: 'https://example.com/jobs/1',
+  source: 'linkedin',
+  rawData: {},
+};
+
+const jobEvaluation = {
+  experience_logic: '0-2 years',
+  isValid: true,
+  score: 80,
+  category: 'Ekonomi',
+  experience: '0-2',
+  reasoning: 'Entry-level white-collar role',
+  applicationEmail: '',
+  duration: 'Tillsvidare',
+};
+
+const cvData = {
+  profile: {
+    headline: 'Civilekonom',
+    bio: null,
+    city: 'Stockholm',
+    phone: null,
+    linkedin_url: null,
+    portfolio_url: null,
+    years_of_experience: 2,
+  },
+  education: [],
+  experience: [],
+  skills: [{ skill_name: 'Excel', level: 'advanced', years: 3 }],
+  languages: [{ language: 'Svenska', proficiency: 'native' }],
+  references: [],
+  certifications: [],
+  additional_notes: null,
+};
+
+const interviewQuestions = {
+  questions: [{ question: 'Berätta om din erfarenhet av Excel.', profileClaim: 'Advanced Excel', maxDurationSeconds: 120 }],
+};
+
+const interviewEvaluation = {
+  transcript: 'Jag har arbetat med Excel i tre år.',
+  criteria: [{ name: 'Relevance', score: 80 }],
+  overall: 78,
+  reasoning: 'Concrete answer',
+  profileVerification: 'Confirmed',
+};
+
+const fixtures = [
+  { feature: 'lead_scoring', response: leadScore },
+  { feature: 'job_evaluation', response: jobEvaluation },
+  { feature: 'cv_parsing', response: cvData },
+  { feature: 'interview_question_generation', response: interviewQuestions },
+  { feature: 'interview_evaluation', response: interviewEvaluation },
+];
+
+let provider;
+
+beforeEach(() => {
+  provider = createMockLLMProvider({ fixtures });
+  setLLMProvider(provider);
+  // Repeated inputs must reach the provider, not the cache
+  setAICacheBackend(null);
+});
+
+afterEach(() => {
+  setLLMProvider(undefined);
+});
+
+describe('lead scoring (webhook)', () => {
+  it('should classify a lead from a fixture', async () => {
+    const result = await scoreLead(lead);
+
+    assert.deepStrictEqual(result, { ...leadScore, prompt_version: 'v1' });
+    assert.deepStrictEqual(provider.calls.map((c) => c.model), ['openai/gpt-4o-mini']);
+  });
+
+  it('should prefer a fixture matching the input hash', async () => {
+    await scoreLead(lead);
+    const { inputHash } = provider.calls[0];
+
+    provider.addFixture({ feature: 'lead_scoring', inputHash, response: { ...leadScore, classification: 'likely_spam' } });
+
+    assert.strictEqual((await scoreLead(lead)).classification, 'likely_spam');
+    assert.strictEqual((await scoreLead({ ...lead, company_name: 'Other AB' })).classification, 'valid_lead');
+  });
+
+  it('should fail on malformed JSON', async () => {
+    provider.injectFailure({ feature: 'lead_scoring', mode: 'malformed_json' });
+
+    await assert.rejects(() => scoreLead(lead), /AI scoring failed/);
+  });
+});
+
+describe('job evaluation (job pipeline)', () => {
+  it('should fall back to the next model when the primary fails', async () => {
+    provider.injectFailure({ feature: 'job_evaluation', mode: 'bad_request', model: config.openRouter.primaryModel });
+
+    const result = await evaluateJob(job);
+
+    assert.strictEqual(result.isValid, true);
+    assert.strictEqual(result.experienceLogic, '0-2 years');
+    assert.deepStrictEqual(
+      provider.calls.map((c) => c.model),
+      [config.openRouter.primaryModel, config.openRouter.fallbackModel]
+    );
+  });
+
+  it('should not cache a fallback model\'s result as the primary\'s', async () => {
+    setAICacheBackend(createMemoryAICacheBackend(10));
+    provider.injectFailure({ feature: 'job_evaluation', mode: 'bad_request', model: config.openRouter.primaryModel, times: 1 });
+
+    await evaluateJob(job);
+    await evaluateJob(job);
+    await evaluateJob(job);
+
+    assert.deepStrictEqual(
+      provider.calls.map((c) => c.model),
+      [config.openRouter.primaryModel, config.openRouter.fallbackModel, config.openRouter.primaryModel]
+    );
+  });
+
+  it('should retry a timeout on the same model', async () => {
+    provider.injectFailure({ feature: 'job_evaluation', mode: 'timeout', times: 1 });
+
+    const result = await evaluateJob(job);
+
+    assert.strictEqual(result.score, 80);
+    assert.deepStrictEqual(
+      provider.calls.map((c) => c.model),
+      [config.openRouter.primaryModel, config.openRouter.primaryModel]
+    );
+  });
+
+  it('should fail when every model violates the schema', async () => {
+    provider.injectFailure({ feature: 'job_evaluation', mode: 'schema_violation' });
+
+    await assert.rejects(() => evaluateJob(job), /Job evaluation failed/);
+    assert.strictEqual(provider.calls.length, 2);
+  });
+});
+
+describe('CV parsing', () => {
+  it('should parse a CV from a fixture', async () => {
+    const result = await parseCv('Anna Svensson, civilekonom, Excel');
+
+    assert.strictEqual(result.profile.headline, 'Civilekonom');
+    assert.strictEqual(result.skills[0].level, 'advanced');
+  });
+
+  it('should unwrap array responses and repair fenced JSON', async () => {
+    provider.addFixture({
+      feature: 'cv_parsing',
+      model: 'google/gemini-2.0-flash-001',
+      response: '```json\n[' + JSON.stringify(cvData) + ',]\n```',
+    });
+
+    const result = await parseCv('Anna Svensson, civilekonom, Excel');
+
+    assert.strictEqual(result.profile.city, 'Stockholm');
+  });
+
+  it('should throw a CvParsingError when all models fail', async () => {
+    provider.injectFailure({ feature: 'cv_parsing', mode: 'empty' });
+
+    await assert.rejects(() => parseCv('Anna Svensson'), { name: 'CvParsingError' });
+  });
+});
+
+describe('match scoring', () => {
+  const pair = {
+    pairId: 'pair-1',
+    candidateHeadline: 'Civilekonom',
+    candidateSkills: ['Excel'],
+    recentExperienceTitles: ['Ekonomiassistent'],
+    jobTitle: 'Junior Controller',
+    jobDescriptionExcerpt: 'Vi söker en junior controller.',
+  };
+  const matchScores = { results: [{ pairId: 'pair-1', score: 72, reason: 'Relevant experience' }] };
+
+  beforeEach(() => {
+    provider.addFixture({ feature: 'match_scoring', response: matchScores });
+    setAICacheBackend(createMemoryAICacheBackend(10));
+  });
+
+  it('should cache the primary model\'s scores', async () => {
+    await scoreMatchBatch([pair]);
+    const [result] = await scoreMatchBatch([pair]);
+
+    assert.deepStrictEqual(result, matchScores.results[0]);
+    assert.deepStrictEqual(provider.calls.map((c) => c.model), ['google/gemini-2.0-flash-001']);
+  });
+
+  it('should not cache a fallback model\'s scores', async () => {
+    provider.injectFailure({ feature: 'match_scoring', mode: 'bad_request', model: 'google/gemini-2.0-flash-001', times: 1 });
+
+    const [fallback] = await scoreMatchBatch([pair]);
+    await scoreMatchBatch([pair]);
+
+    assert.strictEqual(fallback.score, 72);
+    assert.deepStrictEqual(
+      provider.calls.map((c) => c.model),
+      ['google/gemini-2.0-flash-001', 'openai/gpt-4o-mini', 'google/gemini-2.0-flash-001']
+    );
+  });
+});
+
+describe('interview flows', () => {
+  const profile = {
+    headline: 'Civilekonom',
+    bio: null,
+    experienceLevel: 'junior',
+    roleCategories: ['Ekonomi'],
+    skills: [{ skillName: 'Excel', level: 'advanced', years: 3 }],
+    strengths: [],
+    languageSwedish: 'native',
+    languageEnglish: 'fluent',
+    additionalLanguages: [],
+    education: [],
+    experience: [],
+    preferredWorkTasks: [],
+    interviewLanguage: 'sv',
+  };
+
+  it('should generate questions with schema defaults applied', async () => {
+    const result = await generateInterviewQuestions(1, 'Rekrytering', profile);
+
+    assert.strictEqual(result.questions.length, 1);
+    assert.strictEqual(result.questions[0].language, 'sv');
+  });
+
+  it('should return null when generation fails', async () => {
+    provider.injectFailure({ feature: 'interview_question_generation', mode: 'server_error' });
+
+    assert.strictEqual(await generateInterviewQuestions(1, 'Rekrytering', profile), null);
+  });
+
+  it('should evaluate a recording without network access', async () => {
+    const audioUrl = `data:audio/ogg;base64,${Buffer.from('fake audio').toString('base64')}`;
+
+    const result = await evaluateInterviewRecording(audioUrl, 'Berätta om Excel.', 'Civilekonom', 'Advanced Excel');
+
+    assert.strictEqual(result.transcript, interviewEvaluation.transcript);
+    assert.strictEqual(result.evaluation.overall, 78);
+  });
+});
+
+describe('recording provider', () => {
+  it('should save responses as fixtures the mock provider replays', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-fixtures-'));
+
+    try {
+      setLLMProvider(createRecordingLLMProvider(provider, dir));
+      await scoreLead(lead);
+
+      const recorded = loadMockLLMFixtures(dir);
+      assert.strictEqual(recorded.length, 1);
+      assert.strictEqual(recorded[0].inputHash, provider.calls[0].inputHash);
+      assert.deepStrictEqual(recorded[0].response, leadScore);
+
+      setLLMProvider(createMockLLMProvider({ fixturesDir: dir }));
+      assert.deepStrictEqual(await scoreLead(lead), { ...leadScore, prompt_version: 'v1' });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
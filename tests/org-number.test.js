@@ -0,0 +1,48 @@
+/**
+ * Unit tests: Swedish organisation numbers
+ *
+ * Tests validation and extraction of org numbers:
+ * - normalizeOrgNumber(): formats accepted, Luhn check, personnummer rejected
+ * - extractOrgNumber(): only numbers labelled as org numbers in free text
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { normalizeOrgNumber, extractOrgNumber } from '../dist/utils/orgNumber.js';
+
+describe('normalizeOrgNumber', () => {
+  it('should normalize the common formats to NNNNNN-NNNN', () => {
+    assert.strictEqual(normalizeOrgNumber('556737-0431'), '556737-0431');
+    assert.strictEqual(normalizeOrgNumber('5567370431'), '556737-0431');
+    assert.strictEqual(normalizeOrgNumber('556737 0431'), '556737-0431');
+    assert.strictEqual(normalizeOrgNumber('16556737-0431'), '556737-0431');
+  });
+
+  it('should reject numbers failing the Luhn check', () => {
+    assert.strictEqual(normalizeOrgNumber('556737-0432'), null);
+  });
+
+  it('should reject personnummer and malformed values', () => {
+    // 19900101-0017 passes the Luhn check, but the third digit marks a person
+    assert.strictEqual(normalizeOrgNumber('900101-0017'), null);
+    assert.strictEqual(normalizeOrgNumber('55673704'), null);
+    assert.strictEqual(normalizeOrgNumber('org 556737-0431'), null);
+    assert.strictEqual(normalizeOrgNumber(null), null);
+  });
+});
+
+describe('extractOrgNumber', () => {
+  it('should find an org number labelled as one', () => {
+    assert.strictEqual(extractOrgNumber('Klarna Bank AB, org.nr 556737-0431, Stockholm'), '556737-0431');
+    assert.strictEqual(extractOrgNumber('Organisationsnummer: 5567370431'), '556737-0431');
+    assert.strictEqual(extractOrgNumber('Corporate identity number 556737-0431'), '556737-0431');
+  });
+
+  it('should ignore unlabelled numbers and invalid labelled ones', () => {
+    assert.strictEqual(extractOrgNumber('Ring oss på 5567370431'), null);
+    assert.strictEqual(extractOrgNumber('Org.nr 556737-0432'), null);
+    assert.strictEqual(extractOrgNumber(undefined), null);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Unit tests: Offline prompt evaluation
+ *
+ * Tests the classification metrics (precision, recall, confusion matrix),
+ * running a labelled dataset through a prompt with the mock LLM provider
+ * (failed examples count as errors), CV field matching, and diffing two runs.
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { classificationReport } from '../dist/dev/prompt-eval/metrics.js';
+import { loadEvalDataset, runEval, compareEvalRuns } from '../dist/dev/prompt-eval/evalRunner.js';
+import { EVAL_TASKS } from '../dist/dev/prompt-eval/tasks.js';
+import { setLLMProvider } from '../dist/services/llmProvider.js';
+import { createMockLLMProvider, hashLLMInput } from '../dist/services/mockLLMProvider.js';
+import { generateLeadScoringUserPrompt, SCORING_SYSTEM_PROMPT } from '../dist/prompts/leadScoring.prompt.js';
+
+const leadExample = (id, classification, needs) => ({
+  id,
+  input: { company_name: 'Tech Company AB', needs_description: needs },
+  expected: { classification },
+});
+
+const examples = [
+  leadExample('finance', 'valid_lead', 'Vi behöver en junior ekonom.'),
+  leadExample('warehouse', 'invalid_lead', 'Två lagerarbetare till nattskift.'),
+  leadExample('seeker', 'likely_candidate', 'Jag söker jobb som ingenjör.'),
+];
+
+const leadScore = (classification) => ({
+  lead_score: 70,
+  role_category: 'Ekonomi',
+  classification,
+  key_requirements: [],
+  ai_reasoning: 'Fixture',
+});
+
+// Answer one example (by its user prompt) with a classification
+const fixtureFor = (example, classification) => ({
+  feature: 'lead_scoring',
+  inputHash: hashLLMInput([
+    { role: 'system', content: SCORING_SYSTEM_PROMPT },
+    { role: 'user', content: generateLeadScoringUserPrompt({ id: 'eval', ...example.input }) },
+  ]),
+  response: leadScore(classification),
+});
+
+afterEach(() => setLLMProvider(undefined));
+
+describe('classificationReport', () => {
+  it('should compute precision, recall and the confusion matrix', () => {
+    const report = classificationReport([
+      { expected: 'valid', predicted: 'valid' },
+      { expected: 'valid', predicted: 'spam' },
+      { expected: 'spam', predicted: 'spam' },
+      { expected: 'spam', predicted: '(error)' },
+    ]);
+
+    assert.strictEqual(report.accuracy, 0.5);
+    assert.deepStrictEqual(report.labels.find((label) => label.label === 'spam'), {
+      label: 'spam',
+      support: 2,
+      precision: 0.5,
+      recall: 0.5,
+      f1: 0.5,
+    });
+    assert.deepStrictEqual(report.confusion, { valid: { valid: 1, spam: 1 }, spam: { spam: 1, '(error)': 1 } });
+  });
+});
+
+describe('runEval', () => {
+  it('should score a dataset and count failed examples as errors', async () => {
+    const provider = createMockLLMProvider({
+      fixtures: [fixtureFor(examples[0], 'valid_lead'), fixtureFor(examples[1], 'valid_lead')],
+    });
+
+    const run = await runEval(EVAL_TASKS.lead_scoring, examples, { provider });
+
+    assert.strictEqual(run.promptVersion, 'v1');
+    assert.strictEqual(run.errors, 1);
+    assert.strictEqual(run.labels.classification.accuracy, 0.333);
+    assert.deepStrictEqual(run.labels.classification.confusion.likely_candidate, { '(error)': 1 });
+  });
+
+  it('should call only the pinned model', async () => {
+    const provider = createMockLLMProvider({ fixtures: [{ feature: 'lead_scoring', response: leadScore('valid_lead') }] });
+
+    await runEval(EVAL_TASKS.lead_scoring, examples.slice(0, 1), { provider, model: 'google/gemini-2.5-flash' });
+
+    assert.deepStrictEqual(provider.calls.map((call) => call.model), ['google/gemini-2.5-flash']);
+  });
+
+  it('should match expected CV fields', async () => {
+    const cv = {
+      profile: { headline: null, bio: null, city: 'Stockholm', phone: null, linkedin_url: null, portfolio_url: null, years_of_experience: 3 },
+      education: [],
+      experience: [],
+      skills: [{ skill_name: 'Excel', level: 'advanced', years: null }],
+      languages: [{ language: 'Svenska', proficiency: 'native' }],
+      references: [],
+      certifications: [],
+      additional_notes: null,
+    };
+    const provider = createMockLLMProvider({ fixtures: [{ feature: 'cv_parsing', response: cv }] });
+
+    const run = await runEval(
+      EVAL_TASKS.cv_parsing,
+      [{ id: 'cv', input: { text: 'Sara Lind, Stockholm' }, expected: { profile: { city: 'stockholm' }, skills: ['Excel', 'SAP'], languages: ['svenska'] } }],
+      { provider }
+    );
+
+    assert.deepStrictEqual(run.examples[0].fields, { 'profile.city': true, skills: false, languages: true });
+  });
+
+  it('should only replay responses recorded with the same prompt', async () => {
+    const recorded = { ...fixtureFor(examples[0], 'valid_lead'), promptHash: 'another00000' };
+    const provider = createMockLLMProvider({ fixtures: [recorded], matchPrompt: true });
+
+    const run = await runEval(EVAL_TASKS.lead_scoring, examples.slice(0, 1), { provider });
+
+    assert.strictEqual(run.errors, 1);
+  });
+});
+
+describe('compareEvalRuns', () => {
+  it('should list the examples whose prediction changed', async () => {
+    const before = await runEval(EVAL_TASKS.lead_scoring, examples.slice(0, 2), {
+      provider: createMockLLMProvider({ fixtures: [{ feature: 'lead_scoring', response: leadScore('valid_lead') }] }),
+    });
+    const after = await runEval(EVAL_TASKS.lead_scoring, examples.slice(0, 2), {
+      provider: createMockLLMProvider({
+        fixtures: [fixtureFor(examples[0], 'valid_lead'), fixtureFor(examples[1], 'invalid_lead')],
+      }),
+    });
+
+    const comparison = compareEvalRuns(before, after);
+
+    assert.deepStrictEqual(comparison.accuracy.classification, { before: 0.5, after: 1 });
+    assert.deepStrictEqual(comparison.changes, [
+      { id: 'warehouse', dimension: 'classification', expected: 'invalid_lead', before: 'valid_lead', after: 'invalid_lead' },
+    ]);
+  });
+});
+
+describe('loadEvalDataset', () => {
+  it('should read the bundled datasets and reject invalid lines', () => {
+    const datasets = path.resolve('src/dev/prompt-eval/datasets');
+    assert.ok(loadEvalDataset(path.join(datasets, 'jobs.jsonl'), EVAL_TASKS.job_evaluation).length > 0);
+    assert.ok(loadEvalDataset(path.join(datasets, 'leads.jsonl'), EVAL_TASKS.lead_scoring).length > 0);
+    assert.ok(loadEvalDataset(path.join(datasets, 'cvs.jsonl'), EVAL_TASKS.cv_parsing).length > 0);
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompt-eval-'));
+    const file = path.join(dir, 'bad.jsonl');
+    fs.writeFileSync(file, '{"id":"a","input":{"text":""},"expected":{}}\n');
+
+    assert.throws(() => loadEvalDataset(file, EVAL_TASKS.cv_parsing), /bad\.jsonl:1: invalid example/);
+    fs.rmSync(dir, { recursive: true });
+  });
+});
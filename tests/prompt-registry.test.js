@@ -0,0 +1,55 @@
+/**
+ * Unit tests: Prompt registry
+ *
+ * Tests resolving the active prompt versions from PROMPT_VERSIONS (unknown
+ * prompts and versions fall back to the defaults), switching a version at
+ * runtime, and promptVersions() for the ai_prompts stored with results.
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert';
+import {
+  getPrompt,
+  listPrompts,
+  loadPromptVersions,
+  setPromptVersion,
+  promptVersions,
+} from '../dist/prompts/registry.js';
+
+afterEach(() => setPromptVersion('lead_scoring', undefined));
+
+describe('prompt registry', () => {
+  it('should register every prompt with a default version', () => {
+    const prompts = listPrompts();
+
+    assert.ok(prompts.some((prompt) => prompt.id === 'lead_scoring'));
+    assert.ok(prompts.every((prompt) => prompt.versions.includes(prompt.defaultVersion)));
+  });
+
+  it('should return the active version with its response schema', () => {
+    const prompt = getPrompt('lead_scoring');
+
+    assert.strictEqual(prompt.version, 'v1');
+    assert.match(prompt.systemPrompt, /Lead Qualification/);
+    assert.strictEqual(prompt.responseSchema.safeParse({ lead_score: 50 }).success, false);
+  });
+
+  it('should fall back to the default for unknown prompts and versions', () => {
+    const versions = loadPromptVersions({ lead_scoring: 'v9', not_a_prompt: 'v1', job_evaluation: 'v1' });
+
+    assert.strictEqual(versions.lead_scoring, 'v1');
+    assert.strictEqual(versions.job_evaluation, 'v1');
+    assert.strictEqual('not_a_prompt' in versions, false);
+  });
+
+  it('should reject switching to an unknown version', () => {
+    assert.throws(() => setPromptVersion('lead_scoring', 'v9'), /Unknown version v9 of prompt lead_scoring/);
+    assert.strictEqual(getPrompt('lead_scoring').version, 'v1');
+  });
+
+  it('should leave out unknown versions of stored prompts', () => {
+    assert.deepStrictEqual(promptVersions({ lead_scoring: 'v1', job_ad_generation: undefined }), { lead_scoring: 'v1' });
+  });
+});
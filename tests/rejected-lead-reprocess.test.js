@@ -0,0 +1,185 @@
+/**
+ * Route tests: rejected lead reprocessing (offline)
+ *
+ * Reruns stored scraping_rejected_leads rows through the webhook lead pipeline
+ * via the admin router, with in-memory storage and the mock LLM provider:
+ * valid leads get a company, contact and job ad linked back to the row,
+ * forced classifications override the AI, failures are recorded on the row,
+ * and the bulk endpoint selects rows by classification.
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import express from 'express';
+import adminRouter from '../dist/routes/admin.js';
+import { config } from '../dist/config/env.js';
+import { setRepositories, createMemoryRepositories } from '../dist/repositories/index.js';
+import { setLLMProvider } from '../dist/services/llmProvider.js';
+import { createMockLLMProvider } from '../dist/services/mockLLMProvider.js';
+
+const rejectedLead = (id, classification) => ({
+  id,
+  full_name: 'Anna Svensson',
+  email: `anna.${id}@techcompany.se`,
+  phone: '+46 70 123 4567',
+  company_name: 'Tech Company AB',
+  submitted_description: 'Vi behöver en junior ekonom med erfarenhet av bokföring för vårt växande team.',
+  source: 'website_form',
+  classification,
+  ai_reasoning: 'Processing error: AI scoring failed',
+  created_at: new Date().toISOString(),
+});
+
+const leadScore = (classification) => ({
+  lead_score: 82,
+  role_category: 'Ekonomi',
+  classification,
+  key_requirements: ['Bokföring'],
+  ai_reasoning: `Classified as ${classification}`,
+});
+
+const jobAd = {
+  title: 'Junior ekonom till Tech Company AB',
+  description: 'Vi söker en junior ekonom.',
+  location: 'Stockholm',
+  category: 'Ekonomi',
+  external_url: 'https://rookiework.se/jobs/junior-ekonom',
+  posted_date: '2026-03-01',
+};
+
+let server;
+let baseUrl;
+let repos;
+let llm;
+
+async function post(path, body = {}) {
+  const res = await fetch(`${baseUrl}/api/admin${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+before(async () => {
+  // Block outgoing email: nothing is whitelisted
+  config.emailWhitelist = ['nobody@example.invalid'];
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/admin', adminRouter);
+
+  await new Promise((resolve) => {
+    server = app.listen(0, resolve);
+  });
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => {
+  server.close();
+  setRepositories(undefined);
+  setLLMProvider(undefined);
+});
+
+beforeEach(() => {
+  repos = createMemoryRepositories({
+    scraping_rejected_leads: [rejectedLead('r1', 'processing_error'), rejectedLead('r2', 'likely_candidate')],
+  });
+  setRepositories(repos);
+  llm = createMockLLMProvider({ fixtures: [{ feature: 'job_ad_generation', response: jobAd }] });
+  setLLMProvider(llm);
+});
+
+describe('POST /api/admin/rejected-leads/:id/reprocess', () => {
+  it('should turn a processing error into a valid lead linked to its records', async () => {
+    llm.addFixture({ feature: 'lead_scoring', response: leadScore('valid_lead') });
+
+    const { status, body } = await post('/rejected-leads/r1/reprocess');
+
+    assert.strictEqual(status, 200);
+    assert.strictEqual(body.data.previous_classification, 'processing_error');
+    assert.strictEqual(body.data.classification, 'valid_lead');
+
+    const { tables } = repos;
+    const row = tables.scraping_rejected_leads.find((lead) => lead.id === 'r1');
+    assert.strictEqual(row.classification, 'valid_lead');
+    assert.strictEqual(row.company_id, tables.companies[0].id);
+    assert.strictEqual(row.contact_id, tables.contacts[0].id);
+    assert.strictEqual(row.job_ad_id, tables.jobs[0].id);
+    assert.deepStrictEqual(row.ai_prompts, { lead_scoring: 'v1' });
+    assert.deepStrictEqual(tables.jobs[0].ai_prompts, { lead_scoring: 'v1', job_ad_generation: 'v1' });
+    assert.strictEqual(row.reprocess_count, 1);
+    assert.strictEqual(tables.scraping_rejected_leads.length, 2);
+  });
+
+  it('should force a classification over the AI', async () => {
+    llm.addFixture({ feature: 'lead_scoring', response: leadScore('likely_candidate') });
+
+    const { body } = await post('/rejected-leads/r2/reprocess', { force_classification: 'valid_lead' });
+
+    assert.strictEqual(body.data.classification, 'valid_lead');
+    assert.match(repos.tables.scraping_rejected_leads[1].ai_reasoning, /^Classification forced to valid_lead \(AI: likely_candidate/);
+    assert.strictEqual(repos.tables.jobs.length, 1);
+  });
+
+  it('should update the row when the lead is rejected again', async () => {
+    llm.addFixture({ feature: 'lead_scoring', response: leadScore('invalid_lead') });
+
+    const { body } = await post('/rejected-leads/r1/reprocess');
+
+    assert.strictEqual(body.data.classification, 'invalid_lead');
+    assert.strictEqual(repos.tables.scraping_rejected_leads.length, 2);
+    assert.strictEqual(repos.tables.scraping_rejected_leads[0].ai_reasoning, 'Classified as invalid_lead');
+    assert.strictEqual(repos.tables.companies.length, 0);
+  });
+
+  it('should record a failed run on the row', async () => {
+    llm.injectFailure({ feature: 'lead_scoring', mode: 'bad_request' });
+
+    const { status, body } = await post('/rejected-leads/r1/reprocess');
+
+    assert.strictEqual(status, 500);
+    assert.strictEqual(body.data.status, 'failed');
+    assert.strictEqual(repos.tables.scraping_rejected_leads[0].classification, 'processing_error');
+    assert.match(repos.tables.scraping_rejected_leads[0].reprocess_error, /AI scoring failed/);
+  });
+
+  it('should not reprocess a lead twice into a valid lead', async () => {
+    llm.addFixture({ feature: 'lead_scoring', response: leadScore('valid_lead') });
+
+    await post('/rejected-leads/r1/reprocess');
+    const { status } = await post('/rejected-leads/r1/reprocess');
+
+    assert.strictEqual(status, 409);
+    assert.strictEqual(repos.tables.jobs.length, 1);
+  });
+
+  it('should return 404 for an unknown lead', async () => {
+    const { status } = await post('/rejected-leads/missing/reprocess');
+
+    assert.strictEqual(status, 404);
+  });
+});
+
+describe('POST /api/admin/rejected-leads/reprocess', () => {
+  it('should reprocess the leads with a classification', async () => {
+    llm.addFixture({ feature: 'lead_scoring', response: leadScore('valid_lead') });
+
+    const { body } = await post('/rejected-leads/reprocess', { classification: 'processing_error' });
+
+    assert.deepStrictEqual(
+      { total: body.stats.total, reprocessed: body.stats.reprocessed },
+      { total: 1, reprocessed: 1 }
+    );
+    assert.strictEqual(body.stats.results[0].id, 'r1');
+    assert.strictEqual(repos.tables.scraping_rejected_leads[1].classification, 'likely_candidate');
+  });
+
+  it('should require ids or a classification', async () => {
+    const { status } = await post('/rejected-leads/reprocess', { force_classification: 'valid_lead' });
+
+    assert.strictEqual(status, 400);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit tests: Async scraper run queue
+ *
+ * Tests enqueueScraperRun() / getQueuedRun() — runs execute one at a time in
+ * submission order, batch progress is exposed while running, and failed tasks
+ * end up as 'failed' with the error message.
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { enqueueScraperRun, getQueuedRun, getQueuePosition } from '../dist/services/scraperRunQueue.js';
+
+function deferred() {
+  let resolve;
+  let reject;
+  const promise = new Promise((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('scraperRunQueue', () => {
+  it('should run queued tasks sequentially and report progress', async () => {
+    const first = deferred();
+    const second = deferred();
+    let reportProgress;
+
+    enqueueScraperRun({
+      runId: 'run-a',
+      source: 'indeed',
+      scraperType: 'job',
+      task: async (onProgress) => {
+        reportProgress = onProgress;
+        await first.promise;
+        return { stats: { valid: 3 } };
+      },
+    });
+    enqueueScraperRun({
+      runId: 'run-b',
+      source: 'linkedin',
+      scraperType: 'job',
+      task: async () => {
+        await second.promise;
+        return { stats: { valid: 1 } };
+      },
+    });
+
+    assert.strictEqual(getQueuedRun('run-a').status, 'running');
+    assert.strictEqual(getQueuedRun('run-a').stage, 'fetching');
+    assert.strictEqual(getQueuedRun('run-b').status, 'queued');
+    assert.strictEqual(getQueuePosition('run-b'), 1);
+
+    reportProgress({ completed: 3, total: 9, succeeded: 2 });
+    assert.strictEqual(getQueuedRun('run-a').stage, 'processing');
+    assert.deepStrictEqual(getQueuedRun('run-a').progress, { completed: 3, total: 9, succeeded: 2 });
+
+    first.resolve();
+    await tick();
+
+    assert.strictEqual(getQueuedRun('run-a').status, 'completed');
+    assert.deepStrictEqual(getQueuedRun('run-a').result, { stats: { valid: 3 } });
+    assert.strictEqual(getQueuedRun('run-b').status, 'running');
+
+    second.resolve();
+    await tick();
+
+    assert.strictEqual(getQueuedRun('run-b').status, 'completed');
+  });
+
+  it('should mark a run as failed when its task throws', async () => {
+    enqueueScraperRun({
+      runId: 'run-fail',
+      source: 'google_maps',
+      scraperType: 'lead',
+      task: async () => {
+        throw new Error('Apify actor timed out');
+      },
+    });
+    await tick();
+
+    const run = getQueuedRun('run-fail');
+    assert.strictEqual(run.status, 'failed');
+    assert.strictEqual(run.stage, 'finished');
+    assert.strictEqual(run.error, 'Apify actor timed out');
+    assert.ok(run.finishedAt);
+  });
+
+  it('should return undefined for unknown runs', () => {
+    assert.strictEqual(getQueuedRun('does-not-exist'), undefined);
+  });
+});
@@ -3,7 +3,7 @@
  *
  * Tests the validateLead() utility (scoring completeness, spam detection)
  * and extractDomain() (corporate email parsing, personal email filtering,
- * Swedish company name suffix stripping like AB/Aktiebolag).
+ * no domain guessed from the company name).
  *
  * Run from project root:
  *   pnpm test
@@ -105,52 +105,47 @@ describe('extractDomain', () => {
     assert.strictEqual(result.domain_source, 'email');
   });
 
-  it('should skip personal email domains and guess from company', () => {
+  it('should not take the domain of an email unrelated to the company name', () => {
     const data = {
-      email: 'anna@gmail.com',
+      email: 'anna@academicwork.se',
       company_name: 'Tech Company AB',
     };
 
     const result = extractDomain(data);
 
-    assert.strictEqual(result.extracted_domain, 'techcompany.se');
-    assert.strictEqual(result.domain_source, 'guessed');
+    assert.strictEqual(result.extracted_domain, null);
+    assert.strictEqual(result.resolved_domain, null);
   });
 
-  it('should skip hotmail.se as personal domain', () => {
+  it('should skip personal email domains without guessing from the company name', () => {
     const data = {
-      email: 'user@hotmail.se',
-      company_name: 'Acme AB',
+      email: 'anna@gmail.com',
+      company_name: 'Tech Company AB',
     };
 
     const result = extractDomain(data);
 
-    assert.strictEqual(result.domain_source, 'guessed');
-    assert.strictEqual(result.extracted_domain, 'acme.se');
+    assert.strictEqual(result.extracted_domain, null);
+    assert.strictEqual(result.domain_source, 'none');
+    assert.strictEqual(result.resolved_domain, null);
   });
 
-  it('should strip AB suffix when guessing domain', () => {
+  it('should skip hotmail.se as personal domain', () => {
     const data = {
-      email: 'user@outlook.com',
-      company_name: 'Nordea AB',
+      email: 'user@hotmail.se',
+      company_name: 'Acme AB',
     };
 
     const result = extractDomain(data);
 
-    assert.strictEqual(result.extracted_domain, 'nordea.se');
-    assert.strictEqual(result.domain_source, 'guessed');
+    assert.strictEqual(result.domain_source, 'none');
+    assert.strictEqual(result.extracted_domain, null);
   });
 
-  it('should strip Aktiebolag suffix when guessing domain', () => {
-    const data = {
-      email: 'user@icloud.com',
-      company_name: 'Volvo Aktiebolag',
-    };
-
-    const result = extractDomain(data);
+  it('should record the confidence of an email domain that matches the company', () => {
+    const result = extractDomain({ email: 'anna@techcompany.se', company_name: 'Tech Company AB' });
 
-    assert.strictEqual(result.extracted_domain, 'volvo.se');
-    assert.strictEqual(result.domain_source, 'guessed');
+    assert.deepStrictEqual(result.resolved_domain, { domain: 'techcompany.se', source: 'email', confidence: 0.8 });
   });
 
   it('should return none when no email or company', () => {
@@ -0,0 +1,427 @@
+/**
+ * Route tests: POST /api/webhook (offline)
+ *
+ * Runs form submissions through the webhook router with in-memory storage
+ * and the mock LLM provider: valid leads create a company, signal, contact,
+ * job ad, access request and admin notification; spam and AI-rejected leads
+ * are stored as rejected leads; processing failures are saved and alerted.
+ * Valid-lead side effects run through the outbox and are retried when they fail.
+ * Repeated submissions return the stored result, and signed requests outside
+ * the timestamp window are rejected. Candidate, partnership and newsletter
+ * forms are stored by their own pipelines without lead scoring; candidate CVs
+ * are parsed by the outbox.
+ *
+ * Run from project root:
+ *   pnpm test
+ */
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import crypto from 'node:crypto';
+import express from 'express';
+import webhookRouter from '../dist/routes/webhook.js';
+import { config } from '../dist/config/env.js';
+import { setRepositories, createMemoryRepositories } from '../dist/repositories/index.js';
+import { setLLMProvider } from '../dist/services/llmProvider.js';
+import { createMockLLMProvider } from '../dist/services/mockLLMProvider.js';
+import { retryOutboxSubmission, processOutbox } from '../dist/services/webhookOutboxService.js';
+
+const submission = {
+  name: 'Anna Svensson',
+  email: 'anna@techcompany.se',
+  phone: '+46 70 123 4567',
+  company: 'Tech Company AB',
+  industry: 'technology',
+  service_type: 'direktrekrytering',
+  message: 'Vi behöver en junior ekonom med erfarenhet av bokföring för vårt växande team.',
+};
+
+const leadScore = (classification) => ({
+  lead_score: 82,
+  role_category: 'Ekonomi',
+  classification,
+  key_requirements: ['Bokföring'],
+  ai_reasoning: `Classified as ${classification}`,
+});
+
+const jobAd = {
+  title: 'Junior ekonom till Tech Company AB',
+  description: 'Vi söker en junior ekonom.',
+  location: 'Stockholm',
+  category: 'Ekonomi',
+  external_url: 'https://rookiework.se/jobs/junior-ekonom',
+  posted_date: '2026-03-01',
+};
+
+let server;
+let baseUrl;
+let repos;
+let llm;
+
+async function postWebhook(body, headers = {}) {
+  const res = await fetch(`${baseUrl}/api/webhook`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+  const json = await res.json();
+  // Let fire-and-forget side effects (access request, notifications, alerts) settle
+  await new Promise((resolve) => setImmediate(resolve));
+  return { status: res.status, body: json, replayed: res.headers.get('idempotent-replayed') === 'true' };
+}
+
+function sign(body, secret, timestamp) {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${JSON.stringify(body)}`).digest('hex');
+  return { 'x-webhook-timestamp': String(timestamp), 'x-webhook-signature': signature };
+}
+
+before(async () => {
+  // Block outgoing email: nothing is whitelisted
+  config.emailWhitelist = ['nobody@example.invalid'];
+
+  const app = express();
+  app.use(
+    express.json({
+      verify: (req, _res, buf) => {
+        req.rawBody = buf;
+      },
+    })
+  );
+  app.use('/api', webhookRouter);
+
+  await new Promise((resolve) => {
+    server = app.listen(0, resolve);
+  });
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+  // Candidate CVs are downloaded from "Supabase Storage" on the test server
+  config.supabase.url = baseUrl;
+});
+
+after(() => {
+  server.close();
+  setRepositories(undefined);
+  setLLMProvider(undefined);
+});
+
+beforeEach(() => {
+  repos = createMemoryRepositories({ user_profiles: [{ id: 'p1', user_id: 'admin-1', role: 'admin' }] });
+  setRepositories(repos);
+  llm = createMockLLMProvider({ fixtures: [{ feature: 'job_ad_generation', response: jobAd }] });
+  setLLMProvider(llm);
+});
+
+describe('POST /api/webhook', () => {
+  it('should store a valid lead and its job ad', async () => {
+    llm.addFixture({ feature: 'lead_scoring', response: leadScore('valid_lead') });
+
+    const { status, body } = await postWebhook(submission);
+
+    assert.strictEqual(status, 200);
+    assert.strictEqual(body.classification, 'valid_lead');
+    assert.strictEqual(body.job_ad_title, jobAd.title);
+
+    const { tables } = repos;
+    assert.strictEqual(tables.companies.length, 1);
+    assert.strictEqual(tables.companies[0].domain, 'techcompany.se');
+    assert.strictEqual(tables.scraping_signals[0].signal_type, 'website_form_submission');
+    assert.strictEqual(tables.contacts[0].email, submission.email);
+    assert.strictEqual(tables.jobs[0].company_id, tables.companies[0].id);
+    assert.strictEqual(tables.jobs[0].published_status, 'draft');
+    assert.strictEqual(tables.client_access_requests[0].first_name, 'Anna');
+    assert.strictEqual(tables.notifications[0].user_id, 'admin-1');
+  });
+
+  it('should reuse the company for a second lead from the same domain', async () => {
+    llm.addFixture({ feature: 'lead_scoring', response: leadScore('valid_lead') });
+
+    await postWebhook(submission);
+    await postWebhook({ ...submission, name: 'Bo Berg', email: 'bo@techcompany.se' });
+
+    assert.strictEqual(repos.tables.companies.length, 1);
+    assert.strictEqual(repos.tables.contacts.length, 2);
+  });
+
+  it('should store AI-rejected leads with the AI reasoning', async () => {
+    llm.addFixture({ feature: 'lead_scoring', response: leadScore('likely_candidate') });
+
+    const { body } = await postWebhook(submission);
+
+    assert.strictEqual(body.classification, 'likely_candidate');
+    assert.strictEqual(repos.tables.companies.length, 0);
+    assert.strictEqual(repos.tables.scraping_rejected_leads[0].classification, 'likely_candidate');
+    assert.strictEqual(repos.tables.scraping_rejected_leads[0].ai_reasoning, 'Classified as likely_candidate');
+  });
+
+  it('should fast-reject spam without calling the AI', async () => {
+    const { body } = await postWebhook({
+      ...submission,
+      message: 'Buy viagra now! Click here for limited offer http://spam.com',
+    });
+
+    assert.strictEqual(body.classification, 'spam');
+    assert.strictEqual(repos.tables.scraping_rejected_leads[0].classification, 'likely_spam');
+    assert.deepStrictEqual(
+      repos.tables.scraping_rejected_leads[0].quality_breakdown.hits.map((hit) => hit.rule),
+      ['spam_keywords', 'marketing_phrases', 'links']
+    );
+    assert.strictEqual(llm.calls.length, 0);
+  });
+
+  it('should fast-reject repeat submitters that add up to the threshold', async () => {
+    for (let i = 0; i < 3; i++) {
+      repos.tables.scraping_rejected_leads.push({ id: `r${i}`, email: submission.email, created_at: new Date().toISOString() });
+    }
+
+    const { body } = await postWebhook({ ...submission, message: `${submission.message} Mer info: http://techcompany.se` });
+
+    assert.strictEqual(body.classification, 'spam');
+    assert.match(repos.tables.scraping_rejected_leads[3].ai_reasoning, /links .*repeat_submitter/);
+  });
+
+  it('should save the submission and raise an alert when processing fails', async () => {
+    llm.injectFailure({ feature: 'lead_scoring', mode: 'bad_request' });
+
+    const { status, body } = await postWebhook(submission);
+
+    assert.strictEqual(status, 200);
+    assert.strictEqual(body.success, true);
+    assert.strictEqual(repos.tables.scraping_rejected_leads[0].classification, 'processing_error');
+    assert.strictEqual(repos.tables.system_alerts[0].stage, 'webhook_processing');
+  });
+
+  it('should reject invalid request bodies', async () => {
+    const { status } = await postWebhook({ name: 'Anna' });
+
+    assert.strictEqual(status, 400);
+    assert.strictEqual(repos.tables.scraping_rejected_leads.length, 0);
+  });
+});
+
+describe('POST /api/webhook form types', () => {
+  const candidate = { form_type: 'candidate', name: 'Bo Berg', email: 'Bo.Berg@gmail.com', city: 'Uppsala' };
+
+  it('should store a candidate application without lead scoring', async () => {
+    const { status, body } = await postWebhook(candidate);
+
+    assert.strictEqual(status, 200);
+    assert.strictEqual(body.form_type, 'candidate');
+    assert.strictEqual(body.cv_status, 'none');
+    assert.strictEqual(repos.tables.candidate_applications[0].id, body.record_id);
+    assert.strictEqual(repos.tables.candidate_applications[0].email, 'bo.berg@gmail.com');
+    assert.strictEqual(repos.tables.scraping_rejected_leads.length, 0);
+    assert.strictEqual(llm.calls.length, 0);
+  });
+
+  it('should parse the CV in the outbox and keep the application when that fails', async () => {
+    const fileUrl = `${baseUrl}/storage/v1/object/public/resumes/missing-cv.pdf`;
+    const { body } = await postWebhook({ ...candidate, fileUrl });
+
+    assert.strictEqual(body.cv_status, 'pending');
+    assert.strictEqual(repos.tables.candidate_applications[0].cv_status, 'pending');
+    assert.strictEqual(repos.tables.webhook_outbox[0].step, 'parse_cv');
+    assert.strictEqual(repos.tables.webhook_outbox[0].status, 'pending');
+
+    await processOutbox();
+
+    assert.strictEqual(repos.tables.candidate_applications[0].cv_status, 'failed');
+    assert.match(repos.tables.candidate_applications[0].cv_error, /Failed to download PDF: 404/);
+    assert.strictEqual(repos.tables.webhook_outbox[0].attempts, 1);
+    assert.strictEqual(repos.tables.webhook_outbox[0].status, 'pending');
+  });
+
+  it('should reject a CV url outside Supabase Storage', async () => {
+    const { status } = await postWebhook({ ...candidate, fileUrl: 'http://169.254.169.254/latest/meta-data' });
+
+    assert.strictEqual(status, 400);
+    assert.strictEqual(repos.tables.candidate_applications.length, 0);
+  });
+
+  it('should store a partnership inquiry and notify the admins', async () => {
+    const { body } = await postWebhook({ form_type: 'partnership', name: 'Bo Berg', email: 'bo@skola.se', company: 'Skolan' });
+
+    assert.strictEqual(body.form_type, 'partnership');
+    assert.strictEqual(repos.tables.form_submissions[0].company_name, 'Skolan');
+    assert.strictEqual(repos.tables.notifications[0].category, 'partnership');
+    assert.strictEqual(repos.tables.companies.length, 0);
+  });
+
+  it('should sign an email up for the newsletter once', async () => {
+    const first = await postWebhook({ form_type: 'newsletter', email: 'bo@gmail.com' });
+    const second = await postWebhook({ form_type: 'newsletter', email: 'BO@gmail.com', name: 'Bo' });
+
+    assert.strictEqual(second.body.record_id, first.body.record_id);
+    assert.strictEqual(repos.tables.form_submissions.length, 1);
+  });
+});
+
+describe('POST /api/webhook idempotency', () => {
+  beforeEach(() => {
+    llm.addFixture({ feature: 'lead_scoring', response: leadScore('valid_lead') });
+  });
+
+  it('should return the stored result for a repeated Idempotency-Key', async () => {
+    const first = await postWebhook(submission, { 'Idempotency-Key': 'form-123' });
+    const second = await postWebhook(submission, { 'Idempotency-Key': 'form-123' });
+
+    assert.strictEqual(first.replayed, false);
+    assert.strictEqual(second.replayed, true);
+    assert.deepStrictEqual(second.body, first.body);
+    assert.strictEqual(repos.tables.scraping_signals.length, 1);
+    assert.strictEqual(repos.tables.jobs.length, 1);
+    assert.strictEqual(repos.tables.client_access_requests.length, 1);
+  });
+
+  it('should treat an identical body without a key as a repeat', async () => {
+    await postWebhook(submission);
+    const second = await postWebhook(submission);
+
+    assert.strictEqual(second.replayed, true);
+    assert.strictEqual(repos.tables.jobs.length, 1);
+  });
+
+  it('should use a stable submission id as the job ad external id', async () => {
+    await postWebhook(submission, { 'Idempotency-Key': 'form-123' });
+
+    assert.match(repos.tables.jobs[0].external_id, /^[0-9a-f]{32}$/);
+  });
+
+  it('should reject a key reused for a different body', async () => {
+    await postWebhook(submission, { 'Idempotency-Key': 'form-123' });
+    const { status } = await postWebhook({ ...submission, message: 'Ny förfrågan om en lönekonsult.' }, { 'Idempotency-Key': 'form-123' });
+
+    assert.strictEqual(status, 422);
+    assert.strictEqual(repos.tables.jobs.length, 1);
+  });
+
+  it('should not store rejected requests', async () => {
+    await postWebhook({ name: 'Anna' }, { 'Idempotency-Key': 'form-123' });
+    const retry = await postWebhook({ name: 'Anna' }, { 'Idempotency-Key': 'form-123' });
+
+    assert.strictEqual(retry.status, 400);
+    assert.strictEqual(retry.replayed, false);
+    assert.strictEqual(repos.tables.webhook_submissions.length, 0);
+  });
+});
+
+describe('POST /api/webhook signature', () => {
+  const secret = 'test-secret';
+  const now = () => Math.floor(Date.now() / 1000);
+
+  beforeEach(() => {
+    config.webhook.secret = secret;
+    llm.addFixture({ feature: 'lead_scoring', response: leadScore('valid_lead') });
+  });
+
+  afterEach(() => {
+    config.webhook.secret = undefined;
+  });
+
+  it('should accept a request signed with a current timestamp', async () => {
+    const { status, body } = await postWebhook(submission, sign(submission, secret, now()));
+
+    assert.strictEqual(status, 200);
+    assert.strictEqual(body.classification, 'valid_lead');
+  });
+
+  it('should reject a signed request outside the replay window', async () => {
+    const stale = now() - config.webhook.timestampToleranceSeconds - 60;
+
+    const { status } = await postWebhook(submission, sign(submission, secret, stale));
+
+    assert.strictEqual(status, 401);
+    assert.strictEqual(repos.tables.scraping_signals.length, 0);
+  });
+
+  it('should reject a signature that does not cover the timestamp', async () => {
+    const signature = crypto.createHmac('sha256', secret).update(JSON.stringify(submission)).digest('hex');
+
+    const { status } = await postWebhook(submission, {
+      'x-webhook-timestamp': String(now()),
+      'x-webhook-signature': signature,
+    });
+
+    assert.strictEqual(status, 401);
+  });
+
+  it('should reject a request without a timestamp', async () => {
+    const { 'x-webhook-signature': signature } = sign(submission, secret, now());
+
+    const { status } = await postWebhook(submission, { 'x-webhook-signature': signature });
+
+    assert.strictEqual(status, 401);
+  });
+});
+
+describe('POST /api/webhook outbox', () => {
+  beforeEach(() => {
+    llm.addFixture({ feature: 'lead_scoring', response: leadScore('valid_lead') });
+  });
+
+  const stepStatus = (step) => repos.tables.webhook_outbox.find((row) => row.step === step).status;
+
+  it('should complete every step for a valid lead', async () => {
+    await postWebhook(submission);
+
+    assert.strictEqual(repos.tables.webhook_outbox.length, 6);
+    assert.ok(repos.tables.webhook_outbox.every((row) => row.status === 'completed'));
+  });
+
+  it('should keep the lead and retry a failed job ad generation', async () => {
+    llm.injectFailure({ feature: 'job_ad_generation', mode: 'bad_request' });
+
+    const { body } = await postWebhook(submission);
+
+    assert.strictEqual(body.classification, 'valid_lead');
+    assert.strictEqual(body.job_ad_title, undefined);
+    assert.match(body.message, /will be retried/);
+    assert.strictEqual(repos.tables.scraping_rejected_leads.length, 0);
+    assert.strictEqual(repos.tables.contacts.length, 1);
+    assert.strictEqual(repos.tables.client_access_requests.length, 1);
+    assert.strictEqual(repos.tables.notifications.length, 1);
+    assert.strictEqual(repos.tables.jobs.length, 0);
+    assert.strictEqual(stepStatus('generate_job_ad'), 'pending');
+    assert.strictEqual(stepStatus('create_job_ad'), 'pending');
+
+    // Not due yet: the worker leaves it alone
+    const early = await processOutbox();
+    assert.strictEqual(early.submissions, 0);
+
+    llm.reset();
+    const summary = await retryOutboxSubmission(repos.tables.webhook_outbox[0].submission_id);
+
+    assert.strictEqual(summary.pending, 0);
+    assert.strictEqual(summary.failed, 0);
+    assert.strictEqual(repos.tables.jobs.length, 1);
+    assert.strictEqual(repos.tables.jobs[0].title, jobAd.title);
+    assert.strictEqual(repos.tables.notifications.length, 1);
+  });
+
+  it('should pick up due steps in the worker', async () => {
+    llm.injectFailure({ feature: 'job_ad_generation', mode: 'bad_request' });
+    await postWebhook(submission);
+    llm.reset();
+
+    for (const row of repos.tables.webhook_outbox) {
+      row.next_attempt_at = new Date(Date.now() - 1000).toISOString();
+    }
+    const stats = await processOutbox();
+
+    assert.strictEqual(stats.submissions, 1);
+    assert.strictEqual(stats.pending, 0);
+    assert.strictEqual(stepStatus('send_lead_email'), 'completed');
+  });
+
+  it('should mark a step and its dependents failed after the last attempt', async () => {
+    llm.injectFailure({ feature: 'job_ad_generation', mode: 'bad_request' });
+    await postWebhook(submission);
+
+    const generate = repos.tables.webhook_outbox.find((row) => row.step === 'generate_job_ad');
+    generate.attempts = 7;
+    generate.next_attempt_at = new Date(Date.now() - 1000).toISOString();
+    await processOutbox();
+
+    assert.strictEqual(stepStatus('generate_job_ad'), 'failed');
+    assert.strictEqual(stepStatus('create_job_ad'), 'failed');
+    assert.strictEqual(stepStatus('send_lead_email'), 'failed');
+    assert.ok(repos.tables.system_alerts.some((alert) => alert.stage === 'webhook_outbox'));
+  });
+});
@@ -3,14 +3,16 @@
  *
  * Tests the Zod-based webhook request parser — verifies it correctly accepts
  * valid form submissions and rejects missing/invalid fields (name, email, company).
- * Also tests the validation error formatter.
+ * Also tests the validation error formatter, form_type dispatch in parseWebhookForm
+ * and the Supabase Storage check on candidate CV urls.
  *
  * Run from project root:
  *   pnpm test
  */
 import { describe, it } from 'node:test';
 import assert from 'node:assert';
-import { parseWebhookRequest, formatValidationErrors } from '../dist/schemas/webhook.js';
+import { parseWebhookRequest, parseWebhookForm, formatValidationErrors, isCvStorageUrl } from '../dist/schemas/webhook.js';
+import { config } from '../dist/config/env.js';
 
 describe('parseWebhookRequest', () => {
   it('should accept valid complete request', () => {
@@ -158,3 +160,54 @@ describe('formatValidationErrors', () => {
     assert.ok(formatted.includes('company'));
   });
 });
+
+describe('parseWebhookForm', () => {
+  it('should treat a body without form_type as an employer inquiry', () => {
+    const result = parseWebhookForm({ name: 'Anna Svensson', email: 'anna@company.se', company: 'Company AB' });
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.data.form_type, 'employer');
+    assert.strictEqual(result.data.company, 'Company AB');
+  });
+
+  it('should validate each form type with its own schema', () => {
+    const candidate = parseWebhookForm({ form_type: 'candidate', name: 'Bo Berg', email: 'bo@gmail.com' });
+    const newsletter = parseWebhookForm({ form_type: 'newsletter', email: 'bo@gmail.com' });
+    const partnership = parseWebhookForm({ form_type: 'partnership', name: 'Bo Berg', email: 'bo@skola.se' });
+
+    assert.strictEqual(candidate.success, true);
+    assert.strictEqual(newsletter.success, true);
+    assert.strictEqual(partnership.success, false);
+    assert.ok(formatValidationErrors(partnership.errors).includes('company'));
+  });
+
+  it('should reject an invalid CV url and unknown form types', () => {
+    const candidate = parseWebhookForm({ form_type: 'candidate', name: 'Bo Berg', email: 'bo@gmail.com', fileUrl: 'cv.pdf' });
+    const unknown = parseWebhookForm({ form_type: 'event', email: 'bo@gmail.com' });
+
+    assert.strictEqual(candidate.success, false);
+    assert.strictEqual(unknown.success, false);
+  });
+});
+
+describe('isCvStorageUrl', () => {
+  const storage = 'https://project.supabase.co/storage/v1/object';
+
+  it('should accept public, signed and authenticated urls in the CV bucket', () => {
+    config.supabase.url = 'https://project.supabase.co';
+
+    assert.strictEqual(isCvStorageUrl(`${storage}/public/resumes/abc123.pdf`), true);
+    assert.strictEqual(isCvStorageUrl(`${storage}/sign/resumes/abc123.pdf?token=xyz`), true);
+    assert.strictEqual(isCvStorageUrl(`${storage}/resumes/abc123.pdf`), true);
+  });
+
+  it('should reject other hosts, buckets and paths out of the bucket', () => {
+    config.supabase.url = 'https://project.supabase.co';
+
+    assert.strictEqual(isCvStorageUrl('https://attacker.example/storage/v1/object/public/resumes/a.pdf'), false);
+    assert.strictEqual(isCvStorageUrl('http://project.supabase.co/storage/v1/object/public/resumes/a.pdf'), false);
+    assert.strictEqual(isCvStorageUrl(`${storage}/public/avatars/a.pdf`), false);
+    assert.strictEqual(isCvStorageUrl(`${storage}/public/resumes/../avatars/a.pdf`), false);
+    assert.strictEqual(isCvStorageUrl('http://localhost:3000/api/admin'), false);
+  });
+});
@@ -3,6 +3,7 @@
 # Webhook Signature Verification Tests
 # =====================================
 # Tests HMAC-SHA256 signature verification on the webhook endpoint.
+# Signatures cover "<unix timestamp>.<body>"; the timestamp goes in x-webhook-timestamp.
 #
 # Usage:
 #   ./tests/webhook-signature.sh [API_URL]
@@ -94,11 +95,13 @@ echo "------------------------------------"
 echo "Expected: 200 OK"
 echo ""
 
-# Generate HMAC-SHA256 signature
-SIGNATURE=$(echo -n "$BODY" | openssl dgst -sha256 -hmac "$WEBHOOK_SECRET" | cut -d' ' -f2)
+# Generate HMAC-SHA256 signature over timestamp and body
+TIMESTAMP=$(date +%s)
+SIGNATURE=$(echo -n "$TIMESTAMP.$BODY" | openssl dgst -sha256 -hmac "$WEBHOOK_SECRET" | cut -d' ' -f2)
 
 RESPONSE=$(curl -s -w "\n%{http_code}" -X POST "$WEBHOOK_ENDPOINT" \
   -H "Content-Type: application/json" \
+  -H "x-webhook-timestamp: $TIMESTAMP" \
   -H "x-webhook-signature: $SIGNATURE" \
   -d "$BODY")
 
@@ -115,5 +118,35 @@ else
 fi
 echo ""
 
+# ------------------------------------------------------------------------------
+# Test 4: Validly signed request with a STALE timestamp (should fail with 401)
+# ------------------------------------------------------------------------------
+echo "Test 4: Request WITH STALE timestamp (replay)"
+echo "---------------------------------------------"
+echo "Expected: 401 Unauthorized"
+echo ""
+
+STALE_TIMESTAMP=$(( $(date +%s) - 3600 ))
+SIGNATURE=$(echo -n "$STALE_TIMESTAMP.$BODY" | openssl dgst -sha256 -hmac "$WEBHOOK_SECRET" | cut -d' ' -f2)
+
+RESPONSE=$(curl -s -w "\n%{http_code}" -X POST "$WEBHOOK_ENDPOINT" \
+  -H "Content-Type: application/json" \
+  -H "x-webhook-timestamp: $STALE_TIMESTAMP" \
+  -H "x-webhook-signature: $SIGNATURE" \
+  -d "$BODY")
+
+HTTP_CODE=$(echo "$RESPONSE" | tail -n1)
+RESPONSE_BODY=$(echo "$RESPONSE" | sed '$d')
+
+echo "Response: $RESPONSE_BODY"
+echo "Status: $HTTP_CODE"
+
+if [ "$HTTP_CODE" = "401" ]; then
+  echo "✅ PASSED"
+else
+  echo "❌ FAILED (expected 401, got $HTTP_CODE)"
+fi
+echo ""
+
 echo "======================================="
 echo "Tests complete"